@@ -0,0 +1,21 @@
+-- CreateTable
+CREATE TABLE "project_shares" (
+    "id" TEXT NOT NULL,
+    "projectId" TEXT NOT NULL,
+    "token" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "revokedAt" TIMESTAMP(3),
+    "viewCount" INTEGER NOT NULL DEFAULT 0,
+    "forkCount" INTEGER NOT NULL DEFAULT 0,
+
+    CONSTRAINT "project_shares_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "project_shares_token_key" ON "project_shares"("token");
+
+-- CreateIndex
+CREATE INDEX "project_shares_projectId_idx" ON "project_shares"("projectId");
+
+-- AddForeignKey
+ALTER TABLE "project_shares" ADD CONSTRAINT "project_shares_projectId_fkey" FOREIGN KEY ("projectId") REFERENCES "saved_projects"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,27 @@
+-- CreateTable
+CREATE TABLE "broadcast_archives" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "roomId" TEXT NOT NULL,
+    "roomName" TEXT NOT NULL,
+    "profile" TEXT NOT NULL,
+    "status" TEXT NOT NULL,
+    "renditions" JSONB,
+    "includeAudioFile" BOOLEAN NOT NULL DEFAULT false,
+    "audioKey" TEXT,
+    "durationSeconds" DOUBLE PRECISION,
+    "sizeBytes" INTEGER,
+    "startedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "endedAt" TIMESTAMP(3),
+
+    CONSTRAINT "broadcast_archives_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "broadcast_archives_userId_idx" ON "broadcast_archives"("userId");
+
+-- CreateIndex
+CREATE INDEX "broadcast_archives_roomId_idx" ON "broadcast_archives"("roomId");
+
+-- AddForeignKey
+ALTER TABLE "broadcast_archives" ADD CONSTRAINT "broadcast_archives_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
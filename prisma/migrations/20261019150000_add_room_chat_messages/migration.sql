@@ -0,0 +1,15 @@
+-- CreateTable
+CREATE TABLE "room_chat_messages" (
+    "id" TEXT NOT NULL,
+    "roomId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "username" TEXT NOT NULL,
+    "message" TEXT NOT NULL,
+    "sentAt" TIMESTAMP(3) NOT NULL,
+    "editedAt" TIMESTAMP(3),
+
+    CONSTRAINT "room_chat_messages_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "room_chat_messages_roomId_sentAt_idx" ON "room_chat_messages"("roomId", "sentAt");
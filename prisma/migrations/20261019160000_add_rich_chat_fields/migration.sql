@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "room_chat_messages" ADD COLUMN     "replyToId" TEXT,
+ADD COLUMN     "threadId" TEXT,
+ADD COLUMN     "mentions" JSONB,
+ADD COLUMN     "reactions" JSONB,
+ADD COLUMN     "reference" JSONB;
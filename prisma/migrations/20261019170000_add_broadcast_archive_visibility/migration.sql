@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "broadcast_archives" ADD COLUMN     "isPrivate" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "isHidden" BOOLEAN NOT NULL DEFAULT false;
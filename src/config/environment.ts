@@ -55,6 +55,13 @@ export const config = {
   webrtc: {
     enabled: process.env.WEBRTC_ENABLED === 'true',
     requireHttps: process.env.WEBRTC_REQUIRE_HTTPS === 'true',
+    // Handed to clients with every voice join, and by GET /api/webrtc/ice-servers
+    stunUrls: (process.env.WEBRTC_STUN_SERVERS || 'stun:stun.l.google.com:19302,stun:stun1.l.google.com:19302,stun:stun2.l.google.com:19302')
+      .split(',').map((url) => url.trim()).filter(Boolean),
+    turnUrls: (process.env.WEBRTC_TURN_URLS || '').split(',').map((url) => url.trim()).filter(Boolean),
+    // Shared with coturn's `static-auth-secret` (use-auth-secret); TURN is left out without it
+    turnSecret: process.env.WEBRTC_TURN_SECRET,
+    turnCredentialTtlSeconds: parseInt(process.env.WEBRTC_TURN_CREDENTIAL_TTL_SECONDS || '3600'),
   },
   
   // Railway configuration
@@ -88,6 +95,18 @@ export const config = {
     disableVoiceRateLimit: process.env.DISABLE_VOICE_RATE_LIMIT === 'true', // Disable rate limiting for voice events
   },
 
+  // Perform room note relay: with a playout delay, notes are held and sent to each member so
+  // everyone plays them the same time after they were played; 0 relays notes immediately
+  noteRelay: {
+    playoutDelayMs: parseInt(process.env.NOTE_RELAY_PLAYOUT_DELAY_MS || '0'),
+    // The delay is rounded up to whole metronome grid steps (steps per beat; 0 disables)
+    gridDivision: parseInt(process.env.NOTE_RELAY_GRID_DIVISION || '4'),
+    // Note-ons that would reach a member later than this past their play time are dropped
+    maxLateMs: parseInt(process.env.NOTE_RELAY_MAX_LATE_MS || '150'),
+    safetyMarginMs: parseInt(process.env.NOTE_RELAY_SAFETY_MARGIN_MS || '5'),
+    maxQueuedEvents: parseInt(process.env.NOTE_RELAY_MAX_QUEUED_EVENTS || '2000'),
+  },
+
   storage: {
     recordingsDir,
     tempDir: path.join(process.cwd(), 'tmp', 'recordings'),
@@ -102,6 +121,46 @@ export const config = {
       publicUrl: process.env.BACKBLAZE_PUBLIC_URL,
     },
   },
+
+  // Saved project revisions kept per user type (oldest are pruned first)
+  projects: {
+    revisionRetention: {
+      GUEST: parseInt(process.env.PROJECT_REVISION_RETENTION_GUEST || '0'),
+      REGISTERED: parseInt(process.env.PROJECT_REVISION_RETENTION_REGISTERED || '10'),
+      PREMIUM: parseInt(process.env.PROJECT_REVISION_RETENTION_PREMIUM || '50'),
+    },
+  },
+
+  // Arrange room snapshots and op journal, restored on startup
+  arrangePersistence: {
+    enabled: process.env.ARRANGE_PERSISTENCE_ENABLED !== 'false',
+    dir: resolvePath(process.env.ARRANGE_STATE_DIR) || path.join(recordingsDir, 'arrange-state'),
+    snapshotIntervalMs: parseInt(process.env.ARRANGE_SNAPSHOT_INTERVAL_MS || '60000'),
+    snapshotEveryChanges: parseInt(process.env.ARRANGE_SNAPSHOT_EVERY_CHANGES || '200'),
+    // How long members of a restored room have to reconnect before it is closed
+    restoreGracePeriodMs: parseInt(process.env.ARRANGE_RESTORE_GRACE_PERIOD_MS || '600000'),
+  },
+
+  // Room chat history; rooms owned by registered users can also keep it in Postgres
+  chat: {
+    // Messages kept in memory per room
+    historyLimit: parseInt(process.env.CHAT_HISTORY_LIMIT || '200'),
+    // Messages sent in `chat_history` on join and per `request_chat_history` by default
+    pageSize: parseInt(process.env.CHAT_HISTORY_PAGE_SIZE || '50'),
+    maxPageSize: 100,
+    persistenceEnabled: process.env.CHAT_PERSISTENCE_ENABLED === 'true',
+    moderation: {
+      // Comma-separated words and phrases, masked with asterisks or rejected outright
+      wordlist: (process.env.CHAT_WORDLIST || '').split(',').map((word) => word.trim()).filter(Boolean),
+      wordlistMode: process.env.CHAT_WORDLIST_MODE === 'reject' ? 'reject' : 'mask',
+      // The same message can be sent this many times within the window
+      maxDuplicates: parseInt(process.env.CHAT_MAX_DUPLICATES || '2'),
+      duplicateWindowMs: parseInt(process.env.CHAT_DUPLICATE_WINDOW_MS || '30000'),
+      floodMaxMessages: parseInt(process.env.CHAT_FLOOD_MAX_MESSAGES || '8'),
+      floodWindowMs: parseInt(process.env.CHAT_FLOOD_WINDOW_MS || '10000'),
+      blockGuestLinks: process.env.CHAT_BLOCK_GUEST_LINKS !== 'false',
+    },
+  },
 } as const;
 
 export type Config = typeof config; 
\ No newline at end of file
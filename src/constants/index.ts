@@ -4,6 +4,12 @@ export const METRONOME_CONSTANTS = {
   MIN_BPM: 1,
   MAX_BPM: 1000,
   DEFAULT_BPM: 90,
+  DEFAULT_BEATS_PER_BAR: 4,
+  DEFAULT_BEAT_UNIT: 4,
+  MAX_BEATS_PER_BAR: 32,
+  BEAT_UNITS: [1, 2, 4, 8, 16, 32],
+  MAX_COUNT_IN_BARS: 4,
+  MAX_RAMP_BARS: 256,
 } as const;
 
 export const ROOM_CONSTANTS = {
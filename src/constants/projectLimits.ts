@@ -4,6 +4,7 @@
  */
 
 import { UserType } from '../domains/auth/domain/models/User';
+import { config } from '../config/environment';
 
 /**
  * Project limits per user type
@@ -17,6 +18,15 @@ export const PROJECT_LIMITS: Record<UserType, number> = {
   [UserType.PREMIUM]: Infinity,
 };
 
+/**
+ * Saved revisions kept per project, per user type (configurable via PROJECT_REVISION_RETENTION_*)
+ */
+export const PROJECT_REVISION_RETENTION: Record<UserType, number> = {
+  [UserType.GUEST]: config.projects.revisionRetention.GUEST,
+  [UserType.REGISTERED]: config.projects.revisionRetention.REGISTERED,
+  [UserType.PREMIUM]: config.projects.revisionRetention.PREMIUM,
+};
+
 // Re-export UserType for convenience
 export { UserType };
 
@@ -32,6 +42,16 @@ export function getProjectLimit(userType: UserType | string): number {
   return PROJECT_LIMITS[userType] ?? PROJECT_LIMITS[UserType.REGISTERED];
 }
 
+/**
+ * Get how many revisions to keep per project for a user type.
+ * Always at least 1 so the latest save stays restorable.
+ */
+export function getRevisionRetention(userType: UserType | string): number {
+  const normalizedType = (typeof userType === 'string' ? userType.toUpperCase() : userType) as UserType;
+  const retention = PROJECT_REVISION_RETENTION[normalizedType] ?? PROJECT_REVISION_RETENTION[UserType.REGISTERED];
+  return Math.max(1, Number.isFinite(retention) ? retention : 1);
+}
+
 /**
  * Check if a user has reached their project limit
  */
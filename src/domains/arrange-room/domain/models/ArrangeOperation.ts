@@ -0,0 +1,65 @@
+import type {
+  ArrangeTimeSignature,
+  EffectChainState,
+  MidiNote,
+  NoteId,
+  Region,
+  RegionId,
+  SustainEvent,
+  TimeMarker,
+  Track,
+  TrackId,
+} from './ArrangeRoomState';
+
+/**
+ * A single replayable mutation of an arrange room.
+ * Every operation maps to one of the existing `arrange:*` broadcast events.
+ */
+export type ArrangeOperation =
+  | { type: 'track_add'; track: Track }
+  | { type: 'track_delete'; trackId: TrackId }
+  | { type: 'track_update'; trackId: TrackId; updates: Partial<Track> }
+  | { type: 'track_instrument_change'; trackId: TrackId; instrumentId: string; instrumentCategory?: string }
+  | { type: 'track_reorder'; trackIds: TrackId[] }
+  | { type: 'region_add'; region: Region }
+  | { type: 'region_update'; regionId: RegionId; updates: Partial<Region> }
+  | { type: 'region_delete'; regionId: RegionId }
+  | { type: 'note_add'; regionId: RegionId; note: MidiNote }
+  | { type: 'note_update'; regionId: RegionId; noteId: NoteId; updates: Partial<MidiNote> }
+  | { type: 'note_delete'; regionId: RegionId; noteId: NoteId }
+  | { type: 'sustain_add'; regionId: RegionId; sustainEvent: SustainEvent }
+  | { type: 'sustain_update'; regionId: RegionId; sustainEventId: string; updates: Partial<Omit<SustainEvent, 'id'>> }
+  | { type: 'sustain_delete'; regionId: RegionId; sustainEventId: string }
+  | { type: 'marker_add'; marker: TimeMarker }
+  | { type: 'marker_update'; markerId: string; updates: Partial<Omit<TimeMarker, 'id'>> }
+  | { type: 'marker_delete'; markerId: string }
+  | { type: 'effect_chain_update'; trackId: TrackId; chainType: string; effectChain: EffectChainState }
+  | { type: 'bpm_change'; bpm: number }
+  | { type: 'time_signature_change'; timeSignature: ArrangeTimeSignature };
+
+export type ArrangeOperationType = ArrangeOperation['type'];
+
+/**
+ * Operations on individual notes and sustain events. These merge per element
+ * (see MidiRegionClock) instead of requiring the region lock.
+ */
+export type MidiElementOperation = Extract<
+  ArrangeOperation,
+  { type: 'note_add' | 'note_update' | 'note_delete' | 'sustain_add' | 'sustain_update' | 'sustain_delete' }
+>;
+
+/**
+ * One undoable step in a user's history. `redo` re-applies the original
+ * change, `undo` holds its inverse computed against the state before it.
+ */
+export interface ArrangeHistoryEntry {
+  id: string;
+  userId: string;
+  label: string;
+  undo: ArrangeOperation[];
+  redo: ArrangeOperation[];
+  timestamp: number;
+  // Called when the entry is dropped from either stack (trimmed, superseded by a new step or
+  // cleared), so it must only release what the room's current state no longer uses
+  onDiscard?: () => void;
+}
@@ -17,8 +17,13 @@ export interface LockInfo {
   username: string;
   type: LockType;
   timestamp: number;
+  // Lease end; the holder renews it with arrange:lock_heartbeat
+  expiresAt: number;
 }
 
+// A user waiting for a lock held by someone else
+export type LockWaiter = Pick<LockInfo, 'userId' | 'username' | 'type'>;
+
 export interface MidiNote {
   id: NoteId;
   pitch: number;
@@ -129,6 +134,17 @@ export interface ArrangeRoomState {
     }
   >;
   lastUpdated: Date;
+  // Set when the state was recovered from persistence after a server restart
+  restoredAt?: Date;
 }
 
+/**
+ * The part of an arrange room's state that survives a server restart.
+ * Locks, selection, voice and broadcast states belong to live connections and are not persisted.
+ */
+export type PersistedArrangeState = Pick<
+  ArrangeRoomState,
+  'tracks' | 'regions' | 'bpm' | 'timeSignature' | 'synthStates' | 'effectChains' | 'markers' | 'ownerScale'
+>;
+
 
@@ -0,0 +1,17 @@
+import type { EffectChainState } from './ArrangeRoomState';
+import type { ArrangeOperation } from './ArrangeOperation';
+
+/**
+ * A persistable change to an arrange room, reported by ArrangeRoomStateService.
+ * Journaled changes can be replayed on top of a snapshot; `replaced` and `cleared`
+ * mean the room has to be snapshotted or dropped as a whole.
+ */
+export type ArrangeStateChange =
+  | { type: 'operation'; operation: ArrangeOperation }
+  | { type: 'synth_params'; trackId: string; params: Record<string, unknown> }
+  | { type: 'effect_chain'; chainType: string; effectChain: EffectChainState | null }
+  | { type: 'owner_scale'; ownerScale: { rootNote: string; scale: 'major' | 'minor' } | null }
+  | { type: 'replaced' }
+  | { type: 'cleared' };
+
+export type ArrangeJournalChange = Exclude<ArrangeStateChange, { type: 'replaced' } | { type: 'cleared' }>;
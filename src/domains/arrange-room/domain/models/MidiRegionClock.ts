@@ -0,0 +1,110 @@
+export type MidiElementKind = 'note' | 'sustain';
+
+/**
+ * Lamport timestamp for a single write. Concurrent writes with the same
+ * counter are ordered by userId so every replica picks the same winner.
+ */
+export interface LamportStamp {
+  counter: number;
+  userId: string;
+}
+
+export const compareStamps = (a: LamportStamp, b: LamportStamp): number => {
+  if (a.counter !== b.counter) {
+    return a.counter - b.counter;
+  }
+  if (a.userId === b.userId) {
+    return 0;
+  }
+  return a.userId < b.userId ? -1 : 1;
+};
+
+const elementKey = (kind: MidiElementKind, elementId: string): string => `${kind}:${elementId}`;
+
+/**
+ * Merge metadata for the notes and sustain events of one MIDI region.
+ *
+ * Every element field is a last-writer-wins register and deletes leave a
+ * tombstone, so a delete wins over concurrent updates to the same element.
+ * The content itself stays in the MidiRegion; the clock only decides which
+ * writes are allowed to land.
+ */
+export class MidiRegionClock {
+  private counter = 0;
+  // Writes stamped at or below the floor were made before the region content was last replaced wholesale
+  private floor = 0;
+  private fieldStamps = new Map<string, Map<string, LamportStamp>>();
+  private tombstones = new Map<string, LamportStamp>();
+
+  get current(): number {
+    return this.counter;
+  }
+
+  /**
+   * Stamp a write made by a user who had last seen `observedClock`.
+   * Without an observed clock the write is ordered after everything seen so far.
+   */
+  stamp(userId: string, observedClock?: number): LamportStamp {
+    // A client cannot have seen more than this clock has issued
+    const observed = observedClock === undefined ? this.counter : Math.min(observedClock, this.counter);
+    const stamp = { counter: observed + 1, userId };
+    this.counter = Math.max(this.counter, stamp.counter);
+    return stamp;
+  }
+
+  canInsert(kind: MidiElementKind, elementId: string, stamp: LamportStamp): boolean {
+    if (stamp.counter <= this.floor) {
+      return false;
+    }
+    const tombstone = this.tombstones.get(elementKey(kind, elementId));
+    return !tombstone || compareStamps(stamp, tombstone) > 0;
+  }
+
+  recordInsert(kind: MidiElementKind, elementId: string, fields: string[], stamp: LamportStamp): void {
+    const key = elementKey(kind, elementId);
+    this.tombstones.delete(key);
+    this.fieldStamps.set(key, new Map(fields.map((field) => [field, stamp])));
+  }
+
+  /**
+   * Return the fields whose registers this write wins, and take them over
+   */
+  acceptFields(kind: MidiElementKind, elementId: string, fields: string[], stamp: LamportStamp): string[] {
+    if (stamp.counter <= this.floor) {
+      return [];
+    }
+
+    const key = elementKey(kind, elementId);
+    const stamps = this.fieldStamps.get(key) ?? new Map<string, LamportStamp>();
+    const accepted = fields.filter((field) => {
+      const current = stamps.get(field);
+      return !current || compareStamps(stamp, current) > 0;
+    });
+
+    accepted.forEach((field) => stamps.set(field, stamp));
+    this.fieldStamps.set(key, stamps);
+    return accepted;
+  }
+
+  canDelete(stamp: LamportStamp): boolean {
+    return stamp.counter > this.floor;
+  }
+
+  recordDelete(kind: MidiElementKind, elementId: string, stamp: LamportStamp): void {
+    const key = elementKey(kind, elementId);
+    const tombstone = this.tombstones.get(key);
+    this.fieldStamps.delete(key);
+    this.tombstones.set(key, tombstone && compareStamps(tombstone, stamp) > 0 ? tombstone : stamp);
+  }
+
+  /**
+   * Forget per-element history after the region content was replaced as a whole.
+   * Writes made before the replace (stamped at or below the new floor) are rejected.
+   */
+  reset(): void {
+    this.counter += 1;
+    this.floor = this.counter;
+    this.fieldStamps.clear();
+    this.tombstones.clear();
+  }
+}
@@ -0,0 +1,217 @@
+import { v4 as uuidv4 } from 'uuid';
+import type {
+  ArrangeTimeSignature,
+  MidiNote,
+  MidiRegion,
+  SustainEvent,
+  Track,
+} from '../models/ArrangeRoomState';
+import type { SessionRecording } from '../../../../services/SessionRecorderService';
+import { TRACK_COLORS } from './StandardMidiFile';
+
+// Conversion of perform-room session recordings into arrangements: one MIDI track per performer
+// with a single region covering the whole session. Event times are converted to beats at the
+// tempo the recording started with.
+
+const PERFORM_TIME_SIGNATURE: ArrangeTimeSignature = { numerator: 4, denominator: 4 };
+const NOTE_NAME_PATTERN = /^([A-Ga-g])(#|b)?(-?\d+)$/;
+const SEMITONES: Record<string, number> = { C: 0, D: 2, E: 4, F: 5, G: 7, A: 9, B: 11 };
+
+export interface SessionRecordingArrangement {
+  tracks: Track[];
+  regions: MidiRegion[];
+  bpm: number;
+  timeSignature: ArrangeTimeSignature;
+  // Each performer's synth parameters at the start of the session, keyed by track id
+  synthStates: Record<string, Record<string, unknown>>;
+}
+
+interface PerformerTake {
+  username: string;
+  instrument?: string;
+  category?: string;
+  synthParams?: Record<string, unknown>;
+  notes: Array<{ pitch: number; velocity: number; startMs: number; endMs: number }>;
+  sustains: Array<{ startMs: number; endMs: number }>;
+  openNotes: Map<number, { velocity: number; startMs: number }>;
+  sustainStartMs: number | null;
+}
+
+/**
+ * MIDI pitch of a scientific pitch name such as "C4" or "F#3" (C4 = 60), or null for
+ * names that aren't pitches (e.g. drum sample names)
+ */
+export const noteNameToPitch = (name: string): number | null => {
+  const match = NOTE_NAME_PATTERN.exec(name.trim());
+  if (!match) {
+    return null;
+  }
+  const [, letter, accidental, octave] = match;
+  const accidentalOffset = accidental === '#' ? 1 : accidental === 'b' ? -1 : 0;
+  const pitch = (Number(octave) + 1) * 12 + SEMITONES[letter!.toUpperCase()]! + accidentalOffset;
+  return pitch >= 0 && pitch <= 127 ? pitch : null;
+};
+
+// Perform rooms send velocities as 0-1; arrange notes use MIDI 1-127
+const toMidiVelocity = (velocity: unknown): number => {
+  const value = typeof velocity === 'number' && Number.isFinite(velocity) ? velocity : 1;
+  const scaled = value <= 1 ? value * 127 : value;
+  return Math.min(127, Math.max(1, Math.round(scaled)));
+};
+
+const toNoteList = (notes: unknown): string[] =>
+  Array.isArray(notes) ? notes.filter((note): note is string => typeof note === 'string') : [];
+
+export const convertSessionRecordingToArrangement = (
+  recording: Pick<SessionRecording, 'bpm' | 'durationMs' | 'performers' | 'events'>
+): SessionRecordingArrangement => {
+  const bpm = recording.bpm > 0 ? recording.bpm : 120;
+  const msToBeats = (ms: number) => (ms / 60000) * bpm;
+  const takes = new Map<string, PerformerTake>();
+
+  const getTake = (userId: string): PerformerTake => {
+    let take = takes.get(userId);
+    if (!take) {
+      const performer = recording.performers.find((p) => p.userId === userId);
+      take = {
+        username: performer?.username ?? userId,
+        notes: [],
+        sustains: [],
+        openNotes: new Map(),
+        sustainStartMs: null,
+      };
+      takes.set(userId, take);
+    }
+    return take;
+  };
+
+  const closeNote = (take: PerformerTake, pitch: number, endMs: number) => {
+    const open = take.openNotes.get(pitch);
+    if (open) {
+      take.notes.push({ pitch, velocity: open.velocity, startMs: open.startMs, endMs });
+      take.openNotes.delete(pitch);
+    }
+  };
+
+  const events = [...recording.events].sort((a, b) => a.t - b.t);
+  for (const event of events) {
+    if (!event.userId) {
+      continue;
+    }
+    const take = getTake(event.userId);
+    const { data } = event;
+
+    if (event.type === 'instrument' || event.type === 'note') {
+      // A track keeps the first instrument its performer used
+      if (!take.instrument && typeof data.instrument === 'string' && data.instrument) {
+        take.instrument = data.instrument;
+        if (typeof data.category === 'string' && data.category) {
+          take.category = data.category;
+        }
+      }
+    }
+
+    if (event.type === 'synth_params' && !take.synthParams && data.params && typeof data.params === 'object') {
+      take.synthParams = data.params as Record<string, unknown>;
+    } else if (event.type === 'note') {
+      const pitches = toNoteList(data.notes)
+        .map(noteNameToPitch)
+        .filter((pitch): pitch is number => pitch !== null);
+      for (const pitch of pitches) {
+        if (data.eventType === 'note_on') {
+          // Retriggering a held note ends the previous one
+          closeNote(take, pitch, event.t);
+          take.openNotes.set(pitch, { velocity: toMidiVelocity(data.velocity), startMs: event.t });
+        } else if (data.eventType === 'note_off') {
+          closeNote(take, pitch, event.t);
+        }
+      }
+    } else if (event.type === 'sustain') {
+      if (data.eventType === 'sustain_on' && take.sustainStartMs === null) {
+        take.sustainStartMs = event.t;
+      } else if (data.eventType === 'sustain_off' && take.sustainStartMs !== null) {
+        take.sustains.push({ startMs: take.sustainStartMs, endMs: event.t });
+        take.sustainStartMs = null;
+      }
+    }
+  }
+
+  const endMs = Math.max(recording.durationMs, events[events.length - 1]?.t ?? 0);
+  const beatsPerBar = (PERFORM_TIME_SIGNATURE.numerator * 4) / PERFORM_TIME_SIGNATURE.denominator;
+  const length = Math.max(beatsPerBar, Math.ceil(msToBeats(endMs) / beatsPerBar) * beatsPerBar);
+
+  const tracks: Track[] = [];
+  const regions: MidiRegion[] = [];
+  const synthStates: Record<string, Record<string, unknown>> = {};
+
+  for (const take of takes.values()) {
+    // Notes and pedals still held when the recording stopped end with it
+    for (const pitch of [...take.openNotes.keys()]) {
+      closeNote(take, pitch, endMs);
+    }
+    if (take.sustainStartMs !== null) {
+      take.sustains.push({ startMs: take.sustainStartMs, endMs });
+    }
+    if (take.notes.length === 0) {
+      continue;
+    }
+
+    const trackId = uuidv4();
+    const regionId = uuidv4();
+    const color = TRACK_COLORS[tracks.length % TRACK_COLORS.length]!;
+
+    const notes: MidiNote[] = take.notes
+      .sort((a, b) => a.startMs - b.startMs || a.pitch - b.pitch)
+      .map((note) => ({
+        id: uuidv4(),
+        pitch: note.pitch,
+        velocity: note.velocity,
+        start: msToBeats(note.startMs),
+        // Keep zero-length taps audible
+        duration: Math.max(msToBeats(note.endMs - note.startMs), 1 / 64),
+      }));
+    const sustainEvents: SustainEvent[] = take.sustains.map((sustain) => ({
+      id: uuidv4(),
+      start: msToBeats(sustain.startMs),
+      end: msToBeats(sustain.endMs),
+    }));
+
+    const track: Track = {
+      id: trackId,
+      name: take.username,
+      type: 'midi',
+      volume: 0.8,
+      pan: 0,
+      mute: false,
+      solo: false,
+      color,
+      regionIds: [regionId],
+    };
+    if (take.instrument) {
+      track.instrumentId = take.instrument;
+    }
+    if (take.category) {
+      track.instrumentCategory = take.category;
+    }
+    if (take.synthParams) {
+      synthStates[trackId] = take.synthParams;
+    }
+
+    tracks.push(track);
+    regions.push({
+      id: regionId,
+      trackId,
+      name: take.username,
+      type: 'midi',
+      start: 0,
+      length,
+      loopEnabled: false,
+      loopIterations: 1,
+      color,
+      notes,
+      sustainEvents,
+    });
+  }
+
+  return { tracks, regions, bpm, timeSignature: PERFORM_TIME_SIGNATURE, synthStates };
+};
@@ -0,0 +1,504 @@
+import { v4 as uuidv4 } from 'uuid';
+import type {
+  ArrangeTimeSignature,
+  MidiNote,
+  MidiRegion,
+  Region,
+  SustainEvent,
+  TimeMarker,
+  Track,
+} from '../models/ArrangeRoomState';
+
+// Conversion between arrangements and Type-1 Standard MIDI Files.
+// Arrangement positions are in beats (quarter notes); note and sustain times are relative to their region.
+
+export const MIDI_TICKS_PER_BEAT = 480;
+
+const DRUM_CHANNEL = 9;
+const SUSTAIN_CONTROLLER = 64;
+// Imported tempo and meter are clamped to what arrange:bpm_change / arrange:time_signature_change accept
+const MIN_BPM = 40;
+const MAX_BPM = 300;
+const MAX_TIME_SIGNATURE_NUMERATOR = 32;
+// Denominators 2 to 16, stored in the file as a power of two
+const MIN_DENOMINATOR_EXPONENT = 1;
+const MAX_DENOMINATOR_EXPONENT = 4;
+export const TRACK_COLORS = ['#3b82f6', '#ef4444', '#10b981', '#f59e0b', '#8b5cf6', '#ec4899', '#14b8a6', '#f97316'];
+
+export interface MidiArrangement {
+  name?: string;
+  tracks: Track[];
+  regions: Region[];
+  bpm: number;
+  timeSignature: ArrangeTimeSignature;
+  markers: TimeMarker[];
+}
+
+export interface ImportedMidiArrangement {
+  tracks: Track[];
+  regions: MidiRegion[];
+  // Only set when the file carries a tempo / time signature
+  bpm?: number;
+  timeSignature?: ArrangeTimeSignature;
+  markers: TimeMarker[];
+}
+
+export class MidiFileFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'MidiFileFormatError';
+  }
+}
+
+interface TimedEvent {
+  tick: number;
+  // Ordering for events on the same tick: meta, releases, pedal down, note on
+  priority: number;
+  data: number[];
+}
+
+const clamp = (value: number, min: number, max: number): number => Math.min(Math.max(value, min), max);
+
+const writeVarLength = (value: number): number[] => {
+  let buffer = value & 0x7f;
+  const bytes: number[] = [];
+  while ((value >>= 7) > 0) {
+    buffer = (buffer << 8) | ((value & 0x7f) | 0x80);
+  }
+  for (;;) {
+    bytes.push(buffer & 0xff);
+    if (buffer & 0x80) {
+      buffer >>= 8;
+    } else {
+      return bytes;
+    }
+  }
+};
+
+const textBytes = (text: string): number[] => [...Buffer.from(text, 'utf-8')];
+
+const metaEvent = (tick: number, type: number, data: number[]): TimedEvent => ({
+  tick,
+  priority: 0,
+  data: [0xff, type, ...writeVarLength(data.length), ...data],
+});
+
+const toTicks = (beats: number): number => Math.max(0, Math.round(beats * MIDI_TICKS_PER_BEAT));
+
+const clampMidi = (value: number, min = 0): number => Math.min(127, Math.max(min, Math.round(value)));
+
+const encodeTrackChunk = (events: TimedEvent[]): Buffer => {
+  const sorted = [...events].sort((a, b) => a.tick - b.tick || a.priority - b.priority);
+  const endTick = sorted.length > 0 ? sorted[sorted.length - 1]!.tick : 0;
+  sorted.push(metaEvent(endTick, 0x2f, []));
+
+  const bytes: number[] = [];
+  let lastTick = 0;
+  for (const event of sorted) {
+    bytes.push(...writeVarLength(event.tick - lastTick), ...event.data);
+    lastTick = event.tick;
+  }
+
+  const header = Buffer.alloc(8);
+  header.write('MTrk', 0, 'ascii');
+  header.writeUInt32BE(bytes.length, 4);
+  return Buffer.concat([header, Buffer.from(bytes)]);
+};
+
+/**
+ * Collect the note and sustain events of one region, repeated for each loop
+ * iteration and clipped to the region bounds.
+ */
+const collectRegionEvents = (region: MidiRegion, channel: number): TimedEvent[] => {
+  const events: TimedEvent[] = [];
+  const iterations = region.loopEnabled ? Math.max(1, region.loopIterations) : 1;
+
+  for (let iteration = 0; iteration < iterations; iteration++) {
+    const offset = region.start + iteration * region.length;
+    const clip = (start: number, end: number): [number, number] | null => {
+      const clippedStart = Math.max(0, start);
+      const clippedEnd = Math.min(region.length, end);
+      return clippedEnd > clippedStart ? [offset + clippedStart, offset + clippedEnd] : null;
+    };
+
+    for (const note of region.notes) {
+      const span = clip(note.start, note.start + note.duration);
+      if (!span) continue;
+      const pitch = clampMidi(note.pitch);
+      events.push(
+        { tick: toTicks(span[0]), priority: 3, data: [0x90 | channel, pitch, clampMidi(note.velocity, 1)] },
+        { tick: toTicks(span[1]), priority: 1, data: [0x80 | channel, pitch, 0] }
+      );
+    }
+
+    for (const sustain of region.sustainEvents) {
+      const span = clip(sustain.start, sustain.end);
+      if (!span) continue;
+      events.push(
+        { tick: toTicks(span[0]), priority: 2, data: [0xb0 | channel, SUSTAIN_CONTROLLER, 127] },
+        { tick: toTicks(span[1]), priority: 1, data: [0xb0 | channel, SUSTAIN_CONTROLLER, 0] }
+      );
+    }
+  }
+
+  return events;
+};
+
+/**
+ * Render an arrangement as a Type-1 SMF: a conductor track with tempo,
+ * time signature and markers, then one track per MIDI track.
+ */
+export const encodeArrangementToMidi = (arrangement: MidiArrangement): Buffer => {
+  const conductor: TimedEvent[] = [];
+  if (arrangement.name) {
+    conductor.push(metaEvent(0, 0x03, textBytes(arrangement.name)));
+  }
+
+  const microsecondsPerBeat = Math.round(60_000_000 / Math.max(1, arrangement.bpm));
+  conductor.push(
+    metaEvent(0, 0x51, [(microsecondsPerBeat >> 16) & 0xff, (microsecondsPerBeat >> 8) & 0xff, microsecondsPerBeat & 0xff])
+  );
+
+  const { numerator, denominator } = arrangement.timeSignature;
+  conductor.push(metaEvent(0, 0x58, [clampMidi(numerator, 1), Math.round(Math.log2(Math.max(1, denominator))), 24, 8]));
+
+  for (const marker of arrangement.markers) {
+    conductor.push(metaEvent(toTicks(marker.position), 0x06, textBytes(marker.description)));
+  }
+
+  const midiTracks = arrangement.tracks.filter((track) => track.type === 'midi');
+  let nextChannel = 0;
+  const trackChunks = midiTracks.map((track) => {
+    let channel: number;
+    if (/drum|percussion/i.test(track.instrumentCategory ?? '')) {
+      channel = DRUM_CHANNEL;
+    } else {
+      channel = nextChannel % 15;
+      channel = channel >= DRUM_CHANNEL ? channel + 1 : channel;
+      nextChannel++;
+    }
+
+    const events: TimedEvent[] = [metaEvent(0, 0x03, textBytes(track.name))];
+    arrangement.regions
+      .filter((region): region is MidiRegion => region.type === 'midi' && region.trackId === track.id)
+      .forEach((region) => events.push(...collectRegionEvents(region, channel)));
+
+    return encodeTrackChunk(events);
+  });
+
+  const header = Buffer.alloc(14);
+  header.write('MThd', 0, 'ascii');
+  header.writeUInt32BE(6, 4);
+  header.writeUInt16BE(1, 8);
+  header.writeUInt16BE(trackChunks.length + 1, 10);
+  header.writeUInt16BE(MIDI_TICKS_PER_BEAT, 12);
+
+  return Buffer.concat([header, encodeTrackChunk(conductor), ...trackChunks]);
+};
+
+interface ChannelContent {
+  notes: Array<{ pitch: number; velocity: number; startTick: number; endTick: number }>;
+  sustains: Array<{ startTick: number; endTick: number }>;
+}
+
+interface ParsedTrack {
+  name?: string;
+  channels: Map<number, ChannelContent>;
+}
+
+class ByteReader {
+  private position = 0;
+
+  constructor(private readonly buffer: Buffer) {}
+
+  get done(): boolean {
+    return this.position >= this.buffer.length;
+  }
+
+  private ensure(length: number): void {
+    if (this.position + length > this.buffer.length) {
+      throw new MidiFileFormatError('Unexpected end of MIDI data');
+    }
+  }
+
+  uint8(): number {
+    this.ensure(1);
+    return this.buffer[this.position++]!;
+  }
+
+  peek(): number {
+    this.ensure(1);
+    return this.buffer[this.position]!;
+  }
+
+  uint16(): number {
+    this.ensure(2);
+    const value = this.buffer.readUInt16BE(this.position);
+    this.position += 2;
+    return value;
+  }
+
+  uint32(): number {
+    this.ensure(4);
+    const value = this.buffer.readUInt32BE(this.position);
+    this.position += 4;
+    return value;
+  }
+
+  ascii(length: number): string {
+    return this.bytes(length).toString('ascii');
+  }
+
+  bytes(length: number): Buffer {
+    this.ensure(length);
+    const value = this.buffer.subarray(this.position, this.position + length);
+    this.position += length;
+    return value;
+  }
+
+  varLength(): number {
+    let value = 0;
+    for (let i = 0; i < 4; i++) {
+      const byte = this.uint8();
+      value = (value << 7) | (byte & 0x7f);
+      if ((byte & 0x80) === 0) {
+        return value;
+      }
+    }
+    throw new MidiFileFormatError('Invalid variable-length quantity');
+  }
+}
+
+interface ParsedFile {
+  division: number;
+  tracks: ParsedTrack[];
+  tempo?: number;
+  timeSignature?: ArrangeTimeSignature;
+  markers: Array<{ tick: number; text: string }>;
+}
+
+const parseTrackChunk = (reader: ByteReader, file: ParsedFile): ParsedTrack => {
+  const track: ParsedTrack = { channels: new Map() };
+  const openNotes = new Map<string, Array<{ velocity: number; startTick: number }>>();
+  const openSustains = new Map<number, number>();
+  const getChannel = (channel: number): ChannelContent => {
+    let content = track.channels.get(channel);
+    if (!content) {
+      content = { notes: [], sustains: [] };
+      track.channels.set(channel, content);
+    }
+    return content;
+  };
+  const closeNote = (channel: number, pitch: number, tick: number) => {
+    const started = openNotes.get(`${channel}:${pitch}`)?.shift();
+    if (started) {
+      getChannel(channel).notes.push({ pitch, velocity: started.velocity, startTick: started.startTick, endTick: tick });
+    }
+  };
+
+  let tick = 0;
+  let runningStatus: number | null = null;
+  while (!reader.done) {
+    tick += reader.varLength();
+
+    let status = reader.peek();
+    if (status & 0x80) {
+      reader.uint8();
+    } else if (runningStatus === null) {
+      throw new MidiFileFormatError('Data byte without a status byte');
+    } else {
+      status = runningStatus;
+    }
+
+    if (status === 0xff) {
+      const type = reader.uint8();
+      const data = reader.bytes(reader.varLength());
+      if (type === 0x2f) break;
+      if (type === 0x03 && track.name === undefined) {
+        track.name = data.toString('utf-8');
+      } else if (type === 0x51 && file.tempo === undefined && data.length === 3) {
+        file.tempo = (data[0]! << 16) | (data[1]! << 8) | data[2]!;
+        if (file.tempo === 0) {
+          throw new MidiFileFormatError('Invalid tempo of zero microseconds per beat');
+        }
+      } else if (type === 0x58 && file.timeSignature === undefined && data.length >= 2) {
+        if (data[0] === 0) {
+          throw new MidiFileFormatError('Invalid time signature with zero beats per bar');
+        }
+        file.timeSignature = {
+          numerator: Math.min(data[0]!, MAX_TIME_SIGNATURE_NUMERATOR),
+          denominator: 2 ** clamp(data[1]!, MIN_DENOMINATOR_EXPONENT, MAX_DENOMINATOR_EXPONENT),
+        };
+      } else if (type === 0x06) {
+        file.markers.push({ tick, text: data.toString('utf-8') });
+      }
+      continue;
+    }
+
+    if (status === 0xf0 || status === 0xf7) {
+      reader.bytes(reader.varLength());
+      continue;
+    }
+
+    runningStatus = status;
+    const type = status & 0xf0;
+    const channel = status & 0x0f;
+    const data1 = reader.uint8();
+    const data2 = type === 0xc0 || type === 0xd0 ? 0 : reader.uint8();
+
+    if (type === 0x90 && data2 > 0) {
+      const key = `${channel}:${data1}`;
+      openNotes.set(key, [...(openNotes.get(key) ?? []), { velocity: data2, startTick: tick }]);
+    } else if (type === 0x80 || type === 0x90) {
+      closeNote(channel, data1, tick);
+    } else if (type === 0xb0 && data1 === SUSTAIN_CONTROLLER) {
+      const pedalDown = data2 >= 64;
+      const startTick = openSustains.get(channel);
+      if (pedalDown && startTick === undefined) {
+        openSustains.set(channel, tick);
+      } else if (!pedalDown && startTick !== undefined) {
+        getChannel(channel).sustains.push({ startTick, endTick: tick });
+        openSustains.delete(channel);
+      }
+    }
+  }
+
+  // Close anything still held at the end of the track
+  for (const [key, starts] of openNotes) {
+    const [channel, pitch] = key.split(':').map(Number) as [number, number];
+    starts.forEach(() => closeNote(channel, pitch, tick));
+  }
+  for (const [channel, startTick] of openSustains) {
+    getChannel(channel).sustains.push({ startTick, endTick: tick });
+  }
+
+  return track;
+};
+
+const parseMidiFile = (buffer: Buffer): ParsedFile => {
+  const reader = new ByteReader(buffer);
+  if (buffer.length < 14 || reader.ascii(4) !== 'MThd') {
+    throw new MidiFileFormatError('Not a Standard MIDI File');
+  }
+
+  const headerLength = reader.uint32();
+  const format = reader.uint16();
+  const trackCount = reader.uint16();
+  const division = reader.uint16();
+  reader.bytes(Math.max(0, headerLength - 6));
+
+  if (format > 1) {
+    throw new MidiFileFormatError(`Unsupported MIDI format ${format}`);
+  }
+  if (division & 0x8000 || division === 0) {
+    throw new MidiFileFormatError('SMPTE time division is not supported');
+  }
+
+  const file: ParsedFile = { division, tracks: [], markers: [] };
+  while (!reader.done && file.tracks.length < trackCount) {
+    const chunkType = reader.ascii(4);
+    const chunk = reader.bytes(reader.uint32());
+    // Unknown chunk types are skipped, as the spec requires
+    if (chunkType === 'MTrk') {
+      file.tracks.push(parseTrackChunk(new ByteReader(chunk), file));
+    }
+  }
+
+  return file;
+};
+
+/**
+ * Turn a Standard MIDI File into tracks with one region each. Every
+ * (track chunk, channel) pair with notes or sustain becomes its own track.
+ */
+export const decodeMidiToArrangement = (buffer: Buffer): ImportedMidiArrangement => {
+  const file = parseMidiFile(buffer);
+  const toBeats = (tick: number) => tick / file.division;
+  const beatsPerBar = file.timeSignature
+    ? (file.timeSignature.numerator * 4) / file.timeSignature.denominator
+    : 4;
+
+  const tracks: Track[] = [];
+  const regions: MidiRegion[] = [];
+
+  file.tracks.forEach((parsedTrack, trackIndex) => {
+    const channels = [...parsedTrack.channels.entries()].filter(
+      ([, content]) => content.notes.length > 0 || content.sustains.length > 0
+    );
+
+    for (const [channel, content] of channels) {
+      const starts = [...content.notes.map((n) => n.startTick), ...content.sustains.map((s) => s.startTick)];
+      const ends = [...content.notes.map((n) => n.endTick), ...content.sustains.map((s) => s.endTick)];
+      const regionStart = Math.floor(toBeats(Math.min(...starts)) / beatsPerBar) * beatsPerBar;
+      const regionEnd = Math.max(regionStart + beatsPerBar, Math.ceil(toBeats(Math.max(...ends)) / beatsPerBar) * beatsPerBar);
+
+      const baseName = parsedTrack.name?.trim() || `Track ${trackIndex + 1}`;
+      const name = channels.length > 1 ? `${baseName} (Ch ${channel + 1})` : baseName;
+      const trackId = uuidv4();
+      const regionId = uuidv4();
+      const color = TRACK_COLORS[tracks.length % TRACK_COLORS.length]!;
+
+      const notes: MidiNote[] = content.notes
+        .sort((a, b) => a.startTick - b.startTick || a.pitch - b.pitch)
+        .map((note) => ({
+          id: uuidv4(),
+          pitch: note.pitch,
+          velocity: note.velocity,
+          start: toBeats(note.startTick) - regionStart,
+          duration: Math.max(toBeats(note.endTick - note.startTick), 1 / file.division),
+        }));
+      const sustainEvents: SustainEvent[] = content.sustains.map((sustain) => ({
+        id: uuidv4(),
+        start: toBeats(sustain.startTick) - regionStart,
+        end: toBeats(sustain.endTick) - regionStart,
+      }));
+
+      const track: Track = {
+        id: trackId,
+        name,
+        type: 'midi',
+        volume: 0.8,
+        pan: 0,
+        mute: false,
+        solo: false,
+        color,
+        regionIds: [regionId],
+      };
+      if (channel === DRUM_CHANNEL) {
+        track.instrumentCategory = 'drums';
+      }
+
+      tracks.push(track);
+      regions.push({
+        id: regionId,
+        trackId,
+        name,
+        type: 'midi',
+        start: regionStart,
+        length: regionEnd - regionStart,
+        loopEnabled: false,
+        loopIterations: 1,
+        color,
+        notes,
+        sustainEvents,
+      });
+    }
+  });
+
+  const imported: ImportedMidiArrangement = {
+    tracks,
+    regions,
+    markers: file.markers.map((marker) => ({
+      id: uuidv4(),
+      position: toBeats(marker.tick),
+      description: marker.text,
+    })),
+  };
+  if (file.tempo !== undefined) {
+    imported.bpm = clamp(Math.round((60_000_000 / file.tempo) * 100) / 100, MIN_BPM, MAX_BPM);
+  }
+  if (file.timeSignature !== undefined) {
+    imported.timeSignature = file.timeSignature;
+  }
+  return imported;
+};
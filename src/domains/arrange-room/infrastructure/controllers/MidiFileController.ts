@@ -0,0 +1,152 @@
+import { Request, Response } from 'express';
+import fs from 'fs';
+import { Server as SocketIOServer } from 'socket.io';
+import { RoomService } from '../../../../services/RoomService';
+import { ArrangeRoomStateService } from '../../../../services/ArrangeRoomStateService';
+import { ArrangeSyncLogService } from '../../../../services/ArrangeSyncLogService';
+import { loggingService } from '../../../../services/LoggingService';
+import { hasRoomCapability } from '../../../../services/RoomPermissions';
+import {
+  decodeMidiToArrangement,
+  encodeArrangementToMidi,
+  MidiFileFormatError,
+} from '../../domain/services/StandardMidiFile';
+
+/**
+ * Build a safe Content-Disposition filename for a .mid download
+ */
+export const toMidiFileName = (name: string): string =>
+  `${name.replace(/[^\w\- ]+/g, '').trim().replace(/\s+/g, '_') || 'arrangement'}.mid`;
+
+export class MidiFileController {
+  constructor(
+    private roomService: RoomService,
+    private arrangeRoomStateService: ArrangeRoomStateService,
+    private io?: SocketIOServer,
+    private arrangeSyncLogService?: ArrangeSyncLogService
+  ) {}
+
+  /**
+   * Render the room's current arrangement as a Standard MIDI File
+   */
+  exportRoomMidi = async (req: Request, res: Response): Promise<void> => {
+    const { roomId } = req.params;
+
+    if (!roomId) {
+      res.status(400).json({ success: false, message: 'Room ID is required' });
+      return;
+    }
+
+    const room = this.roomService.getRoom(roomId);
+    const state = this.arrangeRoomStateService.getState(roomId);
+    if (!room || room.roomType !== 'arrange' || !state) {
+      res.status(404).json({ success: false, message: 'Arrange room not found' });
+      return;
+    }
+
+    try {
+      const midi = encodeArrangementToMidi({
+        name: room.name,
+        tracks: state.tracks,
+        regions: state.regions,
+        bpm: state.bpm,
+        timeSignature: state.timeSignature,
+        markers: state.markers,
+      });
+
+      res.setHeader('Content-Type', 'audio/midi');
+      res.setHeader('Content-Disposition', `attachment; filename="${toMidiFileName(room.name)}"`);
+      res.send(midi);
+    } catch (error) {
+      loggingService.logError(error as Error, { context: 'MidiFileController:exportRoomMidi', roomId });
+      res.status(500).json({ success: false, message: 'Failed to export MIDI file' });
+    }
+  };
+
+  /**
+   * Import an uploaded .mid into the room and broadcast the result via arrange:full_state_update.
+   * Imported tracks are appended unless `mode` is "replace", which also takes the file's tempo,
+   * time signature and markers and so needs the arrange_structure capability.
+   */
+  importRoomMidi = async (req: Request, res: Response): Promise<void> => {
+    const { roomId } = req.params;
+    const { userId, mode } = req.body;
+    const file = req.file;
+
+    if (!roomId || !file) {
+      res.status(400).json({ success: false, message: 'MIDI file is required' });
+      return;
+    }
+
+    try {
+      const room = this.roomService.getRoom(roomId);
+      if (!room || room.roomType !== 'arrange') {
+        res.status(404).json({ success: false, message: 'Arrange room not found' });
+        return;
+      }
+
+      if (!userId || !room.users.has(userId)) {
+        res.status(403).json({ success: false, message: 'User not authorized for this room' });
+        return;
+      }
+
+      const replace = mode === 'replace';
+      if (replace && !hasRoomCapability(room, userId, 'arrange_structure')) {
+        res.status(403).json({ success: false, message: 'You do not have permission to change the song structure' });
+        return;
+      }
+
+      const imported = decodeMidiToArrangement(await fs.promises.readFile(file.path));
+      const state = this.arrangeRoomStateService.getState(roomId) ?? this.arrangeRoomStateService.initializeState(roomId);
+
+      const newState = replace
+        ? {
+            tracks: imported.tracks,
+            regions: imported.regions,
+            markers: imported.markers,
+            bpm: imported.bpm ?? state.bpm,
+            timeSignature: imported.timeSignature ?? state.timeSignature,
+          }
+        : {
+            tracks: [...state.tracks, ...imported.tracks],
+            regions: [...state.regions, ...imported.regions],
+            markers: state.markers,
+            bpm: state.bpm,
+            timeSignature: state.timeSignature,
+          };
+
+      this.arrangeRoomStateService.setFullState(roomId, newState);
+
+      // The replace already started a new sync segment, so only its sequence number is sent
+      const seq = this.arrangeSyncLogService?.getPosition(roomId).seq;
+      this.io?.of(`/room/${roomId}`).to(roomId).emit('arrange:full_state_update', {
+        userId,
+        state: newState,
+        ...(seq !== undefined && { seq }),
+      });
+
+      loggingService.logInfo('MIDI file imported', {
+        roomId,
+        userId,
+        mode: replace ? 'replace' : 'append',
+        tracks: imported.tracks.length,
+        notes: imported.regions.reduce((count, region) => count + region.notes.length, 0),
+      });
+
+      res.status(201).json({
+        success: true,
+        trackIds: imported.tracks.map((track) => track.id),
+        regionIds: imported.regions.map((region) => region.id),
+      });
+    } catch (error) {
+      if (error instanceof MidiFileFormatError) {
+        res.status(400).json({ success: false, message: error.message });
+        return;
+      }
+      loggingService.logError(error as Error, { context: 'MidiFileController:importRoomMidi', roomId });
+      res.status(500).json({ success: false, message: 'Failed to import MIDI file' });
+    } finally {
+      await fs.promises.unlink(file.path).catch(() => {});
+    }
+  };
+}
@@ -0,0 +1,127 @@
+import { Request, Response } from 'express';
+import { RoomService } from '../../../../services/RoomService';
+import { ArrangeRoomStateService } from '../../../../services/ArrangeRoomStateService';
+import { AudioRegionStorageService } from '../../../../services/AudioRegionStorageService';
+import { loggingService } from '../../../../services/LoggingService';
+import {
+  MIXDOWN_FORMATS,
+  MixdownFormat,
+  MixdownRenderService,
+} from '../../../../services/MixdownRenderService';
+
+export class MixdownController {
+  constructor(
+    private roomService: RoomService,
+    private arrangeRoomStateService: ArrangeRoomStateService,
+    private audioStorage: AudioRegionStorageService,
+    private mixdownRenderService: MixdownRenderService
+  ) {}
+
+  /**
+   * Queue a mixdown of the room's audio tracks
+   */
+  startRoomMixdown = async (req: Request, res: Response): Promise<void> => {
+    const { roomId } = req.params;
+    const { userId, format = 'wav' } = req.body;
+
+    if (!roomId) {
+      res.status(400).json({ success: false, message: 'Room ID is required' });
+      return;
+    }
+
+    if (!MIXDOWN_FORMATS.includes(format)) {
+      res.status(400).json({ success: false, message: `Format must be one of: ${MIXDOWN_FORMATS.join(', ')}` });
+      return;
+    }
+
+    const room = this.roomService.getRoom(roomId);
+    const state = this.arrangeRoomStateService.getState(roomId);
+    if (!room || room.roomType !== 'arrange' || !state) {
+      res.status(404).json({ success: false, message: 'Arrange room not found' });
+      return;
+    }
+
+    if (!userId || !room.users.has(userId)) {
+      res.status(403).json({ success: false, message: 'User not authorized for this room' });
+      return;
+    }
+
+    try {
+      const job = this.mixdownRenderService.startRender({
+        scope: `room:${roomId}`,
+        downloadPath: (jobId) => `/api/rooms/${roomId}/mixdowns/${jobId}/download`,
+        format: format as MixdownFormat,
+        // Snapshot so edits made while the job is queued don't change the render
+        source: structuredClone({
+          name: room.name,
+          bpm: state.bpm,
+          tracks: state.tracks,
+          regions: state.regions,
+        }),
+        resolveAudioPath: (region) =>
+          this.audioStorage.resolveRegionFilePath(
+            roomId,
+            (region.audioUrl && this.audioStorage.extractRegionIdFromPlaybackPath(region.audioUrl)) || region.id
+          ),
+      });
+
+      loggingService.logInfo('Room mixdown queued', { roomId, userId, jobId: job.id, format });
+      res.status(202).json({ success: true, job: await this.mixdownRenderService.getJobStatus(job.id, job.scope) });
+    } catch (error) {
+      loggingService.logError(error as Error, { context: 'MixdownController:startRoomMixdown', roomId });
+      res.status(500).json({ success: false, message: 'Failed to start mixdown' });
+    }
+  };
+
+  /**
+   * Status of a room mixdown job, including the download URL once completed
+   */
+  getRoomMixdown = async (req: Request, res: Response): Promise<void> => {
+    const { roomId, jobId } = req.params;
+
+    if (!roomId || !jobId) {
+      res.status(400).json({ success: false, message: 'Room ID and job ID are required' });
+      return;
+    }
+
+    try {
+      const job = await this.mixdownRenderService.getJobStatus(jobId, `room:${roomId}`);
+      if (!job) {
+        res.status(404).json({ success: false, message: 'Mixdown job not found' });
+        return;
+      }
+      res.json({ success: true, job });
+    } catch (error) {
+      loggingService.logError(error as Error, { context: 'MixdownController:getRoomMixdown', roomId, jobId });
+      res.status(500).json({ success: false, message: 'Failed to get mixdown status' });
+    }
+  };
+
+  /**
+   * Download a completed room mixdown through the API (for storage without public URLs)
+   */
+  downloadRoomMixdown = async (req: Request, res: Response): Promise<void> => {
+    const { roomId, jobId } = req.params;
+
+    if (!roomId || !jobId) {
+      res.status(400).json({ success: false, message: 'Room ID and job ID are required' });
+      return;
+    }
+
+    try {
+      const job = this.mixdownRenderService.getJob(jobId, `room:${roomId}`);
+      const file = job ? await this.mixdownRenderService.getRenderedFile(job) : null;
+      if (!file) {
+        res.status(404).json({ success: false, message: 'Mixdown not found or not ready' });
+        return;
+      }
+
+      res.setHeader('Content-Type', file.contentType);
+      res.setHeader('Content-Disposition', `attachment; filename="${file.fileName}"`);
+      res.send(file.buffer);
+    } catch (error) {
+      loggingService.logError(error as Error, { context: 'MixdownController:downloadRoomMixdown', roomId, jobId });
+      res.status(500).json({ success: false, message: 'Failed to download mixdown' });
+    }
+  };
+}
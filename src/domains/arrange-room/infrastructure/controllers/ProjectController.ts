@@ -1,18 +1,23 @@
 import { Request, Response } from 'express';
 import JSZip from 'jszip';
 import fs from 'fs';
+import os from 'os';
 import path from 'path';
 import { AudioRegionStorageService } from '../../../../services/AudioRegionStorageService';
 import { projectStorageService } from '../../../../services/ProjectStorageService';
 import { ArrangeRoomStateService } from '../../../../services/ArrangeRoomStateService';
 import { loggingService } from '../../../../services/LoggingService';
 import { Server as SocketIOServer } from 'socket.io';
+import { prisma } from '../../../auth/infrastructure/db/prisma';
+import type { AuthRequest } from '../../../auth/infrastructure/middleware/authMiddleware';
+import type { RoomLifecycleHandler } from '../../../room-management/infrastructure/handlers/RoomLifecycleHandler';
 
 export class ProjectController {
   constructor(
     private audioStorage: AudioRegionStorageService,
     private arrangeRoomStateService: ArrangeRoomStateService,
-    private io?: SocketIOServer
+    private io?: SocketIOServer,
+    private roomLifecycleHandler?: RoomLifecycleHandler
   ) {}
 
   /**
@@ -104,22 +109,8 @@ export class ProjectController {
       }
 
       // 4. Update audio URLs in project data to point to server
-      // Use audioFileId if available (for deduplication), otherwise use region.id
       if (projectData.regions) {
-        projectData.regions = projectData.regions.map((region: any) => {
-          if (region.type === 'audio') {
-            // Use audioFileId if available (for regions that share the same audio file)
-            // Otherwise fall back to region.id
-            const audioFileId = region.audioFileId || region.id;
-            return {
-              ...region,
-              audioUrl: this.audioStorage.getRegionPlaybackPath(roomId, audioFileId),
-              // Ensure audioFileId is set for proper reference
-              audioFileId,
-            };
-          }
-          return region;
-        });
+        projectData.regions = this.withPlaybackUrls(roomId, projectData.regions);
       }
 
       // 5. Clean up old audio files from previous project (if any)
@@ -151,35 +142,8 @@ export class ProjectController {
         });
       }
 
-      // 6. Update ArrangeRoomStateService with project data
-      const state = this.arrangeRoomStateService.getState(roomId);
-      if (!state) {
-        this.arrangeRoomStateService.initializeState(roomId);
-      }
-
-      // Clear existing state and set new project data
-      this.arrangeRoomStateService.updateState(roomId, {
-        tracks: projectData.tracks || [],
-        regions: projectData.regions || [],
-        bpm: projectData.project?.bpm || 120,
-        timeSignature: projectData.project?.timeSignature || { numerator: 4, denominator: 4 },
-        synthStates: projectData.synthStates || {},
-        effectChains: projectData.effectChains || {},
-        selectedTrackId: null,
-        selectedRegionIds: [],
-      });
-
-      // Update scale if provided in project data
-      if (projectData.scale) {
-        this.arrangeRoomStateService.updateOwnerScale(
-          roomId,
-          projectData.scale.rootNote || 'C',
-          projectData.scale.scale || 'major'
-        );
-      }
-
-      // 7. Save project metadata in memory
-      projectStorageService.saveProject(roomId, projectData, username);
+      // 6-7. Update ArrangeRoomStateService and save project metadata in memory
+      this.applyProjectData(roomId, projectData, username);
 
       // 8. Broadcast project to all users in the room via WebSocket
       if (this.io) {
@@ -294,23 +258,9 @@ export class ProjectController {
 
       if (project && project.projectData) {
         // Ensure audio URLs are correct for regions
-        // Use audioFileId if available (for deduplication), otherwise use region.id
         const projectData = { ...project.projectData };
         if (projectData.regions) {
-          projectData.regions = projectData.regions.map((region: any) => {
-            if (region.type === 'audio') {
-              // Use audioFileId if available (for regions that share the same audio file)
-              // Otherwise fall back to region.id
-              const audioFileId = region.audioFileId || region.id;
-              return {
-                ...region,
-                audioUrl: this.audioStorage.getRegionPlaybackPath(roomId, audioFileId),
-                // Ensure audioFileId is set for proper reference
-                audioFileId,
-              };
-            }
-            return region;
-          });
+          projectData.regions = this.withPlaybackUrls(roomId, projectData.regions);
         }
 
         res.status(200).json({
@@ -339,4 +289,184 @@ export class ProjectController {
       });
     }
   };
+
+  /**
+   * Open one of the user's saved arrange projects in a new live arrange room.
+   * The project's audio is re-registered for the room so region playback URLs resolve.
+   */
+  openSavedProject = async (req: AuthRequest, res: Response): Promise<void> => {
+    const userId = req.user?.id;
+    const projectId = req.params.id;
+
+    if (!userId) {
+      res.status(401).json({ success: false, message: 'Unauthorized' });
+      return;
+    }
+
+    if (!projectId) {
+      res.status(400).json({ success: false, message: 'Project ID is required' });
+      return;
+    }
+
+    if (!this.roomLifecycleHandler) {
+      res.status(503).json({ success: false, message: 'Opening saved projects is not available' });
+      return;
+    }
+
+    const username = req.user?.username || req.body?.username;
+    if (!username) {
+      res.status(400).json({ success: false, message: 'User information is required' });
+      return;
+    }
+
+    let roomId: string | undefined;
+    try {
+      const project = await prisma.savedProject.findFirst({
+        where: { id: projectId, userId },
+      });
+
+      if (!project) {
+        res.status(404).json({ success: false, message: 'Project not found' });
+        return;
+      }
+
+      if (project.roomType !== 'arrange') {
+        res.status(400).json({ success: false, message: 'Only arrange projects can be opened in an arrange room' });
+        return;
+      }
+
+      // Load the files before creating the room so a missing project doesn't leave an empty room behind
+      const { projectJson, audioFiles } = await projectStorageService.loadProjectFiles(userId, projectId);
+      const projectData = JSON.parse(projectJson);
+
+      const { room, user } = await this.roomLifecycleHandler.createAndAnnounceRoom({
+        name: String(req.body?.name || project.name).trim().slice(0, 100),
+        username,
+        userId,
+        isPrivate: req.body?.isPrivate === true,
+        isHidden: req.body?.isHidden === true,
+        roomType: 'arrange',
+      });
+      roomId = room.id;
+
+      // Saved audio files are named after the region (or shared audioFileId) they belong to
+      const tempDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'open-project-'));
+      let audioFilesCount = 0;
+      try {
+        for (const audioFile of audioFiles) {
+          const fileName = path.basename(audioFile.fileName);
+          const regionId = path.parse(fileName).name;
+          const tempPath = path.join(tempDir, fileName);
+
+          try {
+            await fs.promises.writeFile(tempPath, audioFile.buffer);
+            await this.audioStorage.saveRegionAudio({
+              roomId,
+              regionId,
+              sourcePath: tempPath,
+              originalName: fileName,
+            });
+            audioFilesCount += 1;
+          } catch (error) {
+            loggingService.logError(error as Error, {
+              context: 'ProjectController:openSavedProject:saveAudio',
+              roomId,
+              projectId,
+              regionId,
+            });
+          }
+        }
+      } finally {
+        await fs.promises.rm(tempDir, { recursive: true, force: true }).catch(() => {});
+      }
+
+      if (projectData.regions) {
+        projectData.regions = this.withPlaybackUrls(roomId, projectData.regions);
+      }
+      this.applyProjectData(roomId, projectData, username);
+
+      loggingService.logInfo('Saved project opened in arrange room', {
+        roomId,
+        projectId,
+        userId,
+        audioFilesCount,
+      });
+
+      res.status(201).json({
+        success: true,
+        roomId,
+        room: {
+          ...room,
+          // A freshly opened room only has its owner
+          users: [user],
+          pendingMembers: [],
+        },
+        user,
+        projectName: project.name,
+        audioFilesCount,
+      });
+    } catch (error) {
+      loggingService.logError(error as Error, {
+        context: 'ProjectController:openSavedProject',
+        projectId,
+        roomId,
+      });
+
+      res.status(500).json({
+        success: false,
+        message: 'Failed to open project',
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  };
+
+  /**
+   * Point audio regions at the room's playback endpoint.
+   * Uses audioFileId if available (regions can share the same audio file), otherwise region.id
+   */
+  private withPlaybackUrls(roomId: string, regions: any[]): any[] {
+    return regions.map((region: any) => {
+      if (region.type !== 'audio') {
+        return region;
+      }
+      const audioFileId = region.audioFileId || region.id;
+      return {
+        ...region,
+        audioUrl: this.audioStorage.getRegionPlaybackPath(roomId, audioFileId),
+        // Ensure audioFileId is set for proper reference
+        audioFileId,
+      };
+    });
+  }
+
+  /**
+   * Replace the room's arrange state with the project data and keep the project in memory
+   * so it survives page refreshes
+   */
+  private applyProjectData(roomId: string, projectData: any, uploadedBy: string): void {
+    if (!this.arrangeRoomStateService.getState(roomId)) {
+      this.arrangeRoomStateService.initializeState(roomId);
+    }
+
+    // Clear existing state and set new project data
+    this.arrangeRoomStateService.loadProject(roomId, {
+      tracks: projectData.tracks || [],
+      regions: projectData.regions || [],
+      bpm: projectData.project?.bpm || 120,
+      timeSignature: projectData.project?.timeSignature || { numerator: 4, denominator: 4 },
+      synthStates: projectData.synthStates || {},
+      effectChains: projectData.effectChains || {},
+    });
+
+    // Update scale if provided in project data
+    if (projectData.scale) {
+      this.arrangeRoomStateService.updateOwnerScale(
+        roomId,
+        projectData.scale.rootNote || 'C',
+        projectData.scale.scale || 'major'
+      );
+    }
+
+    projectStorageService.saveProject(roomId, projectData, uploadedBy);
+  }
 }
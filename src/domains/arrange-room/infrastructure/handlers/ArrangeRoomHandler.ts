@@ -1,17 +1,43 @@
+import { isDeepStrictEqual } from 'util';
 import { Socket, Namespace } from 'socket.io';
 import { ArrangeRoomStateService } from '../../../../services/ArrangeRoomStateService';
 import { RoomSessionManager } from '../../../../services/RoomSessionManager';
 import { RoomService } from '../../../../services/RoomService';
 import { loggingService } from '../../../../services/LoggingService';
 import { AudioRegionStorageService } from '../../../../services/AudioRegionStorageService';
-import type { Track, Region, LockInfo, ArrangeTimeSignature, AudioRegion } from '../../domain/models/ArrangeRoomState';
+import { ArrangeHistoryService } from '../../../../services/ArrangeHistoryService';
+import { ArrangeSyncLogService } from '../../../../services/ArrangeSyncLogService';
+import { hasRoomCapability } from '../../../../services/RoomPermissions';
+import type {
+  Track,
+  Region,
+  LockType,
+  ArrangeTimeSignature,
+  AudioRegion,
+  MidiNote,
+  SustainEvent,
+} from '../../domain/models/ArrangeRoomState';
+import type { ArrangeOperation, ArrangeOperationType, MidiElementOperation } from '../../domain/models/ArrangeOperation';
+
+// Operations on the song structure (tempo, meter and markers) need the arrange_structure capability
+const STRUCTURE_OPERATION_TYPES = new Set<ArrangeOperationType>([
+  'bpm_change',
+  'time_signature_change',
+  'marker_add',
+  'marker_update',
+  'marker_delete',
+]);
+
+const STRUCTURE_PERMISSION_ERROR = { message: 'You do not have permission to change the song structure' };
 
 export class ArrangeRoomHandler {
   constructor(
     private arrangeRoomStateService: ArrangeRoomStateService,
     private roomSessionManager: RoomSessionManager,
     private roomService: RoomService,
-    private audioRegionStorageService?: AudioRegionStorageService
+    private audioRegionStorageService?: AudioRegionStorageService,
+    private arrangeHistoryService?: ArrangeHistoryService,
+    private arrangeSyncLogService?: ArrangeSyncLogService
   ) {}
 
   /**
@@ -40,6 +66,328 @@ export class ArrangeRoomHandler {
     };
   }
 
+  /**
+   * Get session info for a user allowed to change the song structure: tempo, meter, key and markers
+   */
+  private getStructureSession(socket: Socket, roomId: string): { roomId: string; userId: string; username: string } | null {
+    const session = this.getSession(socket);
+    if (!session || session.roomId !== roomId) {
+      return null;
+    }
+
+    if (!this.canChangeStructure(roomId, session.userId)) {
+      socket.emit('error', STRUCTURE_PERMISSION_ERROR);
+      return null;
+    }
+
+    return session;
+  }
+
+  /**
+   * Whether the user may change the song structure: tempo, meter, key and markers
+   */
+  private canChangeStructure(roomId: string, userId: string): boolean {
+    const room = this.roomService.getRoom(roomId);
+    return !!room && hasRoomCapability(room, userId, 'arrange_structure');
+  }
+
+  /**
+   * Compute the inverse of operations against the current state (call before applying them)
+   */
+  private invertOperations(roomId: string, operations: ArrangeOperation[]): ArrangeOperation[] {
+    return operations
+      .map((operation) => this.arrangeRoomStateService.invertOperation(roomId, operation))
+      .reverse()
+      .flat();
+  }
+
+  /**
+   * Record an undoable step for the user who made the change
+   */
+  private recordHistory(
+    roomId: string,
+    userId: string,
+    label: string,
+    redo: ArrangeOperation[],
+    undo: ArrangeOperation[],
+    onDiscard?: () => void
+  ): void {
+    if (!this.arrangeHistoryService || undo.length === 0) {
+      return;
+    }
+
+    this.arrangeHistoryService.record(roomId, userId, onDiscard ? { label, undo, redo, onDiscard } : { label, undo, redo });
+  }
+
+  /**
+   * Delete stored audio of regions that are gone unless a region in the current state still
+   * plays the same file (including the same region, e.g. after an undo brought it back)
+   */
+  private deleteUnreferencedRegionAudio(roomId: string, removedRegions: AudioRegion[], context: string): void {
+    const storage = this.audioRegionStorageService;
+    const state = this.arrangeRoomStateService.getState(roomId);
+    if (!storage || !state || removedRegions.length === 0) {
+      return;
+    }
+
+    const getStorageRegionId = (region: AudioRegion): string =>
+      (region.audioUrl && storage.extractRegionIdFromPlaybackPath(region.audioUrl)) || region.id;
+    const referenced = new Set<string>();
+    state.regions.forEach((candidate) => {
+      if (candidate.type === 'audio') {
+        referenced.add(getStorageRegionId(candidate));
+        if (candidate.audioUrl) {
+          referenced.add(candidate.audioUrl);
+        }
+      }
+    });
+    const handledStorageIds = new Set<string>();
+
+    removedRegions.forEach((region) => {
+      const storageRegionId = getStorageRegionId(region);
+      if (
+        referenced.has(storageRegionId) ||
+        (region.audioUrl && referenced.has(region.audioUrl)) ||
+        handledStorageIds.has(storageRegionId)
+      ) {
+        return;
+      }
+
+      handledStorageIds.add(storageRegionId);
+
+      storage
+        .deleteRegionAudio(roomId, storageRegionId)
+        .catch((error) =>
+          loggingService.logError(error as Error, {
+            context,
+            roomId,
+            regionId: storageRegionId,
+          })
+        );
+    });
+  }
+
+  /**
+   * Audio files of deleted regions are kept while the deletion can still be undone
+   */
+  private scheduleRegionAudioDeletion(roomId: string, removedRegions: AudioRegion[], context: string): (() => void) | undefined {
+    if (removedRegions.length === 0) {
+      return undefined;
+    }
+
+    const deleteAudio = () => this.deleteUnreferencedRegionAudio(roomId, removedRegions, context);
+    if (this.arrangeHistoryService) {
+      return deleteAudio;
+    }
+
+    deleteAudio();
+    return undefined;
+  }
+
+  /**
+   * Find a lock held by another user on any element touched by the operations
+   */
+  private findLockConflict(
+    roomId: string,
+    userId: string,
+    operations: ArrangeOperation[]
+  ): { elementId: string; lockedBy: string } | null {
+    const state = this.arrangeRoomStateService.getState(roomId);
+
+    for (const operation of operations) {
+      const elementIds: string[] = [];
+      // Note and sustain edits merge per element, so only structural region changes honour region locks
+      switch (operation.type) {
+        case 'region_update':
+        case 'region_delete':
+          elementIds.push(operation.regionId);
+          break;
+        case 'track_update':
+        case 'track_instrument_change':
+        case 'effect_chain_update':
+          elementIds.push(`track_${operation.trackId}_property`);
+          break;
+        case 'track_delete':
+          elementIds.push(
+            operation.trackId,
+            ...(state?.regions.filter((r) => r.trackId === operation.trackId).map((r) => r.id) ?? [])
+          );
+          break;
+        default:
+          break;
+      }
+
+      for (const elementId of elementIds) {
+        const lock = this.arrangeRoomStateService.isLocked(roomId, elementId);
+        if (lock && lock.userId !== userId) {
+          return { elementId, lockedBy: lock.username };
+        }
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Broadcast a state change to the room, stamped with the room's sync sequence number
+   * so clients can later ask for just the changes they missed
+   */
+  private broadcastChange(namespace: Namespace, roomId: string, event: string, payload: Record<string, unknown>): void {
+    if (!this.arrangeSyncLogService) {
+      namespace.to(roomId).emit(event, payload);
+      return;
+    }
+    const { seq } = this.arrangeSyncLogService.record(roomId, event, payload);
+    namespace.to(roomId).emit(event, { ...payload, seq });
+  }
+
+  /**
+   * Broadcast an applied operation using the same event as the original change
+   */
+  private broadcastOperation(namespace: Namespace, roomId: string, userId: string, operation: ArrangeOperation): void {
+    const getClock = (regionId: string) => this.arrangeRoomStateService.getMidiClock(roomId, regionId);
+    switch (operation.type) {
+      case 'track_add':
+        this.broadcastChange(namespace, roomId, 'arrange:track_added', { track: operation.track, userId });
+        break;
+      case 'track_delete':
+        this.broadcastChange(namespace, roomId, 'arrange:track_deleted', { trackId: operation.trackId, userId });
+        break;
+      case 'track_update':
+        this.broadcastChange(namespace, roomId, 'arrange:track_updated', { trackId: operation.trackId, updates: operation.updates, userId });
+        break;
+      case 'track_instrument_change':
+        this.broadcastChange(namespace, roomId, 'arrange:track_instrument_changed', {
+          trackId: operation.trackId,
+          instrumentId: operation.instrumentId,
+          instrumentCategory: operation.instrumentCategory,
+          userId,
+        });
+        break;
+      case 'track_reorder':
+        this.broadcastChange(namespace, roomId, 'arrange:track_reordered', { trackIds: operation.trackIds, userId });
+        break;
+      case 'region_add':
+        this.broadcastChange(namespace, roomId, 'arrange:region_added', { region: operation.region, userId });
+        break;
+      case 'region_update':
+        this.broadcastChange(namespace, roomId, 'arrange:region_updated', { regionId: operation.regionId, updates: operation.updates, userId });
+        break;
+      case 'region_delete':
+        this.broadcastChange(namespace, roomId, 'arrange:region_deleted', { regionId: operation.regionId, userId });
+        break;
+      case 'note_add':
+        this.broadcastChange(namespace, roomId, 'arrange:note_added', {
+          regionId: operation.regionId,
+          note: operation.note,
+          clock: getClock(operation.regionId),
+          userId,
+        });
+        break;
+      case 'note_update':
+        this.broadcastChange(namespace, roomId, 'arrange:note_updated', {
+          regionId: operation.regionId,
+          noteId: operation.noteId,
+          updates: operation.updates,
+          clock: getClock(operation.regionId),
+          userId,
+        });
+        break;
+      case 'note_delete':
+        this.broadcastChange(namespace, roomId, 'arrange:note_deleted', {
+          regionId: operation.regionId,
+          noteId: operation.noteId,
+          clock: getClock(operation.regionId),
+          userId,
+        });
+        break;
+      case 'sustain_add':
+        this.broadcastChange(namespace, roomId, 'arrange:sustain_added', {
+          regionId: operation.regionId,
+          sustainEvent: operation.sustainEvent,
+          clock: getClock(operation.regionId),
+          userId,
+        });
+        break;
+      case 'sustain_update':
+        this.broadcastChange(namespace, roomId, 'arrange:sustain_updated', {
+          regionId: operation.regionId,
+          sustainEventId: operation.sustainEventId,
+          updates: operation.updates,
+          clock: getClock(operation.regionId),
+          userId,
+        });
+        break;
+      case 'sustain_delete':
+        this.broadcastChange(namespace, roomId, 'arrange:sustain_deleted', {
+          regionId: operation.regionId,
+          sustainEventId: operation.sustainEventId,
+          clock: getClock(operation.regionId),
+          userId,
+        });
+        break;
+      case 'marker_add':
+        this.broadcastChange(namespace, roomId, 'arrange:marker_added', { marker: operation.marker, userId });
+        break;
+      case 'marker_update':
+        this.broadcastChange(namespace, roomId, 'arrange:marker_updated', { markerId: operation.markerId, updates: operation.updates, userId });
+        break;
+      case 'marker_delete':
+        this.broadcastChange(namespace, roomId, 'arrange:marker_deleted', { markerId: operation.markerId, userId });
+        break;
+      case 'effect_chain_update':
+        this.broadcastChange(namespace, roomId, 'arrange:effect_chain_updated', {
+          trackId: operation.trackId,
+          chainType: operation.chainType,
+          effectChain: operation.effectChain,
+          userId,
+        });
+        break;
+      case 'bpm_change':
+        this.broadcastChange(namespace, roomId, 'arrange:bpm_changed', { bpm: operation.bpm, userId });
+        break;
+      case 'time_signature_change':
+        this.broadcastChange(namespace, roomId, 'arrange:time_signature_changed', { timeSignature: operation.timeSignature, userId });
+        break;
+    }
+  }
+
+  /**
+   * Merge a note or sustain event edit and broadcast the part that landed.
+   * A losing edit is answered with the authoritative element so the sender can roll back.
+   * Returns whether anything was applied.
+   */
+  private mergeMidiEdit(
+    socket: Socket,
+    namespace: Namespace,
+    session: { userId: string },
+    data: { roomId: string; clock?: number },
+    operation: MidiElementOperation,
+    label: string
+  ): boolean {
+    const region = this.arrangeRoomStateService.getState(data.roomId)?.regions.find((r) => r.id === operation.regionId);
+    if (!region || region.type !== 'midi') {
+      return false;
+    }
+
+    const author = data.clock !== undefined ? { userId: session.userId, clock: data.clock } : { userId: session.userId };
+    const result = this.arrangeRoomStateService.applyMidiOperation(data.roomId, operation, author);
+    if (!result.applied) {
+      socket.emit('arrange:midi_resync', {
+        regionId: operation.regionId,
+        kind: result.kind,
+        elementId: result.elementId,
+        element: result.element,
+        clock: result.clock,
+      });
+      return false;
+    }
+
+    this.broadcastOperation(namespace, data.roomId, session.userId, result.operation);
+    this.recordHistory(data.roomId, session.userId, label, [result.operation], result.inverse);
+    return true;
+  }
+
   /**
    * Handle request for current state (late joiner)
    */
@@ -50,11 +398,45 @@ export class ArrangeRoomHandler {
       return;
     }
 
-    const state = this.arrangeRoomStateService.getState(data.roomId);
+    this.emitStateSync(socket, session, data.roomId);
+  }
+
+  /**
+   * Handle a reconnecting client catching up from the last sequence number it saw.
+   * Replies with only the missed changes, or with a full state sync when they are no longer buffered.
+   */
+  handleSyncSince(socket: Socket, data: { roomId: string; seq: number; syncEpoch?: string }): void {
+    const session = this.getSession(socket);
+    if (!session || session.roomId !== data.roomId) {
+      socket.emit('error', { message: 'Invalid session or room' });
+      return;
+    }
+
+    const events = this.arrangeSyncLogService?.getEventsSince(data.roomId, data.seq, data.syncEpoch);
+    if (!this.arrangeSyncLogService || !events || !this.arrangeRoomStateService.getState(data.roomId)) {
+      loggingService.logInfo('Arrange sync gap not covered, sending full state', {
+        roomId: data.roomId,
+        userId: session.userId,
+        seq: data.seq,
+      });
+      this.emitStateSync(socket, session, data.roomId);
+      return;
+    }
+
+    const { epoch, seq } = this.arrangeSyncLogService.getPosition(data.roomId);
+    socket.emit('arrange:sync_delta', { syncEpoch: epoch, fromSeq: data.seq, seq, events });
+  }
+
+  /**
+   * Send the full arrange state, initializing it if the room has none yet
+   */
+  private emitStateSync(socket: Socket, session: { userId: string }, roomId: string): void {
+    const state = this.arrangeRoomStateService.getState(roomId);
     if (!state) {
       // Initialize empty state
-      this.arrangeRoomStateService.initializeState(data.roomId);
+      this.arrangeRoomStateService.initializeState(roomId);
       socket.emit('arrange:state_sync', {
+        ...this.getSyncPosition(roomId),
         tracks: [],
         regions: [],
         locks: [],
@@ -65,6 +447,7 @@ export class ArrangeRoomHandler {
         synthStates: {},
         effectChains: {},
         markers: [],
+        midiClocks: {},
       });
       return;
     }
@@ -76,6 +459,7 @@ export class ArrangeRoomHandler {
     }));
 
     socket.emit('arrange:state_sync', {
+      ...this.getSyncPosition(roomId),
       tracks: state.tracks,
       regions: state.regions,
       locks: locksArray,
@@ -89,16 +473,28 @@ export class ArrangeRoomHandler {
       markers: state.markers || [],
       voiceStates: state.voiceStates,
       broadcastStates: state.broadcastStates,
+      midiClocks: this.arrangeRoomStateService.getMidiClocks(roomId),
+      // Lets clients tell that the room was recovered after a server restart
+      ...(state.restoredAt && { restoredAt: state.restoredAt.toISOString() }),
     });
 
     loggingService.logInfo('Arrange room state requested', {
-      roomId: data.roomId,
+      roomId: roomId,
       userId: session.userId,
       trackCount: state.tracks.length,
       regionCount: state.regions.length,
     });
   }
 
+  // Where the sent state sits in the room's change sequence; clients resume from it with arrange:sync_since
+  private getSyncPosition(roomId: string): { syncEpoch?: string; seq?: number } {
+    if (!this.arrangeSyncLogService) {
+      return {};
+    }
+    const { epoch, seq } = this.arrangeSyncLogService.getPosition(roomId);
+    return { syncEpoch: epoch, seq };
+  }
+
   /**
    * Handle track add
    */
@@ -109,8 +505,11 @@ export class ArrangeRoomHandler {
     }
 
     try {
+      const redo: ArrangeOperation[] = [{ type: 'track_add', track: data.track }];
+      const undo = this.invertOperations(data.roomId, redo);
       this.arrangeRoomStateService.addTrack(data.roomId, data.track);
-      namespace.to(data.roomId).emit('arrange:track_added', { track: data.track, userId: session.userId });
+      this.broadcastChange(namespace, data.roomId, 'arrange:track_added', { track: data.track, userId: session.userId });
+      this.recordHistory(data.roomId, session.userId, 'Add track', redo, undo);
       loggingService.logInfo('Track added', { roomId: data.roomId, trackId: data.track.id, userId: session.userId });
     } catch (error) {
       loggingService.logError(error as Error, { context: 'ArrangeRoomHandler:handleTrackAdd', roomId: data.roomId });
@@ -136,12 +535,15 @@ export class ArrangeRoomHandler {
     }
 
     try {
+      const redo: ArrangeOperation[] = [{ type: 'track_update', trackId: data.trackId, updates: data.updates }];
+      const undo = this.invertOperations(data.roomId, redo);
       this.arrangeRoomStateService.updateTrack(data.roomId, data.trackId, data.updates);
-      namespace.to(data.roomId).emit('arrange:track_updated', {
+      this.broadcastChange(namespace, data.roomId, 'arrange:track_updated', {
         trackId: data.trackId,
         updates: data.updates,
         userId: session.userId,
       });
+      this.recordHistory(data.roomId, session.userId, 'Update track', redo, undo);
       loggingService.logInfo('Track updated', { roomId: data.roomId, trackId: data.trackId, userId: session.userId });
     } catch (error) {
       loggingService.logError(error as Error, { context: 'ArrangeRoomHandler:handleTrackUpdate', roomId: data.roomId });
@@ -166,51 +568,14 @@ export class ArrangeRoomHandler {
             region.trackId === data.trackId && region.type === 'audio'
         ) ?? [];
 
+      const redo: ArrangeOperation[] = [{ type: 'track_delete', trackId: data.trackId }];
+      const undo = this.invertOperations(data.roomId, redo);
       this.arrangeRoomStateService.removeTrack(data.roomId, data.trackId);
-      namespace.to(data.roomId).emit('arrange:track_deleted', { trackId: data.trackId, userId: session.userId });
+      this.broadcastChange(namespace, data.roomId, 'arrange:track_deleted', { trackId: data.trackId, userId: session.userId });
       loggingService.logInfo('Track deleted', { roomId: data.roomId, trackId: data.trackId, userId: session.userId });
 
-      const storage = this.audioRegionStorageService;
-      if (audioRegions.length && storage && state) {
-        const removedIds = new Set(audioRegions.map((region) => region.id));
-        const handledStorageIds = new Set<string>();
-        const deletionPromises = audioRegions.map(async (region) => {
-          const audioUrl = region.audioUrl;
-          const hasOtherReferences =
-            !!audioUrl &&
-            state.regions.some(
-              (candidate) =>
-                !removedIds.has(candidate.id) &&
-                candidate.type === 'audio' &&
-                candidate.audioUrl === audioUrl
-            );
-
-          if (hasOtherReferences) {
-            return;
-          }
-
-          const storageRegionId =
-            (audioUrl && storage.extractRegionIdFromPlaybackPath(audioUrl)) || region.id;
-
-          if (handledStorageIds.has(storageRegionId)) {
-            return;
-          }
-
-          handledStorageIds.add(storageRegionId);
-
-          await storage
-            .deleteRegionAudio(data.roomId, storageRegionId)
-            .catch((error) =>
-              loggingService.logError(error as Error, {
-                context: 'ArrangeRoomHandler:deleteTrackAudio',
-                roomId: data.roomId,
-                regionId: storageRegionId,
-              })
-            );
-        });
-
-        void Promise.all(deletionPromises);
-      }
+      const deleteAudio = this.scheduleRegionAudioDeletion(data.roomId, audioRegions, 'ArrangeRoomHandler:deleteTrackAudio');
+      this.recordHistory(data.roomId, session.userId, 'Delete track', redo, undo, deleteAudio);
     } catch (error) {
       loggingService.logError(error as Error, { context: 'ArrangeRoomHandler:handleTrackDelete', roomId: data.roomId });
       socket.emit('error', { message: 'Failed to delete track' });
@@ -227,11 +592,14 @@ export class ArrangeRoomHandler {
     }
 
     try {
+      const redo: ArrangeOperation[] = [{ type: 'track_reorder', trackIds: data.trackIds }];
+      const undo = this.invertOperations(data.roomId, redo);
       this.arrangeRoomStateService.reorderTracks(data.roomId, data.trackIds);
-      namespace.to(data.roomId).emit('arrange:track_reordered', {
+      this.broadcastChange(namespace, data.roomId, 'arrange:track_reordered', {
         trackIds: data.trackIds,
         userId: session.userId,
       });
+      this.recordHistory(data.roomId, session.userId, 'Reorder tracks', redo, undo);
       loggingService.logInfo('Tracks reordered', {
         roomId: data.roomId,
         trackCount: data.trackIds.length,
@@ -262,13 +630,20 @@ export class ArrangeRoomHandler {
       if (data.instrumentCategory !== undefined) {
         updates.instrumentCategory = data.instrumentCategory;
       }
+      const redoOperation: ArrangeOperation = { type: 'track_instrument_change', trackId: data.trackId, instrumentId: data.instrumentId };
+      if (data.instrumentCategory !== undefined) {
+        redoOperation.instrumentCategory = data.instrumentCategory;
+      }
+      const redo = [redoOperation];
+      const undo = this.invertOperations(data.roomId, redo);
       this.arrangeRoomStateService.updateTrack(data.roomId, data.trackId, updates);
-      namespace.to(data.roomId).emit('arrange:track_instrument_changed', {
+      this.broadcastChange(namespace, data.roomId, 'arrange:track_instrument_changed', {
         trackId: data.trackId,
         instrumentId: data.instrumentId,
         instrumentCategory: data.instrumentCategory,
         userId: session.userId,
       });
+      this.recordHistory(data.roomId, session.userId, 'Change instrument', redo, undo);
       loggingService.logInfo('Track instrument changed', {
         roomId: data.roomId,
         trackId: data.trackId,
@@ -295,7 +670,7 @@ export class ArrangeRoomHandler {
 
     try {
       this.arrangeRoomStateService.updateSynthParams(data.roomId, data.trackId, data.params);
-      namespace.to(data.roomId).emit('arrange:synth_params_updated', {
+      this.broadcastChange(namespace, data.roomId, 'arrange:synth_params_updated', {
         trackId: data.trackId,
         params: data.params,
         userId: session.userId,
@@ -318,17 +693,20 @@ export class ArrangeRoomHandler {
    * Handle BPM change
    */
   handleBpmChange(socket: Socket, namespace: Namespace, data: { roomId: string; bpm: number }): void {
-    const session = this.getSession(socket);
-    if (!session || session.roomId !== data.roomId) {
+    const session = this.getStructureSession(socket, data.roomId);
+    if (!session) {
       return;
     }
 
     try {
+      const redo: ArrangeOperation[] = [{ type: 'bpm_change', bpm: data.bpm }];
+      const undo = this.invertOperations(data.roomId, redo);
       this.arrangeRoomStateService.setBpm(data.roomId, data.bpm);
-      namespace.to(data.roomId).emit('arrange:bpm_changed', {
+      this.broadcastChange(namespace, data.roomId, 'arrange:bpm_changed', {
         bpm: data.bpm,
         userId: session.userId,
       });
+      this.recordHistory(data.roomId, session.userId, 'Change BPM', redo, undo);
       loggingService.logInfo('BPM changed', {
         roomId: data.roomId,
         bpm: data.bpm,
@@ -347,17 +725,20 @@ export class ArrangeRoomHandler {
    * Handle time signature change
    */
   handleTimeSignatureChange(socket: Socket, namespace: Namespace, data: { roomId: string; timeSignature: ArrangeTimeSignature }): void {
-    const session = this.getSession(socket);
-    if (!session || session.roomId !== data.roomId) {
+    const session = this.getStructureSession(socket, data.roomId);
+    if (!session) {
       return;
     }
 
     try {
+      const redo: ArrangeOperation[] = [{ type: 'time_signature_change', timeSignature: data.timeSignature }];
+      const undo = this.invertOperations(data.roomId, redo);
       this.arrangeRoomStateService.setTimeSignature(data.roomId, data.timeSignature);
-      namespace.to(data.roomId).emit('arrange:time_signature_changed', {
+      this.broadcastChange(namespace, data.roomId, 'arrange:time_signature_changed', {
         timeSignature: data.timeSignature,
         userId: session.userId,
       });
+      this.recordHistory(data.roomId, session.userId, 'Change time signature', redo, undo);
       loggingService.logInfo('Time signature changed', {
         roomId: data.roomId,
         timeSignature: data.timeSignature,
@@ -382,8 +763,17 @@ export class ArrangeRoomHandler {
     }
 
     try {
+      const redo: ArrangeOperation[] = [{ type: 'region_add', region: data.region }];
+      const undo = this.invertOperations(data.roomId, redo);
       this.arrangeRoomStateService.addRegion(data.roomId, data.region);
-      namespace.to(data.roomId).emit('arrange:region_added', { region: data.region, userId: session.userId });
+      this.broadcastChange(namespace, data.roomId, 'arrange:region_added', { region: data.region, userId: session.userId });
+      // An undone recording leaves its file behind; it goes once the step can't be redone
+      const region = data.region;
+      const deleteAudio =
+        region.type === 'audio'
+          ? () => this.deleteUnreferencedRegionAudio(data.roomId, [region], 'ArrangeRoomHandler:handleRegionAddAudio')
+          : undefined;
+      this.recordHistory(data.roomId, session.userId, 'Add region', redo, undo, deleteAudio);
       loggingService.logInfo('Region added', { roomId: data.roomId, regionId: data.region.id, userId: session.userId });
     } catch (error) {
       loggingService.logError(error as Error, { context: 'ArrangeRoomHandler:handleRegionAdd', roomId: data.roomId });
@@ -408,12 +798,15 @@ export class ArrangeRoomHandler {
     }
 
     try {
+      const redo: ArrangeOperation[] = [{ type: 'region_update', regionId: data.regionId, updates: data.updates }];
+      const undo = this.invertOperations(data.roomId, redo);
       this.arrangeRoomStateService.updateRegion(data.roomId, data.regionId, data.updates);
-      namespace.to(data.roomId).emit('arrange:region_updated', {
+      this.broadcastChange(namespace, data.roomId, 'arrange:region_updated', {
         regionId: data.regionId,
         updates: data.updates,
         userId: session.userId,
       });
+      this.recordHistory(data.roomId, session.userId, 'Update region', redo, undo);
       loggingService.logInfo('Region updated', { roomId: data.roomId, regionId: data.regionId, userId: session.userId });
     } catch (error) {
       loggingService.logError(error as Error, { context: 'ArrangeRoomHandler:handleRegionUpdate', roomId: data.roomId });
@@ -449,12 +842,15 @@ export class ArrangeRoomHandler {
       }
 
       const newStart = Math.max(0, region.start + data.deltaBeats);
+      const redo: ArrangeOperation[] = [{ type: 'region_update', regionId: data.regionId, updates: { start: newStart } }];
+      const undo = this.invertOperations(data.roomId, redo);
       this.arrangeRoomStateService.updateRegion(data.roomId, data.regionId, { start: newStart });
-      namespace.to(data.roomId).emit('arrange:region_moved', {
+      this.broadcastChange(namespace, data.roomId, 'arrange:region_moved', {
         regionId: data.regionId,
         newStart,
         userId: session.userId,
       });
+      this.recordHistory(data.roomId, session.userId, 'Move region', redo, undo);
       loggingService.logInfo('Region moved', { roomId: data.roomId, regionId: data.regionId, userId: session.userId });
     } catch (error) {
       loggingService.logError(error as Error, { context: 'ArrangeRoomHandler:handleRegionMove', roomId: data.roomId });
@@ -490,6 +886,8 @@ export class ArrangeRoomHandler {
     }
 
     const broadcastUpdates: Array<{ regionId: string; newStart: number; trackId?: string }> = [];
+    const redo: ArrangeOperation[] = [];
+    const undo: ArrangeOperation[] = [];
 
     try {
       for (const update of data.updates) {
@@ -510,6 +908,9 @@ export class ArrangeRoomHandler {
           updatesToApply.trackId = nextTrackId;
         }
 
+        const operation: ArrangeOperation = { type: 'region_update', regionId: region.id, updates: updatesToApply };
+        undo.unshift(...this.arrangeRoomStateService.invertOperation(data.roomId, operation));
+        redo.push(operation);
         state = this.arrangeRoomStateService.updateRegion(data.roomId, region.id, updatesToApply);
 
         const payload: { regionId: string; newStart: number; trackId?: string } = {
@@ -526,10 +927,11 @@ export class ArrangeRoomHandler {
         return;
       }
 
-      namespace.to(data.roomId).emit('arrange:region_dragged', {
+      this.broadcastChange(namespace, data.roomId, 'arrange:region_dragged', {
         updates: broadcastUpdates,
         userId: session.userId,
       });
+      this.recordHistory(data.roomId, session.userId, 'Move regions', redo, undo);
       loggingService.logInfo('Regions dragged', {
         roomId: data.roomId,
         updates: broadcastUpdates.map((update) => ({
@@ -565,37 +967,17 @@ export class ArrangeRoomHandler {
       const state = this.arrangeRoomStateService.getState(data.roomId);
       const region = state?.regions.find((r) => r.id === data.regionId);
 
+      const redo: ArrangeOperation[] = [{ type: 'region_delete', regionId: data.regionId }];
+      const undo = this.invertOperations(data.roomId, redo);
       this.arrangeRoomStateService.removeRegion(data.roomId, data.regionId);
-      namespace.to(data.roomId).emit('arrange:region_deleted', { regionId: data.regionId, userId: session.userId });
+      this.broadcastChange(namespace, data.roomId, 'arrange:region_deleted', { regionId: data.regionId, userId: session.userId });
       loggingService.logInfo('Region deleted', { roomId: data.roomId, regionId: data.regionId, userId: session.userId });
 
-      const storage = this.audioRegionStorageService;
-      if (region?.type === 'audio' && storage && state) {
-        const audioUrl = region.audioUrl;
-        const hasOtherReferences =
-          !!audioUrl &&
-          state.regions.some(
-            (candidate) =>
-              candidate.id !== region.id &&
-              candidate.type === 'audio' &&
-              candidate.audioUrl === audioUrl
-          );
-
-        if (!hasOtherReferences) {
-          const storageRegionId =
-            (audioUrl && storage.extractRegionIdFromPlaybackPath(audioUrl)) || region.id;
-
-          storage
-            .deleteRegionAudio(data.roomId, storageRegionId)
-            .catch((error) =>
-              loggingService.logError(error as Error, {
-                context: 'ArrangeRoomHandler:handleRegionDeleteAudio',
-                roomId: data.roomId,
-                regionId: storageRegionId,
-              })
-            );
-        }
-      }
+      const deleteAudio =
+        region?.type === 'audio'
+          ? this.scheduleRegionAudioDeletion(data.roomId, [region], 'ArrangeRoomHandler:handleRegionDeleteAudio')
+          : undefined;
+      this.recordHistory(data.roomId, session.userId, 'Delete region', redo, undo, deleteAudio);
     } catch (error) {
       loggingService.logError(error as Error, { context: 'ArrangeRoomHandler:handleRegionDelete', roomId: data.roomId });
       socket.emit('error', { message: 'Failed to delete region' });
@@ -605,43 +987,22 @@ export class ArrangeRoomHandler {
   /**
    * Handle note add
    */
-  handleNoteAdd(socket: Socket, namespace: Namespace, data: { roomId: string; regionId: string; note: any }): void {
+  handleNoteAdd(socket: Socket, namespace: Namespace, data: { roomId: string; regionId: string; note: MidiNote; clock?: number }): void {
     const session = this.getSession(socket);
     if (!session || session.roomId !== data.roomId) {
       return;
     }
 
-    // Check if region is locked
-    const lock = this.arrangeRoomStateService.isLocked(data.roomId, data.regionId);
-    if (lock && lock.userId !== session.userId) {
-      socket.emit('arrange:lock_conflict', { elementId: data.regionId, lockedBy: lock.username });
-      return;
-    }
-
     try {
-      const state = this.arrangeRoomStateService.getState(data.roomId);
-      if (!state) {
-        return;
-      }
-
-      const region = state.regions.find((r) => r.id === data.regionId && r.type === 'midi');
-      if (!region || region.type !== 'midi') {
-        return;
+      const operation: MidiElementOperation = { type: 'note_add', regionId: data.regionId, note: data.note };
+      if (this.mergeMidiEdit(socket, namespace, session, data, operation, 'Add note')) {
+        loggingService.logInfo('Note added', {
+          roomId: data.roomId,
+          regionId: data.regionId,
+          noteId: data.note.id,
+          userId: session.userId,
+        });
       }
-
-      const updatedNotes = [...region.notes, data.note];
-      this.arrangeRoomStateService.updateRegion(data.roomId, data.regionId, { notes: updatedNotes });
-      namespace.to(data.roomId).emit('arrange:note_added', {
-        regionId: data.regionId,
-        note: data.note,
-        userId: session.userId,
-      });
-      loggingService.logInfo('Note added', {
-        roomId: data.roomId,
-        regionId: data.regionId,
-        noteId: data.note.id,
-        userId: session.userId,
-      });
     } catch (error) {
       loggingService.logError(error as Error, { context: 'ArrangeRoomHandler:handleNoteAdd', roomId: data.roomId });
       socket.emit('error', { message: 'Failed to add note' });
@@ -651,46 +1012,26 @@ export class ArrangeRoomHandler {
   /**
    * Handle note update
    */
-  handleNoteUpdate(socket: Socket, namespace: Namespace, data: { roomId: string; regionId: string; noteId: string; updates: any }): void {
+  handleNoteUpdate(
+    socket: Socket,
+    namespace: Namespace,
+    data: { roomId: string; regionId: string; noteId: string; updates: Partial<MidiNote>; clock?: number }
+  ): void {
     const session = this.getSession(socket);
     if (!session || session.roomId !== data.roomId) {
       return;
     }
 
-    // Check if region is locked
-    const lock = this.arrangeRoomStateService.isLocked(data.roomId, data.regionId);
-    if (lock && lock.userId !== session.userId) {
-      socket.emit('arrange:lock_conflict', { elementId: data.regionId, lockedBy: lock.username });
-      return;
-    }
-
     try {
-      const state = this.arrangeRoomStateService.getState(data.roomId);
-      if (!state) {
-        return;
-      }
-
-      const region = state.regions.find((r) => r.id === data.regionId && r.type === 'midi');
-      if (!region || region.type !== 'midi') {
-        return;
+      const operation: MidiElementOperation = { type: 'note_update', regionId: data.regionId, noteId: data.noteId, updates: data.updates };
+      if (this.mergeMidiEdit(socket, namespace, session, data, operation, 'Update note')) {
+        loggingService.logInfo('Note updated', {
+          roomId: data.roomId,
+          regionId: data.regionId,
+          noteId: data.noteId,
+          userId: session.userId,
+        });
       }
-
-      const updatedNotes = region.notes.map((note) =>
-        note.id === data.noteId ? { ...note, ...data.updates } : note
-      );
-      this.arrangeRoomStateService.updateRegion(data.roomId, data.regionId, { notes: updatedNotes });
-      namespace.to(data.roomId).emit('arrange:note_updated', {
-        regionId: data.regionId,
-        noteId: data.noteId,
-        updates: data.updates,
-        userId: session.userId,
-      });
-      loggingService.logInfo('Note updated', {
-        roomId: data.roomId,
-        regionId: data.regionId,
-        noteId: data.noteId,
-        userId: session.userId,
-      });
     } catch (error) {
       loggingService.logError(error as Error, { context: 'ArrangeRoomHandler:handleNoteUpdate', roomId: data.roomId });
       socket.emit('error', { message: 'Failed to update note' });
@@ -700,46 +1041,117 @@ export class ArrangeRoomHandler {
   /**
    * Handle note delete
    */
-  handleNoteDelete(socket: Socket, namespace: Namespace, data: { roomId: string; regionId: string; noteId: string }): void {
+  handleNoteDelete(socket: Socket, namespace: Namespace, data: { roomId: string; regionId: string; noteId: string; clock?: number }): void {
     const session = this.getSession(socket);
     if (!session || session.roomId !== data.roomId) {
       return;
     }
 
-    // Check if region is locked
-    const lock = this.arrangeRoomStateService.isLocked(data.roomId, data.regionId);
-    if (lock && lock.userId !== session.userId) {
-      socket.emit('arrange:lock_conflict', { elementId: data.regionId, lockedBy: lock.username });
+    try {
+      const operation: MidiElementOperation = { type: 'note_delete', regionId: data.regionId, noteId: data.noteId };
+      if (this.mergeMidiEdit(socket, namespace, session, data, operation, 'Delete note')) {
+        loggingService.logInfo('Note deleted', {
+          roomId: data.roomId,
+          regionId: data.regionId,
+          noteId: data.noteId,
+          userId: session.userId,
+        });
+      }
+    } catch (error) {
+      loggingService.logError(error as Error, { context: 'ArrangeRoomHandler:handleNoteDelete', roomId: data.roomId });
+      socket.emit('error', { message: 'Failed to delete note' });
+    }
+  }
+
+  /**
+   * Handle sustain event add
+   */
+  handleSustainAdd(
+    socket: Socket,
+    namespace: Namespace,
+    data: { roomId: string; regionId: string; sustainEvent: SustainEvent; clock?: number }
+  ): void {
+    const session = this.getSession(socket);
+    if (!session || session.roomId !== data.roomId) {
       return;
     }
 
     try {
-      const state = this.arrangeRoomStateService.getState(data.roomId);
-      if (!state) {
-        return;
+      const operation: MidiElementOperation = { type: 'sustain_add', regionId: data.regionId, sustainEvent: data.sustainEvent };
+      if (this.mergeMidiEdit(socket, namespace, session, data, operation, 'Add sustain')) {
+        loggingService.logInfo('Sustain event added', {
+          roomId: data.roomId,
+          regionId: data.regionId,
+          sustainEventId: data.sustainEvent.id,
+          userId: session.userId,
+        });
       }
+    } catch (error) {
+      loggingService.logError(error as Error, { context: 'ArrangeRoomHandler:handleSustainAdd', roomId: data.roomId });
+      socket.emit('error', { message: 'Failed to add sustain event' });
+    }
+  }
 
-      const region = state.regions.find((r) => r.id === data.regionId && r.type === 'midi');
-      if (!region || region.type !== 'midi') {
-        return;
-      }
+  /**
+   * Handle sustain event update
+   */
+  handleSustainUpdate(
+    socket: Socket,
+    namespace: Namespace,
+    data: { roomId: string; regionId: string; sustainEventId: string; updates: Partial<Omit<SustainEvent, 'id'>>; clock?: number }
+  ): void {
+    const session = this.getSession(socket);
+    if (!session || session.roomId !== data.roomId) {
+      return;
+    }
 
-      const updatedNotes = region.notes.filter((note) => note.id !== data.noteId);
-      this.arrangeRoomStateService.updateRegion(data.roomId, data.regionId, { notes: updatedNotes });
-      namespace.to(data.roomId).emit('arrange:note_deleted', {
-        regionId: data.regionId,
-        noteId: data.noteId,
-        userId: session.userId,
-      });
-      loggingService.logInfo('Note deleted', {
-        roomId: data.roomId,
+    try {
+      const operation: MidiElementOperation = {
+        type: 'sustain_update',
         regionId: data.regionId,
-        noteId: data.noteId,
-        userId: session.userId,
-      });
+        sustainEventId: data.sustainEventId,
+        updates: data.updates,
+      };
+      if (this.mergeMidiEdit(socket, namespace, session, data, operation, 'Update sustain')) {
+        loggingService.logInfo('Sustain event updated', {
+          roomId: data.roomId,
+          regionId: data.regionId,
+          sustainEventId: data.sustainEventId,
+          userId: session.userId,
+        });
+      }
     } catch (error) {
-      loggingService.logError(error as Error, { context: 'ArrangeRoomHandler:handleNoteDelete', roomId: data.roomId });
-      socket.emit('error', { message: 'Failed to delete note' });
+      loggingService.logError(error as Error, { context: 'ArrangeRoomHandler:handleSustainUpdate', roomId: data.roomId });
+      socket.emit('error', { message: 'Failed to update sustain event' });
+    }
+  }
+
+  /**
+   * Handle sustain event delete
+   */
+  handleSustainDelete(
+    socket: Socket,
+    namespace: Namespace,
+    data: { roomId: string; regionId: string; sustainEventId: string; clock?: number }
+  ): void {
+    const session = this.getSession(socket);
+    if (!session || session.roomId !== data.roomId) {
+      return;
+    }
+
+    try {
+      const operation: MidiElementOperation = { type: 'sustain_delete', regionId: data.regionId, sustainEventId: data.sustainEventId };
+      if (this.mergeMidiEdit(socket, namespace, session, data, operation, 'Delete sustain')) {
+        loggingService.logInfo('Sustain event deleted', {
+          roomId: data.roomId,
+          regionId: data.regionId,
+          sustainEventId: data.sustainEventId,
+          userId: session.userId,
+        });
+      }
+    } catch (error) {
+      loggingService.logError(error as Error, { context: 'ArrangeRoomHandler:handleSustainDelete', roomId: data.roomId });
+      socket.emit('error', { message: 'Failed to delete sustain event' });
     }
   }
 
@@ -765,7 +1177,7 @@ export class ArrangeRoomHandler {
       this.arrangeRoomStateService.updateEffectChain(data.roomId, data.chainType, data.effectChain);
       
       // Broadcast to other users
-      namespace.to(data.roomId).emit('arrange:effect_chain_updated', {
+      this.broadcastChange(namespace, data.roomId, 'arrange:effect_chain_updated', {
         trackId: data.trackId,
         chainType: data.chainType,
         effectChain: data.effectChain,
@@ -822,24 +1234,22 @@ export class ArrangeRoomHandler {
   /**
    * Handle lock acquire
    */
-  handleLockAcquire(socket: Socket, namespace: Namespace, data: { roomId: string; elementId: string; type: 'region' | 'track' | 'track_property' }): void {
+  handleLockAcquire(socket: Socket, namespace: Namespace, data: { roomId: string; elementId: string; type: LockType }): void {
     const session = this.getSession(socket);
     if (!session || session.roomId !== data.roomId) {
       return;
     }
 
-    const lockInfo: LockInfo = {
+    const acquired = this.arrangeRoomStateService.acquireLock(data.roomId, data.elementId, {
       userId: session.userId,
       username: session.username,
       type: data.type,
       timestamp: Date.now(),
-    };
-
-    const acquired = this.arrangeRoomStateService.acquireLock(data.roomId, data.elementId, lockInfo);
+    });
     if (acquired) {
       namespace.to(data.roomId).emit('arrange:lock_acquired', {
         elementId: data.elementId,
-        lockInfo,
+        lockInfo: this.arrangeRoomStateService.isLocked(data.roomId, data.elementId),
       });
     } else {
       const existingLock = this.arrangeRoomStateService.isLocked(data.roomId, data.elementId);
@@ -864,7 +1274,129 @@ export class ArrangeRoomHandler {
       namespace.to(data.roomId).emit('arrange:lock_released', {
         elementId: data.elementId,
       });
+      this.grantQueuedLocks(namespace, data.roomId);
+    }
+  }
+
+  /**
+   * Handle lease renewal for the sender's locks (all of them unless elementIds is given)
+   */
+  handleLockHeartbeat(socket: Socket, data: { roomId: string; elementIds?: string[] }): void {
+    const session = this.getSession(socket);
+    if (!session || session.roomId !== data.roomId) {
+      return;
+    }
+
+    const locks = this.arrangeRoomStateService.renewLocks(data.roomId, session.userId, data.elementIds);
+    socket.emit('arrange:lock_heartbeat_ack', { locks });
+  }
+
+  /**
+   * Handle the room owner taking over a lock held by someone else
+   */
+  handleLockSteal(socket: Socket, namespace: Namespace, data: { roomId: string; elementId: string; type: LockType }): void {
+    const session = this.getSession(socket);
+    if (!session || session.roomId !== data.roomId) {
+      return;
+    }
+
+    if (!this.roomService.isRoomOwner(data.roomId, session.userId)) {
+      socket.emit('error', { message: 'Only the room owner can take over locks' });
+      return;
+    }
+
+    if (!this.arrangeRoomStateService.getState(data.roomId)) {
+      return;
+    }
+
+    const previousLock = this.arrangeRoomStateService.stealLock(data.roomId, data.elementId, {
+      userId: session.userId,
+      username: session.username,
+      type: data.type,
+      timestamp: Date.now(),
+    });
+
+    namespace.to(data.roomId).emit('arrange:lock_acquired', {
+      elementId: data.elementId,
+      lockInfo: this.arrangeRoomStateService.isLocked(data.roomId, data.elementId),
+      ...(previousLock && previousLock.userId !== session.userId && { stolenFrom: previousLock.userId }),
+    });
+
+    loggingService.logInfo('Arrange lock taken over by room owner', {
+      roomId: data.roomId,
+      elementId: data.elementId,
+      userId: session.userId,
+      previousUserId: previousLock?.userId,
+    });
+  }
+
+  /**
+   * Handle a request to wait for a lock. Acquires it straight away when it is free,
+   * otherwise queues the sender, who gets arrange:lock_granted once it is theirs.
+   */
+  handleLockQueue(socket: Socket, namespace: Namespace, data: { roomId: string; elementId: string; type: LockType }): void {
+    const session = this.getSession(socket);
+    if (!session || session.roomId !== data.roomId) {
+      return;
+    }
+
+    const existingLock = this.arrangeRoomStateService.isLocked(data.roomId, data.elementId);
+    if (!existingLock || existingLock.userId === session.userId) {
+      this.handleLockAcquire(socket, namespace, data);
+      return;
+    }
+
+    const position = this.arrangeRoomStateService.queueForLock(data.roomId, data.elementId, {
+      userId: session.userId,
+      username: session.username,
+      type: data.type,
+    });
+    socket.emit('arrange:lock_queued', { elementId: data.elementId, position, lockedBy: existingLock.username });
+  }
+
+  /**
+   * Handle a user giving up their place in a lock queue
+   */
+  handleLockQueueLeave(socket: Socket, data: { roomId: string; elementId: string }): void {
+    const session = this.getSession(socket);
+    if (!session || session.roomId !== data.roomId) {
+      return;
     }
+
+    this.arrangeRoomStateService.leaveLockQueue(data.roomId, data.elementId, session.userId);
+  }
+
+  /**
+   * Release locks whose lease ran out and pass them on to waiting users.
+   * Called periodically; namespaces are looked up per room.
+   */
+  expireLocks(getNamespace: (roomId: string) => Namespace | undefined): void {
+    const expired = this.arrangeRoomStateService.expireLocks();
+    const roomIds = new Set(expired.map(({ roomId }) => roomId));
+
+    expired.forEach(({ roomId, elementId, lock }) => {
+      getNamespace(roomId)?.to(roomId).emit('arrange:lock_released', { elementId, reason: 'expired' });
+      loggingService.logInfo('Arrange lock lease expired', { roomId, elementId, userId: lock.userId });
+    });
+
+    // Also covers locks freed through paths that do not grant (e.g. leaving via the lifecycle handler)
+    this.arrangeRoomStateService.getRoomIdsWithLockQueues().forEach((roomId) => roomIds.add(roomId));
+    roomIds.forEach((roomId) => {
+      const namespace = getNamespace(roomId);
+      if (namespace) {
+        this.grantQueuedLocks(namespace, roomId);
+      }
+    });
+  }
+
+  private grantQueuedLocks(namespace: Namespace, roomId: string): void {
+    this.arrangeRoomStateService.grantQueuedLocks(roomId).forEach(({ elementId, lock }) => {
+      namespace.to(roomId).emit('arrange:lock_acquired', { elementId, lockInfo: lock });
+      const socketId = this.roomService.findSocketByUserId(lock.userId, roomId);
+      if (socketId) {
+        namespace.to(socketId).emit('arrange:lock_granted', { elementId, lockInfo: lock });
+      }
+    });
   }
 
   /**
@@ -875,6 +1407,7 @@ export class ArrangeRoomHandler {
     releasedElementIds.forEach((elementId) => {
       namespace.to(roomId).emit('arrange:lock_released', { elementId });
     });
+    this.grantQueuedLocks(namespace, roomId);
 
     if (this.arrangeRoomStateService.removeVoiceState(roomId, userId)) {
       namespace.to(roomId).emit('arrange:voice_state', { userId, isMuted: true });
@@ -941,20 +1474,24 @@ export class ArrangeRoomHandler {
     namespace: Namespace,
     data: { roomId: string; marker: { id: string; position: number; description: string; color?: string } }
   ): void {
-    const session = this.getSession(socket);
-    if (!session || session.roomId !== data.roomId) {
+    const session = this.getStructureSession(socket, data.roomId);
+    if (!session) {
       return;
     }
 
     try {
+      const redo: ArrangeOperation[] = [{ type: 'marker_add', marker: data.marker }];
+      const undo = this.invertOperations(data.roomId, redo);
+
       // Update backend state
       this.arrangeRoomStateService.addMarker(data.roomId, data.marker);
 
       // Broadcast to all users in the room
-      namespace.to(data.roomId).emit('arrange:marker_added', {
+      this.broadcastChange(namespace, data.roomId, 'arrange:marker_added', {
         marker: data.marker,
         userId: session.userId,
       });
+      this.recordHistory(data.roomId, session.userId, 'Add marker', redo, undo);
 
       loggingService.logInfo('Marker added', {
         roomId: data.roomId,
@@ -978,21 +1515,25 @@ export class ArrangeRoomHandler {
     namespace: Namespace,
     data: { roomId: string; markerId: string; updates: Partial<{ position: number; description: string; color: string }> }
   ): void {
-    const session = this.getSession(socket);
-    if (!session || session.roomId !== data.roomId) {
+    const session = this.getStructureSession(socket, data.roomId);
+    if (!session) {
       return;
     }
 
     try {
+      const redo: ArrangeOperation[] = [{ type: 'marker_update', markerId: data.markerId, updates: data.updates }];
+      const undo = this.invertOperations(data.roomId, redo);
+
       // Update backend state
       this.arrangeRoomStateService.updateMarker(data.roomId, data.markerId, data.updates);
 
       // Broadcast to all users in the room
-      namespace.to(data.roomId).emit('arrange:marker_updated', {
+      this.broadcastChange(namespace, data.roomId, 'arrange:marker_updated', {
         markerId: data.markerId,
         updates: data.updates,
         userId: session.userId,
       });
+      this.recordHistory(data.roomId, session.userId, 'Update marker', redo, undo);
 
       loggingService.logInfo('Marker updated', {
         roomId: data.roomId,
@@ -1016,20 +1557,24 @@ export class ArrangeRoomHandler {
     namespace: Namespace,
     data: { roomId: string; markerId: string }
   ): void {
-    const session = this.getSession(socket);
-    if (!session || session.roomId !== data.roomId) {
+    const session = this.getStructureSession(socket, data.roomId);
+    if (!session) {
       return;
     }
 
     try {
+      const redo: ArrangeOperation[] = [{ type: 'marker_delete', markerId: data.markerId }];
+      const undo = this.invertOperations(data.roomId, redo);
+
       // Update backend state
       this.arrangeRoomStateService.removeMarker(data.roomId, data.markerId);
 
       // Broadcast to all users in the room
-      namespace.to(data.roomId).emit('arrange:marker_deleted', {
+      this.broadcastChange(namespace, data.roomId, 'arrange:marker_deleted', {
         markerId: data.markerId,
         userId: session.userId,
       });
+      this.recordHistory(data.roomId, session.userId, 'Delete marker', redo, undo);
 
       loggingService.logInfo('Marker deleted', {
         roomId: data.roomId,
@@ -1067,14 +1612,28 @@ export class ArrangeRoomHandler {
       return;
     }
 
+    const current = this.arrangeRoomStateService.getState(data.roomId);
+    const changesStructure =
+      !current ||
+      data.state.bpm !== current.bpm ||
+      !isDeepStrictEqual(data.state.timeSignature, current.timeSignature) ||
+      !isDeepStrictEqual(data.state.markers, current.markers);
+    if (changesStructure && !this.canChangeStructure(data.roomId, session.userId)) {
+      socket.emit('error', STRUCTURE_PERMISSION_ERROR);
+      return;
+    }
+
     try {
-      // Update backend state with the new full state
+      // Update backend state with the new full state (this also drops the room's undo history)
       this.arrangeRoomStateService.setFullState(data.roomId, data.state);
 
       // Broadcast to all other users in the room (exclude sender)
+      // The replace already started a new sync segment, so only its sequence number is sent
+      const seq = this.arrangeSyncLogService?.getPosition(data.roomId).seq;
       socket.to(data.roomId).emit('arrange:full_state_update', {
         userId: session.userId,
         state: data.state,
+        ...(seq !== undefined && { seq }),
       });
 
       loggingService.logInfo('Full state updated (undo/redo)', {
@@ -1093,6 +1652,84 @@ export class ArrangeRoomHandler {
     }
   }
 
+  /**
+   * Handle undo of the user's last recorded change
+   */
+  handleUndo(socket: Socket, namespace: Namespace, data: { roomId: string }): void {
+    this.replayHistory(socket, namespace, data, 'undo');
+  }
+
+  /**
+   * Handle redo of the user's last undone change
+   */
+  handleRedo(socket: Socket, namespace: Namespace, data: { roomId: string }): void {
+    this.replayHistory(socket, namespace, data, 'redo');
+  }
+
+  /**
+   * Replay a history entry through the usual lock checks and broadcasts
+   */
+  private replayHistory(socket: Socket, namespace: Namespace, data: { roomId: string }, direction: 'undo' | 'redo'): void {
+    const session = this.getSession(socket);
+    const history = this.arrangeHistoryService;
+    if (!session || session.roomId !== data.roomId || !history) {
+      return;
+    }
+
+    const entry =
+      direction === 'undo'
+        ? history.peekUndo(data.roomId, session.userId)
+        : history.peekRedo(data.roomId, session.userId);
+    if (!entry) {
+      socket.emit('arrange:history_state', history.getSummary(data.roomId, session.userId));
+      return;
+    }
+
+    const operations = direction === 'undo' ? entry.undo : entry.redo;
+    // The entry stays on its stack, like one blocked by a lock, in case the permission comes back
+    if (
+      operations.some((operation) => STRUCTURE_OPERATION_TYPES.has(operation.type)) &&
+      !this.canChangeStructure(data.roomId, session.userId)
+    ) {
+      socket.emit('error', STRUCTURE_PERMISSION_ERROR);
+      return;
+    }
+
+    const conflict = this.findLockConflict(data.roomId, session.userId, operations);
+    if (conflict) {
+      socket.emit('arrange:lock_conflict', conflict);
+      return;
+    }
+
+    try {
+      for (const operation of operations) {
+        if (this.arrangeRoomStateService.applyOperation(data.roomId, operation, session.userId)) {
+          this.broadcastOperation(namespace, data.roomId, session.userId, operation);
+        }
+      }
+
+      if (direction === 'undo') {
+        history.commitUndo(data.roomId, session.userId);
+      } else {
+        history.commitRedo(data.roomId, session.userId);
+      }
+
+      socket.emit('arrange:history_state', history.getSummary(data.roomId, session.userId));
+      loggingService.logInfo(direction === 'undo' ? 'Arrange change undone' : 'Arrange change redone', {
+        roomId: data.roomId,
+        userId: session.userId,
+        label: entry.label,
+        operations: operations.length,
+      });
+    } catch (error) {
+      loggingService.logError(error as Error, {
+        context: `ArrangeRoomHandler:handle${direction === 'undo' ? 'Undo' : 'Redo'}`,
+        roomId: data.roomId,
+      });
+      socket.emit('error', { message: `Failed to ${direction}` });
+    }
+  }
+
   /**
    * Handle project scale change
    */
@@ -1101,14 +1738,14 @@ export class ArrangeRoomHandler {
     namespace: Namespace,
     data: { roomId: string; rootNote: string; scale: 'major' | 'minor' }
   ): void {
-    const session = this.getSession(socket);
-    if (!session || session.roomId !== data.roomId) {
+    const session = this.getStructureSession(socket, data.roomId);
+    if (!session) {
       return;
     }
 
     try {
       this.arrangeRoomStateService.updateOwnerScale(data.roomId, data.rootNote, data.scale);
-      namespace.to(data.roomId).emit('arrange:project_scale_changed', {
+      this.broadcastChange(namespace, data.roomId, 'arrange:project_scale_changed', {
         rootNote: data.rootNote,
         scale: data.scale,
         userId: session.userId,
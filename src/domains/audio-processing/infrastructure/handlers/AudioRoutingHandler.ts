@@ -2,6 +2,7 @@ import { Socket, Namespace } from 'socket.io';
 import { Server } from 'socket.io';
 import { RoomService } from '../../../../services/RoomService';
 import { RoomSessionManager } from '../../../../services/RoomSessionManager';
+import type { SessionRecorderService } from '../../../../services/SessionRecorderService';
 import { NamespaceManager } from '../../../../services/NamespaceManager';
 import { UpdateSynthParamsData, UpdateEffectsChainData } from '../../../../types';
 import { loggingService } from '../../../../services/LoggingService';
@@ -22,7 +23,8 @@ export class AudioRoutingHandler {
     private roomService: RoomService,
     private io: Server,
     private roomSessionManager: RoomSessionManager,
-    private namespaceManager: NamespaceManager
+    private namespaceManager: NamespaceManager,
+    private sessionRecorderService?: SessionRecorderService
   ) {}
 
   /**
@@ -291,6 +293,7 @@ export class AudioRoutingHandler {
 
     // Store synth parameters in user state for swapping
     this.roomService.updateUserSynthParams(session.roomId, session.userId, data.params);
+    this.sessionRecorderService?.record(session.roomId, 'synth_params', user, { params: data.params });
 
     loggingService.logInfo('Audio routing - broadcasting synth_params_changed (namespace)', {
       namespaceName: namespace.name,
@@ -4,6 +4,9 @@ import { Server } from 'socket.io';
 import { RoomService } from '../../../../services/RoomService';
 import { NamespaceManager } from '../../../../services/NamespaceManager';
 import { RoomSessionManager } from '../../../../services/RoomSessionManager';
+import type { SessionRecorderService } from '../../../../services/SessionRecorderService';
+import { getServerTime } from '../../../../shared/utils/timing';
+import { NoteRelayScheduler, type ReceiverRelayStats } from '../scheduling/NoteRelayScheduler';
 
 import {
   PlayNoteData,
@@ -11,79 +14,18 @@ import {
 } from '../../../../types';
 
 export class NotePlayingHandler {
-  private messageQueue = new Map<string, Array<{ event: string; data: any; timestamp: number }>>();
-  private batchTimeouts = new Map<string, NodeJS.Timeout>();
-  private readonly BATCH_INTERVAL = 16; // ~60fps
-  private readonly MAX_QUEUE_SIZE = 50;
+  private relaySchedulers = new Map<string, NoteRelayScheduler>();
 
   constructor(
     private roomService: RoomService,
     private io: Server,
     private namespaceManager: NamespaceManager,
-    private roomSessionManager: RoomSessionManager
+    private roomSessionManager: RoomSessionManager,
+    private sessionRecorderService?: SessionRecorderService
   ) {}
 
-  // Batch message processing for better performance using namespace isolation
-  private processBatch(roomId: string): void {
-    const queue = this.messageQueue.get(roomId);
-    if (!queue || queue.length === 0) return;
-
-    // Get the room namespace for proper isolation
-    const roomNamespace = this.namespaceManager.getRoomNamespace(roomId);
-    if (!roomNamespace) {
-      console.warn('Room namespace not found for batch processing:', roomId);
-      return;
-    }
-
-    const messages = [...queue];
-    this.messageQueue.set(roomId, []);
-
-    // Group messages by event type and user
-    const groupedMessages = messages.reduce((acc, msg) => {
-      const userId = msg.data?.userId || 'system';
-      const key = `${msg.event}-${userId}`;
-      if (!acc[key]) {
-        acc[key] = [];
-      }
-      acc[key].push(msg.data);
-      return acc;
-    }, {} as Record<string, any[]>);
-
-    // Process each group, sending only the latest message per group through namespace
-    Object.entries(groupedMessages).forEach(([key, dataArray]) => {
-      const latestData = dataArray[dataArray.length - 1];
-      const [event] = key.split('-');
-      if (event) {
-        roomNamespace.emit(event, latestData);
-      }
-    });
-
-    this.batchTimeouts.delete(roomId);
-  }
-
-  // Queue message for batched processing
-  private queueMessage(roomId: string, event: string, data: any): void {
-    if (!this.messageQueue.has(roomId)) {
-      this.messageQueue.set(roomId, []);
-    }
-
-    const queue = this.messageQueue.get(roomId)!;
-    queue.push({ event, data, timestamp: Date.now() });
-
-    // Limit queue size to prevent memory leaks
-    if (queue.length > this.MAX_QUEUE_SIZE) {
-      this.messageQueue.set(roomId, queue.slice(-this.MAX_QUEUE_SIZE / 2));
-    }
-
-    // Schedule batch processing if not already scheduled
-    if (!this.batchTimeouts.has(roomId)) {
-      const timeout = setTimeout(() => this.processBatch(roomId), this.BATCH_INTERVAL);
-      this.batchTimeouts.set(roomId, timeout);
-    }
-  }
-
-  // Optimized emit function that uses namespace-specific broadcasting
-  private optimizedEmit(socket: Socket, roomId: string, event: string, data: any, immediate: boolean = false): void {
+  // Emit to everyone else in the room's namespace
+  private optimizedEmit(socket: Socket, roomId: string, event: string, data: any): void {
     // Get or create the room namespace for proper isolation
     const roomNamespace = this.getOrCreateRoomNamespace(roomId);
     if (!roomNamespace) {
@@ -91,14 +33,17 @@ export class NotePlayingHandler {
       return;
     }
 
-    if (immediate || event === 'note_played' || event === 'user_joined' || event === 'user_left' || event === 'synth_params_changed') {
-      // Critical events are sent immediately through namespace, excluding the sender
-      socket.to(roomNamespace.name).emit(event, data);
-      console.log(`🎛️ Broadcasting ${event} to namespace ${roomNamespace.name}:`, data);
-    } else {
-      // Other events are batched for better performance
-      this.queueMessage(roomId, event, data);
+    socket.to(roomNamespace.name).emit(event, data);
+    console.log(`🎛️ Broadcasting ${event} to namespace ${roomNamespace.name}:`, data);
+  }
+
+  private getRelayScheduler(roomId: string): NoteRelayScheduler {
+    let scheduler = this.relaySchedulers.get(roomId);
+    if (!scheduler) {
+      scheduler = new NoteRelayScheduler(roomId, () => this.roomService.getMetronomeState(roomId)?.bpm ?? null);
+      this.relaySchedulers.set(roomId, scheduler);
     }
+    return scheduler;
   }
 
   /**
@@ -146,8 +91,9 @@ export class NotePlayingHandler {
       instrument: data.instrument,
       category: data.category,
       eventType: data.eventType,
-      isKeyHeld: data.isKeyHeld
-    }, true); // Note events are critical and sent immediately
+      isKeyHeld: data.isKeyHeld,
+      serverTime: getServerTime()
+    });
   }
 
   /**
@@ -172,7 +118,7 @@ export class NotePlayingHandler {
       username: user.username,
       instrument: data.instrument,
       category: data.category
-    }, true); // Stop all notes events are critical and sent immediately
+    });
 
     // Then, send instrument changed event
     this.optimizedEmit(socket, session.roomId, 'instrument_changed', {
@@ -180,7 +126,7 @@ export class NotePlayingHandler {
       username: user.username,
       instrument: data.instrument,
       category: data.category
-    }, true); // Instrument changes are important and sent immediately
+    });
 
     // Get or create the room namespace for proper isolation
     const roomNamespace = this.getOrCreateRoomNamespace(session.roomId);
@@ -217,7 +163,7 @@ export class NotePlayingHandler {
       username: user.username,
       instrument: data.instrument,
       category: data.category
-    }, true); // Stop all notes events are critical and sent immediately
+    });
   }
 
   /**
@@ -259,8 +205,8 @@ export class NotePlayingHandler {
     // Update user's current instrument
     this.roomService.updateUserInstrument(session.roomId, session.userId, data.instrument, data.category);
 
-    // Broadcast to all other users in the namespace (exclude sender)
-    socket.broadcast.emit('note_played', {
+    // Relay to all other users in the namespace (exclude sender), stamped with server clock times
+    this.getRelayScheduler(session.roomId).relay(socket, namespace, session.userId, 'note_played', {
       userId: session.userId,
       username: user.username,
       notes: data.notes,
@@ -270,8 +216,26 @@ export class NotePlayingHandler {
       eventType: data.eventType,
       isKeyHeld: data.isKeyHeld,
       sampleNotes: data.sampleNotes
+    }, {
+      sentAt: typeof data.sentAt === 'number' && Number.isFinite(data.sentAt) ? data.sentAt : undefined,
+      droppable: data.eventType === 'note_on'
     });
 
+    this.sessionRecorderService?.record(
+      session.roomId,
+      data.eventType === 'sustain_on' || data.eventType === 'sustain_off' ? 'sustain' : 'note',
+      user,
+      {
+        notes: data.notes,
+        velocity: data.velocity,
+        instrument: data.instrument,
+        category: data.category,
+        eventType: data.eventType,
+        ...(data.isKeyHeld !== undefined && { isKeyHeld: data.isKeyHeld }),
+        ...(data.sampleNotes && { sampleNotes: data.sampleNotes })
+      }
+    );
+
     console.log('📤 Note broadcast completed using socket.broadcast.emit()');
   }
 
@@ -289,6 +253,13 @@ export class NotePlayingHandler {
     if (!user) return;
 
     this.roomService.updateUserInstrument(session.roomId, session.userId, data.instrument, data.category);
+    this.sessionRecorderService?.record(session.roomId, 'instrument', user, {
+      instrument: data.instrument,
+      category: data.category
+    });
+
+    // Notes still held back for the playout delay would otherwise play after the stop
+    this.relaySchedulers.get(session.roomId)?.cancelPending(session.userId);
 
     // First, send stop all notes event to immediately stop all notes for this user
     this.optimizedEmit(socket, session.roomId, 'stop_all_notes', {
@@ -296,7 +267,7 @@ export class NotePlayingHandler {
       username: user.username,
       instrument: data.instrument,
       category: data.category
-    }, true); // Stop all notes events are critical and sent immediately
+    });
 
     // Then, send instrument changed event
     this.optimizedEmit(socket, session.roomId, 'instrument_changed', {
@@ -304,7 +275,7 @@ export class NotePlayingHandler {
       username: user.username,
       instrument: data.instrument,
       category: data.category
-    }, true); // Instrument changes are important and sent immediately
+    });
 
     // Get or create the room namespace for proper isolation
     const roomNamespace = this.getOrCreateRoomNamespace(session.roomId);
@@ -335,12 +306,30 @@ export class NotePlayingHandler {
     const user = room.users.get(session.userId);
     if (!user) return;
 
+    // Notes still held back for the playout delay would otherwise play after the stop
+    this.relaySchedulers.get(session.roomId)?.cancelPending(session.userId);
+
     // Send stop all notes event to all users in the room
     this.optimizedEmit(socket, session.roomId, 'stop_all_notes', {
       userId: session.userId,
       username: user.username,
       instrument: data.instrument,
       category: data.category
-    }, true); // Stop all notes events are critical and sent immediately
+    });
+  }
+
+  /**
+   * Per-member note relay statistics for a room, keyed by socket id
+   */
+  getRelayStats(roomId: string): Record<string, ReceiverRelayStats> {
+    return this.relaySchedulers.get(roomId)?.getReceiverStats() ?? {};
+  }
+
+  /**
+   * Drop a closed room's relay scheduler
+   */
+  clearRoom(roomId: string): void {
+    this.relaySchedulers.get(roomId)?.shutdown();
+    this.relaySchedulers.delete(roomId);
   }
-}
\ No newline at end of file
+}
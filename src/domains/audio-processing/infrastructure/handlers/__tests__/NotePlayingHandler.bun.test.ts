@@ -457,7 +457,8 @@ describe('NotePlayingHandler - Bun Test Suite', () => {
           category: 'synthesizer',
           eventType: 'note_on',
           isKeyHeld: true,
-          sampleNotes: undefined
+          sampleNotes: undefined,
+          serverTime: expect.any(Number)
         });
       });
 
@@ -693,116 +694,40 @@ describe('NotePlayingHandler - Bun Test Suite', () => {
     });
   });
 
-  describe('Message Batching for Performance', () => {
-    it('should queue non-critical messages for batching', async () => {
-      const mockNonCriticalData = {
-        userId: 'test-user-id',
-        data: 'test-data'
-      };
-
-      // Access private method through any cast for testing
-      const handler = notePlayingHandler as any;
-      
-      // Queue a message
-      handler.queueMessage('test-room-id', 'test_event', mockNonCriticalData);
-
-      // Verify message is queued
-      expect(handler.messageQueue.get('test-room-id')).toHaveLength(1);
-
-      // Wait for batch processing using Bun's timer
-      await new Promise(resolve => setTimeout(resolve, 20)); // Wait longer than BATCH_INTERVAL (16ms)
-
-      // Verify batch timeout was set and cleared
-      expect(handler.batchTimeouts.has('test-room-id')).toBe(false);
-    });
-
-    it('should limit queue size to prevent memory leaks', () => {
-      const handler = notePlayingHandler as any;
-      const roomId = 'test-room-id';
-
-      // Add more messages than MAX_QUEUE_SIZE
-      for (let i = 0; i < handler.MAX_QUEUE_SIZE + 10; i++) {
-        handler.queueMessage(roomId, 'test_event', { index: i });
-      }
-
-      const queue = handler.messageQueue.get(roomId);
-      expect(queue.length).toBeLessThanOrEqual(handler.MAX_QUEUE_SIZE);
-    });
-
-    it('should group messages by event type and user for batching', async () => {
-      const handler = notePlayingHandler as any;
-      const roomId = 'test-room-id';
+  describe('Note Relay', () => {
+    const playNoteData: PlayNoteData = {
+      notes: ['C4'],
+      velocity: 0.8,
+      instrument: 'piano',
+      category: 'keyboard',
+      eventType: 'note_on'
+    };
 
-      // Add multiple messages for the same user and event
+    it('should relay every note of a burst in order', () => {
       for (let i = 0; i < 5; i++) {
-        handler.queueMessage(roomId, 'test_event', { userId: 'user1', data: `data${i}` });
+        notePlayingHandler.handlePlayNoteNamespace(mockSocket, { ...playNoteData, velocity: i / 10 }, mockNamespace);
       }
 
-      // Add messages for different user
-      for (let i = 0; i < 3; i++) {
-        handler.queueMessage(roomId, 'test_event', { userId: 'user2', data: `data${i}` });
-      }
-
-      // Verify messages are queued
-      expect(handler.messageQueue.get(roomId)).toHaveLength(8);
-
-      // Wait for batch processing
-      await new Promise(resolve => setTimeout(resolve, 20));
-
-      // Verify namespace emit was called for batched messages
-      expect(mockNamespace.emit).toHaveBeenCalled();
+      const velocities = mockSocket.broadcast.emit.mock.calls
+        .filter(([event]: [string]) => event === 'note_played')
+        .map(([, data]: [string, { velocity: number }]) => data.velocity);
+      expect(velocities).toEqual([0, 0.1, 0.2, 0.3, 0.4]);
     });
 
-    it('should handle immediate vs batched message processing', () => {
+    it('should emit non-note events to the room namespace immediately', () => {
       const handler = notePlayingHandler as any;
       const roomId = 'test-room-id';
 
-      // Test immediate message (note_played should be immediate)
-      handler.optimizedEmit(mockSocket, roomId, 'note_played', { test: 'data' }, true);
-      expect(mockSocket.to).toHaveBeenCalled();
+      handler.optimizedEmit(mockSocket, roomId, 'instrument_changed', { test: 'data' });
 
-      // Test batched message (non-critical event)
-      handler.optimizedEmit(mockSocket, roomId, 'non_critical_event', { test: 'data' }, false);
-      expect(handler.messageQueue.get(roomId)).toHaveLength(1);
+      expect(mockSocket.to).toHaveBeenCalledWith('/room/test-room-id');
     });
 
-    it('should handle batch processing with namespace isolation', async () => {
-      const handler = notePlayingHandler as any;
-      const roomId = 'test-room-id';
-
-      // Queue messages for batching
-      handler.queueMessage(roomId, 'batched_event', { userId: 'user1', data: 'test1' });
-      handler.queueMessage(roomId, 'batched_event', { userId: 'user1', data: 'test2' });
-
-      // Wait for batch processing
-      await new Promise(resolve => setTimeout(resolve, 20));
-
-      // Verify namespace emit was called
-      expect(mockNamespace.emit).toHaveBeenCalled();
-    });
-
-    it('should measure batch processing performance', async () => {
-      const handler = notePlayingHandler as any;
-      const roomId = 'test-room-id';
-
-      // Queue multiple messages
-      for (let i = 0; i < 100; i++) {
-        handler.queueMessage(roomId, 'perf_test', { userId: `user${i % 10}`, data: `data${i}` });
-      }
-
-      // Measure just the batch processing time
-      const start = Bun.nanoseconds();
-      
-      // Wait for batch processing
-      await new Promise(resolve => setTimeout(resolve, 25));
-
-      const duration = Bun.nanoseconds() - start;
-
-      // Verify performance is reasonable (less than 50ms for 100 messages including timeout)
-      expect(duration).toBeLessThan(50_000_000); // 50ms in nanoseconds
+    it('should drop the relay scheduler of a cleared room', () => {
+      notePlayingHandler.handlePlayNoteNamespace(mockSocket, playNoteData, mockNamespace);
+      notePlayingHandler.clearRoom('test-room-id');
 
-      // Verify batching occurred
-      expect(mockNamespace.emit).toHaveBeenCalled();
+      expect((notePlayingHandler as any).relaySchedulers.has('test-room-id')).toBe(false);
     });
   });
 
@@ -857,14 +782,11 @@ describe('NotePlayingHandler - Bun Test Suite', () => {
       mockNamespaceManager.createRoomNamespace.mockReturnValue(undefined);
 
       const handler = notePlayingHandler as any;
-      
-      // First queue a message to ensure there's something to process
-      handler.queueMessage('test-room-id', 'test_event', { test: 'data' });
-      
-      // Then process the batch which should trigger the warning
-      handler.processBatch('test-room-id');
 
-      expect(consoleSpy).toHaveBeenCalledWith('Room namespace not found for batch processing:', 'test-room-id');
+      // Emitting without a namespace should trigger the warning
+      handler.optimizedEmit(mockSocket, 'test-room-id', 'test_event', { test: 'data' });
+
+      expect(consoleSpy).toHaveBeenCalledWith('Room namespace not found for room:', 'test-room-id');
 
       consoleSpy.mockRestore();
     });
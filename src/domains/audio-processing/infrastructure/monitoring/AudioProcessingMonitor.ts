@@ -155,6 +155,42 @@ export class AudioProcessingMonitor {
     );
   }
 
+  /**
+   * Record relayed note events dropped because they would reach a member too late to play
+   */
+  static recordNoteRelayDrops(roomId: string, count: number): void {
+    performanceMetrics.recordCounter(
+      'note.relay.dropped',
+      count,
+      this.CONTEXT_NAME,
+      { roomId }
+    );
+  }
+
+  /**
+   * Record relayed note events expected to reach a member after their play time
+   */
+  static recordNoteRelayLateArrivals(roomId: string, count: number): void {
+    performanceMetrics.recordCounter(
+      'note.relay.late',
+      count,
+      this.CONTEXT_NAME,
+      { roomId }
+    );
+  }
+
+  /**
+   * Record a member's note relay jitter
+   */
+  static recordNoteRelayJitter(roomId: string, receiverId: string, jitterMs: number): void {
+    performanceMetrics.recordGauge(
+      'note.relay.jitter',
+      jitterMs,
+      this.CONTEXT_NAME,
+      { roomId, receiverId }
+    );
+  }
+
   /**
    * Get audio processing specific metrics
    */
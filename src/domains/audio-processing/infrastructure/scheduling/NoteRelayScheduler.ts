@@ -0,0 +1,273 @@
+import type { Namespace, Socket } from 'socket.io';
+import { config } from '../../../../config/environment';
+import { clockSyncService, type ClockSyncService } from '../../../../services/ClockSyncService';
+import { AudioProcessingMonitor } from '../monitoring/AudioProcessingMonitor';
+
+export interface NoteRelayConfig {
+  // How long after it was played every member plays a note; 0 relays immediately
+  playoutDelayMs: number;
+  // The delay is rounded up to whole metronome grid steps (steps per beat; 0 disables)
+  gridDivision: number;
+  // Droppable events that would reach a member later than this past their play time are dropped
+  maxLateMs: number;
+  // Sent this much earlier than each member's one-way latency requires
+  safetyMarginMs: number;
+  // Pending deliveries per room; past this the earliest are sent ahead of time
+  maxQueuedEvents: number;
+}
+
+export interface NoteRelayOptions {
+  // The sender's clock when the event was played
+  sentAt?: number | undefined;
+  // Note-ons may be dropped when hopelessly late; note-offs and sustain never are
+  droppable?: boolean;
+}
+
+export interface ReceiverRelayStats {
+  userId: string | null;
+  delivered: number;
+  late: number;
+  dropped: number;
+  // RFC 3550 interarrival jitter of the sender-to-member transit time
+  jitterMs: number;
+  // Estimated one-way latency from the server, from clock sync
+  oneWayMs: number;
+}
+
+interface ReceiverState extends ReceiverRelayStats {
+  // Last transit time per sender, for jitter
+  lastTransit: Map<string, number>;
+  // Deliveries to a member never overtake each other, even as its latency estimate changes
+  lastDispatchAt: number;
+}
+
+interface ScheduledDelivery {
+  dispatchAt: number;
+  playAt: number;
+  senderTime: number;
+  senderUserId: string;
+  receiver: Socket;
+  event: string;
+  payload: Record<string, unknown>;
+  droppable: boolean;
+}
+
+// A member's jitter goes to AudioProcessingMonitor every this many deliveries
+const JITTER_REPORT_INTERVAL = 50;
+
+/**
+ * Per-room scheduler for relayed note events. Every event is delivered, in order per sender.
+ *
+ * With a playout delay, an event plays at the sender's play time (mapped onto the server clock
+ * with clock sync) plus the delay, rounded up to the metronome grid so the band hears each other
+ * a whole number of grid steps behind. Each member gets the event their one-way latency ahead of
+ * that time, so members far from the server aren't behind those close to it.
+ */
+export class NoteRelayScheduler {
+  private queue: ScheduledDelivery[] = [];
+  private receivers = new Map<string, ReceiverState>();
+  private lastPlayAt = new Map<string, number>(); // senderUserId -> playAt
+  private timer: NodeJS.Timeout | null = null;
+  private config: NoteRelayConfig;
+
+  constructor(
+    private roomId: string,
+    private getBpm: () => number | null,
+    relayConfig: Partial<NoteRelayConfig> = {},
+    private clockSync: ClockSyncService = clockSyncService
+  ) {
+    this.config = { ...config.noteRelay, ...relayConfig };
+  }
+
+  /**
+   * Relay an event from the sender to everyone else in the namespace
+   */
+  relay(
+    sender: Socket,
+    namespace: Namespace,
+    senderUserId: string,
+    event: string,
+    data: Record<string, unknown>,
+    options: NoteRelayOptions = {}
+  ): void {
+    const now = this.clockSync.getServerTime();
+    const syncedSentAt = options.sentAt !== undefined ? this.clockSync.toServerTime(sender.id, options.sentAt) : null;
+    // A bad clock estimate must not put the play time ahead of the arrival
+    const senderTime = syncedSentAt !== null ? Math.min(syncedSentAt, now) : now;
+    const stamp = options.sentAt !== undefined ? { senderTime } : {};
+
+    this.pruneReceivers(namespace);
+    const receivers = Array.from(namespace.sockets.values()).filter((socket) => socket.id !== sender.id);
+    const delayMs = this.getPlayoutDelayMs();
+
+    if (delayMs === 0) {
+      sender.broadcast.emit(event, { ...data, ...stamp, serverTime: now });
+      receivers.forEach((receiver) => this.recordDelivery(this.getReceiver(receiver), senderUserId, senderTime, now));
+      return;
+    }
+
+    // Play times never go backwards per sender, even when the tempo (and so the delay) drops
+    const playAt = Math.max(senderTime + delayMs, this.lastPlayAt.get(senderUserId) ?? 0);
+    this.lastPlayAt.set(senderUserId, playAt);
+
+    for (const receiver of receivers) {
+      const state = this.getReceiver(receiver);
+      state.lastDispatchAt = Math.max(playAt - state.oneWayMs - this.config.safetyMarginMs, state.lastDispatchAt);
+      this.enqueue({
+        dispatchAt: state.lastDispatchAt,
+        playAt,
+        senderTime,
+        senderUserId,
+        receiver,
+        event,
+        payload: { ...data, ...stamp, playAt },
+        droppable: options.droppable ?? false
+      });
+    }
+
+    this.flushDue();
+  }
+
+  /**
+   * Discard the sender's pending events, e.g. when they stop all notes
+   */
+  cancelPending(senderUserId: string): void {
+    this.queue = this.queue.filter((delivery) => delivery.senderUserId !== senderUserId);
+    this.lastPlayAt.delete(senderUserId);
+  }
+
+  /**
+   * The delay every member hears notes with, in ms, at the current tempo
+   */
+  getPlayoutDelayMs(): number {
+    const { playoutDelayMs, gridDivision } = this.config;
+    if (playoutDelayMs <= 0) {
+      return 0;
+    }
+    const bpm = gridDivision > 0 ? this.getBpm() : null;
+    if (!bpm) {
+      return playoutDelayMs;
+    }
+    const stepMs = 60_000 / bpm / gridDivision;
+    return Math.ceil(playoutDelayMs / stepMs - 1e-9) * stepMs;
+  }
+
+  getReceiverStats(): Record<string, ReceiverRelayStats> {
+    const stats: Record<string, ReceiverRelayStats> = {};
+    for (const [socketId, { lastTransit: _lastTransit, lastDispatchAt: _lastDispatchAt, ...receiverStats }] of this.receivers) {
+      stats[socketId] = receiverStats;
+    }
+    return stats;
+  }
+
+  getQueuedCount(): number {
+    return this.queue.length;
+  }
+
+  /**
+   * Stop the timer and forget pending events
+   */
+  shutdown(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    this.queue = [];
+  }
+
+  private enqueue(delivery: ScheduledDelivery): void {
+    // Keep the queue sorted by dispatch time, first come first served on ties
+    let low = 0;
+    let high = this.queue.length;
+    while (low < high) {
+      const mid = (low + high) >>> 1;
+      if (this.queue[mid]!.dispatchAt <= delivery.dispatchAt) {
+        low = mid + 1;
+      } else {
+        high = mid;
+      }
+    }
+    this.queue.splice(low, 0, delivery);
+  }
+
+  private flushDue(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+
+    const now = this.clockSync.getServerTime();
+    while (this.queue.length > 0 && (this.queue[0]!.dispatchAt <= now || this.queue.length > this.config.maxQueuedEvents)) {
+      this.dispatch(this.queue.shift()!, now);
+    }
+
+    const next = this.queue[0];
+    if (next) {
+      this.timer = setTimeout(() => this.flushDue(), Math.max(0, next.dispatchAt - now));
+    }
+  }
+
+  private dispatch(delivery: ScheduledDelivery, now: number): void {
+    const state = this.receivers.get(delivery.receiver.id);
+    if (!state || !delivery.receiver.connected) {
+      return;
+    }
+
+    const lateMs = now + state.oneWayMs - delivery.playAt;
+    if (delivery.droppable && lateMs > this.config.maxLateMs) {
+      state.dropped++;
+      AudioProcessingMonitor.recordNoteRelayDrops(this.roomId, 1);
+      return;
+    }
+    if (lateMs > 0) {
+      state.late++;
+      AudioProcessingMonitor.recordNoteRelayLateArrivals(this.roomId, 1);
+    }
+
+    delivery.receiver.emit(delivery.event, { ...delivery.payload, serverTime: now });
+    this.recordDelivery(state, delivery.senderUserId, delivery.senderTime, now);
+  }
+
+  private recordDelivery(state: ReceiverState, senderUserId: string, senderTime: number, sentAt: number): void {
+    const transit = sentAt + state.oneWayMs - senderTime;
+    const lastTransit = state.lastTransit.get(senderUserId);
+    if (lastTransit !== undefined) {
+      state.jitterMs += (Math.abs(transit - lastTransit) - state.jitterMs) / 16;
+    }
+    state.lastTransit.set(senderUserId, transit);
+    state.delivered++;
+
+    if (state.delivered % JITTER_REPORT_INTERVAL === 0) {
+      AudioProcessingMonitor.recordNoteRelayJitter(this.roomId, state.userId ?? 'unknown', state.jitterMs);
+    }
+  }
+
+  private getReceiver(socket: Socket): ReceiverState {
+    let state = this.receivers.get(socket.id);
+    if (!state) {
+      state = {
+        userId: null,
+        delivered: 0,
+        late: 0,
+        dropped: 0,
+        jitterMs: 0,
+        oneWayMs: 0,
+        lastTransit: new Map(),
+        lastDispatchAt: 0
+      };
+      this.receivers.set(socket.id, state);
+    }
+    state.userId = (socket.data?.userId as string | undefined) ?? state.userId;
+    const estimate = this.clockSync.getEstimate(socket.id);
+    state.oneWayMs = estimate ? estimate.rttMs / 2 : 0;
+    return state;
+  }
+
+  private pruneReceivers(namespace: Namespace): void {
+    for (const socketId of this.receivers.keys()) {
+      if (!namespace.sockets.has(socketId)) {
+        this.receivers.delete(socketId);
+      }
+    }
+  }
+}
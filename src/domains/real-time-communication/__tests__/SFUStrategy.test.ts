@@ -0,0 +1,112 @@
+/**
+ * SFU Strategy Tests
+ *
+ * Tests topology selection and SFU signaling and forwarding against headless
+ * WebRTC peers connected over loopback.
+ */
+
+import { SFUStrategy } from '../infrastructure/strategies/SFUStrategy';
+import {
+  InvalidRoleError,
+  selectVoiceTopology,
+  SFU_ENTER_PARTICIPANTS,
+  SFU_EXIT_PARTICIPANTS
+} from '../domain/services/AudioCommunicationStrategy';
+import { ConnectionId, UserRole } from '../domain/models/Connection';
+import { HeadlessVoicePeer } from '../../../testing/HeadlessVoicePeer';
+
+const waitFor = async (condition: () => boolean, timeoutMs = 10000): Promise<void> => {
+  const start = Date.now();
+  while (!condition()) {
+    if (Date.now() - start > timeoutMs) {
+      throw new Error('Timed out waiting for condition');
+    }
+    await new Promise((resolve) => setTimeout(resolve, 20));
+  }
+};
+
+describe('selectVoiceTopology', () => {
+  it('switches to the SFU at the entry threshold and back to mesh at the exit threshold', () => {
+    expect(selectVoiceTopology(SFU_ENTER_PARTICIPANTS - 1)).toBe('mesh');
+    expect(selectVoiceTopology(SFU_ENTER_PARTICIPANTS)).toBe('sfu');
+    expect(selectVoiceTopology(SFU_ENTER_PARTICIPANTS - 1, 'sfu')).toBe('sfu');
+    expect(selectVoiceTopology(SFU_EXIT_PARTICIPANTS, 'sfu')).toBe('mesh');
+  });
+});
+
+describe('SFUStrategy', () => {
+  let sfu: SFUStrategy;
+  let peers: Map<string, HeadlessVoicePeer>;
+
+  const join = async (userId: string): Promise<{ connectionId: ConnectionId; peer: HeadlessVoicePeer }> => {
+    const peer = new HeadlessVoicePeer(userId);
+    const connectionId = await sfu.connect(userId, UserRole.BAND_MEMBER);
+    peers.set(connectionId.toString(), peer);
+    peer.onIceCandidate((candidate) => {
+      void sfu.addIceCandidate(connectionId, candidate);
+    });
+    await sfu.negotiate(connectionId);
+    await peer.waitForConnected();
+    return { connectionId, peer };
+  };
+
+  beforeEach(() => {
+    sfu = new SFUStrategy('room-sfu', { maxForwardedStreams: 2, iceServers: [] });
+    peers = new Map();
+    sfu.onSignal((connectionId, signal) => {
+      const peer = peers.get(connectionId.toString());
+      void peer?.handleSignal(signal).then((answer) => (answer ? sfu.handleAnswer(connectionId, answer) : undefined));
+    });
+  });
+
+  afterEach(async () => {
+    await Promise.all(Array.from(peers.values()).map((peer) => peer.close()));
+    await sfu.close();
+  });
+
+  it('rejects audience members', async () => {
+    await expect(sfu.connect('audience-1', UserRole.AUDIENCE)).rejects.toThrow(InvalidRoleError);
+  });
+
+  it('forwards each participant\'s upstream to the others', async () => {
+    const alice = await join('alice');
+    const bob = await join('bob');
+    const carol = await join('carol');
+
+    // Forwarding starts once the server has seen a participant's upstream
+    const sendUntilReceived = async (from: HeadlessVoicePeer, receivers: HeadlessVoicePeer[]) => {
+      await waitFor(() => {
+        from.sendAudio(Buffer.from(`${from.userId}-audio`));
+        return receivers.every((receiver) => (receiver.received.get(from.userId)?.length ?? 0) > 0);
+      });
+    };
+
+    await sendUntilReceived(alice.peer, [bob.peer, carol.peer]);
+    await sendUntilReceived(bob.peer, [alice.peer, carol.peer]);
+
+    expect(bob.peer.received.get('alice')?.[0]?.toString()).toBe('alice-audio');
+    expect(alice.peer.received.has('alice')).toBe(false);
+    expect(sfu.getSlots(carol.connectionId).map((slot) => slot.userId).sort()).toEqual(['alice', 'bob']);
+  });
+
+  it('forwards only the selected publishers and frees slots of participants who leave', async () => {
+    const alice = await join('alice');
+    const bob = await join('bob');
+    const carol = await join('carol');
+
+    await waitFor(() => {
+      alice.peer.sendAudio(Buffer.from('a'));
+      bob.peer.sendAudio(Buffer.from('b'));
+      return sfu.getSlots(carol.connectionId).filter((slot) => slot.userId).length === 2;
+    });
+
+    sfu.subscribe(carol.connectionId, ['bob']);
+    expect(sfu.getSlots(carol.connectionId).map((slot) => slot.userId)).toContain('bob');
+    expect(sfu.getSlots(carol.connectionId).map((slot) => slot.userId)).not.toContain('alice');
+    await waitFor(() => !carol.peer.getSlots().some((slot) => slot.userId === 'alice'));
+
+    await sfu.disconnect(bob.connectionId);
+    expect(sfu.getSlots(carol.connectionId).every((slot) => slot.userId === null)).toBe(true);
+    expect(sfu.getConnectedUsersCount()).toBe(2);
+  });
+});
@@ -10,11 +10,13 @@
 import { 
   AudioCommunicationStrategy,
   CommunicationStrategyFactory,
-  InvalidRoleError 
+  InvalidRoleError,
+  selectVoiceTopology
 } from '../domain/services/AudioCommunicationStrategy';
 import { ConnectionId, UserRole, AudioBuffer } from '../domain/models/Connection';
 import { MeshWebRTCStrategy } from '../infrastructure/strategies/MeshWebRTCStrategy';
 import { StreamingStrategy } from '../infrastructure/strategies/StreamingStrategy';
+import { SFUStrategy } from '../infrastructure/strategies/SFUStrategy';
 import { Server } from 'socket.io';
 import { RoomSessionManager } from '../../../services/RoomSessionManager';
 
@@ -119,7 +121,7 @@ export class AudioCommunicationService {
    * Get strategy information for room
    */
   getStrategyInfo(roomId: string): {
-    type: 'mesh' | 'streaming';
+    type: 'mesh' | 'sfu' | 'streaming';
     maxConnections: number;
     supportedRoles: UserRole[];
   } | null {
@@ -202,9 +204,13 @@ export class DefaultCommunicationStrategyFactory implements CommunicationStrateg
     private roomSessionManager: RoomSessionManager
   ) {}
 
-  createStrategy(role: UserRole, _roomContext: RoomContext): AudioCommunicationStrategy {
+  createStrategy(role: UserRole, roomContext: RoomContext): AudioCommunicationStrategy {
     // Strategy selection logic
     if (role === UserRole.BAND_MEMBER || role === UserRole.ROOM_OWNER) {
+      // Larger bands send to the SFU instead of every peer
+      if (selectVoiceTopology(roomContext.bandMemberCount) === 'sfu') {
+        return new SFUStrategy('room-placeholder');
+      }
       // Use mesh WebRTC for band members (low latency required)
       return new MeshWebRTCStrategy(this.io, this.roomSessionManager, 'room-placeholder');
     } else if (role === UserRole.AUDIENCE) {
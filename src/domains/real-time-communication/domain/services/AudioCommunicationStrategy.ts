@@ -3,6 +3,7 @@
  * 
  * This interface defines the contract for different audio communication approaches:
  * - MeshWebRTCStrategy for band members (low latency, peer-to-peer)
+ * - SFUStrategy for band members in larger rooms (one upstream per participant, server-forwarded)
  * - StreamingStrategy for audience (one-to-many, scalable)
  * 
  * Requirements: 10.2, 10.3
@@ -58,7 +59,7 @@ export interface AudioCommunicationStrategy {
    * Get strategy-specific configuration
    */
   getStrategyInfo(): {
-    type: 'mesh' | 'streaming';
+    type: 'mesh' | 'sfu' | 'streaming';
     maxConnections: number;
     supportedRoles: UserRole[];
   };
@@ -79,6 +80,29 @@ export interface CommunicationStrategyFactory {
   }): AudioCommunicationStrategy;
 }
 
+/**
+ * Voice topology for band members: full mesh in small rooms, SFU in larger ones
+ */
+export type VoiceTopology = 'mesh' | 'sfu';
+
+// Mesh upload grows with every peer; rooms switch to the SFU at this many voice participants...
+export const SFU_ENTER_PARTICIPANTS = 5;
+// ...and back to mesh at this many, so a room hovering around the limit doesn't flap
+export const SFU_EXIT_PARTICIPANTS = 3;
+
+/**
+ * Pick the voice topology for a participant count, keeping the current one between the thresholds
+ */
+export function selectVoiceTopology(participantCount: number, current: VoiceTopology = 'mesh'): VoiceTopology {
+  if (participantCount >= SFU_ENTER_PARTICIPANTS) {
+    return 'sfu';
+  }
+  if (participantCount <= SFU_EXIT_PARTICIPANTS) {
+    return 'mesh';
+  }
+  return current;
+}
+
 /**
  * Domain exceptions for communication strategies
  */
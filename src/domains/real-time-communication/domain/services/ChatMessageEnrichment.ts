@@ -0,0 +1,108 @@
+import type { ArrangeRoomState } from '../../../arrange-room/domain/models/ArrangeRoomState';
+import type {
+  ChatMention,
+  ChatMusicalReference,
+  ChatMusicalReferenceData,
+  ChatReaction,
+  TimeSignature,
+  User,
+} from '../../../../types';
+
+// Structured chat: @mentions resolved against room members, musical references resolved to
+// timeline positions, and reactions aggregated per emoji.
+
+// Different emojis a single message can collect
+export const MAX_REACTION_EMOJIS = 20;
+
+const isWordChar = (char: string): boolean => /\w/.test(char);
+
+/**
+ * Members mentioned as `@username` (case-insensitive). Longer usernames are tried first, so
+ * "@Sam Lee" mentions Sam Lee rather than Sam.
+ */
+export function findMentions(text: string, members: Iterable<Pick<User, 'id' | 'username'>>): ChatMention[] {
+  const candidates = Array.from(members)
+    .filter((member) => member.username)
+    .sort((a, b) => b.username.length - a.username.length);
+  const lowerText = text.toLowerCase();
+  const mentions = new Map<string, ChatMention>();
+
+  for (let at = lowerText.indexOf('@'); at !== -1; at = lowerText.indexOf('@', at + 1)) {
+    // Skip email addresses and the like
+    if (at > 0 && isWordChar(lowerText.charAt(at - 1))) {
+      continue;
+    }
+    const rest = lowerText.slice(at + 1);
+    const member = candidates.find((candidate) => {
+      const username = candidate.username.toLowerCase();
+      return rest.startsWith(username) && !isWordChar(rest.charAt(username.length));
+    });
+    if (member && !mentions.has(member.id)) {
+      mentions.set(member.id, { userId: member.id, username: member.username });
+    }
+  }
+  return Array.from(mentions.values());
+}
+
+/**
+ * Resolve a reference to its timeline position: markers and regions from the arrangement, bars
+ * with the arrangement's time signature (or the metronome's outside arrange rooms). Null when
+ * the marker, region or beat doesn't exist.
+ */
+export function resolveMusicalReference(
+  reference: ChatMusicalReferenceData,
+  arrangeState: ArrangeRoomState | undefined,
+  timeSignature: TimeSignature
+): ChatMusicalReference | null {
+  switch (reference.type) {
+    case 'marker': {
+      const marker = arrangeState?.markers.find((candidate) => candidate.id === reference.markerId);
+      return marker ? { ...reference, position: marker.position, label: marker.description } : null;
+    }
+    case 'region': {
+      const region = arrangeState?.regions.find((candidate) => candidate.id === reference.regionId);
+      return region ? { ...reference, position: region.start, label: region.name, trackId: region.trackId } : null;
+    }
+    case 'bar': {
+      const { beatsPerBar, beatUnit } = arrangeState
+        ? { beatsPerBar: arrangeState.timeSignature.numerator, beatUnit: arrangeState.timeSignature.denominator }
+        : timeSignature;
+      const beat = reference.beat ?? 1;
+      if (beat > beatsPerBar) {
+        return null;
+      }
+      // Bar 1 beat 1 is the start of the timeline
+      return { type: 'bar', bar: reference.bar, beat, position: (((reference.bar - 1) * beatsPerBar + beat - 1) * 4) / beatUnit };
+    }
+  }
+}
+
+/**
+ * Add or take back a user's reaction. Null when the message already has as many different
+ * emojis as it can take.
+ */
+export function applyReaction(
+  reactions: ChatReaction[],
+  emoji: string,
+  userId: string,
+  remove: boolean
+): ChatReaction[] | null {
+  const existing = reactions.find((reaction) => reaction.emoji === emoji);
+
+  if (remove) {
+    return reactions
+      .map((reaction) => reaction.emoji === emoji
+        ? { ...reaction, userIds: reaction.userIds.filter((id) => id !== userId) }
+        : reaction)
+      .filter((reaction) => reaction.userIds.length > 0);
+  }
+  if (existing) {
+    return existing.userIds.includes(userId)
+      ? reactions
+      : reactions.map((reaction) => reaction.emoji === emoji ? { ...reaction, userIds: [...reaction.userIds, userId] } : reaction);
+  }
+  if (reactions.length >= MAX_REACTION_EMOJIS) {
+    return null;
+  }
+  return [...reactions, { emoji, userIds: [userId] }];
+}
@@ -0,0 +1,160 @@
+// Rules of the chat moderation pipeline (see services/ChatModerationService). Each rule looks at
+// a message and lets it through, masks part of it, or rejects it.
+
+export type ChatWordlistMode = 'mask' | 'reject';
+
+export interface ChatModerationInput {
+  roomId: string;
+  userId: string;
+  isGuest: boolean;
+  message: string;
+  // Edits are checked for content but don't count towards flood and duplicate limits
+  isEdit: boolean;
+  now: number;
+}
+
+export type ChatModerationVerdict =
+  | { action: 'allow' }
+  | { action: 'mask'; message: string }
+  | { action: 'reject'; reason: string };
+
+export interface ChatModerationRule {
+  readonly name: string;
+  check(input: ChatModerationInput): ChatModerationVerdict;
+  // Forget what the rule tracked for a closed room
+  clearRoom?(roomId: string): void;
+}
+
+const ALLOW: ChatModerationVerdict = { action: 'allow' };
+
+const escapeRegExp = (text: string): string => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Blocked words and phrases, matched as whole words regardless of case. They are masked with
+ * asterisks, or the whole message is rejected.
+ */
+export class WordlistFilter implements ChatModerationRule {
+  readonly name = 'wordlist';
+  private pattern: RegExp | null;
+
+  constructor(words: readonly string[], private mode: ChatWordlistMode) {
+    const alternatives = words
+      .map((word) => word.trim())
+      .filter((word) => word.length > 0)
+      // Longer entries first, so a phrase is masked whole rather than just the word it starts with
+      .sort((a, b) => b.length - a.length)
+      .map(escapeRegExp);
+    this.pattern = alternatives.length > 0
+      ? new RegExp(`(?<![\\p{L}\\p{N}])(?:${alternatives.join('|')})(?![\\p{L}\\p{N}])`, 'giu')
+      : null;
+  }
+
+  check(input: ChatModerationInput): ChatModerationVerdict {
+    if (!this.pattern) {
+      return ALLOW;
+    }
+
+    const masked = input.message.replace(this.pattern, (match) => '*'.repeat(match.length));
+    if (masked === input.message) {
+      return ALLOW;
+    }
+    return this.mode === 'reject'
+      ? { action: 'reject', reason: 'Your message contains blocked words' }
+      : { action: 'mask', message: masked };
+  }
+}
+
+/**
+ * Tracks recent messages per room and user, dropping those older than the window
+ */
+abstract class RecentMessagesRule<T extends { at: number }> implements ChatModerationRule {
+  abstract readonly name: string;
+  private rooms = new Map<string, Map<string, T[]>>();
+
+  constructor(protected windowMs: number) {}
+
+  abstract check(input: ChatModerationInput): ChatModerationVerdict;
+
+  clearRoom(roomId: string): void {
+    this.rooms.delete(roomId);
+  }
+
+  protected getRecent(input: ChatModerationInput): T[] {
+    let users = this.rooms.get(input.roomId);
+    if (!users) {
+      users = new Map();
+      this.rooms.set(input.roomId, users);
+    }
+
+    const recent = (users.get(input.userId) ?? []).filter((entry) => input.now - entry.at < this.windowMs);
+    users.set(input.userId, recent);
+    return recent;
+  }
+}
+
+/**
+ * Rejects a message when the user already sent the same text (ignoring case and spacing)
+ * `maxRepeats` times within the window
+ */
+export class DuplicateMessageFilter extends RecentMessagesRule<{ text: string; at: number }> {
+  readonly name = 'duplicate';
+
+  constructor(windowMs: number, private maxRepeats: number) {
+    super(windowMs);
+  }
+
+  check(input: ChatModerationInput): ChatModerationVerdict {
+    if (input.isEdit) {
+      return ALLOW;
+    }
+
+    const text = input.message.trim().toLowerCase().replace(/\s+/g, ' ');
+    const recent = this.getRecent(input);
+    if (recent.filter((entry) => entry.text === text).length >= this.maxRepeats) {
+      return { action: 'reject', reason: 'You already sent that message' };
+    }
+    recent.push({ text, at: input.now });
+    return ALLOW;
+  }
+}
+
+/**
+ * Rejects messages past `maxMessages` per user within the window
+ */
+export class FloodFilter extends RecentMessagesRule<{ at: number }> {
+  readonly name = 'flood';
+
+  constructor(private maxMessages: number, windowMs: number) {
+    super(windowMs);
+  }
+
+  check(input: ChatModerationInput): ChatModerationVerdict {
+    if (input.isEdit) {
+      return ALLOW;
+    }
+
+    const recent = this.getRecent(input);
+    if (recent.length >= this.maxMessages) {
+      return { action: 'reject', reason: 'You are sending messages too quickly' };
+    }
+    recent.push({ at: input.now });
+    return ALLOW;
+  }
+}
+
+// Anything with a scheme or www., and bare domains with common top-level domains
+const LINK_PATTERN = /(?:\b[a-z][a-z0-9+.-]*:\/\/|\bwww\.)\S|\b[a-z0-9-]+(?:\.[a-z0-9-]+)*\.(?:com|net|org|io|gg|co|me|ly|app|dev|xyz|tv|info|link|site|biz|ru|cn)\b/i;
+
+/**
+ * Guests can't post links, so throwaway accounts can't spam them
+ */
+export class GuestLinkFilter implements ChatModerationRule {
+  readonly name = 'guest_links';
+
+  check(input: ChatModerationInput): ChatModerationVerdict {
+    if (!input.isGuest || !LINK_PATTERN.test(input.message)) {
+      return ALLOW;
+    }
+    return { action: 'reject', reason: 'Sign in to post links' };
+  }
+}
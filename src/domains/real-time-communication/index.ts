@@ -22,12 +22,15 @@ export {
   CommunicationStrategyFactory,
   InvalidRoleError,
   ConnectionFailedError,
-  UnsupportedOperationError
+  UnsupportedOperationError,
+  VoiceTopology,
+  selectVoiceTopology
 } from './domain/services/AudioCommunicationStrategy';
 
 // Infrastructure Strategies
 export { MeshWebRTCStrategy } from './infrastructure/strategies/MeshWebRTCStrategy';
 export { StreamingStrategy } from './infrastructure/strategies/StreamingStrategy';
+export { SFUStrategy, SFUConfig, SFUSignal, SFUSlot } from './infrastructure/strategies/SFUStrategy';
 
 // Application Services
 export { 
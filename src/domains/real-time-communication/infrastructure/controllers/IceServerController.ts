@@ -0,0 +1,47 @@
+import { Response } from 'express';
+import { loggingService } from '../../../../services/LoggingService';
+import { IceServerService } from '../../../../services/IceServerService';
+import { RoomService } from '../../../../services/RoomService';
+import type { AuthRequest } from '../../../auth/infrastructure/middleware/authMiddleware';
+
+/**
+ * ICE server configuration (STUN, plus TURN with short-lived credentials) for voice chat
+ */
+export class IceServerController {
+  constructor(
+    private iceServerService: IceServerService,
+    private roomService: RoomService
+  ) {}
+
+  /**
+   * Credentials for the authenticated user in a room they are in
+   */
+  getIceServers = (req: AuthRequest, res: Response): void => {
+    const roomId = typeof req.query.roomId === 'string' ? req.query.roomId : undefined;
+    const userId = req.user?.id;
+
+    if (!userId) {
+      res.status(401).json({ success: false, message: 'Authentication required' });
+      return;
+    }
+
+    if (!roomId) {
+      res.status(400).json({ success: false, message: 'Room ID is required' });
+      return;
+    }
+
+    if (!this.roomService.findUserInRoom(roomId, userId)) {
+      res.status(403).json({ success: false, message: 'Not a member of this room' });
+      return;
+    }
+
+    try {
+      const configuration = this.iceServerService.getIceServers(userId, roomId);
+      res.setHeader('Cache-Control', 'no-store');
+      res.json({ success: true, ...configuration });
+    } catch (error) {
+      loggingService.logError(error as Error, { context: 'IceServerController:getIceServers', roomId, userId });
+      res.status(500).json({ success: false, message: 'Failed to issue ICE servers' });
+    }
+  };
+}
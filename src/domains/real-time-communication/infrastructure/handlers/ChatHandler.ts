@@ -3,20 +3,45 @@ import { v4 as uuidv4 } from 'uuid';
 import { RoomService } from '../../../../services/RoomService';
 import { NamespaceManager } from '../../../../services/NamespaceManager';
 import { RoomSessionManager } from '../../../../services/RoomSessionManager';
-import { ChatMessageData, ChatMessage } from '../../../../types';
+import { ChatHistoryService } from '../../../../services/ChatHistoryService';
+import { ChatModerationService } from '../../../../services/ChatModerationService';
+import { loggingService } from '../../../../services/LoggingService';
+import { ArrangeRoomStateService } from '../../../../services/ArrangeRoomStateService';
+import { canModerateMember, hasRoomCapability } from '../../../../services/RoomPermissions';
+import { METRONOME_CONSTANTS } from '../../../../constants';
+import { applyReaction, findMentions, resolveMusicalReference } from '../../domain/services/ChatMessageEnrichment';
+import {
+  ChatMention,
+  ChatMessageData,
+  ChatMessage,
+  DeleteChatMessageData,
+  EditChatMessageData,
+  MuteUserChatData,
+  ReactChatMessageData,
+  RequestChatHistoryData,
+  Room,
+  User
+} from '../../../../types';
 
 /**
  * ChatHandler - Handles chat message functionality
  * Requirements: 4.1, 4.6
  * 
  * Extracted from RoomHandlers.ts to provide focused chat message handling
- * with proper namespace isolation and message validation.
+ * with proper namespace isolation and message validation. Messages are kept in
+ * the room's chat history, which late joiners receive and can page back through.
+ * Namespace messages can mention members, reply to earlier messages, point at a
+ * marker, region or bar, and collect emoji reactions. They pass through chat
+ * moderation first, and the owner and co-hosts can mute members' chat for a while.
  */
 export class ChatHandler {
   constructor(
     private roomService: RoomService,
     private namespaceManager: NamespaceManager,
-    private roomSessionManager: RoomSessionManager
+    private roomSessionManager: RoomSessionManager,
+    private chatHistoryService: ChatHistoryService = new ChatHistoryService(),
+    private arrangeRoomStateService?: ArrangeRoomStateService,
+    private chatModerationService: ChatModerationService = new ChatModerationService()
   ) {}
 
   /**
@@ -54,6 +79,7 @@ export class ChatHandler {
       message: sanitizedMessage,
       timestamp: Date.now()
     };
+    this.recordMessage(roomId, chatMessage);
 
     // Get the room namespace for proper isolation
     const roomNamespace = this.namespaceManager.getRoomNamespace(roomId);
@@ -94,16 +120,293 @@ export class ChatHandler {
     // Sanitize message (basic sanitization)
     const sanitizedMessage = data.message.trim().substring(0, 500); // Limit message length
 
+    const moderation = this.chatModerationService.moderate({
+      roomId,
+      userId: user.id,
+      isGuest: this.isGuest(socket),
+      message: sanitizedMessage,
+      isEdit: false
+    });
+    if (!moderation.allowed) {
+      socket.emit('chat_error', {
+        message: moderation.reason,
+        ...(moderation.mutedUntil !== undefined && { mutedUntil: moderation.mutedUntil })
+      });
+      return;
+    }
+
     const chatMessage: ChatMessage = {
       id: uuidv4(),
       userId: user.id,
       username: user.username,
-      message: sanitizedMessage,
+      message: moderation.message,
       timestamp: Date.now()
     };
 
+    const mentions = findMentions(chatMessage.message, this.getMembers(roomId));
+    if (mentions.length > 0) {
+      chatMessage.mentions = mentions;
+    }
+    if (data.reference) {
+      const reference = resolveMusicalReference(
+        data.reference,
+        this.arrangeRoomStateService?.getState(roomId),
+        this.roomService.getMetronomeState(roomId)?.timeSignature ?? {
+          beatsPerBar: METRONOME_CONSTANTS.DEFAULT_BEATS_PER_BAR,
+          beatUnit: METRONOME_CONSTANTS.DEFAULT_BEAT_UNIT,
+        }
+      );
+      if (!reference) {
+        socket.emit('chat_error', { message: 'Musical reference not found' });
+        return;
+      }
+      chatMessage.reference = reference;
+    }
+
+    if (data.replyTo) {
+      void this.sendReplyNamespace(socket, chatMessage, data.replyTo, namespace);
+      return;
+    }
+    this.publishMessage(roomId, chatMessage, namespace);
+  }
+
+  /**
+   * Send the room's latest messages to a socket that just joined
+   */
+  async sendChatHistoryNamespace(socket: Socket): Promise<void> {
+    await this.handleRequestChatHistoryNamespace(socket, {});
+  }
+
+  /**
+   * Handle a page of older messages through namespace
+   */
+  async handleRequestChatHistoryNamespace(socket: Socket, data: RequestChatHistoryData): Promise<void> {
+    const context = this.getChatContext(socket);
+    if (!context) return;
+
+    const page = await this.chatHistoryService.getHistory(context.roomId, context.ownerId, data);
+    socket.emit('chat_history', { ...page, before: data.before ?? null });
+  }
+
+  /**
+   * Handle message deletion by its author or a chat moderator through namespace
+   */
+  async handleDeleteChatMessageNamespace(socket: Socket, data: DeleteChatMessageData, namespace: Namespace): Promise<void> {
+    const context = this.getChatContext(socket);
+    if (!context) return;
+
+    const message = await this.chatHistoryService.findMessage(context.roomId, context.ownerId, data.messageId);
+    if (!message) {
+      socket.emit('chat_error', { message: 'Message not found', messageId: data.messageId });
+      return;
+    }
+    if (message.userId !== context.user.id && !hasRoomCapability(context.room, context.user.id, 'moderate_chat')) {
+      socket.emit('chat_error', { message: 'Only the author or a chat moderator can delete this message', messageId: data.messageId });
+      return;
+    }
+
+    await this.chatHistoryService.deleteMessage(context.roomId, context.ownerId, data.messageId);
+    namespace.emit('chat_message_deleted', { messageId: data.messageId, deletedBy: context.user.id });
+    console.log(`🗑️ Chat message ${data.messageId} deleted in room ${context.roomId} by ${context.user.username}`);
+  }
+
+  /**
+   * Handle an author editing their message through namespace
+   */
+  async handleEditChatMessageNamespace(socket: Socket, data: EditChatMessageData, namespace: Namespace): Promise<void> {
+    const context = this.getChatContext(socket);
+    if (!context) return;
+
+    const text = data.message.trim().substring(0, 500);
+    if (text.length === 0) {
+      socket.emit('chat_error', { message: 'Message cannot be empty', messageId: data.messageId });
+      return;
+    }
+
+    const message = await this.chatHistoryService.findMessage(context.roomId, context.ownerId, data.messageId);
+    if (!message) {
+      socket.emit('chat_error', { message: 'Message not found', messageId: data.messageId });
+      return;
+    }
+    // Moderators moderate by deleting; putting words in someone else's name isn't moderation
+    if (message.userId !== context.user.id) {
+      socket.emit('chat_error', { message: 'Only the author can edit this message', messageId: data.messageId });
+      return;
+    }
+
+    const moderation = this.chatModerationService.moderate({
+      roomId: context.roomId,
+      userId: context.user.id,
+      isGuest: this.isGuest(socket),
+      message: text,
+      isEdit: true
+    });
+    if (!moderation.allowed) {
+      socket.emit('chat_error', {
+        message: moderation.reason,
+        messageId: data.messageId,
+        ...(moderation.mutedUntil !== undefined && { mutedUntil: moderation.mutedUntil })
+      });
+      return;
+    }
+
+    const mentions = findMentions(moderation.message, this.getMembers(context.roomId));
+    const edited = await this.chatHistoryService.updateMessage(context.roomId, context.ownerId, data.messageId, () => ({
+      message: moderation.message,
+      editedAt: Date.now(),
+      mentions,
+    }));
+    if (edited) {
+      namespace.emit('chat_message_edited', edited);
+      // Only members the edit newly mentions are notified
+      const newMentions = mentions.filter((mention) => !message.mentions?.some((previous) => previous.userId === mention.userId));
+      this.notifyMentions(context.roomId, edited, newMentions, namespace);
+    }
+  }
+
+  /**
+   * Handle adding or taking back an emoji reaction through namespace
+   */
+  async handleReactChatMessageNamespace(socket: Socket, data: ReactChatMessageData, namespace: Namespace): Promise<void> {
+    const context = this.getChatContext(socket);
+    if (!context) return;
+
+    const mutedUntil = this.chatModerationService.getMutedUntil(context.roomId, context.user.id);
+    if (mutedUntil !== null) {
+      socket.emit('chat_error', { message: 'You are muted in this chat', messageId: data.messageId, mutedUntil });
+      return;
+    }
+
+    let tooManyReactions = false;
+    const updated = await this.chatHistoryService.updateMessage(context.roomId, context.ownerId, data.messageId, (message) => {
+      const reactions = applyReaction(message.reactions ?? [], data.emoji, context.user.id, data.remove === true);
+      if (!reactions) {
+        tooManyReactions = true;
+        return null;
+      }
+      return { reactions };
+    });
+    if (!updated) {
+      socket.emit('chat_error', {
+        message: tooManyReactions ? 'This message has too many different reactions' : 'Message not found',
+        messageId: data.messageId
+      });
+      return;
+    }
+
+    namespace.emit('chat_reactions_updated', { messageId: updated.id, reactions: updated.reactions ?? [] });
+  }
+
+  /**
+   * Handle a chat moderator muting a member's chat for a while (0 lifts the mute) through namespace
+   */
+  handleMuteUserChatNamespace(socket: Socket, data: MuteUserChatData, namespace: Namespace): void {
+    const context = this.getChatContext(socket);
+    if (!context) return;
+
+    if (!hasRoomCapability(context.room, context.user.id, 'moderate_chat')) {
+      socket.emit('chat_error', { message: 'You do not have permission to mute members' });
+      return;
+    }
+    if (!context.room.users.has(data.userId) || !canModerateMember(context.room, context.user.id, data.userId)) {
+      socket.emit('chat_error', { message: 'This member cannot be muted' });
+      return;
+    }
+
+    const mutedUntil = this.chatModerationService.muteUser(context.roomId, data.userId, data.durationSec);
+    loggingService.logSecurityEvent('Chat Mute', {
+      roomId: context.roomId,
+      userId: data.userId,
+      mutedBy: context.user.id,
+      durationSec: data.durationSec
+    });
+
+    namespace.emit('user_chat_muted', { userId: data.userId, mutedUntil, mutedBy: context.user.id });
+  }
+
+  /**
+   * Forget a closed room's chat history, mutes and moderation state
+   */
+  clearRoom(roomId: string): void {
+    this.chatHistoryService.clearRoom(roomId);
+    this.chatModerationService.clearRoom(roomId);
+  }
+
+  /**
+   * Thread a reply under its parent's thread, once the parent is found in the history
+   */
+  private async sendReplyNamespace(socket: Socket, chatMessage: ChatMessage, replyTo: string, namespace: Namespace): Promise<void> {
+    const context = this.getChatContext(socket);
+    if (!context) return;
+
+    const parent = await this.chatHistoryService.findMessage(context.roomId, context.ownerId, replyTo);
+    if (!parent) {
+      socket.emit('chat_error', { message: 'The message being replied to was not found', messageId: replyTo });
+      return;
+    }
+
+    this.publishMessage(context.roomId, {
+      ...chatMessage,
+      replyTo,
+      threadId: parent.threadId ?? parent.id,
+      timestamp: Date.now()
+    }, namespace);
+  }
+
+  private publishMessage(roomId: string, chatMessage: ChatMessage, namespace: Namespace): void {
+    this.recordMessage(roomId, chatMessage);
+
     // Broadcast chat message to all users in namespace
     namespace.emit('chat_message', chatMessage);
-    console.log(`💬 Chat message broadcasted via namespace ${namespace.name} by ${user.username}: ${sanitizedMessage}`);
+    console.log(`💬 Chat message broadcasted via namespace ${namespace.name} by ${chatMessage.username}: ${chatMessage.message}`);
+
+    this.notifyMentions(roomId, chatMessage, chatMessage.mentions ?? [], namespace);
+  }
+
+  /**
+   * Let mentioned members know directly, so clients can highlight or notify
+   */
+  private notifyMentions(roomId: string, chatMessage: ChatMessage, mentions: ChatMention[], namespace: Namespace): void {
+    for (const mention of mentions) {
+      if (mention.userId === chatMessage.userId) continue;
+
+      const socketId = this.roomSessionManager.findSocketByUserId(roomId, mention.userId);
+      const mentionedSocket = socketId ? namespace.sockets.get(socketId) : undefined;
+      mentionedSocket?.emit('chat_mention', {
+        roomId,
+        messageId: chatMessage.id,
+        from: { userId: chatMessage.userId, username: chatMessage.username },
+        message: chatMessage.message,
+        timestamp: chatMessage.timestamp
+      });
+    }
+  }
+
+  // Signed-in sockets carry their account (see config/socket)
+  private isGuest(socket: Socket): boolean {
+    const account = socket.data?.user;
+    return !account || account.userType === 'GUEST';
+  }
+
+  private getMembers(roomId: string): Iterable<User> {
+    return this.roomService.getRoom(roomId)?.users.values() ?? [];
+  }
+
+  private recordMessage(roomId: string, chatMessage: ChatMessage): void {
+    const room = this.roomService.getRoom(roomId);
+    if (room) {
+      void this.chatHistoryService.addMessage(roomId, room.owner, chatMessage);
+    }
+  }
+
+  private getChatContext(socket: Socket): { roomId: string; ownerId: string; room: Room; user: User } | null {
+    const session = this.roomSessionManager.getRoomSession(socket.id);
+    if (!session) return null;
+
+    const room = this.roomService.getRoom(session.roomId);
+    const user = room?.users.get(session.userId);
+    if (!room || !user) return null;
+
+    return { roomId: session.roomId, ownerId: room.owner, room, user };
   }
 }
\ No newline at end of file
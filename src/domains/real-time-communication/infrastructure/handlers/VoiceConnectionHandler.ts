@@ -2,6 +2,7 @@ import { Socket, Namespace } from 'socket.io';
 import { Server } from 'socket.io';
 import { RoomService } from '../../../../services/RoomService';
 import { RoomSessionManager } from '../../../../services/RoomSessionManager';
+import { IceServerService, type IceServer } from '../../../../services/IceServerService';
 import {
   VoiceOfferData,
   VoiceAnswerData,
@@ -10,8 +11,19 @@ import {
   LeaveVoiceData,
   VoiceParticipantInfo,
   VoiceMuteChangedData,
-  RequestVoiceParticipantsData
+  RequestVoiceParticipantsData,
+  SfuConnectData,
+  SfuAnswerData,
+  SfuIceCandidateData,
+  SfuSubscribeData
 } from '../../../../types';
+import { SFUStrategy, type SFUSignal } from '../strategies/SFUStrategy';
+import {
+  InvalidRoleError,
+  selectVoiceTopology,
+  type VoiceTopology
+} from '../../domain/services/AudioCommunicationStrategy';
+import { ConnectionId, UserRole } from '../../domain/models/Connection';
 
 /**
  * VoiceConnectionHandler - Handles WebRTC mesh functionality for voice communication
@@ -20,17 +32,22 @@ import {
  * - WebRTC offer/answer/ICE candidate exchange
  * - Voice participant management
  * - Mesh network coordination
+ * - Switching larger rooms to the SFU, and SFU signaling
  * - Both regular socket and namespace-based communication
  * 
  * Requirements: 4.1, 4.6
  */
 export class VoiceConnectionHandler {
   private voiceParticipants = new Map<string, Map<string, VoiceParticipantInfo>>(); // roomId -> userId -> info
+  private voiceTopologies = new Map<string, VoiceTopology>(); // roomId -> topology
+  private sfuRooms = new Map<string, SFUStrategy>(); // roomId -> SFU
+  private sfuConnections = new Map<string, { roomId: string; userId: string; connectionId: ConnectionId; socket: Socket }>(); // socketId -> SFU connection
 
   constructor(
     private roomService: RoomService,
     private io: Server,
-    private roomSessionManager: RoomSessionManager
+    private roomSessionManager: RoomSessionManager,
+    private iceServerService?: IceServerService
   ) {}
 
   private getVoiceRoomMap(roomId: string): Map<string, VoiceParticipantInfo> {
@@ -246,7 +263,7 @@ export class VoiceConnectionHandler {
 
     console.log(`[MESH] User ${session.userId} left voice in room ${data.roomId}`);
     const voiceRoomMap = this.getVoiceRoomMap(data.roomId);
-    voiceRoomMap.delete(data.userId);
+    this.removeVoiceParticipant(data.roomId, data.userId, this.io.of(`/room/${data.roomId}`));
 
     // Notify other users that this user left voice chat
     socket.to(data.roomId).emit('user_left_voice', {
@@ -418,7 +435,8 @@ export class VoiceConnectionHandler {
         userId: p.userId,
         username: p.username,
         isMuted: p.isMuted
-      }))
+      })),
+      ...this.getIceServers(session.userId, data.roomId)
     });
 
     // Notify all existing participants about updated participant list
@@ -432,6 +450,10 @@ export class VoiceConnectionHandler {
 
     console.log(`[MESH] Voice participant added to room ${data.roomId}. Total participants: ${voiceRoomMap.size}`);
     console.log(`[MESH] Auto-connection triggered for ${existingParticipants.length} existing participants`);
+
+    // Tell the new participant whether to mesh or connect to the SFU
+    this.updateVoiceTopology(data.roomId, namespace);
+    socket.emit('voice_topology', { topology: this.getVoiceTopology(data.roomId) });
   }
 
   /**
@@ -446,7 +468,7 @@ export class VoiceConnectionHandler {
 
     console.log(`[MESH] User ${session.userId} left voice in room ${data.roomId}`);
     const voiceRoomMap = this.getVoiceRoomMap(data.roomId);
-    voiceRoomMap.delete(data.userId);
+    this.removeVoiceParticipant(data.roomId, data.userId, namespace);
 
     // Notify other users in namespace that this user left voice chat
     socket.to(namespace.name).emit('user_left_voice', {
@@ -495,6 +517,8 @@ export class VoiceConnectionHandler {
    */
   cleanupRoom(roomId: string): void {
     this.voiceParticipants.delete(roomId);
+    this.voiceTopologies.delete(roomId);
+    this.closeSfuRoom(roomId);
     console.log(`[VOICE] Cleaned up voice participants for room ${roomId}`);
   }
 
@@ -630,7 +654,7 @@ export class VoiceConnectionHandler {
       // Remove stale participants
       staleParticipants.forEach(userId => {
         console.log(`[VOICE CLEANUP] Removing stale participant ${userId} from room ${roomId}`);
-        roomMap.delete(userId);
+        this.removeVoiceParticipant(roomId, userId, this.io.of(`/room/${roomId}`));
       });
 
       // Clean up empty room maps
@@ -654,7 +678,7 @@ export class VoiceConnectionHandler {
     const voiceRoomMap = this.getVoiceRoomMap(roomId);
     const participants = Array.from(voiceRoomMap.values());
 
-    socket.emit('voice_participants', { participants });
+    socket.emit('voice_participants', { participants, ...this.getIceServers(session.userId, roomId) });
   }
 
   /**
@@ -774,6 +798,98 @@ export class VoiceConnectionHandler {
     });
   }
 
+  /**
+   * Handle a participant connecting to the room's SFU: the server creates its peer
+   * connection and sends `sfu_offer`
+   */
+  async handleSfuConnectNamespace(socket: Socket, data: SfuConnectData, _namespace: Namespace): Promise<void> {
+    const session = this.roomSessionManager.getRoomSession(socket.id);
+    if (!session || session.roomId !== data.roomId) {
+      console.warn(`[SFU] Invalid SFU connect: socket ${socket.id} not in room ${data.roomId}`);
+      return;
+    }
+
+    if (this.getVoiceTopology(data.roomId) !== 'sfu') {
+      socket.emit('sfu_error', { message: 'Voice in this room uses mesh connections' });
+      return;
+    }
+    if (!this.getVoiceRoomMap(data.roomId).has(session.userId)) {
+      socket.emit('sfu_error', { message: 'Join voice before connecting to the SFU' });
+      return;
+    }
+
+    // Reconnecting replaces the socket's previous SFU connection
+    await this.disconnectSfu(socket.id);
+
+    const user = this.roomService.findUserInRoom(data.roomId, session.userId);
+    const role = user?.role === 'room_owner'
+      ? UserRole.ROOM_OWNER
+      : user?.role === 'band_member' || user?.role === 'co_host' ? UserRole.BAND_MEMBER : UserRole.AUDIENCE;
+    const sfu = this.getSfuRoom(data.roomId);
+
+    try {
+      const connectionId = await sfu.connect(session.userId, role);
+      this.sfuConnections.set(socket.id, { roomId: data.roomId, userId: session.userId, connectionId, socket });
+      socket.once('disconnect', () => {
+        void this.disconnectSfu(socket.id);
+      });
+      await sfu.negotiate(connectionId);
+    } catch (error) {
+      if (error instanceof InvalidRoleError) {
+        socket.emit('sfu_error', { message: 'Only band members can join voice' });
+        return;
+      }
+      console.error(`[SFU] Failed to connect ${session.userId} in room ${data.roomId}:`, error);
+      socket.emit('sfu_error', { message: 'Failed to connect to the SFU' });
+    }
+  }
+
+  /**
+   * Handle a participant's answer to the server's offer
+   */
+  async handleSfuAnswerNamespace(socket: Socket, data: SfuAnswerData, _namespace: Namespace): Promise<void> {
+    const sfuConnection = this.getSfuConnection(socket, data.roomId);
+    if (!sfuConnection) return;
+
+    try {
+      await this.sfuRooms.get(data.roomId)?.handleAnswer(sfuConnection.connectionId, data.answer);
+    } catch (error) {
+      console.error(`[SFU] Failed to apply answer from socket ${socket.id}:`, error);
+      socket.emit('sfu_error', { message: 'Failed to apply SFU answer' });
+    }
+  }
+
+  /**
+   * Handle a participant's trickled ICE candidate
+   */
+  async handleSfuIceCandidateNamespace(socket: Socket, data: SfuIceCandidateData, _namespace: Namespace): Promise<void> {
+    const sfuConnection = this.getSfuConnection(socket, data.roomId);
+    if (!sfuConnection) return;
+
+    try {
+      await this.sfuRooms.get(data.roomId)?.addIceCandidate(sfuConnection.connectionId, data.candidate);
+    } catch (error) {
+      console.warn(`[SFU] Ignoring ICE candidate from socket ${socket.id}:`, error);
+    }
+  }
+
+  /**
+   * Handle a participant choosing which publishers to hear
+   */
+  handleSfuSubscribeNamespace(socket: Socket, data: SfuSubscribeData, _namespace: Namespace): void {
+    const sfuConnection = this.getSfuConnection(socket, data.roomId);
+    if (!sfuConnection) return;
+
+    this.sfuRooms.get(data.roomId)?.subscribe(sfuConnection.connectionId, data.userIds);
+  }
+
+  /**
+   * Voice topology of a room: mesh until it grows past the mesh limit
+   */
+  getVoiceTopology(roomId: string): VoiceTopology {
+    return this.voiceTopologies.get(roomId) ?? 'mesh';
+  }
+
   /**
    * Get voice participants for a room (for debugging/monitoring)
    */
@@ -781,4 +897,115 @@ export class VoiceConnectionHandler {
     const voiceRoomMap = this.getVoiceRoomMap(roomId);
     return Array.from(voiceRoomMap.values());
   }
-}
\ No newline at end of file
+
+  /**
+   * Take a participant out of voice: drop them from the room's participants, close their SFU
+   * connection and re-evaluate the topology for the ones left
+   */
+  private removeVoiceParticipant(roomId: string, userId: string, namespace: Namespace): void {
+    this.getVoiceRoomMap(roomId).delete(userId);
+    for (const [socketId, sfuConnection] of this.sfuConnections) {
+      if (sfuConnection.roomId === roomId && sfuConnection.userId === userId) {
+        void this.disconnectSfu(socketId);
+      }
+    }
+    this.updateVoiceTopology(roomId, namespace);
+  }
+
+  /**
+   * Re-evaluate the room's topology after its voice participants changed and tell the room when it switches
+   */
+  private updateVoiceTopology(roomId: string, namespace: Namespace): void {
+    const current = this.getVoiceTopology(roomId);
+    const topology = selectVoiceTopology(this.getVoiceRoomMap(roomId).size, current);
+    if (topology === current) {
+      return;
+    }
+
+    this.voiceTopologies.set(roomId, topology);
+    namespace.emit('voice_topology_changed', { topology });
+    console.log(`[VOICE] Room ${roomId} switched voice from ${current} to ${topology}`);
+
+    if (topology === 'mesh') {
+      this.closeSfuRoom(roomId);
+    }
+  }
+
+  /**
+   * ICE servers for the participant's own voice_participants payload; TURN credentials are per user, so
+   * they are never included in what is sent to the rest of the room
+   */
+  private getIceServers(userId: string, roomId: string): { iceServers?: IceServer[]; iceServersExpiresAt?: string | null } {
+    if (!this.iceServerService) {
+      return {};
+    }
+    const { iceServers, expiresAt } = this.iceServerService.getIceServers(userId, roomId);
+    return { iceServers, iceServersExpiresAt: expiresAt };
+  }
+
+  private getSfuRoom(roomId: string): SFUStrategy {
+    let sfu = this.sfuRooms.get(roomId);
+    if (!sfu) {
+      sfu = new SFUStrategy(roomId);
+      sfu.onSignal((connectionId, signal) => this.deliverSfuSignal(connectionId, signal));
+      this.sfuRooms.set(roomId, sfu);
+    }
+    return sfu;
+  }
+
+  private getSfuConnection(socket: Socket, roomId: string): { roomId: string; connectionId: ConnectionId } | null {
+    const sfuConnection = this.sfuConnections.get(socket.id);
+    if (!sfuConnection || sfuConnection.roomId !== roomId) {
+      console.warn(`[SFU] Socket ${socket.id} has no SFU connection in room ${roomId}`);
+      return null;
+    }
+    return sfuConnection;
+  }
+
+  private deliverSfuSignal(connectionId: ConnectionId, signal: SFUSignal): void {
+    for (const sfuConnection of this.sfuConnections.values()) {
+      if (!sfuConnection.connectionId.equals(connectionId)) {
+        continue;
+      }
+      switch (signal.type) {
+        case 'offer':
+          sfuConnection.socket.emit('sfu_offer', {
+            offer: signal.description,
+            upstreamMid: signal.upstreamMid,
+            slots: signal.slots
+          });
+          break;
+        case 'ice_candidate':
+          sfuConnection.socket.emit('sfu_ice_candidate', { candidate: signal.candidate });
+          break;
+        case 'slots':
+          sfuConnection.socket.emit('sfu_slots', { slots: signal.slots });
+          break;
+      }
+      return;
+    }
+  }
+
+  private async disconnectSfu(socketId: string): Promise<void> {
+    const sfuConnection = this.sfuConnections.get(socketId);
+    if (!sfuConnection) {
+      return;
+    }
+    this.sfuConnections.delete(socketId);
+    await this.sfuRooms.get(sfuConnection.roomId)?.disconnect(sfuConnection.connectionId);
+  }
+
+  private closeSfuRoom(roomId: string): void {
+    const sfu = this.sfuRooms.get(roomId);
+    if (!sfu) {
+      return;
+    }
+    this.sfuRooms.delete(roomId);
+    for (const [socketId, sfuConnection] of this.sfuConnections) {
+      if (sfuConnection.roomId === roomId) {
+        this.sfuConnections.delete(socketId);
+      }
+    }
+    void sfu.close();
+  }
+}
@@ -17,7 +17,8 @@ import { ChatMessageData, User, UserSession, ChatMessage } from '../../../../../
 
 // Mock dependencies
 const mockRoomService = {
-  findUserInRoom: jest.fn()
+  findUserInRoom: jest.fn(),
+  getRoom: jest.fn()
 } as jest.Mocked<Partial<RoomService>>;
 
 const mockNamespaceManager = {
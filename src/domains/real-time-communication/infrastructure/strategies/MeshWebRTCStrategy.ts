@@ -162,7 +162,7 @@ export class MeshWebRTCStrategy implements AudioCommunicationStrategy {
   }
 
   getStrategyInfo(): {
-    type: 'mesh' | 'streaming';
+    type: 'mesh' | 'sfu' | 'streaming';
     maxConnections: number;
     supportedRoles: UserRole[];
   } {
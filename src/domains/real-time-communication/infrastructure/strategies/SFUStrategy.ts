@@ -0,0 +1,412 @@
+/**
+ * SFU Strategy Implementation
+ *
+ * Implements selective forwarding for band members in rooms too large for a full mesh.
+ * Each participant has one peer connection to the server: it publishes a single upstream
+ * track and receives the other participants' audio on a fixed set of forwarding slots.
+ * The server forwards RTP as is; it never decodes or mixes audio.
+ *
+ * Requirements: 10.2, 10.3
+ */
+
+import {
+  RTCPeerConnection,
+  RTCRtpCodecParameters,
+  type MediaStreamTrack,
+  type RTCRtpTransceiver,
+  type RTCIceCandidate
+} from 'werift';
+import {
+  AudioCommunicationStrategy,
+  InvalidRoleError,
+  ConnectionFailedError,
+  UnsupportedOperationError
+} from '../../domain/services/AudioCommunicationStrategy';
+import {
+  ConnectionId,
+  UserRole,
+  AudioBuffer,
+  AudioConnection,
+  ConnectionState
+} from '../../domain/models/Connection';
+
+export interface SFUSessionDescription {
+  type: 'offer' | 'answer';
+  sdp: string;
+}
+
+export interface SFUIceCandidate {
+  candidate: string;
+  sdpMid?: string | null;
+  sdpMLineIndex?: number | null;
+}
+
+/**
+ * A forwarding slot of a participant's connection: the transceiver `mid` and whose audio it carries
+ */
+export interface SFUSlot {
+  mid: string;
+  userId: string | null;
+}
+
+/**
+ * Signaling the server sends a participant. The server always makes the offer:
+ * its first m-line receives the participant's upstream, the rest are forwarding slots.
+ */
+export type SFUSignal =
+  | { type: 'offer'; description: SFUSessionDescription; upstreamMid: string; slots: SFUSlot[] }
+  | { type: 'ice_candidate'; candidate: SFUIceCandidate }
+  | { type: 'slots'; slots: SFUSlot[] };
+
+interface SFUParticipant {
+  connection: AudioConnection;
+  pc: RTCPeerConnection;
+  upstream: RTCRtpTransceiver;
+  upstreamTrack: MediaStreamTrack | null;
+  slots: Array<{ transceiver: RTCRtpTransceiver; userId: string | null }>;
+  // Publishers this participant wants to hear; null forwards everyone, up to the slot count
+  selection: string[] | null;
+  // Trickled candidates that arrived before the participant's answer
+  pendingCandidates: SFUIceCandidate[];
+}
+
+export class SFUStrategy implements AudioCommunicationStrategy {
+  private participants = new Map<string, SFUParticipant>(); // connectionId -> participant
+  private audioCallbacks: Array<(audioData: AudioBuffer, fromUserId: string) => void> = [];
+  private signalCallbacks: Array<(connectionId: ConnectionId, signal: SFUSignal) => void> = [];
+
+  constructor(
+    private roomId: string,
+    private sfuConfig: SFUConfig = DEFAULT_SFU_CONFIG
+  ) {}
+
+  /**
+   * Create the participant's server-side peer connection. Call negotiate() to signal its offer.
+   */
+  async connect(userId: string, role: UserRole): Promise<ConnectionId> {
+    if (role !== UserRole.BAND_MEMBER && role !== UserRole.ROOM_OWNER) {
+      throw new InvalidRoleError('SFU only supports band members and room owners');
+    }
+
+    const connectionId = ConnectionId.generate();
+    const connection = new AudioConnection(connectionId, userId, role);
+
+    const pc = new RTCPeerConnection({
+      codecs: {
+        audio: [new RTCRtpCodecParameters({ mimeType: 'audio/opus', clockRate: 48000, channels: 2 })]
+      },
+      iceServers: this.sfuConfig.iceServers,
+      iceUseIpv6: false,
+      ...(this.sfuConfig.icePortRange ? { icePortRange: this.sfuConfig.icePortRange } : {}),
+      ...(this.sfuConfig.iceAdditionalHostAddresses
+        ? { iceAdditionalHostAddresses: this.sfuConfig.iceAdditionalHostAddresses }
+        : {})
+    });
+    const upstream = pc.addTransceiver('audio', { direction: 'recvonly' });
+    const slots = Array.from({ length: this.sfuConfig.maxForwardedStreams }, () => ({
+      transceiver: pc.addTransceiver('audio', { direction: 'sendonly' }),
+      userId: null as string | null
+    }));
+
+    const participant: SFUParticipant = { connection, pc, upstream, upstreamTrack: null, slots, selection: null, pendingCandidates: [] };
+    this.participants.set(connectionId.toString(), participant);
+
+    upstream.onTrack.subscribe((track) => {
+      participant.upstreamTrack = track;
+      if (this.audioCallbacks.length > 0) {
+        track.onReceiveRtp.subscribe((rtp) => this.handleUpstreamAudio(rtp.payload, userId));
+      }
+      console.log(`[SFU] Receiving upstream from ${userId} in room ${this.roomId}`);
+      this.refreshForwarding();
+    });
+
+    pc.onIceCandidate.subscribe((candidate?: RTCIceCandidate) => {
+      if (candidate) {
+        const { candidate: line, sdpMid, sdpMLineIndex } = candidate.toJSON();
+        this.signal(connectionId, {
+          type: 'ice_candidate',
+          candidate: { candidate: line, sdpMid: sdpMid ?? null, sdpMLineIndex: sdpMLineIndex ?? null }
+        });
+      }
+    });
+
+    pc.connectionStateChange.subscribe((state) => {
+      if (state === 'connected') {
+        connection.updateState(ConnectionState.CONNECTED);
+      } else if (state === 'failed') {
+        connection.updateState(ConnectionState.FAILED);
+      } else if (state === 'closed') {
+        connection.updateState(ConnectionState.DISCONNECTED);
+      }
+    });
+
+    console.log(`[SFU] User ${userId} connected with role ${role}, connectionId: ${connectionId.toString()}`);
+
+    return connectionId;
+  }
+
+  async disconnect(connectionId: ConnectionId): Promise<void> {
+    const participant = this.participants.get(connectionId.toString());
+    if (!participant) {
+      console.warn(`[SFU] Connection ${connectionId.toString()} not found for disconnect`);
+      return;
+    }
+
+    this.participants.delete(connectionId.toString());
+    participant.connection.updateState(ConnectionState.DISCONNECTED);
+    await participant.pc.close();
+
+    console.log(`[SFU] User ${participant.connection.userId} disconnected from room ${this.roomId}`);
+
+    // Free the slots that were forwarding this participant
+    this.refreshForwarding();
+  }
+
+  async sendAudio(_connectionId: ConnectionId, _audioData: AudioBuffer): Promise<void> {
+    // Audio is published over the participant's peer connection, not through the strategy
+    throw new UnsupportedOperationError('sendAudio', 'sfu');
+  }
+
+  onAudioReceived(callback: (audioData: AudioBuffer, fromUserId: string) => void): void {
+    this.audioCallbacks.push(callback);
+  }
+
+  /**
+   * Register callback for signaling to deliver to a participant
+   */
+  onSignal(callback: (connectionId: ConnectionId, signal: SFUSignal) => void): void {
+    this.signalCallbacks.push(callback);
+  }
+
+  /**
+   * Apply the participant's answer to the server's offer
+   */
+  async handleAnswer(connectionId: ConnectionId, answer: SFUSessionDescription): Promise<void> {
+    const participant = this.getParticipant(connectionId);
+    await participant.pc.setRemoteDescription(answer);
+
+    const pendingCandidates = participant.pendingCandidates;
+    participant.pendingCandidates = [];
+    for (const candidate of pendingCandidates) {
+      await participant.pc.addIceCandidate(candidate);
+    }
+  }
+
+  async addIceCandidate(connectionId: ConnectionId, candidate: SFUIceCandidate): Promise<void> {
+    const participant = this.getParticipant(connectionId);
+    if (!participant.pc.remoteDescription) {
+      participant.pendingCandidates.push(candidate);
+      return;
+    }
+    await participant.pc.addIceCandidate(candidate);
+  }
+
+  /**
+   * Choose which publishers a participant hears; null forwards everyone, up to the slot count
+   */
+  subscribe(connectionId: ConnectionId, userIds: string[] | null): void {
+    const participant = this.getParticipant(connectionId);
+    participant.selection = userIds ? userIds.slice(0, participant.slots.length) : null;
+    this.refreshForwarding();
+  }
+
+  async getConnectionHealth(connectionId: ConnectionId): Promise<{
+    isHealthy: boolean;
+    latency?: number;
+    quality?: 'excellent' | 'good' | 'poor' | 'failed';
+  }> {
+    const participant = this.participants.get(connectionId.toString());
+    if (!participant) {
+      return { isHealthy: false, quality: 'failed' };
+    }
+
+    const state = participant.pc.connectionState;
+    if (state === 'connected') {
+      // Upstream not yet flowing means the participant is still negotiating or muted at the source
+      return { isHealthy: true, quality: participant.upstreamTrack ? 'good' : 'poor' };
+    }
+    if (state === 'new' || state === 'connecting') {
+      return { isHealthy: participant.connection.isHealthy(), quality: 'poor' };
+    }
+    return { isHealthy: false, quality: 'failed' };
+  }
+
+  /**
+   * Restart ICE on the participant's connection and signal a fresh offer
+   */
+  async recoverConnection(connectionId: ConnectionId): Promise<void> {
+    const participant = this.participants.get(connectionId.toString());
+    if (!participant) {
+      throw new ConnectionFailedError(`Connection ${connectionId.toString()} not found for recovery`);
+    }
+
+    console.log(`[SFU] Attempting to recover connection for user ${participant.connection.userId}`);
+
+    participant.connection.updateState(ConnectionState.CONNECTING);
+
+    try {
+      participant.pc.restartIce();
+      await this.negotiate(connectionId);
+    } catch (error) {
+      participant.connection.updateState(ConnectionState.FAILED);
+      throw new ConnectionFailedError(`Failed to recover SFU connection: ${error}`);
+    }
+  }
+
+  getStrategyInfo(): {
+    type: 'mesh' | 'sfu' | 'streaming';
+    maxConnections: number;
+    supportedRoles: UserRole[];
+  } {
+    return {
+      type: 'sfu',
+      maxConnections: 50, // RoomSettings.maxMembers upper bound
+      supportedRoles: [UserRole.BAND_MEMBER, UserRole.ROOM_OWNER]
+    };
+  }
+
+  /**
+   * Signal the server's offer for a participant's connection
+   */
+  async negotiate(connectionId: ConnectionId): Promise<void> {
+    const participant = this.getParticipant(connectionId);
+    const offer = await participant.pc.createOffer();
+    await participant.pc.setLocalDescription(offer);
+    const description = participant.pc.localDescription!;
+
+    this.signal(connectionId, {
+      type: 'offer',
+      description: { type: 'offer', sdp: description.sdp },
+      upstreamMid: participant.upstream.mid ?? '0',
+      slots: this.describeSlots(participant)
+    });
+  }
+
+  /**
+   * Forwarding slots of a participant's connection
+   */
+  getSlots(connectionId: ConnectionId): SFUSlot[] {
+    return this.describeSlots(this.getParticipant(connectionId));
+  }
+
+  getConnectedUsersCount(): number {
+    return this.participants.size;
+  }
+
+  /**
+   * Close every participant's connection
+   */
+  async close(): Promise<void> {
+    const participants = Array.from(this.participants.values());
+    this.participants.clear();
+    await Promise.all(participants.map((participant) => participant.pc.close()));
+    console.log(`[SFU] Closed all connections in room ${this.roomId}`);
+  }
+
+  private getParticipant(connectionId: ConnectionId): SFUParticipant {
+    const participant = this.participants.get(connectionId.toString());
+    if (!participant) {
+      throw new ConnectionFailedError(`Connection ${connectionId.toString()} not found`);
+    }
+    return participant;
+  }
+
+  /**
+   * Assign publishers to every participant's slots. Publishers keep their slot while they
+   * stay selected, so a participant only sees the slots that actually changed.
+   */
+  private refreshForwarding(): void {
+    const publishers = new Map<string, MediaStreamTrack>();
+    this.participants.forEach((participant) => {
+      if (participant.upstreamTrack) {
+        publishers.set(participant.connection.userId, participant.upstreamTrack);
+      }
+    });
+
+    this.participants.forEach((participant, connectionId) => {
+      const ownId = participant.connection.userId;
+      const wanted = (participant.selection ?? Array.from(publishers.keys()))
+        .filter((userId) => userId !== ownId && publishers.has(userId))
+        .slice(0, participant.slots.length);
+
+      let changed = false;
+      participant.slots.forEach((slot) => {
+        if (slot.userId && !wanted.includes(slot.userId)) {
+          slot.userId = null;
+          void slot.transceiver.sender.replaceTrack(null);
+          changed = true;
+        }
+      });
+
+      const assigned = new Set(participant.slots.map((slot) => slot.userId));
+      for (const userId of wanted) {
+        if (assigned.has(userId)) {
+          continue;
+        }
+        const freeSlot = participant.slots.find((slot) => slot.userId === null);
+        if (!freeSlot) {
+          break;
+        }
+        freeSlot.userId = userId;
+        void freeSlot.transceiver.sender.replaceTrack(publishers.get(userId)!).catch((error) => {
+          console.error(`[SFU] Failed to forward ${userId} to ${ownId}:`, error);
+        });
+        changed = true;
+      }
+
+      if (changed) {
+        this.signal(new ConnectionId(connectionId), { type: 'slots', slots: this.describeSlots(participant) });
+      }
+    });
+  }
+
+  private describeSlots(participant: SFUParticipant): SFUSlot[] {
+    return participant.slots.map((slot) => ({ mid: slot.transceiver.mid ?? '', userId: slot.userId }));
+  }
+
+  private signal(connectionId: ConnectionId, signal: SFUSignal): void {
+    this.signalCallbacks.forEach((callback) => {
+      try {
+        callback(connectionId, signal);
+      } catch (error) {
+        console.error(`[SFU] Error in signal callback:`, error);
+      }
+    });
+  }
+
+  /**
+   * Handle upstream Opus payloads (only subscribed when audio callbacks are registered)
+   */
+  private handleUpstreamAudio(payload: Buffer, fromUserId: string): void {
+    const audioData: AudioBuffer = {
+      data: payload.buffer.slice(payload.byteOffset, payload.byteOffset + payload.byteLength) as ArrayBuffer,
+      sampleRate: 48000,
+      channels: 2,
+      timestamp: Date.now()
+    };
+    this.audioCallbacks.forEach(callback => {
+      try {
+        callback(audioData, fromUserId);
+      } catch (error) {
+        console.error(`[SFU] Error in audio callback:`, error);
+      }
+    });
+  }
+}
+
+/**
+ * SFU configuration
+ */
+export interface SFUConfig {
+  // Forwarding slots per participant: the most other participants one can hear at once
+  maxForwardedStreams: number;
+  iceServers: Array<{ urls: string; username?: string; credential?: string }>;
+  icePortRange?: [number, number];
+  // Extra host addresses to gather candidates on, e.g. loopback for local testing
+  iceAdditionalHostAddresses?: string[];
+}
+
+const DEFAULT_SFU_CONFIG: SFUConfig = {
+  maxForwardedStreams: 8,
+  iceServers: []
+};
@@ -1,24 +1,26 @@
 /**
- * Streaming Strategy Implementation (Future Implementation)
- * 
+ * Streaming Strategy Implementation
+ *
  * Implements one-to-many streaming for audience members.
- * Band members stream to a central hub, which then broadcasts to audience.
- * 
+ * The broadcaster's WebM/Opus chunks are published to a central hub, which fans them
+ * out over Socket.IO to every audience socket subscribed to the relay.
+ *
  * Requirements: 10.2, 10.3
  */
 
-import { 
-  AudioCommunicationStrategy, 
-  InvalidRoleError, 
+import type { Socket } from 'socket.io';
+import {
+  AudioCommunicationStrategy,
+  InvalidRoleError,
   ConnectionFailedError,
-  UnsupportedOperationError 
+  UnsupportedOperationError
 } from '../../domain/services/AudioCommunicationStrategy';
-import { 
-  ConnectionId, 
-  UserRole, 
-  AudioBuffer, 
-  AudioConnection, 
-  ConnectionState 
+import {
+  ConnectionId,
+  UserRole,
+  AudioBuffer,
+  AudioConnection,
+  ConnectionState
 } from '../../domain/models/Connection';
 
 export class StreamingStrategy implements AudioCommunicationStrategy {
@@ -31,25 +33,28 @@ export class StreamingStrategy implements AudioCommunicationStrategy {
     private streamingConfig: StreamingConfig = DEFAULT_STREAMING_CONFIG
   ) {}
 
-  async connect(userId: string, role: UserRole): Promise<ConnectionId> {
+  /**
+   * Subscribe an audience member to the stream. Chunks are delivered to `socket` when given;
+   * the subscription ends when the socket disconnects.
+   */
+  async connect(userId: string, role: UserRole, socket?: Socket): Promise<ConnectionId> {
     if (role !== UserRole.AUDIENCE) {
       throw new InvalidRoleError('Streaming strategy only supports audience members');
     }
 
     const connectionId = ConnectionId.generate();
     const connection = new AudioConnection(connectionId, userId, role);
-    
+
     this.connections.set(connectionId.toString(), connection);
 
     console.log(`[STREAMING] Audience member ${userId} connected, connectionId: ${connectionId.toString()}`);
 
-    // Initialize streaming hub if not already done
-    if (!this.streamingHub) {
-      await this.initializeStreamingHub();
-    }
-
     // Subscribe to audio stream
-    await this.subscribeToStream(connection);
+    await this.subscribeToStream(connection, socket ?? null);
+
+    socket?.once('disconnect', () => {
+      void this.disconnect(connectionId);
+    });
 
     return connectionId;
   }
@@ -65,11 +70,12 @@ export class StreamingStrategy implements AudioCommunicationStrategy {
     await this.unsubscribeFromStream(connection);
 
     this.connections.delete(connectionId.toString());
+    connection.updateState(ConnectionState.DISCONNECTED);
 
     console.log(`[STREAMING] Audience member ${connection.userId} disconnected`);
 
-    // Cleanup streaming hub if no more connections
-    if (this.connections.size === 0 && this.streamingHub) {
+    // Cleanup streaming hub if no more connections; a live stream keeps its init segment for late joiners
+    if (this.connections.size === 0 && this.streamingHub && !this.streamingHub.isLive()) {
       await this.cleanupStreamingHub();
     }
   }
@@ -83,26 +89,48 @@ export class StreamingStrategy implements AudioCommunicationStrategy {
     this.audioCallbacks.push(callback);
   }
 
+  /**
+   * Publish a chunk of the broadcaster's WebM/Opus stream to every subscriber
+   */
+  publishChunk(chunk: Buffer, fromUserId: string): void {
+    this.getStreamingHub().publish(chunk);
+    this.handleIncomingStreamAudio({
+      data: chunk.buffer.slice(chunk.byteOffset, chunk.byteOffset + chunk.byteLength) as ArrayBuffer,
+      sampleRate: 48000,
+      channels: 2,
+      timestamp: Date.now()
+    }, fromUserId);
+  }
+
+  /**
+   * End the current stream. Subscribers stay subscribed and receive the next stream's init segment.
+   */
+  endStream(): void {
+    this.streamingHub?.end();
+  }
+
   async getConnectionHealth(connectionId: ConnectionId): Promise<{
     isHealthy: boolean;
     latency?: number;
     quality?: 'excellent' | 'good' | 'poor' | 'failed';
   }> {
     const connection = this.connections.get(connectionId.toString());
-    if (!connection) {
+    const listener = this.streamingHub?.getSubscriber(connectionId.toString());
+    if (!connection || !listener) {
       return { isHealthy: false, quality: 'failed' };
     }
 
     const isHealthy = connection.isHealthy();
-    
-    // Streaming typically has higher latency than mesh
-    const latency = await this.measureStreamingLatency();
-    
+
+    // Round trip of the listener's chunk acknowledgements
+    const latency = listener.lastAckRttMs;
+    const dropRatio = listener.chunksDropped / Math.max(1, listener.chunksSent + listener.chunksDropped);
+
     let quality: 'excellent' | 'good' | 'poor' | 'failed' = 'failed';
     if (isHealthy) {
-      if (latency < 100) quality = 'excellent';
-      else if (latency < 200) quality = 'good';
-      else if (latency < 500) quality = 'poor';
+      if (latency < 100 && dropRatio < 0.01) quality = 'excellent';
+      else if (latency < 200 && dropRatio < 0.05) quality = 'good';
+      else quality = 'poor';
     }
 
     return { isHealthy, latency, quality };
@@ -115,14 +143,15 @@ export class StreamingStrategy implements AudioCommunicationStrategy {
     }
 
     console.log(`[STREAMING] Attempting to recover connection for audience member ${connection.userId}`);
-    
+
     connection.updateState(ConnectionState.CONNECTING);
-    
+
     try {
-      // Re-subscribe to stream
-      await this.subscribeToStream(connection);
-      connection.updateState(ConnectionState.CONNECTED);
-      
+      // Re-subscribe to stream on the same socket; the listener restarts from the init segment
+      const socket = this.streamingHub?.getSubscriber(connectionId.toString())?.socket ?? null;
+      await this.unsubscribeFromStream(connection);
+      await this.subscribeToStream(connection, socket);
+
       console.log(`[STREAMING] Successfully recovered connection for ${connection.userId}`);
     } catch (error) {
       connection.updateState(ConnectionState.FAILED);
@@ -131,7 +160,7 @@ export class StreamingStrategy implements AudioCommunicationStrategy {
   }
 
   getStrategyInfo(): {
-    type: 'mesh' | 'streaming';
+    type: 'mesh' | 'sfu' | 'streaming';
     maxConnections: number;
     supportedRoles: UserRole[];
   } {
@@ -143,18 +172,27 @@ export class StreamingStrategy implements AudioCommunicationStrategy {
   }
 
   /**
-   * Initialize streaming hub for the room
+   * Relay totals across all subscribers
    */
-  private async initializeStreamingHub(): Promise<void> {
-    this.streamingHub = new StreamingHub(this.roomId, this.streamingConfig);
-    await this.streamingHub.initialize();
-    
-    // Setup audio data handler
-    this.streamingHub.onAudioData((audioData, fromUserId) => {
-      this.handleIncomingStreamAudio(audioData, fromUserId);
-    });
+  getStats(): StreamingStats {
+    return this.streamingHub?.getStats() ?? {
+      isLive: false,
+      subscribers: 0,
+      chunksPublished: 0,
+      bytesPublished: 0,
+      chunksDropped: 0
+    };
+  }
 
-    console.log(`[STREAMING] Initialized streaming hub for room ${this.roomId}`);
+  /**
+   * Get the streaming hub for the room, creating it on first use
+   */
+  private getStreamingHub(): StreamingHub {
+    if (!this.streamingHub) {
+      this.streamingHub = new StreamingHub(this.roomId, this.streamingConfig);
+      console.log(`[STREAMING] Initialized streaming hub for room ${this.roomId}`);
+    }
+    return this.streamingHub;
   }
 
   /**
@@ -162,7 +200,7 @@ export class StreamingStrategy implements AudioCommunicationStrategy {
    */
   private async cleanupStreamingHub(): Promise<void> {
     if (this.streamingHub) {
-      await this.streamingHub.cleanup();
+      this.streamingHub.cleanup();
       this.streamingHub = null;
       console.log(`[STREAMING] Cleaned up streaming hub for room ${this.roomId}`);
     }
@@ -171,12 +209,8 @@ export class StreamingStrategy implements AudioCommunicationStrategy {
   /**
    * Subscribe connection to audio stream
    */
-  private async subscribeToStream(connection: AudioConnection): Promise<void> {
-    if (!this.streamingHub) {
-      throw new ConnectionFailedError('Streaming hub not initialized');
-    }
-
-    await this.streamingHub.addSubscriber(connection.userId);
+  private async subscribeToStream(connection: AudioConnection, socket: Socket | null): Promise<void> {
+    this.getStreamingHub().addSubscriber(connection.id.toString(), connection.userId, socket);
     connection.updateState(ConnectionState.CONNECTED);
   }
 
@@ -184,9 +218,7 @@ export class StreamingStrategy implements AudioCommunicationStrategy {
    * Unsubscribe connection from audio stream
    */
   private async unsubscribeFromStream(connection: AudioConnection): Promise<void> {
-    if (this.streamingHub) {
-      await this.streamingHub.removeSubscriber(connection.userId);
-    }
+    this.streamingHub?.removeSubscriber(connection.id.toString());
   }
 
   /**
@@ -203,14 +235,6 @@ export class StreamingStrategy implements AudioCommunicationStrategy {
     });
   }
 
-  /**
-   * Measure streaming latency
-   */
-  private async measureStreamingLatency(): Promise<number> {
-    // Streaming typically has higher latency due to buffering and processing
-    return Math.random() * 200 + 100; // 100-300ms
-  }
-
   /**
    * Get subscriber count
    */
@@ -219,71 +243,268 @@ export class StreamingStrategy implements AudioCommunicationStrategy {
   }
 }
 
+// EBML ID of a WebM Cluster; media after the stream header is a sequence of clusters
+const WEBM_CLUSTER_ID = Buffer.from([0x1f, 0x43, 0xb6, 0x75]);
+
+// Queue marker for the end of a stream
+const END_OF_STREAM = Buffer.alloc(0);
+
+/**
+ * Offset of the first WebM Cluster element in a chunk, or -1 if it has none
+ */
+export function findWebmClusterStart(chunk: Buffer): number {
+  return chunk.indexOf(WEBM_CLUSTER_ID);
+}
+
+interface RelayChunk {
+  seq: number;
+  data: Buffer;
+}
+
+interface StreamSubscriber {
+  userId: string;
+  socket: Socket | null;
+  queue: RelayChunk[];
+  inFlight: number;
+  // Late joiners skip media until the next cluster, which decodes after the init segment
+  awaitingCluster: boolean;
+  chunksSent: number;
+  chunksDropped: number;
+  lastAckRttMs: number;
+}
+
 /**
- * Streaming Hub - Manages the central streaming infrastructure
- * This would integrate with WebRTC streaming servers or WebSocket streaming
+ * Streaming Hub - fans one room's stream out to its subscribers
+ *
+ * Each subscriber has a bounded queue. At most `maxInFlightChunks` chunks await the client's
+ * acknowledgement; a slow listener's queue drops its oldest chunks instead of growing.
  */
 class StreamingHub {
-  private subscribers = new Set<string>();
-  private audioDataCallbacks: Array<(audioData: AudioBuffer, fromUserId: string) => void> = [];
+  private subscribers = new Map<string, StreamSubscriber>();
+  // Everything before the first cluster: EBML header, segment info and tracks
+  private initSegment: Buffer | null = null;
+  private pendingHeader: Buffer[] = [];
+  private live = false;
+  private seq = 0;
+  private chunksPublished = 0;
+  private bytesPublished = 0;
 
   constructor(
     private roomId: string,
     private config: StreamingConfig
   ) {}
 
-  async initialize(): Promise<void> {
-    // Initialize streaming infrastructure
-    // This could be WebRTC streaming server, WebSocket streaming, etc.
-    console.log(`[STREAMING HUB] Initializing for room ${this.roomId}`);
-  }
-
-  async cleanup(): Promise<void> {
+  cleanup(): void {
     this.subscribers.clear();
-    this.audioDataCallbacks = [];
+    this.initSegment = null;
+    this.pendingHeader = [];
     console.log(`[STREAMING HUB] Cleaned up for room ${this.roomId}`);
   }
 
-  async addSubscriber(userId: string): Promise<void> {
-    this.subscribers.add(userId);
+  isLive(): boolean {
+    return this.live;
+  }
+
+  addSubscriber(connectionId: string, userId: string, socket: Socket | null): void {
+    const subscriber: StreamSubscriber = {
+      userId,
+      socket,
+      queue: [],
+      inFlight: 0,
+      awaitingCluster: false,
+      chunksSent: 0,
+      chunksDropped: 0,
+      lastAckRttMs: 0
+    };
+    this.subscribers.set(connectionId, subscriber);
+
+    // Joining mid-stream: replay the init segment, then start at the next cluster
+    if (this.initSegment?.length) {
+      socket?.emit('broadcast_relay_init', { chunk: this.initSegment });
+      subscriber.awaitingCluster = true;
+    }
+
     console.log(`[STREAMING HUB] Added subscriber ${userId}, total: ${this.subscribers.size}`);
   }
 
-  async removeSubscriber(userId: string): Promise<void> {
-    this.subscribers.delete(userId);
-    console.log(`[STREAMING HUB] Removed subscriber ${userId}, total: ${this.subscribers.size}`);
+  removeSubscriber(connectionId: string): void {
+    const subscriber = this.subscribers.get(connectionId);
+    if (this.subscribers.delete(connectionId) && subscriber) {
+      console.log(`[STREAMING HUB] Removed subscriber ${subscriber.userId}, total: ${this.subscribers.size}`);
+    }
+  }
+
+  getSubscriber(connectionId: string): Readonly<StreamSubscriber> | undefined {
+    return this.subscribers.get(connectionId);
   }
 
-  onAudioData(callback: (audioData: AudioBuffer, fromUserId: string) => void): void {
-    this.audioDataCallbacks.push(callback);
+  /**
+   * Fan a chunk of the stream out to every subscriber
+   */
+  publish(chunk: Buffer): void {
+    this.live = true;
+    this.chunksPublished += 1;
+    this.bytesPublished += chunk.length;
+
+    if (!this.initSegment) {
+      const split = this.takeInitSegment(chunk);
+      if (!split) {
+        return;
+      }
+      const { initSegment, media } = split;
+      this.initSegment = initSegment;
+      this.subscribers.forEach((subscriber) => {
+        if (initSegment.length) {
+          subscriber.socket?.emit('broadcast_relay_init', { chunk: initSegment });
+        }
+        subscriber.awaitingCluster = false;
+      });
+      chunk = media;
+    }
+
+    const seq = this.seq++;
+    this.subscribers.forEach((subscriber, connectionId) => {
+      if (subscriber.awaitingCluster) {
+        const clusterStart = findWebmClusterStart(chunk);
+        if (clusterStart === -1) {
+          return;
+        }
+        subscriber.awaitingCluster = false;
+        this.enqueue(connectionId, subscriber, { seq, data: chunk.subarray(clusterStart) });
+        return;
+      }
+      this.enqueue(connectionId, subscriber, { seq, data: chunk });
+    });
   }
 
   /**
-   * Receive audio from band members (would be called by mesh strategy)
+   * End the stream: subscribers are told once their queued chunks are sent
    */
-  receiveAudioFromBand(audioData: AudioBuffer, fromUserId: string): void {
-    // Process and broadcast to all subscribers
-    this.audioDataCallbacks.forEach(callback => {
-      callback(audioData, fromUserId);
+  end(): void {
+    if (!this.live) {
+      return;
+    }
+    const lastSeq = this.seq;
+    this.subscribers.forEach((subscriber, connectionId) => {
+      this.enqueue(connectionId, subscriber, { seq: lastSeq, data: END_OF_STREAM });
+    });
+    this.live = false;
+    this.initSegment = null;
+    this.pendingHeader = [];
+    this.seq = 0;
+  }
+
+  getStats(): StreamingStats {
+    let chunksDropped = 0;
+    this.subscribers.forEach((subscriber) => {
+      chunksDropped += subscriber.chunksDropped;
     });
+    return {
+      isLive: this.live,
+      subscribers: this.subscribers.size,
+      chunksPublished: this.chunksPublished,
+      bytesPublished: this.bytesPublished,
+      chunksDropped
+    };
+  }
+
+  /**
+   * Collect the stream header until the first cluster arrives. Returns the header and the
+   * media after it, or null while the header is still incomplete.
+   */
+  private takeInitSegment(chunk: Buffer): { initSegment: Buffer; media: Buffer } | null {
+    const clusterStart = findWebmClusterStart(chunk);
+    if (clusterStart === -1) {
+      this.pendingHeader.push(chunk);
+      const headerBytes = this.pendingHeader.reduce((total, part) => total + part.length, 0);
+      if (headerBytes <= this.config.maxInitSegmentBytes) {
+        return null;
+      }
+      // Not a WebM stream we can split; relay it as is
+      const media = Buffer.concat(this.pendingHeader);
+      this.pendingHeader = [];
+      return { initSegment: Buffer.alloc(0), media };
+    }
+
+    const initSegment = Buffer.concat([...this.pendingHeader, chunk.subarray(0, clusterStart)]);
+    this.pendingHeader = [];
+    return { initSegment, media: chunk.subarray(clusterStart) };
+  }
+
+  private enqueue(connectionId: string, subscriber: StreamSubscriber, item: RelayChunk): void {
+    if (subscriber.queue.length >= this.config.maxQueuedChunks) {
+      // Drop the oldest media; the end-of-stream notice is never dropped
+      const dropIndex = subscriber.queue.findIndex((queued) => queued.data !== END_OF_STREAM);
+      if (dropIndex !== -1) {
+        subscriber.queue.splice(dropIndex, 1);
+        subscriber.chunksDropped += 1;
+      }
+    }
+    subscriber.queue.push(item);
+    this.drain(connectionId, subscriber);
+  }
+
+  /**
+   * Send queued chunks while the subscriber has room in flight
+   */
+  private drain(connectionId: string, subscriber: StreamSubscriber): void {
+    while (subscriber.queue.length > 0 && subscriber.inFlight < this.config.maxInFlightChunks) {
+      const item = subscriber.queue.shift()!;
+
+      if (item.data === END_OF_STREAM) {
+        subscriber.socket?.emit('broadcast_relay_ended', { seq: item.seq });
+        continue;
+      }
+
+      subscriber.chunksSent += 1;
+      if (!subscriber.socket) {
+        continue;
+      }
+
+      subscriber.inFlight += 1;
+      const sentAt = Date.now();
+      subscriber.socket.timeout(this.config.ackTimeoutMs).emit(
+        'broadcast_relay_chunk',
+        { seq: item.seq, chunk: item.data },
+        (err: Error | null) => {
+          subscriber.inFlight -= 1;
+          if (!err) {
+            subscriber.lastAckRttMs = Date.now() - sentAt;
+          }
+          if (this.subscribers.get(connectionId) === subscriber) {
+            this.drain(connectionId, subscriber);
+          }
+        }
+      );
+    }
   }
 }
 
 /**
  * Streaming configuration
  */
-interface StreamingConfig {
-  bufferSize: number;
-  sampleRate: number;
-  channels: number;
-  codec: 'opus' | 'aac' | 'mp3';
-  bitrate: number;
+export interface StreamingConfig {
+  // Chunks sent to a subscriber but not yet acknowledged by its client
+  maxInFlightChunks: number;
+  // Chunks queued per subscriber; beyond this the oldest are dropped
+  maxQueuedChunks: number;
+  // An unacknowledged chunk stops counting as in flight after this long
+  ackTimeoutMs: number;
+  // Header bytes collected without finding a WebM cluster before the stream is relayed unsplit
+  maxInitSegmentBytes: number;
+}
+
+export interface StreamingStats {
+  isLive: boolean;
+  subscribers: number;
+  chunksPublished: number;
+  bytesPublished: number;
+  chunksDropped: number;
 }
 
 const DEFAULT_STREAMING_CONFIG: StreamingConfig = {
-  bufferSize: 4096,
-  sampleRate: 44100,
-  channels: 2,
-  codec: 'opus',
-  bitrate: 128000
-};
\ No newline at end of file
+  maxInFlightChunks: 4,
+  maxQueuedChunks: 50,
+  ackTimeoutMs: 5000,
+  maxInitSegmentBytes: 64 * 1024
+};
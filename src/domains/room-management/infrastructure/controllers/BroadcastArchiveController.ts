@@ -0,0 +1,164 @@
+import { Request, Response } from 'express';
+import type { AuthRequest } from '../../../auth/infrastructure/middleware/authMiddleware';
+import { loggingService } from '../../../../services/LoggingService';
+import { BroadcastArchiveService } from '../../../../services/BroadcastArchiveService';
+
+/**
+ * Past broadcasts of perform rooms: listings and on-demand HLS / audio file playback.
+ * Like live broadcasts, archives are public to anyone with the archive id; listings leave out
+ * archives of private or hidden rooms unless the signed-in owner asks.
+ */
+export class BroadcastArchiveController {
+  constructor(private broadcastArchiveService: BroadcastArchiveService) {}
+
+  /**
+   * Archived broadcasts of a room, newest first
+   */
+  listRoomArchives = async (req: AuthRequest, res: Response): Promise<void> => {
+    const { roomId } = req.params;
+
+    if (!roomId) {
+      res.status(400).json({ success: false, message: 'Room ID is required' });
+      return;
+    }
+
+    try {
+      const archives = await this.broadcastArchiveService.listRoomArchives(roomId, req.user?.id);
+      res.json({ success: true, archives });
+    } catch (error) {
+      loggingService.logError(error as Error, { context: 'BroadcastArchiveController:listRoomArchives', roomId });
+      res.status(500).json({ success: false, message: 'Failed to list broadcasts' });
+    }
+  };
+
+  /**
+   * Archived broadcasts of rooms a user owned, newest first
+   */
+  listUserArchives = async (req: AuthRequest, res: Response): Promise<void> => {
+    const { userId } = req.params;
+
+    if (!userId) {
+      res.status(400).json({ success: false, message: 'User ID is required' });
+      return;
+    }
+
+    try {
+      const archives = await this.broadcastArchiveService.listUserArchives(userId, req.user?.id);
+      res.json({ success: true, archives });
+    } catch (error) {
+      loggingService.logError(error as Error, { context: 'BroadcastArchiveController:listUserArchives', userId });
+      res.status(500).json({ success: false, message: 'Failed to list broadcasts' });
+    }
+  };
+
+  getArchive = async (req: Request, res: Response): Promise<void> => {
+    const { archiveId } = req.params;
+
+    if (!archiveId) {
+      res.status(400).json({ success: false, message: 'Archive ID is required' });
+      return;
+    }
+
+    try {
+      const archive = await this.broadcastArchiveService.getArchive(archiveId);
+      if (!archive) {
+        res.status(404).json({ success: false, message: 'Broadcast not found' });
+        return;
+      }
+      res.json({ success: true, archive });
+    } catch (error) {
+      loggingService.logError(error as Error, { context: 'BroadcastArchiveController:getArchive', archiveId });
+      res.status(500).json({ success: false, message: 'Failed to get broadcast' });
+    }
+  };
+
+  /**
+   * Master playlist of an archived broadcast
+   */
+  streamPlaylist = async (req: Request, res: Response): Promise<void> => {
+    const { archiveId } = req.params;
+
+    if (!archiveId) {
+      res.status(400).json({ error: 'Archive ID required' });
+      return;
+    }
+
+    try {
+      const playlist = await this.broadcastArchiveService.getMasterPlaylist(archiveId);
+      if (!playlist) {
+        res.status(404).json({ error: 'Broadcast not found or not ready' });
+        return;
+      }
+
+      res.setHeader('Content-Type', 'application/vnd.apple.mpegurl');
+      res.setHeader('Cache-Control', 'max-age=3600');
+      res.setHeader('Access-Control-Allow-Origin', '*');
+      res.send(playlist);
+    } catch (error) {
+      loggingService.logError(error as Error, { context: 'BroadcastArchiveController:streamPlaylist', archiveId });
+      res.status(500).json({ error: 'Failed to load broadcast' });
+    }
+  };
+
+  /**
+   * A rendition's VOD playlist, init section or segment
+   */
+  streamRenditionFile = async (req: Request, res: Response): Promise<void> => {
+    const { archiveId, rendition, fileName } = req.params;
+
+    if (!archiveId || !rendition || !fileName) {
+      res.status(400).json({ error: 'Archive ID, rendition and file name required' });
+      return;
+    }
+
+    try {
+      const file = await this.broadcastArchiveService.getRenditionFile(archiveId, rendition, fileName);
+      if (!file) {
+        res.status(404).json({ error: 'Segment not found' });
+        return;
+      }
+
+      // Archived files never change
+      res.setHeader('Content-Type', file.contentType);
+      res.setHeader('Cache-Control', 'public, max-age=86400, immutable');
+      res.setHeader('Access-Control-Allow-Origin', '*');
+      res.send(file.buffer);
+    } catch (error) {
+      loggingService.logError(error as Error, {
+        context: 'BroadcastArchiveController:streamRenditionFile',
+        archiveId,
+        rendition,
+        fileName,
+      });
+      res.status(500).json({ error: 'Failed to load segment' });
+    }
+  };
+
+  /**
+   * Download the archive remuxed to a single audio file
+   */
+  downloadAudio = async (req: Request, res: Response): Promise<void> => {
+    const { archiveId } = req.params;
+
+    if (!archiveId) {
+      res.status(400).json({ success: false, message: 'Archive ID is required' });
+      return;
+    }
+
+    try {
+      const file = await this.broadcastArchiveService.getAudioFile(archiveId);
+      if (!file) {
+        res.status(404).json({ success: false, message: 'Audio file not found' });
+        return;
+      }
+
+      res.setHeader('Content-Type', file.contentType);
+      res.setHeader('Content-Disposition', `attachment; filename="${file.fileName}"`);
+      res.setHeader('Access-Control-Allow-Origin', '*');
+      res.send(file.buffer);
+    } catch (error) {
+      loggingService.logError(error as Error, { context: 'BroadcastArchiveController:downloadAudio', archiveId });
+      res.status(500).json({ success: false, message: 'Failed to download broadcast' });
+    }
+  };
+}
@@ -0,0 +1,75 @@
+import { Response } from 'express';
+import { loggingService } from '../../../../services/LoggingService';
+import { RoomService } from '../../../../services/RoomService';
+import { RoomBanService, roomBanService as defaultRoomBanService, toRoomBanInfo } from '../../../../services/RoomBanService';
+import { hasRoomCapability } from '../../../../services/RoomPermissions';
+import type { AuthRequest } from '../../../auth/infrastructure/middleware/authMiddleware';
+
+/**
+ * A room's bans and kick history, for its signed-in owner or anyone else allowed to ban
+ */
+export class RoomBanController {
+  constructor(
+    private roomService: RoomService,
+    private roomBanService: RoomBanService = defaultRoomBanService
+  ) {}
+
+  listBans = (req: AuthRequest, res: Response): void => {
+    const roomId = this.authorizeBanManager(req, res);
+    if (!roomId) return;
+
+    res.json({
+      success: true,
+      bans: this.roomBanService.getBans(roomId).map(toRoomBanInfo),
+      kicks: this.roomBanService.getKickHistory(roomId),
+    });
+  };
+
+  unbanUser = (req: AuthRequest, res: Response): void => {
+    const roomId = this.authorizeBanManager(req, res);
+    if (!roomId) return;
+
+    const { userId } = req.params;
+    if (!userId) {
+      res.status(400).json({ success: false, message: 'User ID is required' });
+      return;
+    }
+
+    if (!this.roomBanService.unban(roomId, userId)) {
+      res.status(404).json({ success: false, message: 'User is not banned' });
+      return;
+    }
+
+    loggingService.logSecurityEvent('Room Unban', { roomId, unbannedBy: req.user?.id, unbannedUserId: userId });
+    res.json({ success: true, userId });
+  };
+
+  // The room id when the authenticated user may ban in the room; otherwise responds and returns null
+  private authorizeBanManager(req: AuthRequest, res: Response): string | null {
+    const { roomId } = req.params;
+    const userId = req.user?.id;
+
+    if (!userId) {
+      res.status(401).json({ success: false, message: 'Authentication required' });
+      return null;
+    }
+
+    if (!roomId) {
+      res.status(400).json({ success: false, message: 'Room ID is required' });
+      return null;
+    }
+
+    const room = this.roomService.getRoom(roomId);
+    if (!room) {
+      res.status(404).json({ success: false, message: 'Room not found' });
+      return null;
+    }
+
+    if (!hasRoomCapability(room, userId, 'ban')) {
+      res.status(403).json({ success: false, message: 'You do not have permission to manage bans' });
+      return null;
+    }
+
+    return roomId;
+  }
+}
@@ -4,6 +4,8 @@ import { RoomService } from '../../../../services/RoomService';
 import { NamespaceManager } from '../../../../services/NamespaceManager';
 import { RoomSessionManager } from '../../../../services/RoomSessionManager';
 import { loggingService } from '../../../../services/LoggingService';
+import { roomBanService } from '../../../../services/RoomBanService';
+import { canModerateMember, hasRoomCapability } from '../../../../services/RoomPermissions';
 
 /**
  * InstrumentSwapHandler - Handles instrument swap and kick operations
@@ -12,7 +14,7 @@ import { loggingService } from '../../../../services/LoggingService';
  * - Instrument swap requests between users
  * - Swap approval/rejection
  * - Swap execution and state synchronization
- * - User kick functionality (room owner only)
+ * - User kick functionality (room owner only), recorded in the room's kick history
  * 
  * Requirements: User collaboration features
  */
@@ -185,7 +187,7 @@ export class InstrumentSwapHandler {
   }
 
   /**
-   * Handle user kick (room owner only)
+   * Handle user kick (room owner, or a role allowed to kick)
    */
   handleKickUser(socket: Socket, data: { targetUserId: string }, namespace: Namespace): void {
     const session = this.roomSessionManager.getRoomSession(socket.id);
@@ -195,40 +197,48 @@ export class InstrumentSwapHandler {
     }
 
     const roomId = session.roomId;
-    const ownerId = session.userId;
+    const kickedBy = session.userId;
     const { targetUserId } = data;
 
-    // Verify user is room owner
-    if (!this.roomService.isRoomOwner(roomId, ownerId)) {
-      socket.emit('kick_error', { message: 'Only room owner can kick users' });
-      return;
-    }
-
     const room = this.roomService.getRoom(roomId);
     if (!room) {
       socket.emit('kick_error', { message: 'Room not found' });
       return;
     }
 
+    if (!hasRoomCapability(room, kickedBy, 'kick')) {
+      socket.emit('kick_error', { message: 'You do not have permission to kick users' });
+      return;
+    }
+
     const targetUser = room.users.get(targetUserId);
     if (!targetUser) {
       socket.emit('kick_error', { message: 'Target user not found in room' });
       return;
     }
 
-    // Cannot kick room owner
-    if (targetUser.role === 'room_owner') {
-      socket.emit('kick_error', { message: 'Cannot kick room owner' });
+    // Nobody can kick the room owner, and only the owner can kick co-hosts
+    if (!canModerateMember(room, kickedBy, targetUserId)) {
+      socket.emit('kick_error', {
+        message: targetUserId === room.owner ? 'Cannot kick room owner' : 'Only room owner can kick co-hosts'
+      });
       return;
     }
 
     // Remove user from room
     this.roomService.removeUserFromRoom(roomId, targetUserId);
+    roomBanService.recordKick(roomId, {
+      userId: targetUserId,
+      username: targetUser.username,
+      kickedBy,
+      kickedAt: Date.now(),
+      banned: false
+    });
 
     // Notify kicked user
     const targetSocket = this.findSocketByUserId(targetUserId, namespace);
     if (targetSocket) {
-      targetSocket.emit('user_kicked', { reason: 'Kicked by room owner' });
+      targetSocket.emit('user_kicked', { reason: 'Kicked from the room' });
       targetSocket.leave(roomId);
     }
 
@@ -247,7 +257,7 @@ export class InstrumentSwapHandler {
 
     loggingService.logInfo('User kicked from room', {
       roomId,
-      ownerId,
+      kickedBy,
       kickedUserId: targetUserId,
       kickedUsername: targetUser.username
     });
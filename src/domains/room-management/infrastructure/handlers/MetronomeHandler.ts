@@ -2,8 +2,11 @@ import { Socket, Namespace } from 'socket.io';
 import { RoomService } from '../../../../services/RoomService';
 import { MetronomeService } from '../../../../services/MetronomeService';
 import { RoomSessionManager } from '../../../../services/RoomSessionManager';
+import type { SessionRecorderService } from '../../../../services/SessionRecorderService';
 import { NamespaceManager } from '../../../../services/NamespaceManager';
-import { UpdateMetronomeData } from '../../../../types';
+import { RampMetronomeTempoData, SetTimeSignatureData, StartMetronomeData, UpdateMetronomeData, User } from '../../../../types';
+import { hasRoomCapability } from '../../../../services/RoomPermissions';
+import { getServerTime } from '../../../../shared/utils/timing';
 
 /**
  * Handler for metronome functionality
@@ -14,7 +17,8 @@ export class MetronomeHandler {
     private roomService: RoomService,
     private metronomeService: MetronomeService,
     private roomSessionManager: RoomSessionManager,
-    private namespaceManager: NamespaceManager
+    private namespaceManager: NamespaceManager,
+    private sessionRecorderService?: SessionRecorderService
   ) {}
 
   /**
@@ -47,11 +51,7 @@ export class MetronomeHandler {
     const room = this.roomService.getRoom(session.roomId);
     if (!room) return;
 
-    const user = room.users.get(session.userId);
-    if (!user) return;
-
-    // Only room owner and band members can control metronome
-    if (user.role !== 'room_owner' && user.role !== 'band_member') return;
+    if (!hasRoomCapability(room, session.userId, 'metronome')) return;
 
     const updatedRoom = this.roomService.updateMetronomeBPM(session.roomId, data.bpm);
     if (!updatedRoom) return;
@@ -105,11 +105,7 @@ export class MetronomeHandler {
     const room = this.roomService.getRoom(session.roomId);
     if (!room) return;
 
-    const user = room.users.get(session.userId);
-    if (!user) return;
-
-    // Only room owner and band members can control metronome
-    if (user.role !== 'room_owner' && user.role !== 'band_member') return;
+    if (!hasRoomCapability(room, session.userId, 'metronome')) return;
 
     const updatedRoom = this.roomService.updateMetronomeBPM(session.roomId, data.bpm);
     if (!updatedRoom) return;
@@ -118,19 +114,77 @@ export class MetronomeHandler {
     this.metronomeService.updateMetronomeTempo(session.roomId, data.bpm);
 
     // Set up callback to broadcast when tempo is actually applied
-    const roomMetronome = this.metronomeService.getRoomMetronome(session.roomId);
-    if (roomMetronome) {
-      roomMetronome.setOnTempoApplied((appliedBpm) => {
-        const currentRoom = this.roomService.getRoom(session.roomId);
-        if (currentRoom) {
-          // Broadcast metronome state ONLY when tempo is actually applied
-          namespace.emit('metronome_updated', {
-            bpm: appliedBpm,
-            lastTickTimestamp: currentRoom.metronome.lastTickTimestamp
-          });
-        }
-      });
-    }
+    this.broadcastWhenTempoApplied(session.roomId, namespace);
+  }
+
+  /**
+   * Handle transport start through namespace, with an optional count-in
+   */
+  handleStartMetronomeNamespace(socket: Socket, data: StartMetronomeData, namespace: Namespace): void {
+    const controller = this.getMetronomeController(socket);
+    if (!controller) return;
+
+    // Only the room owner can count the band in
+    const countInBars = data.countInBars ?? 0;
+    if (countInBars > 0 && controller.user.role !== 'room_owner') return;
+
+    this.metronomeService.startMetronome(controller.roomId, countInBars);
+    this.broadcastTransport(controller.roomId, namespace, countInBars);
+  }
+
+  /**
+   * Handle transport stop through namespace
+   */
+  handleStopMetronomeNamespace(socket: Socket, namespace: Namespace): void {
+    const controller = this.getMetronomeController(socket);
+    if (!controller) return;
+
+    this.metronomeService.stopMetronome(controller.roomId);
+    this.broadcastTransport(controller.roomId, namespace, 0);
+  }
+
+  /**
+   * Handle a tempo ramp through namespace
+   */
+  handleRampMetronomeTempoNamespace(socket: Socket, data: RampMetronomeTempoData, namespace: Namespace): void {
+    const controller = this.getMetronomeController(socket);
+    if (!controller) return;
+
+    const metronomeState = this.roomService.getMetronomeState(controller.roomId);
+    if (!metronomeState) return;
+
+    const ramp = { fromBpm: data.fromBpm ?? metronomeState.bpm, toBpm: data.toBpm, bars: data.bars };
+    this.metronomeService.rampMetronomeTempo(controller.roomId, ramp);
+
+    // The ramp's final tempo is broadcast like any other tempo change
+    this.broadcastWhenTempoApplied(controller.roomId, namespace);
+    namespace.emit('metronome_tempo_ramp', ramp);
+  }
+
+  /**
+   * Handle a time signature change through namespace
+   */
+  handleSetTimeSignatureNamespace(socket: Socket, data: SetTimeSignatureData, namespace: Namespace): void {
+    const controller = this.getMetronomeController(socket);
+    if (!controller) return;
+
+    const roomMetronome = this.metronomeService.getRoomMetronome(controller.roomId);
+    if (!roomMetronome) return;
+
+    roomMetronome.setOnTimeSignatureApplied((timeSignature) => {
+      const currentRoom = this.roomService.getRoom(controller.roomId);
+      if (currentRoom) {
+        namespace.emit('metronome_updated', {
+          bpm: currentRoom.metronome.bpm,
+          lastTickTimestamp: currentRoom.metronome.lastTickTimestamp,
+          timeSignature
+        });
+      }
+    });
+    this.metronomeService.setMetronomeTimeSignature(controller.roomId, {
+      beatsPerBar: data.beatsPerBar,
+      beatUnit: data.beatUnit
+    });
   }
 
   /**
@@ -147,4 +201,48 @@ export class MetronomeHandler {
     // Send current metronome state to the requesting user
     socket.emit('metronome_state', metronomeState);
   }
+
+  /**
+   * The room and user for a socket allowed to control the metronome
+   */
+  private getMetronomeController(socket: Socket): { roomId: string; user: User } | null {
+    const session = this.roomSessionManager.getRoomSession(socket.id);
+    if (!session) return null;
+
+    const room = this.roomService.getRoom(session.roomId);
+    const user = room?.users.get(session.userId);
+    if (!room || !user || !hasRoomCapability(room, session.userId, 'metronome')) return null;
+
+    return { roomId: session.roomId, user };
+  }
+
+  private broadcastWhenTempoApplied(roomId: string, namespace: Namespace): void {
+    const roomMetronome = this.metronomeService.getRoomMetronome(roomId);
+    if (roomMetronome) {
+      roomMetronome.setOnTempoApplied((appliedBpm) => {
+        const currentRoom = this.roomService.getRoom(roomId);
+        if (currentRoom) {
+          // Broadcast metronome state ONLY when tempo is actually applied
+          namespace.emit('metronome_updated', {
+            bpm: appliedBpm,
+            lastTickTimestamp: currentRoom.metronome.lastTickTimestamp
+          });
+          this.sessionRecorderService?.record(roomId, 'metronome', null, { bpm: appliedBpm });
+        }
+      });
+    }
+  }
+
+  private broadcastTransport(roomId: string, namespace: Namespace, countInBars: number): void {
+    const metronomeState = this.roomService.getMetronomeState(roomId);
+    if (!metronomeState) return;
+
+    namespace.emit('metronome_transport', {
+      transport: metronomeState.transport,
+      countInBars,
+      bpm: metronomeState.bpm,
+      timeSignature: metronomeState.timeSignature,
+      serverTime: getServerTime()
+    });
+  }
 }
\ No newline at end of file
@@ -2,24 +2,41 @@ import { Socket, Namespace } from 'socket.io';
 import { RoomService } from '../../../../services/RoomService';
 import { RoomSessionManager } from '../../../../services/RoomSessionManager';
 import { loggingService } from '../../../../services/LoggingService';
-import { hlsBroadcastService } from '../../../../services/HLSBroadcastService';
-import { ToggleBroadcastData, BroadcastAudioChunkData } from '../../../../types';
+import { broadcastPipeline } from '../../../../services/BroadcastPipeline';
+import { BroadcastArchiveService } from '../../../../services/BroadcastArchiveService';
+import { ArchiveBroadcastSink, type FinishedBroadcast } from '../../../../services/broadcast/ArchiveBroadcastSink';
+import { RelayBroadcastSink } from '../../../../services/broadcast/RelayBroadcastSink';
+import type { BroadcastSink } from '../../../../services/broadcast/BroadcastSink';
+import { DEFAULT_BROADCAST_PROFILE } from '../../../../services/HLSBroadcastProfiles';
+import { hasRoomCapability } from '../../../../services/RoomPermissions';
+import { ToggleBroadcastData, BroadcastAudioChunkData, Room } from '../../../../types';
+import { StreamingStrategy } from '../../../real-time-communication/infrastructure/strategies/StreamingStrategy';
+import { ConnectionId, UserRole } from '../../../real-time-communication/domain/models/Connection';
+import { InvalidRoleError } from '../../../real-time-communication/domain/services/AudioCommunicationStrategy';
 
 /**
  * Handler for perform room broadcast events
- * Manages audio streaming from room owner to audience members via HLS
- * Audio chunks are transcoded to HLS format using FFmpeg
+ * Manages audio streaming from the room owner, or whoever else may broadcast, to audience members through the broadcast pipeline:
+ * live HLS, a raw chunk relay and, when the room archives broadcasts, an archive
  */
 export class PerformBroadcastHandler {
+  // Per-room hubs fanning the raw broadcast out to relay listeners
+  private relays = new Map<string, StreamingStrategy>();
+  // socket id -> relay subscription
+  private relayConnections = new Map<string, { roomId: string; connectionId: ConnectionId }>();
+  // roomId -> the user who started the room's broadcast, the only one sending its audio
+  private broadcasters = new Map<string, string>();
+
   constructor(
     private roomService: RoomService,
-    private roomSessionManager: RoomSessionManager
+    private roomSessionManager: RoomSessionManager,
+    private broadcastArchiveService?: BroadcastArchiveService
   ) {}
 
   /**
-   * Handle broadcast toggle from room owner
+   * Handle broadcast toggle from a user allowed to broadcast
    */
-  handleToggleBroadcast(socket: Socket, data: ToggleBroadcastData, namespace: Namespace): void {
+  async handleToggleBroadcast(socket: Socket, data: ToggleBroadcastData, namespace: Namespace): Promise<void> {
     const session = this.roomSessionManager.getRoomSession(socket.id);
     if (!session) {
       socket.emit('broadcast_error', { message: 'No session found' });
@@ -34,31 +51,49 @@ export class PerformBroadcastHandler {
       return;
     }
 
-    // Only room owner can toggle broadcast
-    if (room.owner !== userId) {
-      socket.emit('broadcast_error', { message: 'Only room owner can toggle broadcast' });
+    if (!hasRoomCapability(room, userId, 'broadcast')) {
+      socket.emit('broadcast_error', { message: 'You do not have permission to toggle broadcast' });
       return;
     }
 
     const { isBroadcasting } = data;
 
     if (isBroadcasting) {
-      // Start HLS broadcast
-      const started = hlsBroadcastService.startBroadcast(roomId);
+      const archiveId = await this.createArchive(socket, room);
+      if (archiveId === undefined) {
+        return;
+      }
+
+      const profileName = room.broadcastProfile ?? DEFAULT_BROADCAST_PROFILE;
+      const sinks: BroadcastSink[] = [new RelayBroadcastSink(this.getRelay(roomId), userId)];
+      if (archiveId) {
+        sinks.push(
+          new ArchiveBroadcastSink(roomId, profileName, (broadcast) => this.finishArchive(archiveId, broadcast, namespace))
+        );
+      }
+
+      // Start the broadcast with the profile chosen in room settings
+      const started = broadcastPipeline.startBroadcast(roomId, { profileName, sinks });
       if (!started) {
+        if (archiveId) {
+          await this.broadcastArchiveService?.failArchive(archiveId).catch(() => {});
+        }
         socket.emit('broadcast_error', { message: 'Failed to start broadcast' });
         return;
       }
 
       this.roomService.toggleBroadcast(roomId, true);
+      this.broadcasters.set(roomId, userId);
       
       // Get playlist URL for audience
-      const playlistUrl = hlsBroadcastService.getPlaylistUrl(roomId);
+      const playlistUrl = broadcastPipeline.getPlaylistUrl(roomId);
       
       // Notify all users in the room
       namespace.emit('broadcast_state_changed', {
         isBroadcasting: true,
         playlistUrl,
+        profile: broadcastPipeline.getProfileName(roomId),
+        archiveId,
       });
 
       // Also emit to lobby namespace for room list updates
@@ -67,17 +102,14 @@ export class PerformBroadcastHandler {
         isBroadcasting: true,
       });
 
-      loggingService.logInfo(`HLS broadcast started for room ${roomId}`, { userId, playlistUrl });
-    } else {
-      // Stop HLS broadcast
-      hlsBroadcastService.stopBroadcast(roomId);
-      this.roomService.toggleBroadcast(roomId, false);
-
-      // Notify all users in the room
-      namespace.emit('broadcast_state_changed', {
-        isBroadcasting: false,
-        playlistUrl: null,
+      loggingService.logInfo(`HLS broadcast started for room ${roomId}`, {
+        userId,
+        playlistUrl,
+        profile: broadcastPipeline.getProfileName(roomId),
+        archiveId,
       });
+    } else {
+      this.endBroadcast(roomId, namespace);
 
       // Also emit to lobby namespace for room list updates
       socket.broadcast.emit('room_broadcast_changed', {
@@ -90,7 +122,145 @@ export class PerformBroadcastHandler {
   }
 
   /**
-   * Handle incoming audio chunk from room owner - pipe to FFmpeg for HLS transcoding
+   * Stop the room's broadcast and tell the room it ended
+   */
+  endBroadcast(roomId: string, namespace?: Namespace): void {
+    broadcastPipeline.stopBroadcast(roomId);
+    this.roomService.toggleBroadcast(roomId, false);
+    this.broadcasters.delete(roomId);
+
+    namespace?.emit('broadcast_state_changed', {
+      isBroadcasting: false,
+      playlistUrl: null,
+    });
+  }
+
+  /**
+   * Handle an audience member choosing the low-latency Socket.IO relay instead of HLS.
+   * Mid-broadcast joiners get the stream's init segment before any media.
+   */
+  async handleJoinRelay(socket: Socket): Promise<void> {
+    const session = this.roomSessionManager.getRoomSession(socket.id);
+    if (!session) {
+      socket.emit('broadcast_error', { message: 'No session found' });
+      return;
+    }
+
+    const { roomId, userId } = session;
+    if (this.relayConnections.has(socket.id)) {
+      return;
+    }
+
+    const user = this.roomService.findUserInRoom(roomId, userId);
+    const role = user?.role === 'audience' ? UserRole.AUDIENCE : UserRole.BAND_MEMBER;
+
+    try {
+      const connectionId = await this.getRelay(roomId).connect(userId, role, socket);
+      this.relayConnections.set(socket.id, { roomId, connectionId });
+      socket.once('disconnect', () => {
+        this.relayConnections.delete(socket.id);
+      });
+
+      socket.emit('broadcast_relay_joined', { isBroadcasting: broadcastPipeline.isActive(roomId) });
+      loggingService.logInfo(`Audience member joined broadcast relay for room ${roomId}`, { userId });
+    } catch (err) {
+      if (err instanceof InvalidRoleError) {
+        socket.emit('broadcast_error', { message: 'Only audience members can use the broadcast relay' });
+        return;
+      }
+      loggingService.logError(err as Error, { context: 'PerformBroadcastHandler:handleJoinRelay', roomId, userId });
+      socket.emit('broadcast_error', { message: 'Failed to join broadcast relay' });
+    }
+  }
+
+  /**
+   * Handle an audience member switching back from the relay to HLS
+   */
+  async handleLeaveRelay(socket: Socket): Promise<void> {
+    const subscription = this.relayConnections.get(socket.id);
+    if (!subscription) {
+      return;
+    }
+
+    this.relayConnections.delete(socket.id);
+    await this.relays.get(subscription.roomId)?.disconnect(subscription.connectionId);
+    socket.emit('broadcast_relay_left', {});
+  }
+
+  /**
+   * Stop the broadcast of a deleted room and drop its relay
+   */
+  clearRoom(roomId: string): void {
+    broadcastPipeline.stopBroadcast(roomId);
+    this.broadcasters.delete(roomId);
+    this.relays.delete(roomId);
+    for (const [socketId, subscription] of this.relayConnections) {
+      if (subscription.roomId === roomId) {
+        this.relayConnections.delete(socketId);
+      }
+    }
+  }
+
+  private getRelay(roomId: string): StreamingStrategy {
+    let relay = this.relays.get(roomId);
+    if (!relay) {
+      relay = new StreamingStrategy(roomId);
+      this.relays.set(roomId, relay);
+    }
+    return relay;
+  }
+
+  /**
+   * Create the archive record for a broadcast when the room archives its broadcasts.
+   * Returns null when the room doesn't archive, or undefined after reporting an error.
+   */
+  private async createArchive(socket: Socket, room: Room): Promise<string | null | undefined> {
+    const mode = room.broadcastArchive ?? 'off';
+    if (mode === 'off') {
+      return null;
+    }
+
+    // Archives belong to the broadcaster's account
+    const accountId: string | undefined = socket.data?.user?.id;
+    if (!accountId || !this.broadcastArchiveService) {
+      socket.emit('broadcast_error', { message: 'Sign in to archive broadcasts' });
+      return undefined;
+    }
+
+    try {
+      return await this.broadcastArchiveService.createArchive({
+        roomId: room.id,
+        roomName: room.name,
+        userId: accountId,
+        profileName: room.broadcastProfile ?? DEFAULT_BROADCAST_PROFILE,
+        includeAudioFile: mode === 'hls_and_audio',
+        isPrivate: room.isPrivate,
+        isHidden: room.isHidden,
+      });
+    } catch (error) {
+      loggingService.logError(error as Error, { context: 'PerformBroadcastHandler:createArchive', roomId: room.id });
+      socket.emit('broadcast_error', { message: 'Failed to start broadcast archive' });
+      return undefined;
+    }
+  }
+
+  /**
+   * Store a stopped broadcast and tell the room where to re-listen
+   */
+  private async finishArchive(archiveId: string, broadcast: FinishedBroadcast, namespace: Namespace): Promise<void> {
+    const archive = await this.broadcastArchiveService?.finalizeArchive(archiveId, broadcast);
+    if (archive) {
+      namespace.emit('broadcast_archive_ready', {
+        archiveId,
+        playlistUrl: archive.playlistUrl,
+        audioUrl: archive.audioUrl,
+        durationSeconds: archive.durationSeconds,
+      });
+    }
+  }
+
+  /**
+   * Handle incoming audio chunk from the broadcaster - pipe to FFmpeg for HLS transcoding
    */
   handleBroadcastAudioChunk(socket: Socket, data: BroadcastAudioChunkData, _namespace: Namespace): void {
     const session = this.roomSessionManager.getRoomSession(socket.id);
@@ -105,8 +275,8 @@ export class PerformBroadcastHandler {
       return;
     }
 
-    // Only room owner can send audio chunks
-    if (room.owner !== userId) {
+    // Only the user who started the broadcast can send audio chunks
+    if (this.broadcasters.get(roomId) !== userId) {
       return;
     }
 
@@ -115,10 +285,10 @@ export class PerformBroadcastHandler {
       return;
     }
 
-    // Decode base64 chunk and write to FFmpeg
+    // Decode base64 chunk and feed it to the broadcast's sinks
     try {
       const buffer = Buffer.from(data.chunk, 'base64');
-      hlsBroadcastService.writeAudioChunk(roomId, buffer);
+      broadcastPipeline.writeAudioChunk(roomId, buffer);
     } catch (err) {
       loggingService.logInfo(`Failed to process audio chunk for room ${roomId}`, { 
         error: err instanceof Error ? err.message : String(err) 
@@ -152,32 +322,27 @@ export class PerformBroadcastHandler {
     }
 
     const isBroadcasting = room.isBroadcasting ?? false;
-    const playlistUrl = isBroadcasting ? hlsBroadcastService.getPlaylistUrl(roomId) : null;
+    const playlistUrl = isBroadcasting ? broadcastPipeline.getPlaylistUrl(roomId) : null;
     
     socket.emit('broadcast_state', {
       isBroadcasting,
       playlistUrl,
+      profile: isBroadcasting ? broadcastPipeline.getProfileName(roomId) : null,
     });
   }
 
   /**
-   * Handle user leaving - stop broadcast if room owner leaves
+   * Handle user leaving - stop broadcast if the broadcaster leaves
    */
   handleUserLeave(roomId: string, userId: string, namespace: Namespace): void {
     const room = this.roomService.getRoom(roomId);
     if (!room) return;
 
-    // If the leaving user is the room owner and broadcast is active, stop it
-    if (room.owner === userId && room.isBroadcasting) {
-      hlsBroadcastService.stopBroadcast(roomId);
-      this.roomService.toggleBroadcast(roomId, false);
-
-      namespace.emit('broadcast_state_changed', {
-        isBroadcasting: false,
-        playlistUrl: null,
-      });
+    // If the leaving user is broadcasting, stop it
+    if (this.broadcasters.get(roomId) === userId && room.isBroadcasting) {
+      this.endBroadcast(roomId, namespace);
 
-      loggingService.logInfo(`HLS broadcast stopped due to owner leaving room ${roomId}`);
+      loggingService.logInfo(`HLS broadcast stopped due to broadcaster leaving room ${roomId}`);
     }
   }
 }
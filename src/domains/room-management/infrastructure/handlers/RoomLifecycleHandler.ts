@@ -12,6 +12,8 @@ import { RoomId, UserId } from '../../../../shared/domain/models/ValueObjects';
 import {
   JoinRoomData,
   CreateRoomData,
+  Room,
+  RoomRole,
   User,
   UserSession
 } from '../../../../types';
@@ -19,6 +21,8 @@ import { EventBus } from '../../../../shared/domain/events/EventBus';
 import { RoomCreated, MemberJoined, MemberLeft } from '../../../../shared/domain/events/RoomEvents';
 import { UserJoinedRoom } from '../../../../shared/domain/events/UserOnboardingEvents';
 import { loggingService } from '../../../../services/LoggingService';
+import { getBanMessage, getSocketAddress, roomBanService } from '../../../../services/RoomBanService';
+import { getRoomPermissions } from '../../../../services/RoomPermissions';
 
 /**
  * RoomLifecycleHandler - Handles room creation, joining, and leaving operations
@@ -341,6 +345,77 @@ export class RoomLifecycleHandler {
     }
   }
 
+  /**
+   * Create a room and set up everything a live room needs: its namespace, metronome,
+   * arrange state and approval namespace. Announces the room to all clients.
+   */
+  async createAndAnnounceRoom(options: {
+    name: string;
+    username: string;
+    userId: string;
+    isPrivate: boolean;
+    isHidden: boolean;
+    description?: string | undefined;
+    roomType: 'perform' | 'arrange';
+  }): Promise<{ room: Room; user: User }> {
+    const { name, username, userId, isPrivate, isHidden, description, roomType } = options;
+
+    // Convert to strongly-typed IDs for internal processing
+    const userIdTyped = this.ensureUserId(userId);
+
+    const { room, user } = this.roomService.createRoom(
+      name,
+      username,
+      this.userIdToString(userIdTyped), // Convert back to string for legacy service
+      isPrivate,
+      isHidden,
+      description,
+      roomType
+    );
+
+    // Convert room.id to RoomId for type safety
+    const roomIdTyped = this.ensureRoomId(room.id);
+
+    // Create room namespace and start metronome for the new room
+    const roomNamespace = this.namespaceManager.createRoomNamespace(this.roomIdToString(roomIdTyped));
+    this.metronomeService.initializeRoomMetronome(this.roomIdToString(roomIdTyped), roomNamespace);
+
+    // Initialize arrange room state if it's an arrange room
+    if (roomType === 'arrange' && this.arrangeRoomStateService) {
+      this.arrangeRoomStateService.initializeState(this.roomIdToString(roomIdTyped));
+      loggingService.logInfo(`Initialized arrange room state for room ${this.roomIdToString(roomIdTyped)}`);
+    }
+
+    // Create approval namespace for private rooms
+    if (room.isPrivate) {
+      this.namespaceManager.createApprovalNamespace(this.roomIdToString(roomIdTyped));
+    }
+
+    // Publish domain event for room creation
+    if (this.eventBus) {
+      const roomCreatedEvent = new RoomCreated(
+        roomIdTyped.toString(),
+        this.userIdToString(userIdTyped),
+        room.name,
+        room.isPrivate
+      );
+      await this.eventBus.publish(roomCreatedEvent);
+    }
+
+    // Broadcast to all clients that a new room was created (via main namespace)
+    this.io.emit('room_created_broadcast', {
+      id: roomIdTyped.toString(),
+      name: room.name,
+      userCount: room.users.size,
+      owner: room.owner,
+      isPrivate: room.isPrivate,
+      isHidden: room.isHidden,
+      createdAt: room.createdAt.toISOString()
+    });
+
+    return { room, user };
+  }
+
   /**
    * Handle room creation via HTTP
    */
@@ -362,58 +437,16 @@ export class RoomLifecycleHandler {
     const { name, username, userId, isPrivate = false, isHidden = false, description, roomType = 'perform' } = validationResult.value;
 
     try {
-      // Convert to strongly-typed IDs for internal processing
-      const userIdTyped = this.ensureUserId(userId);
-
-      const { room, user } = this.roomService.createRoom(
+      const { room, user } = await this.createAndAnnounceRoom({
         name,
         username,
-        this.userIdToString(userIdTyped), // Convert back to string for legacy service
+        userId,
         isPrivate,
         isHidden,
         description,
         roomType
-      );
-
-      // Convert room.id to RoomId for type safety
-      const roomIdTyped = this.ensureRoomId(room.id);
-
-      // Create room namespace and start metronome for the new room
-      const roomNamespace = this.namespaceManager.createRoomNamespace(this.roomIdToString(roomIdTyped));
-      this.metronomeService.initializeRoomMetronome(this.roomIdToString(roomIdTyped), roomNamespace);
-
-      // Initialize arrange room state if it's an arrange room
-      if (roomType === 'arrange' && this.arrangeRoomStateService) {
-        this.arrangeRoomStateService.initializeState(this.roomIdToString(roomIdTyped));
-        loggingService.logInfo(`Initialized arrange room state for room ${this.roomIdToString(roomIdTyped)}`);
-      }
-
-      // Create approval namespace for private rooms
-      if (room.isPrivate) {
-        this.namespaceManager.createApprovalNamespace(this.roomIdToString(roomIdTyped));
-      }
-
-      // Publish domain event for room creation
-      if (this.eventBus) {
-        const roomCreatedEvent = new RoomCreated(
-          roomIdTyped.toString(),
-          this.userIdToString(userIdTyped),
-          room.name,
-          room.isPrivate
-        );
-        await this.eventBus.publish(roomCreatedEvent);
-      }
-
-      // Broadcast to all clients that a new room was created (via main namespace)
-      this.io.emit('room_created_broadcast', {
-        id: roomIdTyped.toString(),
-        name: room.name,
-        userCount: room.users.size,
-        owner: room.owner,
-        isPrivate: room.isPrivate,
-        isHidden: room.isHidden,
-        createdAt: room.createdAt.toISOString()
       });
+      const roomIdTyped = this.ensureRoomId(room.id);
 
       res.status(201).json({
         success: true,
@@ -582,6 +615,15 @@ export class RoomLifecycleHandler {
       return;
     }
 
+    const ban = roomBanService.findBan(roomIdString, userIdString, getSocketAddress(socket));
+    if (ban) {
+      // The session was set before joining; banned sockets shouldn't keep one
+      this.roomSessionManager.removeSession(socket.id);
+      socket.emit('join_error', { message: getBanMessage(ban), banned: true, expiresAt: ban.expiresAt });
+      loggingService.logSecurityEvent('Banned user join rejected', { roomId: roomIdString, userId: userIdString }, 'warn');
+      return;
+    }
+
     // Check if user is already connected with a different socket
     // This prevents duplicate connections and role conflicts
     // For now, we'll rely on removeOldSessionsForUser which is called later
@@ -604,8 +646,10 @@ export class RoomLifecycleHandler {
       const gracePeriodUserData = this.roomService.getGracePeriodUserData(userIdString, roomIdString);
       if (gracePeriodUserData) {
         // Check if the user is trying to join with a different role than they had before
-        const requestedRole: 'room_owner' | 'band_member' | 'audience' = role || 'audience';
+        const requestedRole: RoomRole = role || 'audience';
         const previousRole = gracePeriodUserData.role;
+        // Co-hosts rejoining as band members stay co-hosts
+        const isReturningCoHost = previousRole === 'co_host' && requestedRole === 'band_member';
 
         // Preserve room owner role if user had it before (they can't request it via join)
         const shouldPreserveOwnerRole = previousRole === 'room_owner';
@@ -618,7 +662,7 @@ export class RoomLifecycleHandler {
             ...gracePeriodUserData,
             username: finalUsername,
           };
-        } else if (requestedRole !== previousRole) {
+        } else if (requestedRole !== previousRole && !isReturningCoHost) {
           console.log(`🔄 User ${finalUsername} changing role from ${previousRole} to ${requestedRole} during grace period`);
           user = {
             id: userIdString,
@@ -714,6 +758,7 @@ export class RoomLifecycleHandler {
           room,
           users: this.roomService.getRoomUsers(roomIdString),
           pendingMembers: this.roomService.getPendingMembers(roomIdString),
+          permissions: getRoomPermissions(room),
           effectChains: user.effectChains,
           self: user
         });
@@ -751,6 +796,7 @@ export class RoomLifecycleHandler {
           room,
           users: this.roomService.getRoomUsers(roomIdString),
           pendingMembers: this.roomService.getPendingMembers(roomIdString),
+          permissions: getRoomPermissions(room),
           effectChains: user.effectChains,
           self: user
         });
@@ -828,6 +874,7 @@ export class RoomLifecycleHandler {
           room,
           users: this.roomService.getRoomUsers(roomIdString),
           pendingMembers: this.roomService.getPendingMembers(roomIdString),
+          permissions: getRoomPermissions(room),
           effectChains: user.effectChains,
           self: user
         });
@@ -1071,7 +1118,7 @@ export class RoomLifecycleHandler {
     }
 
     const { roomId } = req.params;
-    const { name, description, isPrivate, isHidden, updatedBy } = validationResult.value;
+    const { name, description, isPrivate, isHidden, broadcastProfile, broadcastArchive, updatedBy } = validationResult.value;
 
     if (!roomId) {
       res.status(400).json({
@@ -1112,7 +1159,9 @@ export class RoomLifecycleHandler {
         name: room.name,
         description: room.description,
         isPrivate: room.isPrivate,
-        isHidden: room.isHidden
+        isHidden: room.isHidden,
+        broadcastProfile: room.broadcastProfile,
+        broadcastArchive: room.broadcastArchive
       };
 
       // Apply updates using RoomService method (includes cache invalidation)
@@ -1120,7 +1169,9 @@ export class RoomLifecycleHandler {
         name,
         description,
         isPrivate,
-        isHidden
+        isHidden,
+        broadcastProfile,
+        broadcastArchive
       });
 
       if (!updateSuccess) {
@@ -1153,7 +1204,9 @@ export class RoomLifecycleHandler {
             name: updatedRoom.name,
             description: updatedRoom.description,
             isPrivate: updatedRoom.isPrivate,
-            isHidden: updatedRoom.isHidden
+            isHidden: updatedRoom.isHidden,
+            broadcastProfile: updatedRoom.broadcastProfile,
+            broadcastArchive: updatedRoom.broadcastArchive
           }
         });
 
@@ -4,9 +4,15 @@ import { RoomService } from '../../../../services/RoomService';
 import { NamespaceManager } from '../../../../services/NamespaceManager';
 import { RoomSessionManager } from '../../../../services/RoomSessionManager';
 import { loggingService } from '../../../../services/LoggingService';
+import { getSocketAddress, roomBanService, toRoomBanInfo } from '../../../../services/RoomBanService';
+import { canModerateMember, hasRoomCapability, withRoleCapabilities } from '../../../../services/RoomPermissions';
 import {
   User,
-  TransferOwnershipData
+  TransferOwnershipData,
+  BanUserData,
+  UnbanUserData,
+  SetMemberRoleData,
+  UpdateRoomPermissionsData
 } from '../../../../types';
 
 /**
@@ -16,6 +22,8 @@ import {
  * - Member approval for private rooms
  * - Member rejection for private rooms
  * - Member-related coordination logic
+ * - Room bans (temporary or permanent, optionally by address) and the ban list
+ * - Member roles and the room's permission matrix
  * - Room state updates after membership changes
  * 
  * Requirements: 4.1, 4.6
@@ -46,9 +54,8 @@ export class RoomMembershipHandler {
       return;
     }
 
-    // Verify user is room owner
-    if (!this.roomService.isRoomOwner(roomId, session.userId)) {
-      socket.emit('membership_error', { message: 'Only room owner can approve members' });
+    if (!hasRoomCapability(room, session.userId, 'approve')) {
+      socket.emit('membership_error', { message: 'You do not have permission to approve members' });
       return;
     }
 
@@ -100,7 +107,7 @@ export class RoomMembershipHandler {
 
     loggingService.logInfo('Member approved', {
       roomId,
-      ownerId: session.userId,
+      approvedBy: session.userId,
       approvedUserId: targetUserId,
       approvedUsername: approvedUser.username
     });
@@ -124,9 +131,8 @@ export class RoomMembershipHandler {
       return;
     }
 
-    // Verify user is room owner
-    if (!this.roomService.isRoomOwner(roomId, session.userId)) {
-      socket.emit('membership_error', { message: 'Only room owner can reject members' });
+    if (!hasRoomCapability(room, session.userId, 'approve')) {
+      socket.emit('membership_error', { message: 'You do not have permission to reject members' });
       return;
     }
 
@@ -175,7 +181,7 @@ export class RoomMembershipHandler {
 
     loggingService.logInfo('Member rejected', {
       roomId,
-      ownerId: session.userId,
+      rejectedBy: session.userId,
       rejectedUserId: targetUserId,
       rejectedUsername: rejectedUser.username,
       reason: message || 'No reason provided'
@@ -200,9 +206,8 @@ export class RoomMembershipHandler {
       return;
     }
 
-    // Verify user is room owner
-    if (!this.roomService.isRoomOwner(roomId, session.userId)) {
-      socket.emit('membership_error', { message: 'Only room owner can approve members' });
+    if (!hasRoomCapability(room, session.userId, 'approve')) {
+      socket.emit('membership_error', { message: 'You do not have permission to approve members' });
       return;
     }
 
@@ -250,7 +255,7 @@ export class RoomMembershipHandler {
 
     loggingService.logInfo('Member approved via namespace', {
       roomId,
-      ownerId: session.userId,
+      approvedBy: session.userId,
       approvedUserId: targetUserId,
       approvedUsername: approvedUser.username,
       namespaceName: namespace.name
@@ -275,9 +280,8 @@ export class RoomMembershipHandler {
       return;
     }
 
-    // Verify user is room owner
-    if (!this.roomService.isRoomOwner(roomId, session.userId)) {
-      socket.emit('membership_error', { message: 'Only room owner can reject members' });
+    if (!hasRoomCapability(room, session.userId, 'approve')) {
+      socket.emit('membership_error', { message: 'You do not have permission to reject members' });
       return;
     }
 
@@ -322,7 +326,7 @@ export class RoomMembershipHandler {
 
     loggingService.logInfo('Member rejected via namespace', {
       roomId,
-      ownerId: session.userId,
+      rejectedBy: session.userId,
       rejectedUserId: targetUserId,
       rejectedUsername: rejectedUser.username,
       reason: message || 'No reason provided',
@@ -455,4 +459,237 @@ export class RoomMembershipHandler {
       namespaceName: namespace.name
     });
   }
-}
\ No newline at end of file
+
+  /**
+   * Handle banning a user through namespace. A member still in the room is removed, like a kick.
+   */
+  handleBanUserNamespace(socket: Socket, data: BanUserData, namespace: Namespace): void {
+    const session = this.roomSessionManager.getRoomSession(socket.id);
+    if (!session) {
+      socket.emit('ban_error', { message: 'You are not in a room' });
+      return;
+    }
+
+    const roomId = session.roomId;
+    const room = this.roomService.getRoom(roomId);
+    if (!room) {
+      socket.emit('ban_error', { message: 'Room not found' });
+      return;
+    }
+
+    if (!hasRoomCapability(room, session.userId, 'ban')) {
+      socket.emit('ban_error', { message: 'You do not have permission to ban users' });
+      return;
+    }
+
+    if (!canModerateMember(room, session.userId, data.userId)) {
+      socket.emit('ban_error', {
+        message: data.userId === room.owner ? 'Cannot ban room owner' : 'Only room owner can ban co-hosts',
+        userId: data.userId
+      });
+      return;
+    }
+
+    const targetUser = room.users.get(data.userId);
+    const targetSocketId = this.roomSessionManager.findSocketByUserId(roomId, data.userId);
+    const targetSocket = targetSocketId ? namespace.sockets.get(targetSocketId) : undefined;
+    const ip = data.banIp && targetSocket ? getSocketAddress(targetSocket) : undefined;
+    if (data.banIp && !ip) {
+      socket.emit('ban_error', { message: 'The user must be connected to ban their address', userId: data.userId });
+      return;
+    }
+
+    const ban = roomBanService.ban(roomId, {
+      userId: data.userId,
+      bannedBy: session.userId,
+      ...(targetUser && { username: targetUser.username }),
+      ...(ip && { ip }),
+      ...(data.reason && { reason: data.reason }),
+      ...(data.durationSec !== undefined && { durationSec: data.durationSec })
+    });
+
+    if (targetUser) {
+      this.roomService.removeUserFromRoom(roomId, data.userId);
+      roomBanService.recordKick(roomId, {
+        userId: data.userId,
+        username: targetUser.username,
+        kickedBy: session.userId,
+        kickedAt: ban.bannedAt,
+        banned: true,
+        ...(data.reason && { reason: data.reason })
+      });
+
+      if (targetSocket) {
+        targetSocket.emit('user_kicked', { reason: data.reason || 'Banned from the room', banned: true, expiresAt: ban.expiresAt });
+        targetSocket.leave(roomId);
+        // The socket stays connected, so drop its session to ignore its room events
+        this.roomSessionManager.removeSession(targetSocket.id);
+      }
+
+      namespace.emit('user_left', { user: targetUser });
+      namespace.emit('room_state_updated', {
+        room: {
+          ...room,
+          users: this.roomService.getRoomUsers(roomId),
+          pendingMembers: this.roomService.getPendingMembers(roomId)
+        }
+      });
+    }
+
+    socket.emit('user_banned', { ban: toRoomBanInfo(ban) });
+
+    loggingService.logSecurityEvent('Room Ban', {
+      roomId,
+      bannedBy: session.userId,
+      bannedUserId: data.userId,
+      ipBanned: ip !== undefined,
+      expiresAt: ban.expiresAt
+    }, 'warn');
+  }
+
+  /**
+   * Handle lifting a ban through namespace
+   */
+  handleUnbanUserNamespace(socket: Socket, data: UnbanUserData): void {
+    const session = this.roomSessionManager.getRoomSession(socket.id);
+    if (!session) {
+      socket.emit('ban_error', { message: 'You are not in a room' });
+      return;
+    }
+
+    if (!this.canManageBans(session.roomId, session.userId)) {
+      socket.emit('ban_error', { message: 'You do not have permission to unban users' });
+      return;
+    }
+
+    const ban = roomBanService.unban(session.roomId, data.userId);
+    if (!ban) {
+      socket.emit('ban_error', { message: 'User is not banned', userId: data.userId });
+      return;
+    }
+
+    socket.emit('user_unbanned', { userId: data.userId });
+
+    loggingService.logSecurityEvent('Room Unban', {
+      roomId: session.roomId,
+      unbannedBy: session.userId,
+      unbannedUserId: data.userId
+    });
+  }
+
+  /**
+   * Send the room's bans and kick history to its owner or co-hosts through namespace
+   */
+  handleGetRoomBansNamespace(socket: Socket): void {
+    const session = this.roomSessionManager.getRoomSession(socket.id);
+    if (!session) {
+      socket.emit('ban_error', { message: 'You are not in a room' });
+      return;
+    }
+
+    if (!this.canManageBans(session.roomId, session.userId)) {
+      socket.emit('ban_error', { message: 'You do not have permission to view bans' });
+      return;
+    }
+
+    socket.emit('room_bans', {
+      bans: roomBanService.getBans(session.roomId).map(toRoomBanInfo),
+      kicks: roomBanService.getKickHistory(session.roomId)
+    });
+  }
+
+  /**
+   * Handle the owner making a band member a co-host, or a co-host a band member again, through namespace
+   */
+  handleSetMemberRoleNamespace(socket: Socket, data: SetMemberRoleData, namespace: Namespace): void {
+    const session = this.roomSessionManager.getRoomSession(socket.id);
+    if (!session) {
+      socket.emit('role_error', { message: 'You are not in a room' });
+      return;
+    }
+
+    const room = this.roomService.getRoom(session.roomId);
+    if (!room) {
+      socket.emit('role_error', { message: 'Room not found' });
+      return;
+    }
+
+    if (room.owner !== session.userId) {
+      socket.emit('role_error', { message: 'Only room owner can change member roles' });
+      return;
+    }
+
+    const targetUser = room.users.get(data.userId);
+    if (!targetUser || data.userId === room.owner) {
+      socket.emit('role_error', { message: 'User is not a member of this room', userId: data.userId });
+      return;
+    }
+
+    // Co-hosts play in the band, so listeners have to join as band members first
+    if (targetUser.role === 'audience') {
+      socket.emit('role_error', { message: 'Only band members can become co-hosts', userId: data.userId });
+      return;
+    }
+
+    const user = this.roomService.setUserRole(session.roomId, data.userId, data.role);
+    if (!user) {
+      socket.emit('role_error', { message: 'Failed to change member role', userId: data.userId });
+      return;
+    }
+
+    namespace.emit('member_role_changed', { userId: user.id, role: user.role, changedBy: session.userId });
+    namespace.emit('room_state_updated', {
+      room: {
+        ...room,
+        users: this.roomService.getRoomUsers(session.roomId),
+        pendingMembers: this.roomService.getPendingMembers(session.roomId)
+      }
+    });
+
+    loggingService.logSecurityEvent('Room Role Change', {
+      roomId: session.roomId,
+      changedBy: session.userId,
+      userId: user.id,
+      role: user.role
+    });
+  }
+
+  /**
+   * Handle the owner changing what a role may do in the room through namespace
+   */
+  handleUpdateRoomPermissionsNamespace(socket: Socket, data: UpdateRoomPermissionsData, namespace: Namespace): void {
+    const session = this.roomSessionManager.getRoomSession(socket.id);
+    if (!session) {
+      socket.emit('role_error', { message: 'You are not in a room' });
+      return;
+    }
+
+    const room = this.roomService.getRoom(session.roomId);
+    if (!room) {
+      socket.emit('role_error', { message: 'Room not found' });
+      return;
+    }
+
+    if (room.owner !== session.userId) {
+      socket.emit('role_error', { message: 'Only room owner can change room permissions' });
+      return;
+    }
+
+    const permissions = withRoleCapabilities(room, data.role, data.capabilities);
+    this.roomService.updateRoomPermissions(session.roomId, permissions);
+
+    namespace.emit('room_permissions_updated', { permissions, updatedBy: session.userId });
+
+    loggingService.logSecurityEvent('Room Permissions Change', {
+      roomId: session.roomId,
+      changedBy: session.userId,
+      role: data.role,
+      capabilities: permissions[data.role]
+    });
+  }
+
+  private canManageBans(roomId: string, userId: string): boolean {
+    const room = this.roomService.getRoom(roomId);
+    return room !== undefined && hasRoomCapability(room, userId, 'ban');
+  }
+}
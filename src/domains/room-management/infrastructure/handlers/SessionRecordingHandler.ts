@@ -0,0 +1,365 @@
+import { Socket, Namespace } from 'socket.io';
+import { v4 as uuidv4 } from 'uuid';
+import { RoomService } from '../../../../services/RoomService';
+import { RoomSessionManager } from '../../../../services/RoomSessionManager';
+import { MetronomeService } from '../../../../services/MetronomeService';
+import { loggingService } from '../../../../services/LoggingService';
+import { projectStorageService } from '../../../../services/ProjectStorageService';
+import { projectRevisionService } from '../../../../services/ProjectRevisionService';
+import {
+  SessionRecorderService,
+  type SessionRecording,
+  type SessionRecordingEvent,
+} from '../../../../services/SessionRecorderService';
+import { prisma } from '../../../auth/infrastructure/db/prisma';
+import { getRevisionRetention, isProjectLimitReached, UserType } from '../../../../constants/projectLimits';
+import type { Room } from '../../../../types';
+
+interface OwnerContext {
+  room: Room;
+  // Saved project library the recording belongs to
+  accountId: string;
+}
+
+interface RoomReplay {
+  replayId: string;
+  // Recorded performer id -> username
+  usernames: Map<string, string>;
+}
+
+/**
+ * Handler for perform room session recordings
+ * The room owner starts and stops the recorder; finished recordings are saved to the
+ * owner's projects and can be replayed into a perform room
+ */
+export class SessionRecordingHandler {
+  private activeReplays = new Map<string, RoomReplay>();
+
+  constructor(
+    private roomService: RoomService,
+    private roomSessionManager: RoomSessionManager,
+    private sessionRecorderService: SessionRecorderService,
+    private metronomeService: MetronomeService
+  ) {}
+
+  /**
+   * Resolve the room for a request that only a signed-in perform room owner may make
+   */
+  private getOwnerContext(socket: Socket, errorEvent: string): OwnerContext | null {
+    const session = this.roomSessionManager.getRoomSession(socket.id);
+    if (!session) {
+      socket.emit(errorEvent, { message: 'No session found' });
+      return null;
+    }
+
+    const room = this.roomService.getRoom(session.roomId);
+    if (!room || room.roomType !== 'perform') {
+      socket.emit(errorEvent, { message: 'Perform room not found' });
+      return null;
+    }
+
+    if (room.owner !== session.userId) {
+      socket.emit(errorEvent, { message: 'Only the room owner can do this' });
+      return null;
+    }
+
+    const accountId: string | undefined = socket.data?.user?.id;
+    if (!accountId) {
+      socket.emit(errorEvent, { message: 'Sign in to record and replay sessions' });
+      return null;
+    }
+
+    return { room, accountId };
+  }
+
+  private async getUserType(userId: string): Promise<UserType> {
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { userType: true },
+    });
+    return (user?.userType as UserType) || UserType.REGISTERED;
+  }
+
+  /**
+   * Handle recorder start from the room owner
+   */
+  async handleStartRecording(socket: Socket, namespace: Namespace): Promise<void> {
+    const context = this.getOwnerContext(socket, 'perform:session_recording_error');
+    if (!context) {
+      return;
+    }
+    const { room, accountId } = context;
+
+    try {
+      // Recordings are saved as projects, so refuse to start one that couldn't be kept
+      const userType = await this.getUserType(accountId);
+      const projectCount = await prisma.savedProject.count({ where: { userId: accountId } });
+      if (isProjectLimitReached(projectCount, userType)) {
+        socket.emit('perform:session_recording_error', {
+          message: 'Project limit reached. Delete a saved project to record a session.',
+        });
+        return;
+      }
+    } catch (error) {
+      loggingService.logError(error as Error, { context: 'SessionRecordingHandler:handleStartRecording', roomId: room.id });
+      socket.emit('perform:session_recording_error', { message: 'Failed to start recording' });
+      return;
+    }
+
+    if (!this.sessionRecorderService.start(room, accountId)) {
+      socket.emit('perform:session_recording_error', { message: 'This room is already being recorded' });
+      return;
+    }
+
+    namespace.emit('perform:session_recording_state_changed', this.sessionRecorderService.getStatus(room.id));
+    loggingService.logInfo(`Session recording started for room ${room.id}`, { userId: accountId });
+  }
+
+  /**
+   * Handle recorder stop from the room owner and save the recording to their projects
+   */
+  async handleStopRecording(socket: Socket, data: { name?: string }, namespace: Namespace): Promise<void> {
+    const context = this.getOwnerContext(socket, 'perform:session_recording_error');
+    if (!context) {
+      return;
+    }
+    const { room, accountId } = context;
+
+    const recording = this.sessionRecorderService.stop(room.id);
+    if (!recording) {
+      socket.emit('perform:session_recording_error', { message: 'This room is not being recorded' });
+      return;
+    }
+    namespace.emit('perform:session_recording_state_changed', this.sessionRecorderService.getStatus(room.id));
+
+    const name = data?.name?.trim() || `${room.name} session ${recording.startedAt.slice(0, 16).replace('T', ' ')}`;
+    try {
+      const projectId = await this.saveRecording(accountId, name, recording);
+      socket.emit('perform:session_recording_saved', {
+        projectId,
+        name,
+        durationMs: recording.durationMs,
+        eventCount: recording.events.length,
+        truncated: recording.truncated,
+      });
+      loggingService.logInfo(`Session recording saved for room ${room.id}`, {
+        userId: accountId,
+        projectId,
+        durationMs: recording.durationMs,
+        eventCount: recording.events.length,
+      });
+    } catch (error) {
+      loggingService.logError(error as Error, { context: 'SessionRecordingHandler:handleStopRecording', roomId: room.id });
+      socket.emit('perform:session_recording_error', { message: 'Failed to save recording' });
+    }
+  }
+
+  /**
+   * Handle request for the room's current recorder state
+   */
+  handleRequestRecordingState(socket: Socket): void {
+    const session = this.roomSessionManager.getRoomSession(socket.id);
+    if (!session) {
+      return;
+    }
+    socket.emit('perform:session_recording_state', {
+      ...this.sessionRecorderService.getStatus(session.roomId),
+      isReplaying: this.sessionRecorderService.isReplaying(session.roomId),
+    });
+  }
+
+  /**
+   * Handle replay of one of the owner's saved session recordings into their room
+   */
+  async handleStartReplay(socket: Socket, data: { projectId: string }, namespace: Namespace): Promise<void> {
+    const context = this.getOwnerContext(socket, 'perform:session_replay_error');
+    if (!context) {
+      return;
+    }
+    const { room, accountId } = context;
+
+    let recording: SessionRecording;
+    try {
+      const project = await prisma.savedProject.findFirst({
+        where: { id: data.projectId, userId: accountId },
+      });
+      if (!project) {
+        socket.emit('perform:session_replay_error', { message: 'Project not found' });
+        return;
+      }
+
+      const { projectJson } = await projectStorageService.loadProjectFiles(accountId, project.id);
+      const stored = JSON.parse(projectJson)?.sessionRecording;
+      if (project.roomType !== 'perform' || !stored || !Array.isArray(stored.events)) {
+        socket.emit('perform:session_replay_error', { message: 'Project is not a session recording' });
+        return;
+      }
+      recording = stored;
+    } catch (error) {
+      loggingService.logError(error as Error, { context: 'SessionRecordingHandler:handleStartReplay', roomId: room.id });
+      socket.emit('perform:session_replay_error', { message: 'Failed to load recording' });
+      return;
+    }
+
+    const replay: RoomReplay = {
+      replayId: uuidv4(),
+      usernames: new Map((recording.performers ?? []).map((performer) => [performer.userId, performer.username])),
+    };
+    // Silence the replay this one replaces
+    this.endReplay(namespace, room.id);
+    this.activeReplays.set(room.id, replay);
+
+    this.sessionRecorderService.startReplay(
+      room.id,
+      recording,
+      (event) => this.emitReplayEvent(namespace, room.id, replay, event),
+      () => this.endReplay(namespace, room.id)
+    );
+
+    namespace.emit('perform:session_replay_state_changed', {
+      isReplaying: true,
+      replayId: replay.replayId,
+      projectId: data.projectId,
+      durationMs: recording.durationMs,
+    });
+    loggingService.logInfo(`Session replay started for room ${room.id}`, { userId: accountId, projectId: data.projectId });
+  }
+
+  /**
+   * Handle replay stop from the room owner
+   */
+  handleStopReplay(socket: Socket, namespace: Namespace): void {
+    const session = this.roomSessionManager.getRoomSession(socket.id);
+    if (!session) {
+      return;
+    }
+    const room = this.roomService.getRoom(session.roomId);
+    if (!room || room.owner !== session.userId) {
+      socket.emit('perform:session_replay_error', { message: 'Only the room owner can do this' });
+      return;
+    }
+
+    this.sessionRecorderService.stopReplay(room.id);
+    this.endReplay(namespace, room.id);
+  }
+
+  /**
+   * Re-emit a recorded event as the live event it was captured from. Performers are given
+   * replay user ids so their parts don't collide with the same users playing live.
+   */
+  private emitReplayEvent(
+    namespace: Namespace,
+    roomId: string,
+    replay: RoomReplay,
+    event: SessionRecordingEvent
+  ): void {
+    const performer = event.userId
+      ? {
+          userId: `replay:${event.userId}`,
+          username: replay.usernames.get(event.userId) ?? event.userId,
+          isReplay: true,
+          replayId: replay.replayId,
+        }
+      : null;
+
+    switch (event.type) {
+      case 'note':
+      case 'sustain':
+        namespace.emit('note_played', { ...event.data, ...performer });
+        break;
+      case 'instrument':
+        namespace.emit('instrument_changed', { ...event.data, ...performer });
+        break;
+      case 'synth_params':
+        namespace.emit('synth_params_changed', { instrument: '', category: '', ...event.data, ...performer });
+        break;
+      case 'metronome': {
+        const bpm = Number(event.data.bpm);
+        const updatedRoom = Number.isFinite(bpm) ? this.roomService.updateMetronomeBPM(roomId, bpm) : undefined;
+        if (updatedRoom) {
+          this.metronomeService.updateMetronomeTempo(roomId, bpm);
+          namespace.emit('metronome_updated', {
+            bpm,
+            lastTickTimestamp: updatedRoom.metronome.lastTickTimestamp,
+          });
+        }
+        break;
+      }
+    }
+  }
+
+  /**
+   * Release the notes a finished or stopped replay may still be holding
+   */
+  private endReplay(namespace: Namespace, roomId: string): void {
+    const replay = this.activeReplays.get(roomId);
+    if (!replay) {
+      return;
+    }
+    this.activeReplays.delete(roomId);
+
+    for (const [userId, username] of replay.usernames) {
+      namespace.emit('stop_all_notes', {
+        userId: `replay:${userId}`,
+        username,
+        instrument: '',
+        category: '',
+        replayId: replay.replayId,
+      });
+    }
+    namespace.emit('perform:session_replay_state_changed', { isReplaying: false, replayId: null, projectId: null });
+  }
+
+  /**
+   * Drop a deleted room's recording and replay
+   */
+  clearRoom(roomId: string): void {
+    this.sessionRecorderService.clearRoom(roomId);
+    this.activeReplays.delete(roomId);
+  }
+
+  /**
+   * Save a finished recording as a 'perform' project in the user's library. Returns the project id.
+   */
+  private async saveRecording(userId: string, name: string, recording: SessionRecording): Promise<string> {
+    const userType = await this.getUserType(userId);
+    const projectCount = await prisma.savedProject.count({ where: { userId } });
+    if (isProjectLimitReached(projectCount, userType)) {
+      throw new Error('Project limit reached');
+    }
+
+    const projectData = { sessionRecording: recording };
+    const project = await prisma.savedProject.create({
+      data: {
+        userId,
+        name,
+        roomType: 'perform',
+        projectData: projectData as any,
+        metadata: {
+          sessionRecording: {
+            roomId: recording.roomId,
+            durationMs: recording.durationMs,
+            performers: recording.performers.length,
+            eventCount: recording.events.length,
+          },
+        },
+      },
+    });
+
+    try {
+      const projectJson = JSON.stringify(projectData);
+      await projectStorageService.saveProjectFiles(userId, project.id, { projectJson });
+      await projectRevisionService.createRevision(userId, project.id, {
+        projectJson,
+        createdBy: userId,
+        retention: getRevisionRetention(userType),
+      });
+    } catch (error) {
+      await projectStorageService.deleteProjectFiles(userId, project.id).catch(() => {});
+      await prisma.savedProject.delete({ where: { id: project.id } });
+      throw error;
+    }
+
+    return project.id;
+  }
+}
@@ -16,7 +16,7 @@ import { User, UserProfile, Permission } from '../../domain/models/User';
 import { RoomSettings } from '../../domain/models/RoomSettings';
 import { MemberRole } from '../../domain/models/Member';
 import { RoomId, UserId } from '../../../../shared/domain/models/ValueObjects';
-import { Room as LegacyRoom, User as LegacyUser } from '../../../../types';
+import { Room as LegacyRoom, RoomRole, User as LegacyUser } from '../../../../types';
 
 export class RoomServiceBridge {
   constructor(
@@ -208,6 +208,8 @@ export class RoomServiceBridge {
     switch (legacyRole) {
       case 'room_owner':
         return MemberRole.OWNER;
+      case 'co_host':
+        return MemberRole.MODERATOR;
       case 'band_member':
         return MemberRole.BAND_MEMBER;
       case 'audience':
@@ -228,6 +230,8 @@ export class RoomServiceBridge {
         user.grantPermission(Permission.KICK_USERS);
         user.grantPermission(Permission.MODERATE_ROOMS);
         break;
+      // Co-hosts' extra abilities are per room, see services/RoomPermissions
+      case 'co_host':
       case 'band_member':
         user.grantPermission(Permission.CREATE_ROOMS);
         user.grantPermission(Permission.JOIN_ROOMS);
@@ -279,10 +283,12 @@ export class RoomServiceBridge {
   /**
    * Map MemberRole to legacy role string
    */
-  private mapMemberRoleToLegacyRole(memberRole: MemberRole): 'room_owner' | 'band_member' | 'audience' {
+  private mapMemberRoleToLegacyRole(memberRole: MemberRole): RoomRole {
     switch (memberRole) {
       case MemberRole.OWNER:
         return 'room_owner';
+      case MemberRole.MODERATOR:
+        return 'co_host';
       case MemberRole.BAND_MEMBER:
         return 'band_member';
       case MemberRole.AUDIENCE:
@@ -5,6 +5,8 @@ import { NamespaceManager } from '../../../../services/NamespaceManager';
 import { RoomSessionManager } from '../../../../services/RoomSessionManager';
 import { ApprovalSessionManager } from '../../../../services/ApprovalSessionManager';
 import { loggingService } from '../../../../services/LoggingService';
+import { getBanMessage, getSocketAddress, roomBanService } from '../../../../services/RoomBanService';
+import { hasRoomCapability } from '../../../../services/RoomPermissions';
 import {
   ApprovalRequestData,
   ApprovalResponseData,
@@ -78,6 +80,13 @@ export class ApprovalWorkflowHandler {
       return;
     }
 
+    const ban = roomBanService.findBan(roomId, userId, getSocketAddress(socket));
+    if (ban) {
+      socket.emit('approval_error', { message: getBanMessage(ban), banned: true, expiresAt: ban.expiresAt });
+      loggingService.logSecurityEvent('Banned user approval request rejected', { roomId, userId }, 'warn');
+      return;
+    }
+
     // Check if user already has an approval session
     if (this.approvalSessionManager.hasApprovalSession(userId)) {
       socket.emit('approval_error', { message: 'You already have a pending approval request' });
@@ -138,9 +147,8 @@ export class ApprovalWorkflowHandler {
       return;
     }
 
-    // Verify user is room owner
-    if (!this.roomService.isRoomOwner(session.roomId, session.userId)) {
-      socket.emit('approval_error', { message: 'Only room owner can approve members' });
+    if (!hasRoomCapability(room, session.userId, 'approve')) {
+      socket.emit('approval_error', { message: 'You do not have permission to approve members' });
       return;
     }
 
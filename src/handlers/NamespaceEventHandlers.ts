@@ -6,19 +6,31 @@ import { AudioRoutingHandler, NotePlayingHandler } from '../domains/audio-proces
 import { MetronomeHandler } from '../domains/room-management/infrastructure/handlers';
 import { InstrumentSwapHandler } from '../domains/room-management/infrastructure/handlers/InstrumentSwapHandler';
 import { PerformBroadcastHandler } from '../domains/room-management/infrastructure/handlers/PerformBroadcastHandler';
+import { SessionRecordingHandler } from '../domains/room-management/infrastructure/handlers/SessionRecordingHandler';
 import { RoomSessionManager } from '../services/RoomSessionManager';
 import { PerformanceMonitoringService } from '../services/PerformanceMonitoringService';
 import { ConnectionHealthService } from '../services/ConnectionHealthService';
 import { ConnectionOptimizationService } from '../services/ConnectionOptimizationService';
 import { BackendErrorRecoveryService, BackendErrorType } from '../services/ErrorRecoveryService';
 import { loggingService } from '../services/LoggingService';
+import { clockSyncService } from '../services/ClockSyncService';
+import type { ClockSyncRequestData, ClockSyncReportData } from '../types';
 import { secureSocketEvent } from '../middleware/security';
 import { checkSocketRateLimit } from '../middleware/rateLimit';
 import {
   joinRoomSchema,
   chatMessageSchema,
+  requestChatHistorySchema,
+  deleteChatMessageSchema,
+  editChatMessageSchema,
+  reactChatMessageSchema,
+  muteUserChatSchema,
   transferOwnershipSchema,
   memberActionSchema,
+  banUserSchema,
+  unbanUserSchema,
+  setMemberRoleSchema,
+  updateRoomPermissionsSchema,
   voiceOfferSchema,
   voiceAnswerSchema,
   voiceIceCandidateSchema,
@@ -26,10 +38,20 @@ import {
   voiceLeaveSchema,
   voiceMuteChangedSchema,
   requestVoiceParticipantsSchema,
+  sfuConnectSchema,
+  sfuAnswerSchema,
+  sfuIceCandidateSchema,
+  sfuSubscribeSchema,
   updateMetronomeSchema,
+  startMetronomeSchema,
+  rampMetronomeTempoSchema,
+  setTimeSignatureSchema,
+  clockSyncRequestSchema,
+  clockSyncReportSchema,
   approvalRequestSchema,
   approvalCancelSchema,
   arrangeRequestStateSchema,
+  arrangeSyncSinceSchema,
   arrangeTrackAddSchema,
   arrangeTrackUpdateSchema,
   arrangeTrackDeleteSchema,
@@ -45,6 +67,9 @@ import {
   arrangeNoteAddSchema,
   arrangeNoteUpdateSchema,
   arrangeNoteDeleteSchema,
+  arrangeSustainAddSchema,
+  arrangeSustainUpdateSchema,
+  arrangeSustainDeleteSchema,
   arrangeEffectChainUpdateSchema,
   arrangeSynthParamsUpdateSchema,
   arrangeBpmUpdateSchema,
@@ -52,7 +77,15 @@ import {
   arrangeSelectionChangeSchema,
   arrangeLockAcquireSchema,
   arrangeLockReleaseSchema,
+  arrangeLockHeartbeatSchema,
+  arrangeLockStealSchema,
+  arrangeLockQueueSchema,
+  arrangeLockQueueLeaveSchema,
   arrangeVoiceStateSchema,
+  arrangeUndoSchema,
+  arrangeRedoSchema,
+  stopSessionRecordingSchema,
+  startSessionReplaySchema,
 } from '../validation/schemas';
 
 export class NamespaceEventHandlers {
@@ -61,6 +94,7 @@ export class NamespaceEventHandlers {
   private connectionOptimization: ConnectionOptimizationService | null = null;
   private errorRecoveryService: BackendErrorRecoveryService;
   private performBroadcastHandler: PerformBroadcastHandler | null = null;
+  private sessionRecordingHandler: SessionRecordingHandler | null = null;
 
   constructor(
     private roomHandlers: RoomHandlers,
@@ -73,10 +107,12 @@ export class NamespaceEventHandlers {
     private notePlayingHandler: NotePlayingHandler,
     private instrumentSwapHandler: InstrumentSwapHandler,
     private arrangeRoomHandler?: any, // ArrangeRoomHandler - optional to avoid breaking existing code
-    performBroadcastHandler?: PerformBroadcastHandler
+    performBroadcastHandler?: PerformBroadcastHandler,
+    sessionRecordingHandler?: SessionRecordingHandler
   ) {
     this.errorRecoveryService = new BackendErrorRecoveryService();
     this.performBroadcastHandler = performBroadcastHandler || null;
+    this.sessionRecordingHandler = sessionRecordingHandler || null;
   }
 
   /**
@@ -311,6 +347,7 @@ export class NamespaceEventHandlers {
           
           // Clean up session
           this.roomSessionManager.removeSession(socket.id);
+          clockSyncService.removeSocket(socket.id);
         } catch (error) {
           // Handle cleanup errors
           await this.errorRecoveryService.handleError({
@@ -357,7 +394,11 @@ export class NamespaceEventHandlers {
     socket.on('join_room', (data) => {
       secureSocketEvent('join_room', joinRoomSchema, 
         this.trackRoomEvent(roomId, 'join_room', 
-          (socket, data) => this.roomHandlers.handleJoinRoomNamespace(socket, data)
+          (socket, data) => {
+            this.roomHandlers.handleJoinRoomNamespace(socket, data);
+            // Late joiners see the recent chat (nothing is sent until they are in the room)
+            void this.chatHandler.sendChatHistoryNamespace(socket);
+          }
         )
       )(socket, data);
     });
@@ -547,6 +588,32 @@ export class NamespaceEventHandlers {
       this.instrumentSwapHandler.handleKickUser(socket, data, namespace);
     });
 
+    // Room ban events
+    socket.on('ban_user', (data) => {
+      secureSocketEvent('ban_user', banUserSchema,
+        (socket, data) => this.roomHandlers.handleBanUserNamespace(socket, data, namespace))(socket, data);
+    });
+
+    socket.on('unban_user', (data) => {
+      secureSocketEvent('unban_user', unbanUserSchema,
+        (socket, data) => this.roomHandlers.handleUnbanUserNamespace(socket, data))(socket, data);
+    });
+
+    socket.on('get_room_bans', () => {
+      this.roomHandlers.handleGetRoomBansNamespace(socket);
+    });
+
+    // Member roles and room permissions
+    socket.on('set_member_role', (data) => {
+      secureSocketEvent('set_member_role', setMemberRoleSchema,
+        (socket, data) => this.roomHandlers.handleSetMemberRoleNamespace(socket, data, namespace))(socket, data);
+    });
+
+    socket.on('update_room_permissions', (data) => {
+      secureSocketEvent('update_room_permissions', updateRoomPermissionsSchema,
+        (socket, data) => this.roomHandlers.handleUpdateRoomPermissionsNamespace(socket, data, namespace))(socket, data);
+    });
+
     // Scale follow events
     socket.on('room_owner_scale_change', (data) => {
       const rateLimitCheck = checkSocketRateLimit(socket, 'room_owner_scale_change');
@@ -608,6 +675,27 @@ export class NamespaceEventHandlers {
         (socket, data) => this.voiceConnectionHandler.handleRequestVoiceParticipantsNamespace(socket, data, namespace))(socket, data);
     });
 
+    // SFU voice events, once a room outgrows the mesh
+    socket.on('sfu_connect', (data) => {
+      secureSocketEvent('sfu_connect', sfuConnectSchema,
+        (socket, data) => void this.voiceConnectionHandler.handleSfuConnectNamespace(socket, data, namespace))(socket, data);
+    });
+
+    socket.on('sfu_answer', (data) => {
+      secureSocketEvent('sfu_answer', sfuAnswerSchema,
+        (socket, data) => void this.voiceConnectionHandler.handleSfuAnswerNamespace(socket, data, namespace))(socket, data);
+    });
+
+    socket.on('sfu_ice_candidate', (data) => {
+      secureSocketEvent('sfu_ice_candidate', sfuIceCandidateSchema,
+        (socket, data) => void this.voiceConnectionHandler.handleSfuIceCandidateNamespace(socket, data, namespace))(socket, data);
+    });
+
+    socket.on('sfu_subscribe', (data) => {
+      secureSocketEvent('sfu_subscribe', sfuSubscribeSchema,
+        (socket, data) => this.voiceConnectionHandler.handleSfuSubscribeNamespace(socket, data, namespace))(socket, data);
+    });
+
     // Full Mesh Network Coordination
     socket.on('request_mesh_connections', (data) => {
       this.voiceConnectionHandler.handleRequestMeshConnectionsNamespace(socket, data, namespace);
@@ -628,6 +716,31 @@ export class NamespaceEventHandlers {
         (socket, data) => this.chatHandler.handleChatMessageNamespace(socket, data, namespace))(socket, data);
     });
 
+    socket.on('request_chat_history', (data) => {
+      secureSocketEvent('request_chat_history', requestChatHistorySchema,
+        (socket, data) => void this.chatHandler.handleRequestChatHistoryNamespace(socket, data))(socket, data ?? {});
+    });
+
+    socket.on('delete_chat_message', (data) => {
+      secureSocketEvent('delete_chat_message', deleteChatMessageSchema,
+        (socket, data) => void this.chatHandler.handleDeleteChatMessageNamespace(socket, data, namespace))(socket, data);
+    });
+
+    socket.on('edit_chat_message', (data) => {
+      secureSocketEvent('edit_chat_message', editChatMessageSchema,
+        (socket, data) => void this.chatHandler.handleEditChatMessageNamespace(socket, data, namespace))(socket, data);
+    });
+
+    socket.on('react_chat_message', (data) => {
+      secureSocketEvent('react_chat_message', reactChatMessageSchema,
+        (socket, data) => void this.chatHandler.handleReactChatMessageNamespace(socket, data, namespace))(socket, data);
+    });
+
+    socket.on('mute_user_chat', (data) => {
+      secureSocketEvent('mute_user_chat', muteUserChatSchema,
+        (socket, data) => this.chatHandler.handleMuteUserChatNamespace(socket, data, namespace))(socket, data);
+    });
+
     // Metronome events
     socket.on('update_metronome', (data) => {
       secureSocketEvent('update_metronome', updateMetronomeSchema, 
@@ -638,6 +751,25 @@ export class NamespaceEventHandlers {
       this.metronomeHandler.handleRequestMetronomeStateNamespace(socket, namespace);
     });
 
+    socket.on('start_metronome', (data) => {
+      secureSocketEvent('start_metronome', startMetronomeSchema,
+        (socket, data) => this.metronomeHandler.handleStartMetronomeNamespace(socket, data, namespace))(socket, data ?? {});
+    });
+
+    socket.on('stop_metronome', () => {
+      this.metronomeHandler.handleStopMetronomeNamespace(socket, namespace);
+    });
+
+    socket.on('ramp_metronome_tempo', (data) => {
+      secureSocketEvent('ramp_metronome_tempo', rampMetronomeTempoSchema,
+        (socket, data) => this.metronomeHandler.handleRampMetronomeTempoNamespace(socket, data, namespace))(socket, data);
+    });
+
+    socket.on('set_time_signature', (data) => {
+      secureSocketEvent('set_time_signature', setTimeSignatureSchema,
+        (socket, data) => this.metronomeHandler.handleSetTimeSignatureNamespace(socket, data, namespace))(socket, data);
+    });
+
     // Ping measurement events for latency monitoring in rooms
     socket.on('ping_measurement', (data) => {
       // Simple ping-pong response for latency measurement
@@ -650,6 +782,23 @@ export class NamespaceEventHandlers {
       }
     });
 
+    // NTP-style clock sync: clients answer each response with its receive time and get
+    // their estimated offset to the server clock used by metronome ticks and relayed notes
+    socket.on('clock_sync_request', (data) => {
+      secureSocketEvent('clock_sync_request', clockSyncRequestSchema, (socket, data: ClockSyncRequestData) => {
+        socket.emit('clock_sync_response', clockSyncService.handleRequest(socket.id, data.seq, data.clientSendTime));
+      })(socket, data);
+    });
+
+    socket.on('clock_sync_report', (data) => {
+      secureSocketEvent('clock_sync_report', clockSyncReportSchema, (socket, data: ClockSyncReportData) => {
+        const estimate = clockSyncService.handleReport(socket.id, data.seq, data.clientReceiveTime);
+        if (estimate) {
+          socket.emit('clock_sync_estimate', estimate);
+        }
+      })(socket, data);
+    });
+
     // Arrange room events (only if handler is available)
     if (this.arrangeRoomHandler) {
       socket.on('arrange:request_state', (data) => {
@@ -657,6 +806,11 @@ export class NamespaceEventHandlers {
           (socket, data) => this.arrangeRoomHandler.handleRequestState(socket, data))(socket, data);
       });
 
+      socket.on('arrange:sync_since', (data) => {
+        secureSocketEvent('arrange:sync_since', arrangeSyncSinceSchema,
+          (socket, data) => this.arrangeRoomHandler.handleSyncSince(socket, data))(socket, data);
+      });
+
       socket.on('arrange:track_add', (data) => {
         secureSocketEvent('arrange:track_add', arrangeTrackAddSchema,
           (socket, data) => this.arrangeRoomHandler.handleTrackAdd(socket, namespace, data))(socket, data);
@@ -732,6 +886,21 @@ export class NamespaceEventHandlers {
           (socket, data) => this.arrangeRoomHandler.handleNoteDelete(socket, namespace, data))(socket, data);
       });
 
+      socket.on('arrange:sustain_add', (data) => {
+        secureSocketEvent('arrange:sustain_add', arrangeSustainAddSchema,
+          (socket, data) => this.arrangeRoomHandler.handleSustainAdd(socket, namespace, data))(socket, data);
+      });
+
+      socket.on('arrange:sustain_update', (data) => {
+        secureSocketEvent('arrange:sustain_update', arrangeSustainUpdateSchema,
+          (socket, data) => this.arrangeRoomHandler.handleSustainUpdate(socket, namespace, data))(socket, data);
+      });
+
+      socket.on('arrange:sustain_delete', (data) => {
+        secureSocketEvent('arrange:sustain_delete', arrangeSustainDeleteSchema,
+          (socket, data) => this.arrangeRoomHandler.handleSustainDelete(socket, namespace, data))(socket, data);
+      });
+
       socket.on('arrange:effect_chain_update', (data) => {
         secureSocketEvent('arrange:effect_chain_update', arrangeEffectChainUpdateSchema,
           (socket, data) => this.arrangeRoomHandler.handleEffectChainUpdate(socket, namespace, data))(socket, data);
@@ -767,6 +936,26 @@ export class NamespaceEventHandlers {
           (socket, data) => this.arrangeRoomHandler.handleLockRelease(socket, namespace, data))(socket, data);
       });
 
+      socket.on('arrange:lock_heartbeat', (data) => {
+        secureSocketEvent('arrange:lock_heartbeat', arrangeLockHeartbeatSchema,
+          (socket, data) => this.arrangeRoomHandler.handleLockHeartbeat(socket, data))(socket, data);
+      });
+
+      socket.on('arrange:lock_steal', (data) => {
+        secureSocketEvent('arrange:lock_steal', arrangeLockStealSchema,
+          (socket, data) => this.arrangeRoomHandler.handleLockSteal(socket, namespace, data))(socket, data);
+      });
+
+      socket.on('arrange:lock_queue', (data) => {
+        secureSocketEvent('arrange:lock_queue', arrangeLockQueueSchema,
+          (socket, data) => this.arrangeRoomHandler.handleLockQueue(socket, namespace, data))(socket, data);
+      });
+
+      socket.on('arrange:lock_queue_leave', (data) => {
+        secureSocketEvent('arrange:lock_queue_leave', arrangeLockQueueLeaveSchema,
+          (socket, data) => this.arrangeRoomHandler.handleLockQueueLeave(socket, data))(socket, data);
+      });
+
       socket.on('arrange:voice_state', (data) => {
         secureSocketEvent('arrange:voice_state', arrangeVoiceStateSchema,
           (socket, data) => this.arrangeRoomHandler.handleVoiceState(socket, namespace, data))(socket, data);
@@ -800,6 +989,16 @@ export class NamespaceEventHandlers {
         this.arrangeRoomHandler.handleFullStateUpdate(socket, namespace, data);
       });
 
+      socket.on('arrange:undo', (data) => {
+        secureSocketEvent('arrange:undo', arrangeUndoSchema,
+          (socket, data) => this.arrangeRoomHandler.handleUndo(socket, namespace, data))(socket, data);
+      });
+
+      socket.on('arrange:redo', (data) => {
+        secureSocketEvent('arrange:redo', arrangeRedoSchema,
+          (socket, data) => this.arrangeRoomHandler.handleRedo(socket, namespace, data))(socket, data);
+      });
+
       // Broadcast events
       socket.on('arrange:broadcast_state', (data) => {
         this.arrangeRoomHandler.handleBroadcastState(socket, namespace, data);
@@ -810,10 +1009,10 @@ export class NamespaceEventHandlers {
       });
     }
 
-    // Perform room broadcast events (for audience HLS streaming)
+    // Perform room broadcast events (for audience HLS and relay streaming)
     if (this.performBroadcastHandler) {
       socket.on('perform:toggle_broadcast', (data) => {
-        this.performBroadcastHandler!.handleToggleBroadcast(socket, data, namespace);
+        void this.performBroadcastHandler!.handleToggleBroadcast(socket, data, namespace);
       });
 
       socket.on('perform:broadcast_audio_chunk', (data) => {
@@ -823,6 +1022,41 @@ export class NamespaceEventHandlers {
       socket.on('perform:request_broadcast_state', () => {
         this.performBroadcastHandler!.handleRequestBroadcastState(socket);
       });
+
+      socket.on('perform:join_broadcast_relay', () => {
+        void this.performBroadcastHandler!.handleJoinRelay(socket);
+      });
+
+      socket.on('perform:leave_broadcast_relay', () => {
+        void this.performBroadcastHandler!.handleLeaveRelay(socket);
+      });
+    }
+
+    // Perform room session recording and replay events
+    if (this.sessionRecordingHandler) {
+      const sessionRecordingHandler = this.sessionRecordingHandler;
+
+      socket.on('perform:start_session_recording', () => {
+        void sessionRecordingHandler.handleStartRecording(socket, namespace);
+      });
+
+      socket.on('perform:stop_session_recording', (data) => {
+        secureSocketEvent('perform:stop_session_recording', stopSessionRecordingSchema,
+          (socket, data) => sessionRecordingHandler.handleStopRecording(socket, data, namespace))(socket, data ?? {});
+      });
+
+      socket.on('perform:request_session_recording_state', () => {
+        sessionRecordingHandler.handleRequestRecordingState(socket);
+      });
+
+      socket.on('perform:start_session_replay', (data) => {
+        secureSocketEvent('perform:start_session_replay', startSessionReplaySchema,
+          (socket, data) => sessionRecordingHandler.handleStartReplay(socket, data, namespace))(socket, data);
+      });
+
+      socket.on('perform:stop_session_replay', () => {
+        sessionRecordingHandler.handleStopReplay(socket, namespace);
+      });
     }
   }
 
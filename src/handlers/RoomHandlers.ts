@@ -17,6 +17,10 @@ import { getHealthCheckData } from '../middleware/monitoring';
 import {
   JoinRoomData,
   TransferOwnershipData,
+  BanUserData,
+  UnbanUserData,
+  SetMemberRoleData,
+  UpdateRoomPermissionsData,
 } from '../types';
 
 /**
@@ -203,6 +207,32 @@ export class RoomHandlers {
     this.roomMembershipHandler.handleTransferOwnershipNamespace(socket, typedData, namespace);
   }
 
+  /**
+   * Handle room bans through namespace - delegates to domain handler
+   */
+  handleBanUserNamespace(socket: Socket, data: BanUserData, namespace: Namespace): void {
+    this.roomMembershipHandler.handleBanUserNamespace(socket, data, namespace);
+  }
+
+  handleUnbanUserNamespace(socket: Socket, data: UnbanUserData): void {
+    this.roomMembershipHandler.handleUnbanUserNamespace(socket, data);
+  }
+
+  handleGetRoomBansNamespace(socket: Socket): void {
+    this.roomMembershipHandler.handleGetRoomBansNamespace(socket);
+  }
+
+  /**
+   * Handle member roles and room permissions through namespace - delegates to domain handler
+   */
+  handleSetMemberRoleNamespace(socket: Socket, data: SetMemberRoleData, namespace: Namespace): void {
+    this.roomMembershipHandler.handleSetMemberRoleNamespace(socket, data, namespace);
+  }
+
+  handleUpdateRoomPermissionsNamespace(socket: Socket, data: UpdateRoomPermissionsData, namespace: Namespace): void {
+    this.roomMembershipHandler.handleUpdateRoomPermissionsNamespace(socket, data, namespace);
+  }
+
   /**
    * Handle room owner scale change - update room state and notify followers
    */
@@ -246,8 +276,8 @@ export class RoomHandlers {
     const user = room.users.get(session.userId);
     if (!user) return;
 
-    // Only band members can follow room owner (not audience or room owner themselves)
-    if (user.role !== 'band_member') {
+    // Only band members and co-hosts can follow room owner (not audience or room owner themselves)
+    if (user.role !== 'band_member' && user.role !== 'co_host') {
       socket.emit('error', { message: 'Only band members can follow room owner scale' });
       return;
     }
@@ -8,7 +8,8 @@ import { ChatMessageData, User, UserSession } from '../../types';
 
 // Mock dependencies
 const mockRoomService = {
-  findUserInRoom: jest.fn()
+  findUserInRoom: jest.fn(),
+  getRoom: jest.fn()
 } as Partial<RoomService>;
 
 const mockNamespaceManager = {
@@ -306,7 +306,8 @@ describe('NotePlayingHandler', () => {
           category: 'synthesizer',
           eventType: 'note_on',
           isKeyHeld: true,
-          sampleNotes: undefined
+          sampleNotes: undefined,
+          serverTime: expect.any(Number)
         });
       });
 
@@ -394,42 +395,31 @@ describe('NotePlayingHandler', () => {
     });
   });
 
-  describe('message batching for performance', () => {
-    it('should queue non-critical messages for batching', (done) => {
-      // Mock a non-critical event that should be batched
-      const mockNonCriticalData = {
-        userId: 'test-user-id',
-        data: 'test-data'
-      };
+  describe('note relay', () => {
+    const mockPlayNoteData: PlayNoteData = {
+      notes: ['C4'],
+      velocity: 0.8,
+      instrument: 'piano',
+      category: 'keyboard',
+      eventType: 'note_on'
+    };
+
+    it('relays every note of a burst, in order', () => {
+      for (let i = 0; i < 5; i++) {
+        notePlayingHandler.handlePlayNoteNamespace(mockSocket, { ...mockPlayNoteData, velocity: i / 10 }, mockNamespace);
+      }
 
-      // Access private method through any cast for testing
-      const handler = notePlayingHandler as any;
-      
-      // Queue a message
-      handler.queueMessage('test-room-id', 'test_event', mockNonCriticalData);
-
-      // Verify message is queued
-      expect(handler.messageQueue.get('test-room-id')).toHaveLength(1);
-
-      // Wait for batch processing
-      setTimeout(() => {
-        // Verify batch timeout was set and cleared
-        expect(handler.batchTimeouts.has('test-room-id')).toBe(false);
-        done();
-      }, 20); // Wait longer than BATCH_INTERVAL (16ms)
+      const velocities = (mockSocket.broadcast.emit as jest.Mock).mock.calls
+        .filter(([event]) => event === 'note_played')
+        .map(([, data]) => (data as { velocity: number }).velocity);
+      expect(velocities).toEqual([0, 0.1, 0.2, 0.3, 0.4]);
     });
 
-    it('should limit queue size to prevent memory leaks', () => {
-      const handler = notePlayingHandler as any;
-      const roomId = 'test-room-id';
-
-      // Add more messages than MAX_QUEUE_SIZE
-      for (let i = 0; i < handler.MAX_QUEUE_SIZE + 10; i++) {
-        handler.queueMessage(roomId, 'test_event', { index: i });
-      }
+    it('drops the relay scheduler of a cleared room', () => {
+      notePlayingHandler.handlePlayNoteNamespace(mockSocket, mockPlayNoteData, mockNamespace);
+      notePlayingHandler.clearRoom('test-room-id');
 
-      const queue = handler.messageQueue.get(roomId);
-      expect(queue.length).toBeLessThanOrEqual(handler.MAX_QUEUE_SIZE);
+      expect((notePlayingHandler as any).relaySchedulers.has('test-room-id')).toBe(false);
     });
   });
 
@@ -179,13 +179,13 @@ describe('RoomMembershipHandler', () => {
       expect(mockRoomService.approveMember).not.toHaveBeenCalled();
     });
 
-    it('should reject approval if user is not room owner', () => {
-      mockRoomService.isRoomOwner.mockReturnValue(false);
+    it('should reject approval if user is not allowed to approve members', () => {
+      mockRoomSessionManager.getRoomSession.mockReturnValue({ ...createMockSession(), userId: 'band-member-id' });
 
       handler.handleApproveMember(mockSocket, { userId: 'pending-user-id' });
 
       expect(mockSocket.emit).toHaveBeenCalledWith('membership_error', {
-        message: 'Only room owner can approve members'
+        message: 'You do not have permission to approve members'
       });
       expect(mockRoomService.approveMember).not.toHaveBeenCalled();
     });
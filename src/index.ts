@@ -42,9 +42,27 @@ import { MetronomeHandler } from "./domains/room-management/infrastructure/handl
 import { NotePlayingHandler } from "./domains/audio-processing/infrastructure/handlers/NotePlayingHandler";
 import { ArrangeRoomStateService } from "./services/ArrangeRoomStateService";
 import { ArrangeRoomHandler } from "./domains/arrange-room/infrastructure/handlers/ArrangeRoomHandler";
+import { ArrangeHistoryService } from "./services/ArrangeHistoryService";
+import { ArrangeSyncLogService } from "./services/ArrangeSyncLogService";
+import { SessionRecorderService } from "./services/SessionRecorderService";
+import { SessionRecordingHandler } from "./domains/room-management/infrastructure/handlers/SessionRecordingHandler";
 import { AudioRegionStorageService } from "./services/AudioRegionStorageService";
 import { AudioRegionController } from "./domains/arrange-room/infrastructure/controllers/AudioRegionController";
 import { ProjectController } from "./domains/arrange-room/infrastructure/controllers/ProjectController";
+import { MidiFileController } from "./domains/arrange-room/infrastructure/controllers/MidiFileController";
+import { MixdownController } from "./domains/arrange-room/infrastructure/controllers/MixdownController";
+import { mixdownRenderService } from "./services/MixdownRenderService";
+import { BroadcastArchiveController } from "./domains/room-management/infrastructure/controllers/BroadcastArchiveController";
+import { broadcastArchiveService } from "./services/BroadcastArchiveService";
+import { IceServerController } from "./domains/real-time-communication/infrastructure/controllers/IceServerController";
+import { iceServerService } from "./services/IceServerService";
+import { RoomBanController } from "./domains/room-management/infrastructure/controllers/RoomBanController";
+import { roomBanService } from "./services/RoomBanService";
+import { broadcastPipeline } from "./services/BroadcastPipeline";
+import { ArrangeRoomPersistenceService } from "./services/ArrangeRoomPersistenceService";
+import { FileArrangeStatePersistence } from "./services/persistence/FileArrangeStatePersistence";
+import { PrismaChatHistoryPersistence } from "./services/persistence/PrismaChatHistoryPersistence";
+import { ChatHistoryService } from "./services/ChatHistoryService";
 
 import { NamespaceManager } from "./services/NamespaceManager";
 import { RoomSessionManager } from "./services/RoomSessionManager";
@@ -144,13 +162,17 @@ const connectionOptimization =
 const voiceConnectionHandler = new VoiceConnectionHandler(
   roomService,
   io,
-  roomSessionManager
+  roomSessionManager,
+  iceServerService
 );
+// Opt-in perform room session recorder, fed by the note, synth and metronome handlers
+const sessionRecorderService = new SessionRecorderService();
 const audioRoutingHandler = new AudioRoutingHandler(
   roomService,
   io,
   roomSessionManager,
-  namespaceManager
+  namespaceManager,
+  sessionRecorderService
 );
 
 // Initialize services needed by RoomHandlers
@@ -158,16 +180,35 @@ const metronomeService = new MetronomeService(io, roomService);
 
 // Initialize arrange room services (before room lifecycle handler)
 const arrangeRoomStateService = new ArrangeRoomStateService();
+const arrangeHistoryService = new ArrangeHistoryService(arrangeRoomStateService);
+const arrangeSyncLogService = new ArrangeSyncLogService(arrangeRoomStateService);
 const audioRegionStorageService = new AudioRegionStorageService();
+const arrangeRoomPersistenceService = config.arrangePersistence.enabled
+  ? new ArrangeRoomPersistenceService(
+      roomService,
+      arrangeRoomStateService,
+      new FileArrangeStatePersistence(config.arrangePersistence.dir)
+    )
+  : null;
 const audioRegionController = new AudioRegionController(
   roomService,
   audioRegionStorageService
 );
-const projectController = new ProjectController(
-  audioRegionStorageService,
+const midiFileController = new MidiFileController(
+  roomService,
   arrangeRoomStateService,
-  io
+  io,
+  arrangeSyncLogService
+);
+const mixdownController = new MixdownController(
+  roomService,
+  arrangeRoomStateService,
+  audioRegionStorageService,
+  mixdownRenderService
 );
+const broadcastArchiveController = new BroadcastArchiveController(broadcastArchiveService);
+const iceServerController = new IceServerController(iceServerService, roomService);
+const roomBanController = new RoomBanController(roomService);
 
 // Initialize room lifecycle handler with event bus
 const roomLifecycleHandler = new RoomLifecycleHandler(
@@ -181,6 +222,12 @@ const roomLifecycleHandler = new RoomLifecycleHandler(
   arrangeRoomStateService,
   audioRegionStorageService
 );
+const projectController = new ProjectController(
+  audioRegionStorageService,
+  arrangeRoomStateService,
+  io,
+  roomLifecycleHandler
+);
 const roomMembershipHandler = new RoomMembershipHandler(
   roomService,
   io,
@@ -196,19 +243,26 @@ const approvalWorkflowHandler = new ApprovalWorkflowHandler(
 const chatHandler = new ChatHandler(
   roomService,
   namespaceManager,
-  roomSessionManager
+  roomSessionManager,
+  new ChatHistoryService(
+    config.chat,
+    config.chat.persistenceEnabled ? new PrismaChatHistoryPersistence() : null
+  ),
+  arrangeRoomStateService
 );
 const metronomeHandler = new MetronomeHandler(
   roomService,
   metronomeService,
   roomSessionManager,
-  namespaceManager
+  namespaceManager,
+  sessionRecorderService
 );
 const notePlayingHandler = new NotePlayingHandler(
   roomService,
   io,
   namespaceManager,
-  roomSessionManager
+  roomSessionManager,
+  sessionRecorderService
 );
 const instrumentSwapHandler = new InstrumentSwapHandler(
   roomService,
@@ -222,12 +276,38 @@ const arrangeRoomHandler = new ArrangeRoomHandler(
   arrangeRoomStateService,
   roomSessionManager,
   roomService,
-  audioRegionStorageService
+  audioRegionStorageService,
+  arrangeHistoryService,
+  arrangeSyncLogService
 );
 
 // Import and create PerformBroadcastHandler
 import { PerformBroadcastHandler } from './domains/room-management/infrastructure/handlers/PerformBroadcastHandler';
-const performBroadcastHandler = new PerformBroadcastHandler(roomService, roomSessionManager);
+const performBroadcastHandler = new PerformBroadcastHandler(roomService, roomSessionManager, broadcastArchiveService);
+
+// Stop broadcasts whose owner stopped sending audio or whose room has emptied
+namespaceCleanup.addCleanupRule({
+  name: 'stale_broadcasts',
+  priority: 0,
+  condition: (namespacePath: string, info: any) => {
+    if (!namespacePath.startsWith('/room/')) {
+      return false;
+    }
+    const roomId = namespacePath.slice('/room/'.length);
+    return broadcastPipeline.isActive(roomId) &&
+      (info.connectionCount === 0 || broadcastPipeline.isStale(roomId));
+  },
+  action: async (namespacePath: string) => {
+    const roomId = namespacePath.slice('/room/'.length);
+    performBroadcastHandler.endBroadcast(roomId, namespaceManager.getRoomNamespace(roomId));
+  }
+});
+const sessionRecordingHandler = new SessionRecordingHandler(
+  roomService,
+  roomSessionManager,
+  sessionRecorderService,
+  metronomeService
+);
 
 const roomHandlers = new RoomHandlers(
   roomService,
@@ -248,7 +328,8 @@ const namespaceEventHandlers = new NamespaceEventHandlers(
   notePlayingHandler,
   instrumentSwapHandler,
   arrangeRoomHandler,
-  performBroadcastHandler
+  performBroadcastHandler,
+  sessionRecordingHandler
 );
 
 // Set up namespace event handlers
@@ -333,7 +414,7 @@ app.use(
 app.use(sanitizeInput);
 
 // Routes
-app.use("/api", createRoutes(roomHandlers, roomLifecycleHandler, audioRegionController, projectController));
+app.use("/api", createRoutes(roomHandlers, roomLifecycleHandler, audioRegionController, projectController, midiFileController, mixdownController, broadcastArchiveController, iceServerController, roomBanController));
 
 // Performance monitoring routes (skip if optimization service is disabled)
 import { createPerformanceRoutes } from "./routes/performance";
@@ -367,6 +448,18 @@ setInterval(() => {
   deletedRooms.forEach((roomId) => {
     namespaceManager.cleanupRoomNamespace(roomId);
     namespaceManager.cleanupApprovalNamespace(roomId);
+    sessionRecordingHandler.clearRoom(roomId);
+    performBroadcastHandler.clearRoom(roomId);
+    notePlayingHandler.clearRoom(roomId);
+    chatHandler.clearRoom(roomId);
+    roomBanService.clearRoom(roomId);
+    if (arrangeRoomStateService.getState(roomId)) {
+      // Also drops the room's persisted snapshot, journal and undo history
+      arrangeRoomStateService.clearState(roomId);
+      void audioRegionStorageService.deleteRoomAudio(roomId).catch((error) => {
+        loggingService.logError(error as Error, { context: 'cleanup:deleteRoomAudio', roomId });
+      });
+    }
     // Broadcast to all clients that the room was closed
     io.emit("room_closed_broadcast", { roomId });
     loggingService.logInfo(
@@ -376,6 +469,16 @@ setInterval(() => {
   });
 }, 30000); // Run every 30 seconds
 
+// Expire arrange lock leases that were not renewed and hand them to queued users
+setInterval(() => {
+  arrangeRoomHandler.expireLocks((roomId) => namespaceManager.getRoomNamespace(roomId));
+}, 5000); // Run every 5 seconds
+
+// Report broadcast pipeline health to performance monitoring
+setInterval(() => {
+  performanceMonitoring.recordBroadcastHealth(broadcastPipeline.getHealth());
+}, 10000); // Run every 10 seconds
+
 // Clean up expired rate limit entries
 setInterval(cleanupExpiredRateLimits, 5 * 60 * 1000); // Run every 5 minutes
 
@@ -389,35 +492,62 @@ setInterval(() => {
   loggingService.cleanupOldLogs();
 }, 60 * 60 * 1000); // Run every hour
 
-server.listen(Number(config.port), "0.0.0.0", () => {
-  const protocol =
-    config.nodeEnv === "development" && config.ssl.enabled ? "https" : "http";
+// Recreate arrange rooms persisted before the last shutdown, then start accepting connections
+const restoreArrangeRooms = async (): Promise<void> => {
+  if (!arrangeRoomPersistenceService) {
+    return;
+  }
 
-  loggingService.logInfo("Server started successfully", {
-    port: config.port,
-    protocol,
-    environment: config.nodeEnv,
-    timestamp: new Date().toISOString(),
-  });
+  try {
+    const restoredRooms = await arrangeRoomPersistenceService.restoreRooms();
+    restoredRooms.forEach((room) => {
+      const roomNamespace = namespaceManager.createRoomNamespace(room.id);
+      metronomeService.initializeRoomMetronome(room.id, roomNamespace);
+      if (room.isPrivate) {
+        namespaceManager.createApprovalNamespace(room.id);
+      }
+    });
+    if (restoredRooms.length > 0) {
+      loggingService.logInfo("Restored arrange rooms", { count: restoredRooms.length });
+    }
+  } catch (error) {
+    loggingService.logError(error as Error, { context: 'restoreArrangeRooms' });
+  }
 
-  loggingService.logInfo("Security features enabled", {
-    features: [
-      "Rate limiting",
-      "Input validation",
-      "WebRTC validation",
-      "Comprehensive logging",
-      "Performance monitoring",
-    ],
-    timestamp: new Date().toISOString(),
-  });
+  arrangeRoomPersistenceService.start();
+};
 
-  if (config.nodeEnv === "development" && config.ssl.enabled) {
-    loggingService.logInfo("Development: HTTPS enabled for WebRTC support");
-  } else if (config.nodeEnv === "production") {
-    loggingService.logInfo("Production: HTTP mode (SSL handled by Railway)");
-  } else {
-    loggingService.logInfo("Development: HTTP mode");
-  }
+void restoreArrangeRooms().then(() => {
+  server.listen(Number(config.port), "0.0.0.0", () => {
+    const protocol =
+      config.nodeEnv === "development" && config.ssl.enabled ? "https" : "http";
+
+    loggingService.logInfo("Server started successfully", {
+      port: config.port,
+      protocol,
+      environment: config.nodeEnv,
+      timestamp: new Date().toISOString(),
+    });
+
+    loggingService.logInfo("Security features enabled", {
+      features: [
+        "Rate limiting",
+        "Input validation",
+        "WebRTC validation",
+        "Comprehensive logging",
+        "Performance monitoring",
+      ],
+      timestamp: new Date().toISOString(),
+    });
+
+    if (config.nodeEnv === "development" && config.ssl.enabled) {
+      loggingService.logInfo("Development: HTTPS enabled for WebRTC support");
+    } else if (config.nodeEnv === "production") {
+      loggingService.logInfo("Production: HTTP mode (SSL handled by Railway)");
+    } else {
+      loggingService.logInfo("Development: HTTP mode");
+    }
+  });
 });
 
 // Graceful shutdown handling
@@ -427,6 +557,9 @@ const gracefulShutdown = (signal: string) => {
   server.close(() => {
     loggingService.logInfo("HTTP server closed");
 
+    // Stop broadcasts so their sinks can flush
+    broadcastPipeline.shutdown();
+
     // Shutdown performance monitoring services
     performanceMonitoring.shutdown();
     connectionHealth.shutdown();
@@ -444,8 +577,12 @@ const gracefulShutdown = (signal: string) => {
     // Cleanup event system
     eventSystemInitializer.cleanup();
 
-    loggingService.logInfo("Graceful shutdown complete");
-    process.exit(0);
+    // Write out unsaved arrange room changes before exiting
+    arrangeRoomPersistenceService?.stop();
+    void (arrangeRoomPersistenceService?.flush() ?? Promise.resolve()).finally(() => {
+      loggingService.logInfo("Graceful shutdown complete");
+      process.exit(0);
+    });
   });
 
   // Force shutdown after 30 seconds
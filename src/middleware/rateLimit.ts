@@ -56,6 +56,47 @@ export const hlsLimiter = rateLimit({
   }
 });
 
+// ICE server credentials - clients refresh them before they expire, so a few per minute is plenty
+export const iceServersLimiter = rateLimit({
+  windowMs: 60 * 1000, // 1 minute
+  max: 20, // 20 requests per minute per user
+  message: {
+    error: 'Too many ICE server requests, please try again later.',
+    retryAfter: '1 minute'
+  },
+  standardHeaders: true,
+  legacyHeaders: false,
+  keyGenerator: (req: Request) => {
+    // Runs after authentication: rate limit per user, falling back to IP
+    const userId = (req as Request & { user?: { id: string } }).user?.id;
+    return userId || req.ip || 'unknown';
+  }
+});
+
+// Shared project downloads - public and carry the project's audio, so kept well below the API limit
+export const sharedProjectLimiter = rateLimit({
+  windowMs: 60 * 1000, // 1 minute
+  max: 30, // 30 requests per minute per IP
+  message: {
+    error: 'Too many shared project requests, please try again later.',
+    retryAfter: '1 minute'
+  },
+  standardHeaders: true,
+  legacyHeaders: false
+});
+
+// Archived broadcast listings - browsed by hand, so well below the HLS polling limit
+export const broadcastArchiveListLimiter = rateLimit({
+  windowMs: 60 * 1000, // 1 minute
+  max: 60, // 60 requests per minute per IP
+  message: {
+    error: 'Too many broadcast listing requests, please try again later.',
+    retryAfter: '1 minute'
+  },
+  standardHeaders: true,
+  legacyHeaders: false
+});
+
 // Socket rate limiting configuration
 export interface RateLimitConfig {
   maxEvents: number;
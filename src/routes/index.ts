@@ -7,11 +7,18 @@ import multer from 'multer';
 import os from 'os';
 import { AudioRegionController } from '../domains/arrange-room/infrastructure/controllers/AudioRegionController';
 import { ProjectController } from '../domains/arrange-room/infrastructure/controllers/ProjectController';
-import { hlsBroadcastService } from '../services/HLSBroadcastService';
-import { hlsLimiter } from '../middleware/rateLimit';
+import { MidiFileController } from '../domains/arrange-room/infrastructure/controllers/MidiFileController';
+import { MixdownController } from '../domains/arrange-room/infrastructure/controllers/MixdownController';
+import { BroadcastArchiveController } from '../domains/room-management/infrastructure/controllers/BroadcastArchiveController';
+import { IceServerController } from '../domains/real-time-communication/infrastructure/controllers/IceServerController';
+import { RoomBanController } from '../domains/room-management/infrastructure/controllers/RoomBanController';
+import { broadcastPipeline } from '../services/BroadcastPipeline';
+import { getHlsContentType } from '../services/HLSBroadcastProfiles';
+import { broadcastArchiveListLimiter, hlsLimiter, iceServersLimiter } from '../middleware/rateLimit';
 import authRoutes from './auth';
 import userPresetsRoutes from './userPresets';
 import projectsRoutes from './projects';
+import { authenticateToken, optionalAuth, AuthRequest } from '../domains/auth/infrastructure/middleware/authMiddleware';
 
 const upload = multer({
   storage: multer.diskStorage({
@@ -32,7 +39,12 @@ export const createRoutes = (
   roomHandlers: RoomHandlers,
   roomLifecycleHandler: RoomLifecycleHandler,
   audioRegionController: AudioRegionController,
-  projectController: ProjectController
+  projectController: ProjectController,
+  midiFileController: MidiFileController,
+  mixdownController: MixdownController,
+  broadcastArchiveController: BroadcastArchiveController,
+  iceServerController: IceServerController,
+  roomBanController: RoomBanController
 ): Router => {
   const router = Router();
 
@@ -42,9 +54,21 @@ export const createRoutes = (
   // User presets and settings routes
   router.use('/user', userPresetsRoutes);
 
+  // Open a saved project in a new live arrange room
+  // @ts-expect-error - Type compatibility issue with Express middleware
+  router.post('/projects/:id/open', authenticateToken, (req: AuthRequest, res) =>
+    projectController.openSavedProject(req, res)
+  );
+
   // Saved projects routes
   router.use('/projects', projectsRoutes);
 
+  // STUN/TURN servers for voice chat, with TURN credentials scoped to the user and room
+  // @ts-expect-error - Type compatibility issue with Express middleware
+  router.get('/webrtc/ice-servers', authenticateToken, iceServersLimiter, (req: AuthRequest, res) =>
+    iceServerController.getIceServers(req, res)
+  );
+
   // Simple health check endpoint (no dependencies)
   router.get('/health/simple', (req, res) => {
     res.json({
@@ -110,6 +134,17 @@ export const createRoutes = (
     return roomLifecycleHandler.handleUpdateRoomSettingsHttp(req, res);
   });
 
+  // Room bans and kick history, for the room owner
+  // @ts-expect-error - Type compatibility issue with Express middleware
+  router.get('/rooms/:roomId/bans', authenticateToken, (req: AuthRequest, res) =>
+    roomBanController.listBans(req, res)
+  );
+
+  // @ts-expect-error - Type compatibility issue with Express middleware
+  router.delete('/rooms/:roomId/bans/:userId', authenticateToken, (req: AuthRequest, res) =>
+    roomBanController.unbanUser(req, res)
+  );
+
   // Audio recording upload endpoint
   router.post(
     '/rooms/:roomId/audio/regions',
@@ -133,63 +168,41 @@ export const createRoutes = (
   router.get('/rooms/:roomId/projects', (req, res) =>
     projectController.getProject(req, res)
   );
-  // HLS Broadcast endpoints for audience streaming
-  // Use separate rate limiter for HLS (more permissive than general API)
-  // Playlist endpoint - returns the m3u8 playlist
-  router.get('/broadcast/:roomId/playlist.m3u8', hlsLimiter, (req, res) => {
-    const roomId = req.params.roomId;
-    if (!roomId) {
-      return res.status(400).json({ error: 'Room ID required' });
-    }
-    
-    const playlist = hlsBroadcastService.getPlaylist(roomId);
-    
-    if (!playlist) {
-      return res.status(404).json({ error: 'Broadcast not found or not ready' });
-    }
 
-    res.setHeader('Content-Type', 'application/vnd.apple.mpegurl');
-    res.setHeader('Cache-Control', 'no-cache, no-store, must-revalidate');
-    res.setHeader('Access-Control-Allow-Origin', '*');
-    return res.send(playlist);
-  });
+  // Standard MIDI File export of the room's arrangement
+  router.get('/rooms/:roomId/export.mid', (req, res) =>
+    midiFileController.exportRoomMidi(req, res)
+  );
 
-  // Segment endpoint - returns individual .ts segments
-  router.get('/broadcast/:roomId/:segmentName', hlsLimiter, (req, res) => {
-    const roomId = req.params.roomId;
-    const segmentName = req.params.segmentName;
-    
-    if (!roomId || !segmentName) {
-      return res.status(400).json({ error: 'Room ID and segment name required' });
-    }
-    
-    // Only allow .ts files
-    if (!segmentName.endsWith('.ts')) {
-      return res.status(400).json({ error: 'Invalid segment format' });
-    }
+  // Standard MIDI File import into the room's arrangement
+  router.post(
+    '/rooms/:roomId/import.mid',
+    upload.single('midi'),
+    (req, res) => midiFileController.importRoomMidi(req, res)
+  );
 
-    const segment = hlsBroadcastService.getSegment(roomId, segmentName);
-    
-    if (!segment) {
-      return res.status(404).json({ error: 'Segment not found' });
-    }
+  // Offline mixdown render jobs
+  router.post('/rooms/:roomId/mixdowns', (req, res) =>
+    mixdownController.startRoomMixdown(req, res)
+  );
 
-    res.setHeader('Content-Type', 'video/mp2t');
-    res.setHeader('Cache-Control', 'max-age=3600');
-    res.setHeader('Access-Control-Allow-Origin', '*');
-    return res.send(segment);
-  });
+  router.get('/rooms/:roomId/mixdowns/:jobId', (req, res) =>
+    mixdownController.getRoomMixdown(req, res)
+  );
 
+  router.get('/rooms/:roomId/mixdowns/:jobId/download', (req, res) =>
+    mixdownController.downloadRoomMixdown(req, res)
+  );
   // HLS Broadcast endpoints for audience streaming
   // Use separate rate limiter for HLS (more permissive than general API)
-  // Playlist endpoint - returns the m3u8 playlist
+  // Master playlist endpoint - lists every bitrate rendition of the broadcast
   router.get('/broadcast/:roomId/playlist.m3u8', hlsLimiter, (req, res) => {
     const roomId = req.params.roomId;
     if (!roomId) {
       return res.status(400).json({ error: 'Room ID required' });
     }
     
-    const playlist = hlsBroadcastService.getPlaylist(roomId);
+    const playlist = broadcastPipeline.getPlaylist(roomId);
     
     if (!playlist) {
       return res.status(404).json({ error: 'Broadcast not found or not ready' });
@@ -201,31 +214,70 @@ export const createRoutes = (
     return res.send(playlist);
   });
 
-  // Segment endpoint - returns individual .ts segments
-  router.get('/broadcast/:roomId/:segmentName', hlsLimiter, (req, res) => {
-    const roomId = req.params.roomId;
-    const segmentName = req.params.segmentName;
+  // Rendition endpoint - returns a rendition's media playlist, init section or segments
+  router.get('/broadcast/:roomId/:rendition/:fileName', hlsLimiter, (req, res) => {
+    const { roomId, rendition, fileName } = req.params;
     
-    if (!roomId || !segmentName) {
-      return res.status(400).json({ error: 'Room ID and segment name required' });
+    if (!roomId || !rendition || !fileName) {
+      return res.status(400).json({ error: 'Room ID, rendition and file name required' });
     }
-    
-    // Only allow .ts files
-    if (!segmentName.endsWith('.ts')) {
+
+    res.setHeader('Access-Control-Allow-Origin', '*');
+
+    if (fileName === 'playlist.m3u8') {
+      const playlist = broadcastPipeline.getRenditionPlaylist(roomId, rendition);
+      if (!playlist) {
+        return res.status(404).json({ error: 'Broadcast not found or not ready' });
+      }
+
+      res.setHeader('Content-Type', 'application/vnd.apple.mpegurl');
+      res.setHeader('Cache-Control', 'no-cache, no-store, must-revalidate');
+      return res.send(playlist);
+    }
+
+    // Only allow MPEG-TS segments and fMP4 init sections / segments
+    const contentType = getHlsContentType(fileName);
+    if (!contentType) {
       return res.status(400).json({ error: 'Invalid segment format' });
     }
 
-    const segment = hlsBroadcastService.getSegment(roomId, segmentName);
+    const segment = broadcastPipeline.getSegment(roomId, rendition, fileName);
     
     if (!segment) {
       return res.status(404).json({ error: 'Segment not found' });
     }
 
-    res.setHeader('Content-Type', 'video/mp2t');
+    res.setHeader('Content-Type', contentType);
     res.setHeader('Cache-Control', 'max-age=3600');
-    res.setHeader('Access-Control-Allow-Origin', '*');
     return res.send(segment);
   });
 
+  // Archived broadcasts (on-demand playback of past broadcasts); signed-in owners also see their private rooms' archives listed
+  // @ts-expect-error - Type compatibility issue with Express middleware
+  router.get('/broadcasts/rooms/:roomId', optionalAuth, broadcastArchiveListLimiter, (req: AuthRequest, res) =>
+    broadcastArchiveController.listRoomArchives(req, res)
+  );
+
+  // @ts-expect-error - Type compatibility issue with Express middleware
+  router.get('/broadcasts/users/:userId', optionalAuth, broadcastArchiveListLimiter, (req: AuthRequest, res) =>
+    broadcastArchiveController.listUserArchives(req, res)
+  );
+
+  router.get('/broadcasts/:archiveId', (req, res) =>
+    broadcastArchiveController.getArchive(req, res)
+  );
+
+  router.get('/broadcasts/:archiveId/playlist.m3u8', hlsLimiter, (req, res) =>
+    broadcastArchiveController.streamPlaylist(req, res)
+  );
+
+  router.get('/broadcasts/:archiveId/audio', (req, res) =>
+    broadcastArchiveController.downloadAudio(req, res)
+  );
+
+  router.get('/broadcasts/:archiveId/:rendition/:fileName', hlsLimiter, (req, res) =>
+    broadcastArchiveController.streamRenditionFile(req, res)
+  );
+
   return router;
 };
\ No newline at end of file
@@ -138,6 +138,32 @@ export function createPerformanceRoutes(
     }
   });
 
+  /**
+   * Get the health of every broadcast and its sinks
+   */
+  router.get('/broadcasts', (req: Request, res: Response) => {
+    try {
+      const broadcasts = performanceMonitoring.getBroadcastHealth();
+
+      res.json({
+        success: true,
+        data: {
+          broadcasts,
+          totalBroadcasts: broadcasts.length,
+          unhealthyBroadcasts: broadcasts.filter(b => !b.healthy).length,
+          timestamp: new Date().toISOString()
+        }
+      });
+
+    } catch (error) {
+      loggingService.logError(error as Error, { context: 'broadcast_health_endpoint' });
+      res.status(500).json({
+        success: false,
+        error: 'Failed to retrieve broadcast health'
+      });
+    }
+  });
+
   /**
    * Get connection health metrics
    * Requirements: 11.4, 11.5
@@ -1,12 +1,71 @@
-import { Router, Response, type Router as RouterType } from 'express';
+import { Router, Request, Response, type Router as RouterType } from 'express';
+import crypto from 'crypto';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
 import { projectStorageService } from '../services/ProjectStorageService';
+import { projectRevisionService, type ProjectRevisionSummary } from '../services/ProjectRevisionService';
 import { audioCompressionService } from '../services/AudioCompressionService';
 import { authenticateToken, AuthRequest } from '../domains/auth/infrastructure/middleware/authMiddleware';
+import { sharedProjectLimiter } from '../middleware/rateLimit';
 import { prisma } from '../domains/auth/infrastructure/db/prisma';
-import { getProjectLimit, isProjectLimitReached, UserType } from '../constants/projectLimits';
+import { encodeArrangementToMidi } from '../domains/arrange-room/domain/services/StandardMidiFile';
+import { toMidiFileName } from '../domains/arrange-room/infrastructure/controllers/MidiFileController';
+import { MIXDOWN_FORMATS, mixdownRenderService, type MixdownFormat, type MixdownJob } from '../services/MixdownRenderService';
+import { convertSessionRecordingToArrangement } from '../domains/arrange-room/domain/services/SessionRecordingArrangement';
+import type { AudioRegion } from '../domains/arrange-room/domain/models/ArrangeRoomState';
+import { getProjectLimit, getRevisionRetention, isProjectLimitReached, UserType } from '../constants/projectLimits';
 
 const router: RouterType = Router();
 
+/**
+ * Look up the user's type (defaults to REGISTERED)
+ */
+const getUserType = async (userId: string): Promise<UserType> => {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { userType: true },
+  });
+  return (user?.userType as UserType) || UserType.REGISTERED;
+};
+
+/**
+ * Owner-facing view of a share link
+ */
+const toShareResponse = (share: {
+  token: string;
+  createdAt: Date;
+  revokedAt: Date | null;
+  viewCount: number;
+  forkCount: number;
+}) => ({
+  token: share.token,
+  active: !share.revokedAt,
+  createdAt: share.createdAt,
+  revokedAt: share.revokedAt,
+  viewCount: share.viewCount,
+  forkCount: share.forkCount,
+});
+
+/**
+ * Look up the project behind an active share token
+ */
+const findSharedProject = async (token: string) => {
+  const share = await prisma.projectShare.findUnique({
+    where: { token },
+    include: { project: true },
+  });
+  return share && !share.revokedAt ? share : null;
+};
+
+/**
+ * Parse a revision number route/query parameter, or null if it is not a positive integer
+ */
+const parseRevision = (value: unknown): number | null => {
+  const revision = typeof value === 'string' && /^\d+$/.test(value) ? Number.parseInt(value, 10) : NaN;
+  return Number.isInteger(revision) && revision > 0 ? revision : null;
+};
+
 /**
  * GET /api/projects
  * Get all saved projects for the authenticated user
@@ -41,6 +100,150 @@ router.get('/', authenticateToken, async (req: AuthRequest, res: Response): Prom
   }
 });
 
+/**
+ * GET /api/projects/shared/:token
+ * Read-only download of a shared project (no authentication required)
+ */
+router.get('/shared/:token', sharedProjectLimiter, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const token = req.params.token;
+    if (!token) {
+      res.status(400).json({ error: 'Share token required' });
+      return;
+    }
+
+    const share = await findSharedProject(token);
+    if (!share) {
+      res.status(404).json({ error: 'Shared project not found' });
+      return;
+    }
+
+    const { project } = share;
+    const { projectJson, audioFiles } = await projectStorageService.loadProjectFiles(project.userId, project.id);
+
+    await prisma.projectShare.update({
+      where: { id: share.id },
+      data: { viewCount: { increment: 1 } },
+    });
+
+    res.json({
+      project: {
+        name: project.name,
+        roomType: project.roomType,
+        createdAt: project.createdAt,
+        updatedAt: project.updatedAt,
+      },
+      projectData: JSON.parse(projectJson),
+      audioFiles: audioFiles.map((file) => ({
+        fileName: file.fileName,
+        data: file.buffer.toString('base64'),
+      })),
+    });
+    return;
+  } catch (error) {
+    console.error('Error fetching shared project:', error);
+    res.status(500).json({ error: 'Failed to fetch shared project' });
+    return;
+  }
+});
+
+/**
+ * POST /api/projects/shared/:token/fork
+ * Copy a shared project, including its audio, into the authenticated user's library
+ */
+// @ts-expect-error - Type compatibility issue with Express middleware
+router.post('/shared/:token/fork', authenticateToken, async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const userId = req.user?.id;
+    const token = req.params.token;
+
+    if (!userId) {
+      res.status(401).json({ error: 'Unauthorized' });
+      return;
+    }
+
+    if (!token) {
+      res.status(400).json({ error: 'Share token required' });
+      return;
+    }
+
+    const share = await findSharedProject(token);
+    if (!share) {
+      res.status(404).json({ error: 'Shared project not found' });
+      return;
+    }
+
+    const userType = await getUserType(userId);
+    const projectCount = await prisma.savedProject.count({ where: { userId } });
+    if (isProjectLimitReached(projectCount, userType)) {
+      const limit = getProjectLimit(userType);
+      res.status(403).json({
+        error: 'Project limit reached',
+        message: limit === 0
+          ? 'Guests cannot save projects. Please sign up to fork projects.'
+          : `You can only save up to ${limit === Infinity ? 'unlimited' : limit} project${limit > 1 ? 's' : ''}. Please delete an existing project first.`,
+      });
+      return;
+    }
+
+    const source = share.project;
+    const name = typeof req.body?.name === 'string' && req.body.name.trim() ? req.body.name.trim() : source.name;
+    const sourceMetadata =
+      source.metadata && typeof source.metadata === 'object' && !Array.isArray(source.metadata) ? source.metadata : {};
+
+    const project = await prisma.savedProject.create({
+      data: {
+        userId,
+        name,
+        roomType: source.roomType,
+        projectData: source.projectData as any,
+        metadata: { ...sourceMetadata, forkedFrom: { projectId: source.id, shareId: share.id } },
+      },
+    });
+
+    let revision: ProjectRevisionSummary;
+    try {
+      const files = await projectStorageService.copyProjectFiles(
+        { userId: source.userId, projectId: source.id },
+        { userId, projectId: project.id }
+      );
+      revision = await projectRevisionService.createRevision(userId, project.id, {
+        ...files,
+        createdBy: userId,
+        retention: getRevisionRetention(userType),
+      });
+    } catch (fileError) {
+      console.error('Error copying forked project files:', fileError);
+      await projectStorageService.deleteProjectFiles(userId, project.id).catch(() => {});
+      await prisma.savedProject.delete({ where: { id: project.id } });
+      res.status(500).json({ error: 'Failed to copy project files' });
+      return;
+    }
+
+    await prisma.projectShare.update({
+      where: { id: share.id },
+      data: { forkCount: { increment: 1 } },
+    });
+
+    res.status(201).json({
+      project: {
+        id: project.id,
+        name: project.name,
+        roomType: project.roomType,
+        metadata: project.metadata,
+        createdAt: project.createdAt,
+        updatedAt: project.updatedAt,
+      },
+      revision,
+    });
+    return;
+  } catch (error) {
+    console.error('Error forking shared project:', error);
+    res.status(500).json({ error: 'Failed to fork project' });
+    return;
+  }
+});
+
 /**
  * GET /api/projects/:id
  * Get a specific project by ID
@@ -115,124 +318,72 @@ router.get('/:id', authenticateToken, async (req: AuthRequest, res: Response): P
 });
 
 /**
- * POST /api/projects
- * Save a new project
+ * GET /api/projects/:id/export.mid
+ * Export a saved arrange project as a Standard MIDI File
  */
 // @ts-expect-error - Type compatibility issue with Express middleware
-router.post('/', authenticateToken, async (req: AuthRequest, res: Response): Promise<void> => {
+router.get('/:id/export.mid', authenticateToken, async (req: AuthRequest, res: Response): Promise<void> => {
   try {
     const userId = req.user?.id;
+    const projectId = req.params.id;
+
     if (!userId) {
       res.status(401).json({ error: 'Unauthorized' });
       return;
     }
 
-    const { name, roomType, projectData, metadata, audioFiles } = req.body;
-
-    // Validate input
-    if (!name || !roomType || !projectData) {
-      res.status(400).json({ error: 'Missing required fields: name, roomType, projectData' });
-      return;
-    }
-
-    if (roomType !== 'perform' && roomType !== 'arrange') {
-      res.status(400).json({ error: 'Invalid roomType. Must be "perform" or "arrange"' });
+    if (!projectId) {
+      res.status(400).json({ error: 'Project ID required' });
       return;
     }
 
-    // Check project limit based on user type
-    const user = await prisma.user.findUnique({
-      where: { id: userId },
-      select: { userType: true },
-    });
-
-    const userType = (user?.userType as UserType) || UserType.REGISTERED;
-    const existingProjects = await prisma.savedProject.findMany({
-      where: { userId },
+    const project = await prisma.savedProject.findFirst({
+      where: { id: projectId, userId },
     });
 
-    if (isProjectLimitReached(existingProjects.length, userType)) {
-      const limit = getProjectLimit(userType);
-      res.status(403).json({
-        error: 'Project limit reached',
-        message: `You can only save up to ${limit === Infinity ? 'unlimited' : limit} project${limit > 1 ? 's' : ''}. Please delete an existing project first.`,
-        projects: existingProjects.map((p: { id: string; name: string; roomType: string; createdAt: Date; updatedAt: Date }) => ({
-          id: p.id,
-          name: p.name,
-          roomType: p.roomType,
-          createdAt: p.createdAt,
-          updatedAt: p.updatedAt,
-        })),
-      });
+    if (!project) {
+      res.status(404).json({ error: 'Project not found' });
       return;
     }
 
-    // Create project record
-    const project = await prisma.savedProject.create({
-      data: {
-        userId,
-        name: name.trim(),
-        roomType,
-        projectData: projectData as any,
-        metadata: metadata || {},
-      },
-    });
-
-    // Save project files to disk
-    try {
-      const projectJson = JSON.stringify(projectData, null, 2);
-      
-      // Convert base64 to buffers
-      const audioFilesBuffers =
-        audioFiles?.map((file: { fileName: string; data: string }) => ({
-          fileName: file.fileName,
-          buffer: Buffer.from(file.data, 'base64'),
-        })) || [];
-
-      // Compress audio files to Opus/WebM format (320kbps)
-      const compressedAudioFiles = audioFilesBuffers.length > 0
-        ? await audioCompressionService.compressAudioFiles(audioFilesBuffers)
-        : [];
-
-      await projectStorageService.saveProjectFiles(userId, project.id, {
-        projectJson,
-        audioFiles: compressedAudioFiles,
-      });
-    } catch (fileError) {
-      console.error('Error saving project files:', fileError);
-      // Delete the database record if file save fails
-      await prisma.savedProject.delete({ where: { id: project.id } });
-      res.status(500).json({ error: 'Failed to save project files' });
+    if (project.roomType !== 'arrange') {
+      res.status(400).json({ error: 'Only arrange projects can be exported as MIDI' });
       return;
     }
 
-    res.status(201).json({
-      project: {
-        id: project.id,
-        name: project.name,
-        roomType: project.roomType,
-        metadata: project.metadata,
-        createdAt: project.createdAt,
-        updatedAt: project.updatedAt,
-      },
+    const { projectJson } = await projectStorageService.loadProjectFiles(userId, projectId);
+    const projectData = JSON.parse(projectJson);
+
+    const midi = encodeArrangementToMidi({
+      name: project.name,
+      tracks: projectData.tracks ?? [],
+      regions: projectData.regions ?? [],
+      bpm: projectData.project?.bpm ?? 120,
+      timeSignature: projectData.project?.timeSignature ?? { numerator: 4, denominator: 4 },
+      markers: projectData.markers ?? [],
     });
+
+    res.setHeader('Content-Type', 'audio/midi');
+    res.setHeader('Content-Disposition', `attachment; filename="${toMidiFileName(project.name)}"`);
+    res.send(midi);
     return;
   } catch (error) {
-    console.error('Error saving project:', error);
-    res.status(500).json({ error: 'Failed to save project' });
+    console.error('Error exporting project MIDI:', error);
+    res.status(500).json({ error: 'Failed to export project MIDI' });
     return;
   }
 });
 
 /**
- * PUT /api/projects/:id
- * Update an existing project (save over)
+ * POST /api/projects/:id/mixdowns
+ * Queue an offline mixdown of a saved arrange project's audio tracks
  */
 // @ts-expect-error - Type compatibility issue with Express middleware
-router.put('/:id', authenticateToken, async (req: AuthRequest, res: Response): Promise<void> => {
+router.post('/:id/mixdowns', authenticateToken, async (req: AuthRequest, res: Response): Promise<void> => {
   try {
     const userId = req.user?.id;
     const projectId = req.params.id;
+    const format = req.body?.format ?? 'wav';
 
     if (!userId) {
       res.status(401).json({ error: 'Unauthorized' });
@@ -244,20 +395,13 @@ router.put('/:id', authenticateToken, async (req: AuthRequest, res: Response): P
       return;
     }
 
-    const { projectData, audioFiles } = req.body;
-
-    // Validate input
-    if (!projectData) {
-      res.status(400).json({ error: 'Missing required field: projectData' });
+    if (!MIXDOWN_FORMATS.includes(format)) {
+      res.status(400).json({ error: `Format must be one of: ${MIXDOWN_FORMATS.join(', ')}` });
       return;
     }
 
-    // Check if project exists and user owns it
     const project = await prisma.savedProject.findFirst({
-      where: {
-        id: projectId,
-        userId,
-      },
+      where: { id: projectId, userId },
     });
 
     if (!project) {
@@ -265,57 +409,843 @@ router.put('/:id', authenticateToken, async (req: AuthRequest, res: Response): P
       return;
     }
 
-    // Update project record
-    const updatedProject = await prisma.savedProject.update({
-      where: { id: projectId },
-      data: {
-        projectData: projectData as any,
-        updatedAt: new Date(),
-      },
-    });
+    if (project.roomType !== 'arrange') {
+      res.status(400).json({ error: 'Only arrange projects can be mixed down' });
+      return;
+    }
 
-    // Update project files on disk
-    try {
-      // Note: Backblaze bucket is configured to keep only the latest version,
-      // so old versions are automatically cleaned up when new files are uploaded
-      const projectJson = JSON.stringify(projectData, null, 2);
-      
-      // Convert base64 to buffers
-      const audioFilesBuffers =
-        audioFiles?.map((file: { fileName: string; data: string }) => ({
-          fileName: file.fileName,
-          buffer: Buffer.from(file.data, 'base64'),
-        })) || [];
+    const { projectJson, audioFiles } = await projectStorageService.loadProjectFiles(userId, projectId);
+    const projectData = JSON.parse(projectJson);
 
-      // Compress audio files to Opus/WebM format (320kbps)
-      const compressedAudioFiles = audioFilesBuffers.length > 0
-        ? await audioCompressionService.compressAudioFiles(audioFilesBuffers)
-        : [];
+    // The renderer reads audio from disk, so stage the project's files in a temp directory
+    const tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'mixdown-'));
+    const scope = `project:${userId}:${projectId}`;
+    let job: MixdownJob | null = null;
+    try {
+      const audioPaths = new Map<string, string>();
+      for (const audioFile of audioFiles) {
+        const filePath = path.join(tempDir, path.basename(audioFile.fileName));
+        await fs.writeFile(filePath, audioFile.buffer);
+        audioPaths.set(path.parse(audioFile.fileName).name, filePath);
+      }
 
-      await projectStorageService.saveProjectFiles(userId, projectId, {
-        projectJson,
-        audioFiles: compressedAudioFiles,
+      job = mixdownRenderService.startRender({
+        scope,
+        downloadPath: (jobId) => `/api/projects/${projectId}/mixdowns/${jobId}/download`,
+        format: format as MixdownFormat,
+        source: {
+          name: project.name,
+          bpm: projectData.project?.bpm ?? 120,
+          tracks: projectData.tracks ?? [],
+          regions: projectData.regions ?? [],
+        },
+        resolveAudioPath: (region) =>
+          audioPaths.get((region as AudioRegion & { audioFileId?: string }).audioFileId || region.id) ?? null,
+        cleanup: () => fs.rm(tempDir, { recursive: true, force: true }),
       });
-    } catch (fileError) {
-      console.error('Error updating project files:', fileError);
-      res.status(500).json({ error: 'Failed to update project files' });
-      return;
+    } finally {
+      // Once queued, the render removes the directory when it finishes
+      if (!job) {
+        await fs.rm(tempDir, { recursive: true, force: true }).catch(() => {});
+      }
     }
 
-    res.json({
-      project: {
-        id: updatedProject.id,
-        name: updatedProject.name,
-        roomType: updatedProject.roomType,
-        metadata: updatedProject.metadata,
-        createdAt: updatedProject.createdAt,
-        updatedAt: updatedProject.updatedAt,
-      },
-    });
+    res.status(202).json({ job: await mixdownRenderService.getJobStatus(job.id, scope) });
     return;
   } catch (error) {
-    console.error('Error updating project:', error);
-    res.status(500).json({ error: 'Failed to update project' });
+    console.error('Error starting project mixdown:', error);
+    res.status(500).json({ error: 'Failed to start project mixdown' });
+    return;
+  }
+});
+
+/**
+ * GET /api/projects/:id/mixdowns/:jobId
+ * Get the status of a project mixdown, including the download URL once completed
+ */
+// @ts-expect-error - Type compatibility issue with Express middleware
+router.get('/:id/mixdowns/:jobId', authenticateToken, async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const userId = req.user?.id;
+    const { id: projectId, jobId } = req.params;
+
+    if (!userId) {
+      res.status(401).json({ error: 'Unauthorized' });
+      return;
+    }
+
+    if (!projectId || !jobId) {
+      res.status(400).json({ error: 'Project ID and job ID required' });
+      return;
+    }
+
+    const job = await mixdownRenderService.getJobStatus(jobId, `project:${userId}:${projectId}`);
+    if (!job) {
+      res.status(404).json({ error: 'Mixdown job not found' });
+      return;
+    }
+
+    res.json({ job });
+    return;
+  } catch (error) {
+    console.error('Error fetching project mixdown:', error);
+    res.status(500).json({ error: 'Failed to fetch project mixdown' });
+    return;
+  }
+});
+
+/**
+ * GET /api/projects/:id/mixdowns/:jobId/download
+ * Download a completed project mixdown
+ */
+// @ts-expect-error - Type compatibility issue with Express middleware
+router.get('/:id/mixdowns/:jobId/download', authenticateToken, async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const userId = req.user?.id;
+    const { id: projectId, jobId } = req.params;
+
+    if (!userId) {
+      res.status(401).json({ error: 'Unauthorized' });
+      return;
+    }
+
+    if (!projectId || !jobId) {
+      res.status(400).json({ error: 'Project ID and job ID required' });
+      return;
+    }
+
+    const job = mixdownRenderService.getJob(jobId, `project:${userId}:${projectId}`);
+    const file = job ? await mixdownRenderService.getRenderedFile(job) : null;
+    if (!file) {
+      res.status(404).json({ error: 'Mixdown not found or not ready' });
+      return;
+    }
+
+    res.setHeader('Content-Type', file.contentType);
+    res.setHeader('Content-Disposition', `attachment; filename="${file.fileName}"`);
+    res.send(file.buffer);
+    return;
+  } catch (error) {
+    console.error('Error downloading project mixdown:', error);
+    res.status(500).json({ error: 'Failed to download project mixdown' });
+    return;
+  }
+});
+
+/**
+ * POST /api/projects/:id/convert-to-arrange
+ * Convert a recorded perform session into a new arrange project with one MIDI track per performer
+ */
+// @ts-expect-error - Type compatibility issue with Express middleware
+router.post('/:id/convert-to-arrange', authenticateToken, async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const userId = req.user?.id;
+    const projectId = req.params.id;
+
+    if (!userId) {
+      res.status(401).json({ error: 'Unauthorized' });
+      return;
+    }
+
+    if (!projectId) {
+      res.status(400).json({ error: 'Project ID required' });
+      return;
+    }
+
+    const source = await prisma.savedProject.findFirst({
+      where: { id: projectId, userId },
+    });
+
+    if (!source) {
+      res.status(404).json({ error: 'Project not found' });
+      return;
+    }
+
+    const { projectJson: sourceJson } = await projectStorageService.loadProjectFiles(userId, projectId);
+    const recording = JSON.parse(sourceJson)?.sessionRecording;
+    if (source.roomType !== 'perform' || !recording || !Array.isArray(recording.events)) {
+      res.status(400).json({ error: 'Only session recordings can be converted' });
+      return;
+    }
+
+    const userType = await getUserType(userId);
+    const projectCount = await prisma.savedProject.count({ where: { userId } });
+    if (isProjectLimitReached(projectCount, userType)) {
+      const limit = getProjectLimit(userType);
+      res.status(403).json({
+        error: 'Project limit reached',
+        message: `You can only save up to ${limit === Infinity ? 'unlimited' : limit} project${limit > 1 ? 's' : ''}. Please delete an existing project first.`,
+      });
+      return;
+    }
+
+    const arrangement = convertSessionRecordingToArrangement({
+      bpm: recording.bpm,
+      durationMs: recording.durationMs,
+      performers: recording.performers ?? [],
+      events: recording.events,
+    });
+    const name = typeof req.body?.name === 'string' && req.body.name.trim() ? req.body.name.trim() : source.name;
+    const now = new Date().toISOString();
+    const projectData = {
+      version: '1.0.0',
+      metadata: { name, createdAt: now, modifiedAt: now },
+      project: {
+        bpm: arrangement.bpm,
+        timeSignature: arrangement.timeSignature,
+        gridDivision: 16,
+        loop: { enabled: false, start: 0, end: 0 },
+        isMetronomeEnabled: true,
+        snapToGrid: true,
+      },
+      scale: { rootNote: 'C', scale: 'major' },
+      tracks: arrangement.tracks,
+      regions: arrangement.regions,
+      effectChains: {},
+      synthStates: arrangement.synthStates,
+      markers: [],
+    };
+
+    const project = await prisma.savedProject.create({
+      data: {
+        userId,
+        name,
+        roomType: 'arrange',
+        projectData: projectData as any,
+        metadata: { convertedFrom: { projectId: source.id } },
+      },
+    });
+
+    let revision: ProjectRevisionSummary;
+    try {
+      const projectJson = JSON.stringify(projectData, null, 2);
+      await projectStorageService.saveProjectFiles(userId, project.id, { projectJson });
+      revision = await projectRevisionService.createRevision(userId, project.id, {
+        projectJson,
+        createdBy: userId,
+        retention: getRevisionRetention(userType),
+      });
+    } catch (fileError) {
+      console.error('Error saving converted project files:', fileError);
+      await projectStorageService.deleteProjectFiles(userId, project.id).catch(() => {});
+      await prisma.savedProject.delete({ where: { id: project.id } });
+      res.status(500).json({ error: 'Failed to save project files' });
+      return;
+    }
+
+    res.status(201).json({
+      project: {
+        id: project.id,
+        name: project.name,
+        roomType: project.roomType,
+        metadata: project.metadata,
+        createdAt: project.createdAt,
+        updatedAt: project.updatedAt,
+      },
+      revision,
+    });
+    return;
+  } catch (error) {
+    console.error('Error converting session recording:', error);
+    res.status(500).json({ error: 'Failed to convert session recording' });
+    return;
+  }
+});
+
+/**
+ * POST /api/projects
+ * Save a new project
+ */
+// @ts-expect-error - Type compatibility issue with Express middleware
+router.post('/', authenticateToken, async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const userId = req.user?.id;
+    if (!userId) {
+      res.status(401).json({ error: 'Unauthorized' });
+      return;
+    }
+
+    const { name, roomType, projectData, metadata, audioFiles } = req.body;
+
+    // Validate input
+    if (!name || !roomType || !projectData) {
+      res.status(400).json({ error: 'Missing required fields: name, roomType, projectData' });
+      return;
+    }
+
+    if (roomType !== 'perform' && roomType !== 'arrange') {
+      res.status(400).json({ error: 'Invalid roomType. Must be "perform" or "arrange"' });
+      return;
+    }
+
+    // Check project limit based on user type
+    const userType = await getUserType(userId);
+    const existingProjects = await prisma.savedProject.findMany({
+      where: { userId },
+    });
+
+    if (isProjectLimitReached(existingProjects.length, userType)) {
+      const limit = getProjectLimit(userType);
+      res.status(403).json({
+        error: 'Project limit reached',
+        message: `You can only save up to ${limit === Infinity ? 'unlimited' : limit} project${limit > 1 ? 's' : ''}. Please delete an existing project first.`,
+        projects: existingProjects.map((p: { id: string; name: string; roomType: string; createdAt: Date; updatedAt: Date }) => ({
+          id: p.id,
+          name: p.name,
+          roomType: p.roomType,
+          createdAt: p.createdAt,
+          updatedAt: p.updatedAt,
+        })),
+      });
+      return;
+    }
+
+    // Create project record
+    const project = await prisma.savedProject.create({
+      data: {
+        userId,
+        name: name.trim(),
+        roomType,
+        projectData: projectData as any,
+        metadata: metadata || {},
+      },
+    });
+
+    // Save project files to disk and record the first revision
+    let revision: ProjectRevisionSummary;
+    try {
+      const projectJson = JSON.stringify(projectData, null, 2);
+      
+      // Convert base64 to buffers
+      const audioFilesBuffers =
+        audioFiles?.map((file: { fileName: string; data: string }) => ({
+          fileName: file.fileName,
+          buffer: Buffer.from(file.data, 'base64'),
+        })) || [];
+
+      // Compress audio files to Opus/WebM format (320kbps)
+      const compressedAudioFiles = audioFilesBuffers.length > 0
+        ? await audioCompressionService.compressAudioFiles(audioFilesBuffers)
+        : [];
+
+      await projectStorageService.saveProjectFiles(userId, project.id, {
+        projectJson,
+        audioFiles: compressedAudioFiles,
+      });
+      revision = await projectRevisionService.createRevision(userId, project.id, {
+        projectJson,
+        audioFiles: compressedAudioFiles,
+        createdBy: userId,
+        retention: getRevisionRetention(userType),
+      });
+    } catch (fileError) {
+      console.error('Error saving project files:', fileError);
+      // Delete the database record if file save fails
+      await prisma.savedProject.delete({ where: { id: project.id } });
+      res.status(500).json({ error: 'Failed to save project files' });
+      return;
+    }
+
+    res.status(201).json({
+      project: {
+        id: project.id,
+        name: project.name,
+        roomType: project.roomType,
+        metadata: project.metadata,
+        createdAt: project.createdAt,
+        updatedAt: project.updatedAt,
+      },
+      revision,
+    });
+    return;
+  } catch (error) {
+    console.error('Error saving project:', error);
+    res.status(500).json({ error: 'Failed to save project' });
+    return;
+  }
+});
+
+/**
+ * PUT /api/projects/:id
+ * Update an existing project (save over)
+ */
+// @ts-expect-error - Type compatibility issue with Express middleware
+router.put('/:id', authenticateToken, async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const userId = req.user?.id;
+    const projectId = req.params.id;
+
+    if (!userId) {
+      res.status(401).json({ error: 'Unauthorized' });
+      return;
+    }
+
+    if (!projectId) {
+      res.status(400).json({ error: 'Project ID required' });
+      return;
+    }
+
+    const { projectData, audioFiles } = req.body;
+
+    // Validate input
+    if (!projectData) {
+      res.status(400).json({ error: 'Missing required field: projectData' });
+      return;
+    }
+
+    // Check if project exists and user owns it
+    const project = await prisma.savedProject.findFirst({
+      where: {
+        id: projectId,
+        userId,
+      },
+    });
+
+    if (!project) {
+      res.status(404).json({ error: 'Project not found' });
+      return;
+    }
+
+    // Update project record
+    const updatedProject = await prisma.savedProject.update({
+      where: { id: projectId },
+      data: {
+        projectData: projectData as any,
+        updatedAt: new Date(),
+      },
+    });
+
+    // Update project files on disk and record a new revision
+    let revision: ProjectRevisionSummary;
+    try {
+      // Note: Backblaze bucket is configured to keep only the latest version,
+      // so old versions are automatically cleaned up when new files are uploaded
+      const projectJson = JSON.stringify(projectData, null, 2);
+      
+      // Convert base64 to buffers
+      const audioFilesBuffers =
+        audioFiles?.map((file: { fileName: string; data: string }) => ({
+          fileName: file.fileName,
+          buffer: Buffer.from(file.data, 'base64'),
+        })) || [];
+
+      // Compress audio files to Opus/WebM format (320kbps)
+      const compressedAudioFiles = audioFilesBuffers.length > 0
+        ? await audioCompressionService.compressAudioFiles(audioFilesBuffers)
+        : [];
+
+      await projectStorageService.saveProjectFiles(userId, projectId, {
+        projectJson,
+        audioFiles: compressedAudioFiles,
+      });
+      revision = await projectRevisionService.createRevision(userId, projectId, {
+        projectJson,
+        audioFiles: compressedAudioFiles,
+        createdBy: userId,
+        retention: getRevisionRetention(await getUserType(userId)),
+      });
+    } catch (fileError) {
+      console.error('Error updating project files:', fileError);
+      res.status(500).json({ error: 'Failed to update project files' });
+      return;
+    }
+
+    res.json({
+      project: {
+        id: updatedProject.id,
+        name: updatedProject.name,
+        roomType: updatedProject.roomType,
+        metadata: updatedProject.metadata,
+        createdAt: updatedProject.createdAt,
+        updatedAt: updatedProject.updatedAt,
+      },
+      revision,
+    });
+    return;
+  } catch (error) {
+    console.error('Error updating project:', error);
+    res.status(500).json({ error: 'Failed to update project' });
+    return;
+  }
+});
+
+/**
+ * GET /api/projects/:id/revisions
+ * List saved revisions of a project, newest first
+ */
+// @ts-expect-error - Type compatibility issue with Express middleware
+router.get('/:id/revisions', authenticateToken, async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const userId = req.user?.id;
+    const projectId = req.params.id;
+
+    if (!userId) {
+      res.status(401).json({ error: 'Unauthorized' });
+      return;
+    }
+
+    if (!projectId) {
+      res.status(400).json({ error: 'Project ID required' });
+      return;
+    }
+
+    const project = await prisma.savedProject.findFirst({
+      where: { id: projectId, userId },
+    });
+
+    if (!project) {
+      res.status(404).json({ error: 'Project not found' });
+      return;
+    }
+
+    const revisions = await projectRevisionService.listRevisions(userId, projectId);
+    res.json({ revisions });
+    return;
+  } catch (error) {
+    console.error('Error fetching project revisions:', error);
+    res.status(500).json({ error: 'Failed to fetch project revisions' });
+    return;
+  }
+});
+
+/**
+ * GET /api/projects/:id/revisions/diff?from=1&to=2
+ * Diff tracks, regions and markers between two revisions
+ */
+// @ts-expect-error - Type compatibility issue with Express middleware
+router.get('/:id/revisions/diff', authenticateToken, async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const userId = req.user?.id;
+    const projectId = req.params.id;
+
+    if (!userId) {
+      res.status(401).json({ error: 'Unauthorized' });
+      return;
+    }
+
+    if (!projectId) {
+      res.status(400).json({ error: 'Project ID required' });
+      return;
+    }
+
+    const from = parseRevision(req.query.from);
+    const to = parseRevision(req.query.to);
+    if (from === null || to === null) {
+      res.status(400).json({ error: 'Query parameters "from" and "to" must be revision numbers' });
+      return;
+    }
+
+    const project = await prisma.savedProject.findFirst({
+      where: { id: projectId, userId },
+    });
+
+    if (!project) {
+      res.status(404).json({ error: 'Project not found' });
+      return;
+    }
+
+    const diff = await projectRevisionService.diffRevisions(userId, projectId, from, to);
+    if (!diff) {
+      res.status(404).json({ error: 'Revision not found' });
+      return;
+    }
+
+    res.json({ from, to, diff });
+    return;
+  } catch (error) {
+    console.error('Error diffing project revisions:', error);
+    res.status(500).json({ error: 'Failed to diff project revisions' });
+    return;
+  }
+});
+
+/**
+ * GET /api/projects/:id/revisions/:revision
+ * Get a specific revision with its project data and audio files
+ */
+// @ts-expect-error - Type compatibility issue with Express middleware
+router.get('/:id/revisions/:revision', authenticateToken, async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const userId = req.user?.id;
+    const projectId = req.params.id;
+
+    if (!userId) {
+      res.status(401).json({ error: 'Unauthorized' });
+      return;
+    }
+
+    if (!projectId) {
+      res.status(400).json({ error: 'Project ID required' });
+      return;
+    }
+
+    const revisionNumber = parseRevision(req.params.revision);
+    if (revisionNumber === null) {
+      res.status(400).json({ error: 'Invalid revision number' });
+      return;
+    }
+
+    const project = await prisma.savedProject.findFirst({
+      where: { id: projectId, userId },
+    });
+
+    if (!project) {
+      res.status(404).json({ error: 'Project not found' });
+      return;
+    }
+
+    const revision = await projectRevisionService.getRevision(userId, projectId, revisionNumber);
+    if (!revision) {
+      res.status(404).json({ error: 'Revision not found' });
+      return;
+    }
+
+    res.json({
+      revision: revision.summary,
+      projectData: JSON.parse(revision.projectJson),
+      audioFiles: revision.audioFiles.map((file) => ({
+        fileName: file.fileName,
+        data: file.buffer.toString('base64'),
+      })),
+    });
+    return;
+  } catch (error) {
+    console.error('Error fetching project revision:', error);
+    res.status(500).json({ error: 'Failed to fetch project revision' });
+    return;
+  }
+});
+
+/**
+ * POST /api/projects/:id/revisions/:revision/restore
+ * Restore a revision as the current project. The restore is recorded as a new revision.
+ */
+// @ts-expect-error - Type compatibility issue with Express middleware
+router.post('/:id/revisions/:revision/restore', authenticateToken, async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const userId = req.user?.id;
+    const projectId = req.params.id;
+
+    if (!userId) {
+      res.status(401).json({ error: 'Unauthorized' });
+      return;
+    }
+
+    if (!projectId) {
+      res.status(400).json({ error: 'Project ID required' });
+      return;
+    }
+
+    const revisionNumber = parseRevision(req.params.revision);
+    if (revisionNumber === null) {
+      res.status(400).json({ error: 'Invalid revision number' });
+      return;
+    }
+
+    const project = await prisma.savedProject.findFirst({
+      where: { id: projectId, userId },
+    });
+
+    if (!project) {
+      res.status(404).json({ error: 'Project not found' });
+      return;
+    }
+
+    const revision = await projectRevisionService.getRevision(userId, projectId, revisionNumber);
+    if (!revision) {
+      res.status(404).json({ error: 'Revision not found' });
+      return;
+    }
+
+    // Replace the working copy; revisions are stored separately and stay untouched
+    let restoredRevision: ProjectRevisionSummary;
+    try {
+      await projectStorageService.deleteAllOldProjectFiles(userId, projectId);
+      await projectStorageService.saveProjectFiles(userId, projectId, {
+        projectJson: revision.projectJson,
+        audioFiles: revision.audioFiles,
+      });
+      restoredRevision = await projectRevisionService.createRevision(userId, projectId, {
+        projectJson: revision.projectJson,
+        audioFiles: revision.audioFiles,
+        createdBy: userId,
+        retention: getRevisionRetention(await getUserType(userId)),
+        restoredFrom: revisionNumber,
+      });
+    } catch (fileError) {
+      console.error('Error restoring project files:', fileError);
+      res.status(500).json({ error: 'Failed to restore project files' });
+      return;
+    }
+
+    const updatedProject = await prisma.savedProject.update({
+      where: { id: projectId },
+      data: {
+        projectData: JSON.parse(revision.projectJson),
+        updatedAt: new Date(),
+      },
+    });
+
+    res.json({
+      project: {
+        id: updatedProject.id,
+        name: updatedProject.name,
+        roomType: updatedProject.roomType,
+        metadata: updatedProject.metadata,
+        createdAt: updatedProject.createdAt,
+        updatedAt: updatedProject.updatedAt,
+      },
+      revision: restoredRevision,
+    });
+    return;
+  } catch (error) {
+    console.error('Error restoring project revision:', error);
+    res.status(500).json({ error: 'Failed to restore project revision' });
+    return;
+  }
+});
+
+/**
+ * POST /api/projects/:id/share
+ * Create a read-only share link for a project (returns the active one if it already exists)
+ */
+// @ts-expect-error - Type compatibility issue with Express middleware
+router.post('/:id/share', authenticateToken, async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const userId = req.user?.id;
+    const projectId = req.params.id;
+
+    if (!userId) {
+      res.status(401).json({ error: 'Unauthorized' });
+      return;
+    }
+
+    if (!projectId) {
+      res.status(400).json({ error: 'Project ID required' });
+      return;
+    }
+
+    const project = await prisma.savedProject.findFirst({
+      where: { id: projectId, userId },
+    });
+
+    if (!project) {
+      res.status(404).json({ error: 'Project not found' });
+      return;
+    }
+
+    const existingShare = await prisma.projectShare.findFirst({
+      where: { projectId, revokedAt: null },
+      orderBy: { createdAt: 'desc' },
+    });
+    if (existingShare) {
+      res.json({ share: toShareResponse(existingShare) });
+      return;
+    }
+
+    const share = await prisma.projectShare.create({
+      data: {
+        projectId,
+        token: crypto.randomBytes(24).toString('base64url'),
+      },
+    });
+
+    res.status(201).json({ share: toShareResponse(share) });
+    return;
+  } catch (error) {
+    console.error('Error sharing project:', error);
+    res.status(500).json({ error: 'Failed to share project' });
+    return;
+  }
+});
+
+/**
+ * GET /api/projects/:id/share
+ * Get the project's latest share link with its view and fork counts
+ */
+// @ts-expect-error - Type compatibility issue with Express middleware
+router.get('/:id/share', authenticateToken, async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const userId = req.user?.id;
+    const projectId = req.params.id;
+
+    if (!userId) {
+      res.status(401).json({ error: 'Unauthorized' });
+      return;
+    }
+
+    if (!projectId) {
+      res.status(400).json({ error: 'Project ID required' });
+      return;
+    }
+
+    const project = await prisma.savedProject.findFirst({
+      where: { id: projectId, userId },
+    });
+
+    if (!project) {
+      res.status(404).json({ error: 'Project not found' });
+      return;
+    }
+
+    const share = await prisma.projectShare.findFirst({
+      where: { projectId },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    res.json({ share: share ? toShareResponse(share) : null });
+    return;
+  } catch (error) {
+    console.error('Error fetching project share:', error);
+    res.status(500).json({ error: 'Failed to fetch project share' });
+    return;
+  }
+});
+
+/**
+ * DELETE /api/projects/:id/share
+ * Revoke the project's share link
+ */
+// @ts-expect-error - Type compatibility issue with Express middleware
+router.delete('/:id/share', authenticateToken, async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const userId = req.user?.id;
+    const projectId = req.params.id;
+
+    if (!userId) {
+      res.status(401).json({ error: 'Unauthorized' });
+      return;
+    }
+
+    if (!projectId) {
+      res.status(400).json({ error: 'Project ID required' });
+      return;
+    }
+
+    const project = await prisma.savedProject.findFirst({
+      where: { id: projectId, userId },
+    });
+
+    if (!project) {
+      res.status(404).json({ error: 'Project not found' });
+      return;
+    }
+
+    const { count } = await prisma.projectShare.updateMany({
+      where: { projectId, revokedAt: null },
+      data: { revokedAt: new Date() },
+    });
+
+    if (count === 0) {
+      res.status(404).json({ error: 'Project is not shared' });
+      return;
+    }
+
+    res.json({ message: 'Share link revoked' });
+    return;
+  } catch (error) {
+    console.error('Error revoking project share:', error);
+    res.status(500).json({ error: 'Failed to revoke project share' });
     return;
   }
 });
@@ -353,8 +1283,9 @@ router.delete('/:id', authenticateToken, async (req: AuthRequest, res: Response)
       return;
     }
 
-    // Delete project files from disk
+    // Delete project files and revisions from storage
     await projectStorageService.deleteProjectFiles(userId, projectId);
+    await projectRevisionService.deleteRevisions(userId, projectId);
 
     // Delete project record
     await prisma.savedProject.delete({
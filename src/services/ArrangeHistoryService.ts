@@ -0,0 +1,160 @@
+import { v4 as uuidv4 } from 'uuid';
+import type { ArrangeHistoryEntry, ArrangeOperation } from '../domains/arrange-room/domain/models/ArrangeOperation';
+import type { ArrangeRoomStateService } from './ArrangeRoomStateService';
+
+interface UserHistory {
+  undoStack: ArrangeHistoryEntry[];
+  redoStack: ArrangeHistoryEntry[];
+}
+
+export interface ArrangeHistorySummary {
+  canUndo: boolean;
+  canRedo: boolean;
+  undoLabel: string | null;
+  redoLabel: string | null;
+}
+
+const DEFAULT_MAX_HISTORY_DEPTH = 100;
+
+/**
+ * Per-room, per-user undo/redo stacks for arrange rooms.
+ * Entries only hold operations; applying them is up to the caller. A room's history is
+ * dropped whenever its state is replaced or cleared, since the recorded operations no
+ * longer match it.
+ */
+export class ArrangeHistoryService {
+  private roomHistories = new Map<string, Map<string, UserHistory>>(); // roomId -> userId -> history
+
+  constructor(
+    arrangeRoomStateService: ArrangeRoomStateService,
+    private readonly maxDepth: number = DEFAULT_MAX_HISTORY_DEPTH
+  ) {
+    arrangeRoomStateService.onStateChange((roomId, change) => {
+      if (change.type === 'replaced' || change.type === 'cleared') {
+        this.clearRoom(roomId);
+      }
+    });
+  }
+
+  /**
+   * Record a new step for a user. Discards the user's redo stack.
+   */
+  record(
+    roomId: string,
+    userId: string,
+    step: { label: string; undo: ArrangeOperation[]; redo: ArrangeOperation[]; onDiscard?: () => void }
+  ): ArrangeHistoryEntry {
+    const history = this.getOrCreateUserHistory(roomId, userId);
+
+    const entry: ArrangeHistoryEntry = {
+      id: uuidv4(),
+      userId,
+      label: step.label,
+      undo: step.undo,
+      redo: step.redo,
+      timestamp: Date.now(),
+    };
+    if (step.onDiscard) {
+      entry.onDiscard = step.onDiscard;
+    }
+
+    history.undoStack.push(entry);
+    this.discardRedoStack(history);
+    this.trimUndoStack(history);
+
+    return entry;
+  }
+
+  /**
+   * Get the entry that the next undo would revert
+   */
+  peekUndo(roomId: string, userId: string): ArrangeHistoryEntry | undefined {
+    const history = this.roomHistories.get(roomId)?.get(userId);
+    return history?.undoStack[history.undoStack.length - 1];
+  }
+
+  /**
+   * Get the entry that the next redo would re-apply
+   */
+  peekRedo(roomId: string, userId: string): ArrangeHistoryEntry | undefined {
+    const history = this.roomHistories.get(roomId)?.get(userId);
+    return history?.redoStack[history.redoStack.length - 1];
+  }
+
+  /**
+   * Move the top undo entry onto the redo stack once its inverse has been applied
+   */
+  commitUndo(roomId: string, userId: string): ArrangeHistoryEntry | undefined {
+    const history = this.roomHistories.get(roomId)?.get(userId);
+    const entry = history?.undoStack.pop();
+    if (history && entry) {
+      history.redoStack.push(entry);
+    }
+    return entry;
+  }
+
+  /**
+   * Move the top redo entry back onto the undo stack once it has been re-applied
+   */
+  commitRedo(roomId: string, userId: string): ArrangeHistoryEntry | undefined {
+    const history = this.roomHistories.get(roomId)?.get(userId);
+    const entry = history?.redoStack.pop();
+    if (history && entry) {
+      history.undoStack.push(entry);
+      this.trimUndoStack(history);
+    }
+    return entry;
+  }
+
+  getSummary(roomId: string, userId: string): ArrangeHistorySummary {
+    const undoEntry = this.peekUndo(roomId, userId);
+    const redoEntry = this.peekRedo(roomId, userId);
+    return {
+      canUndo: !!undoEntry,
+      canRedo: !!redoEntry,
+      undoLabel: undoEntry?.label ?? null,
+      redoLabel: redoEntry?.label ?? null,
+    };
+  }
+
+  /**
+   * Drop every user's history for a room, discarding the entries of both stacks
+   */
+  clearRoom(roomId: string): void {
+    const roomHistory = this.roomHistories.get(roomId);
+    // Removed first so discard callbacks see the room without history
+    this.roomHistories.delete(roomId);
+    roomHistory?.forEach((history) => {
+      history.undoStack.forEach((entry) => entry.onDiscard?.());
+      this.discardRedoStack(history);
+    });
+  }
+
+  private getOrCreateUserHistory(roomId: string, userId: string): UserHistory {
+    let roomHistory = this.roomHistories.get(roomId);
+    if (!roomHistory) {
+      roomHistory = new Map();
+      this.roomHistories.set(roomId, roomHistory);
+    }
+
+    let history = roomHistory.get(userId);
+    if (!history) {
+      history = { undoStack: [], redoStack: [] };
+      roomHistory.set(userId, history);
+    }
+    return history;
+  }
+
+  private discardRedoStack(history: UserHistory): void {
+    const discarded = history.redoStack;
+    history.redoStack = [];
+    discarded.forEach((entry) => entry.onDiscard?.());
+  }
+
+  private trimUndoStack(history: UserHistory): void {
+    while (history.undoStack.length > this.maxDepth) {
+      const discarded = history.undoStack.shift();
+      discarded?.onDiscard?.();
+    }
+  }
+}
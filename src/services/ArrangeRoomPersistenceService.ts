@@ -0,0 +1,281 @@
+import { config } from '../config/environment';
+import type { Room } from '../types';
+import type { ArrangeStateChange } from '../domains/arrange-room/domain/models/ArrangeStateChange';
+import { ArrangeRoomStateService } from './ArrangeRoomStateService';
+import { RoomService } from './RoomService';
+import { projectStorageService } from './ProjectStorageService';
+import { RoomBanService, roomBanService } from './RoomBanService';
+import { loggingService } from './LoggingService';
+import type {
+  ArrangeJournalEntry,
+  ArrangeRoomSnapshot,
+  ArrangeStatePersistence,
+} from './persistence/ArrangeStatePersistence';
+
+interface PersistenceOptions {
+  snapshotIntervalMs: number;
+  // Take a snapshot once this many changes have been journaled since the last one
+  snapshotEveryChanges: number;
+  restoreGracePeriodMs: number;
+}
+
+interface RoomTracker {
+  seq: number;
+  pending: ArrangeJournalEntry[];
+  changesSinceSnapshot: number;
+  // Room settings and members as of the last snapshot, to notice changes outside the arrange state
+  roomInfoKey: string;
+  flushScheduled: boolean;
+}
+
+/**
+ * Keeps arrange rooms recoverable across restarts: every change reported by
+ * ArrangeRoomStateService is appended to the room's journal, and full snapshots are
+ * taken periodically, after bulk replacements, once the journal grows long and when the
+ * room's roles or permission matrix change.
+ */
+export class ArrangeRoomPersistenceService {
+  private readonly trackers = new Map<string, RoomTracker>();
+  // Serializes writes per room so journal appends and snapshots land in order
+  private readonly roomQueues = new Map<string, Promise<unknown>>();
+  private snapshotTimer: NodeJS.Timeout | null = null;
+  private unsubscribers: Array<() => void> = [];
+
+  constructor(
+    private roomService: RoomService,
+    private arrangeRoomStateService: ArrangeRoomStateService,
+    private persistence: ArrangeStatePersistence,
+    private options: PersistenceOptions = config.arrangePersistence,
+    private roomBans: RoomBanService = roomBanService
+  ) {}
+
+  /**
+   * Start journaling changes and taking periodic snapshots
+   */
+  start(): void {
+    if (this.unsubscribers.length > 0) {
+      return;
+    }
+    this.unsubscribers = [
+      this.arrangeRoomStateService.onStateChange((roomId, change) => this.handleChange(roomId, change)),
+      // Saved right away: a restart must never hand capabilities the owner took away back to co-hosts
+      this.roomService.onPermissionsChange((roomId) => {
+        if (this.trackers.has(roomId)) {
+          this.enqueueSnapshot(roomId);
+        }
+      }),
+    ];
+    this.snapshotTimer = setInterval(() => this.snapshotChangedRooms(), this.options.snapshotIntervalMs);
+    this.snapshotTimer.unref?.();
+  }
+
+  stop(): void {
+    this.unsubscribers.forEach((unsubscribe) => unsubscribe());
+    this.unsubscribers = [];
+    if (this.snapshotTimer) {
+      clearInterval(this.snapshotTimer);
+      this.snapshotTimer = null;
+    }
+  }
+
+  /**
+   * Recreate persisted arrange rooms and their state. Returns the rooms that were restored
+   * so the caller can set up their namespaces.
+   */
+  async restoreRooms(): Promise<Room[]> {
+    const persistedRooms = await this.persistence.loadRooms();
+    const restored: Room[] = [];
+
+    for (const { snapshot, journal } of persistedRooms) {
+      const { roomId } = snapshot;
+      if (this.roomService.getRoom(roomId)) {
+        continue;
+      }
+
+      try {
+        const room = this.roomService.restoreRoom(snapshot.room, this.options.restoreGracePeriodMs);
+        if (snapshot.room.bans) {
+          this.roomBans.restoreBans(roomId, snapshot.room.bans);
+        }
+        this.arrangeRoomStateService.restoreState(
+          roomId,
+          snapshot.state,
+          journal.map((entry) => entry.change)
+        );
+        if (snapshot.project) {
+          projectStorageService.restoreRoomProject(roomId, {
+            ...snapshot.project,
+            uploadedAt: new Date(snapshot.project.uploadedAt),
+          });
+        }
+
+        this.trackers.set(roomId, this.createTracker(journal[journal.length - 1]?.seq ?? snapshot.seq));
+        // Fold the replayed journal into a fresh snapshot
+        this.enqueueSnapshot(roomId);
+        restored.push(room);
+
+        loggingService.logInfo('Arrange room restored from persistence', {
+          roomId,
+          snapshotSeq: snapshot.seq,
+          journalEntries: journal.length,
+          members: snapshot.room.members.length,
+        });
+      } catch (error) {
+        loggingService.logError(error as Error, { context: 'ArrangeRoomPersistenceService:restoreRooms', roomId });
+      }
+    }
+
+    return restored;
+  }
+
+  /**
+   * Snapshot every room with unsaved changes and wait for all pending writes (used on shutdown)
+   */
+  async flush(): Promise<void> {
+    for (const [roomId, tracker] of this.trackers) {
+      if (tracker.changesSinceSnapshot > 0 || tracker.pending.length > 0 || this.getRoomInfoKey(roomId) !== tracker.roomInfoKey) {
+        this.enqueueSnapshot(roomId);
+      }
+    }
+    await Promise.all([...this.roomQueues.values()]);
+  }
+
+  private createTracker(seq: number): RoomTracker {
+    return { seq, pending: [], changesSinceSnapshot: 0, roomInfoKey: '', flushScheduled: false };
+  }
+
+  private handleChange(roomId: string, change: ArrangeStateChange): void {
+    if (change.type === 'cleared') {
+      this.trackers.delete(roomId);
+      this.enqueue(roomId, () => this.persistence.deleteRoom(roomId));
+      return;
+    }
+
+    let tracker = this.trackers.get(roomId);
+    if (!tracker) {
+      tracker = this.createTracker(0);
+      this.trackers.set(roomId, tracker);
+    }
+    tracker.seq += 1;
+
+    if (change.type === 'replaced') {
+      this.enqueueSnapshot(roomId);
+      return;
+    }
+
+    tracker.pending.push({ seq: tracker.seq, at: new Date().toISOString(), change });
+    tracker.changesSinceSnapshot += 1;
+
+    if (tracker.changesSinceSnapshot >= this.options.snapshotEveryChanges) {
+      this.enqueueSnapshot(roomId);
+    } else if (!tracker.flushScheduled) {
+      // Batch the changes of one tick into a single append
+      const scheduled = tracker;
+      scheduled.flushScheduled = true;
+      setImmediate(() => {
+        scheduled.flushScheduled = false;
+        // The room may have been cleared in the meantime
+        if (this.trackers.get(roomId) === scheduled) {
+          this.enqueue(roomId, () => this.persistence.appendJournal(roomId, scheduled.pending.splice(0)));
+        }
+      });
+    }
+  }
+
+  private snapshotChangedRooms(): void {
+    for (const [roomId, tracker] of this.trackers) {
+      if (tracker.changesSinceSnapshot > 0 || this.getRoomInfoKey(roomId) !== tracker.roomInfoKey) {
+        this.enqueueSnapshot(roomId);
+      }
+    }
+  }
+
+  private getRoomInfoKey(roomId: string): string {
+    const room = this.roomService.getRoom(roomId);
+    const members = this.roomService
+      .getReconnectableUsers(roomId)
+      .map((user) => `${user.id}:${user.role}`)
+      .sort()
+      .join(',');
+    return JSON.stringify([
+      members,
+      room?.metronome.bpm,
+      room?.metronome.timeSignature,
+      room?.permissions,
+      this.roomBans.getBans(roomId),
+    ]);
+  }
+
+  private enqueueSnapshot(roomId: string): void {
+    const tracker = this.trackers.get(roomId);
+    if (tracker) {
+      tracker.changesSinceSnapshot = 0;
+    }
+
+    this.enqueue(roomId, async () => {
+      // Built when the write runs, so it covers every change made up to that point
+      const snapshot = this.buildSnapshot(roomId);
+      const current = this.trackers.get(roomId);
+      if (!snapshot || !current) {
+        return;
+      }
+      current.pending = current.pending.filter((entry) => entry.seq > snapshot.seq);
+      current.roomInfoKey = this.getRoomInfoKey(roomId);
+      await this.persistence.saveSnapshot(snapshot);
+    });
+  }
+
+  private buildSnapshot(roomId: string): ArrangeRoomSnapshot | null {
+    const room = this.roomService.getRoom(roomId);
+    const state = this.arrangeRoomStateService.getPersistedState(roomId);
+    const tracker = this.trackers.get(roomId);
+    if (!room || room.roomType !== 'arrange' || !state || !tracker) {
+      return null;
+    }
+
+    const snapshot: ArrangeRoomSnapshot = {
+      version: 1,
+      roomId,
+      seq: tracker.seq,
+      savedAt: new Date().toISOString(),
+      room: {
+        id: room.id,
+        name: room.name,
+        owner: room.owner,
+        isPrivate: room.isPrivate,
+        isHidden: room.isHidden,
+        createdAt: new Date(room.createdAt).toISOString(),
+        metronomeBpm: room.metronome.bpm,
+        ...(room.metronome.timeSignature && { timeSignature: { ...room.metronome.timeSignature } }),
+        members: this.roomService.getReconnectableUsers(roomId),
+        bans: this.roomBans.getBans(roomId),
+        ...(room.permissions && { permissions: room.permissions }),
+      },
+      state,
+    };
+    if (room.description) {
+      snapshot.room.description = room.description;
+    }
+
+    const project = projectStorageService.getProject(roomId);
+    if (project) {
+      snapshot.project = { ...project, uploadedAt: project.uploadedAt.toISOString() };
+    }
+    return snapshot;
+  }
+
+  private enqueue(roomId: string, task: () => Promise<void>): void {
+    const previous = this.roomQueues.get(roomId) ?? Promise.resolve();
+    const next = previous
+      .then(task)
+      .catch((error) => {
+        loggingService.logError(error as Error, { context: 'ArrangeRoomPersistenceService', roomId });
+      });
+    this.roomQueues.set(roomId, next);
+    void next.then(() => {
+      if (this.roomQueues.get(roomId) === next) {
+        this.roomQueues.delete(roomId);
+      }
+    });
+  }
+}
@@ -1,7 +1,85 @@
-import type { ArrangeRoomState, LockInfo, Track, Region } from '../domains/arrange-room/domain/models/ArrangeRoomState';
+import type {
+  ArrangeRoomState,
+  LockInfo,
+  LockWaiter,
+  Track,
+  Region,
+  MidiNote,
+  SustainEvent,
+  PersistedArrangeState,
+} from '../domains/arrange-room/domain/models/ArrangeRoomState';
+import type { ArrangeOperation, MidiElementOperation } from '../domains/arrange-room/domain/models/ArrangeOperation';
+import type { ArrangeJournalChange, ArrangeStateChange } from '../domains/arrange-room/domain/models/ArrangeStateChange';
+import { MidiRegionClock, type MidiElementKind } from '../domains/arrange-room/domain/models/MidiRegionClock';
+
+/**
+ * Pick the current values of every key being updated, so the update can be reverted
+ */
+const pickPrevious = <T extends object>(current: T, updates: Partial<T>): Partial<T> => {
+  const previous: Record<string, unknown> = {};
+  for (const key of Object.keys(updates)) {
+    previous[key] = (current as Record<string, unknown>)[key];
+  }
+  return previous as Partial<T>;
+};
+
+type MidiElement = MidiNote | SustainEvent;
+
+export interface MidiMergeResult {
+  applied: boolean;
+  kind: MidiElementKind;
+  elementId: string;
+  // The operation as it landed (updates narrowed to the fields that won)
+  operation: MidiElementOperation;
+  inverse: ArrangeOperation[];
+  // Element after the merge, or null when it does not exist
+  element: MidiElement | null;
+  clock: number;
+}
+
+const getMidiElementId = (operation: MidiElementOperation): string => {
+  switch (operation.type) {
+    case 'note_add':
+      return operation.note.id;
+    case 'note_update':
+    case 'note_delete':
+      return operation.noteId;
+    case 'sustain_add':
+      return operation.sustainEvent.id;
+    case 'sustain_update':
+    case 'sustain_delete':
+      return operation.sustainEventId;
+  }
+};
+
+const DEFAULT_LOCK_LEASE_MS = 30000;
 
 export class ArrangeRoomStateService {
   private roomStates = new Map<string, ArrangeRoomState>();
+  private midiClocks = new Map<string, Map<string, MidiRegionClock>>(); // roomId -> regionId -> clock
+  private lockQueues = new Map<string, Map<string, LockWaiter[]>>(); // roomId -> elementId -> waiters (FIFO)
+  private changeListeners = new Set<(roomId: string, change: ArrangeStateChange) => void>();
+  // Changes replayed from persistence are not reported again
+  private restoring = false;
+
+  constructor(private readonly lockLeaseMs: number = DEFAULT_LOCK_LEASE_MS) {}
+
+  /**
+   * Subscribe to persistable changes. Returns an unsubscribe function.
+   */
+  onStateChange(listener: (roomId: string, change: ArrangeStateChange) => void): () => void {
+    this.changeListeners.add(listener);
+    return () => {
+      this.changeListeners.delete(listener);
+    };
+  }
+
+  private emitChange(roomId: string, change: ArrangeStateChange): void {
+    if (this.restoring) {
+      return;
+    }
+    this.changeListeners.forEach((listener) => listener(roomId, change));
+  }
 
   /**
    * Get the current state for a room
@@ -31,6 +109,7 @@ export class ArrangeRoomStateService {
       lastUpdated: new Date(),
     };
     this.roomStates.set(roomId, state);
+    this.emitChange(roomId, { type: 'replaced' });
     return state;
   }
 
@@ -65,9 +144,11 @@ export class ArrangeRoomStateService {
       throw new Error(`Room state not found for room: ${roomId}`);
     }
 
-    return this.updateState(roomId, {
+    const updatedState = this.updateState(roomId, {
       tracks: [...state.tracks, track],
     });
+    this.emitChange(roomId, { type: 'operation', operation: { type: 'track_add', track } });
+    return updatedState;
   }
 
   /**
@@ -79,9 +160,11 @@ export class ArrangeRoomStateService {
       throw new Error(`Room state not found for room: ${roomId}`);
     }
 
-    return this.updateState(roomId, {
+    const updatedState = this.updateState(roomId, {
       tracks: state.tracks.map((t) => (t.id === trackId ? { ...t, ...updates } : t)),
     });
+    this.emitChange(roomId, { type: 'operation', operation: { type: 'track_update', trackId, updates } });
+    return updatedState;
   }
 
   /**
@@ -96,18 +179,21 @@ export class ArrangeRoomStateService {
     // Also remove regions associated with this track
     const regionsToRemove = state.regions.filter((r) => r.trackId === trackId).map((r) => r.id);
     const updatedRegions = state.regions.filter((r) => r.trackId !== trackId);
+    regionsToRemove.forEach((regionId) => this.midiClocks.get(roomId)?.delete(regionId));
 
     // Remove effect chain for this track
     const chainType = `track:${trackId}`;
     const { [chainType]: _removedChain, ...remainingChains } = state.effectChains;
 
-    return this.updateState(roomId, {
+    const updatedState = this.updateState(roomId, {
       tracks: state.tracks.filter((t) => t.id !== trackId),
       regions: updatedRegions,
       effectChains: remainingChains,
       selectedTrackId: state.selectedTrackId === trackId ? null : state.selectedTrackId,
       selectedRegionIds: state.selectedRegionIds.filter((id) => !regionsToRemove.includes(id)),
     });
+    this.emitChange(roomId, { type: 'operation', operation: { type: 'track_delete', trackId } });
+    return updatedState;
   }
 
   /**
@@ -131,9 +217,11 @@ export class ArrangeRoomStateService {
     const existingIds = new Set(trackIds);
     const remainingTracks = state.tracks.filter((track) => !existingIds.has(track.id));
     
-    return this.updateState(roomId, {
+    const updatedState = this.updateState(roomId, {
       tracks: [...reorderedTracks, ...remainingTracks],
     });
+    this.emitChange(roomId, { type: 'operation', operation: { type: 'track_reorder', trackIds } });
+    return updatedState;
   }
 
   /**
@@ -145,6 +233,9 @@ export class ArrangeRoomStateService {
       throw new Error(`Room state not found for room: ${roomId}`);
     }
 
+    // A re-added region starts with fresh merge history
+    this.midiClocks.get(roomId)?.delete(region.id);
+
     // Update track's regionIds
     const updatedTracks = state.tracks.map((t) =>
       t.id === region.trackId && !t.regionIds.includes(region.id)
@@ -152,16 +243,27 @@ export class ArrangeRoomStateService {
         : t
     );
 
-    return this.updateState(roomId, {
+    const updatedState = this.updateState(roomId, {
       tracks: updatedTracks,
       regions: [...state.regions, region],
     });
+    this.emitChange(roomId, { type: 'operation', operation: { type: 'region_add', region } });
+    return updatedState;
   }
 
   /**
-   * Update a region
+   * Update a region. Replacing notes or sustain events wholesale resets their merge history.
    */
   updateRegion(roomId: string, regionId: string, updates: Partial<Region>): ArrangeRoomState {
+    const updatedState = this.applyRegionUpdate(roomId, regionId, updates);
+    if ('notes' in updates || 'sustainEvents' in updates) {
+      this.midiClocks.get(roomId)?.get(regionId)?.reset();
+    }
+    this.emitChange(roomId, { type: 'operation', operation: { type: 'region_update', regionId, updates } });
+    return updatedState;
+  }
+
+  private applyRegionUpdate(roomId: string, regionId: string, updates: Partial<Region>): ArrangeRoomState {
     const state = this.getState(roomId);
     if (!state) {
       throw new Error(`Room state not found for room: ${roomId}`);
@@ -200,11 +302,15 @@ export class ArrangeRoomStateService {
   }
 
   setBpm(roomId: string, bpm: number): ArrangeRoomState {
-    return this.updateState(roomId, { bpm });
+    const updatedState = this.updateState(roomId, { bpm });
+    this.emitChange(roomId, { type: 'operation', operation: { type: 'bpm_change', bpm } });
+    return updatedState;
   }
 
   setTimeSignature(roomId: string, timeSignature: { numerator: number; denominator: number }): ArrangeRoomState {
-    return this.updateState(roomId, { timeSignature });
+    const updatedState = this.updateState(roomId, { timeSignature });
+    this.emitChange(roomId, { type: 'operation', operation: { type: 'time_signature_change', timeSignature } });
+    return updatedState;
   }
 
   updateSynthParams(roomId: string, trackId: string, params: Record<string, unknown>): ArrangeRoomState {
@@ -213,12 +319,14 @@ export class ArrangeRoomStateService {
       throw new Error(`Room state not found for room: ${roomId}`);
     }
     const currentSynth = state.synthStates[trackId] ?? {};
-    return this.updateState(roomId, {
+    const updatedState = this.updateState(roomId, {
       synthStates: {
         ...state.synthStates,
         [trackId]: { ...currentSynth, ...params },
       },
     });
+    this.emitChange(roomId, { type: 'synth_params', trackId, params });
+    return updatedState;
   }
 
   /**
@@ -230,6 +338,8 @@ export class ArrangeRoomStateService {
       throw new Error(`Room state not found for room: ${roomId}`);
     }
 
+    this.midiClocks.get(roomId)?.delete(regionId);
+
     const region = state.regions.find((r) => r.id === regionId);
     const updatedTracks = region
       ? state.tracks.map((t) =>
@@ -239,33 +349,243 @@ export class ArrangeRoomStateService {
         )
       : state.tracks;
 
-    return this.updateState(roomId, {
+    const updatedState = this.updateState(roomId, {
       tracks: updatedTracks,
       regions: state.regions.filter((r) => r.id !== regionId),
       selectedRegionIds: state.selectedRegionIds.filter((id) => id !== regionId),
     });
+    this.emitChange(roomId, { type: 'operation', operation: { type: 'region_delete', regionId } });
+    return updatedState;
+  }
+
+  /**
+   * Merge a note or sustain event edit into its region.
+   * The edit is stamped with the author's last seen region clock, so concurrent
+   * edits to different elements (or different fields) all land, and conflicting
+   * writes resolve the same way regardless of arrival order.
+   */
+  applyMidiOperation(
+    roomId: string,
+    operation: MidiElementOperation,
+    author: { userId: string; clock?: number }
+  ): MidiMergeResult {
+    const region = this.getMidiRegion(roomId, operation.regionId);
+    const kind: MidiElementKind = operation.type.startsWith('note_') ? 'note' : 'sustain';
+    const elements: MidiElement[] = kind === 'note' ? region.notes : region.sustainEvents;
+    const elementId = getMidiElementId(operation);
+    const existing = elements.find((e) => e.id === elementId) ?? null;
+
+    const clock = this.getOrCreateMidiClock(roomId, operation.regionId);
+    const stamp = clock.stamp(author.userId, author.clock);
+    const rejected: MidiMergeResult = {
+      applied: false,
+      kind,
+      elementId,
+      operation,
+      inverse: [],
+      element: existing,
+      clock: clock.current,
+    };
+
+    let applied: MidiElementOperation;
+    let nextElements: MidiElement[];
+    switch (operation.type) {
+      case 'note_add':
+      case 'sustain_add': {
+        const element = operation.type === 'note_add' ? operation.note : operation.sustainEvent;
+        if (existing || !clock.canInsert(kind, elementId, stamp)) {
+          return rejected;
+        }
+        clock.recordInsert(kind, elementId, Object.keys(element), stamp);
+        applied = operation;
+        nextElements = [...elements, element];
+        break;
+      }
+      case 'note_update':
+      case 'sustain_update': {
+        if (!existing) {
+          return rejected;
+        }
+        const accepted = clock.acceptFields(kind, elementId, Object.keys(operation.updates), stamp);
+        if (accepted.length === 0) {
+          return rejected;
+        }
+        const updates = Object.fromEntries(
+          Object.entries(operation.updates).filter(([field]) => accepted.includes(field))
+        );
+        applied = { ...operation, updates } as MidiElementOperation;
+        nextElements = elements.map((e) => (e.id === elementId ? { ...e, ...updates } : e));
+        break;
+      }
+      case 'note_delete':
+      case 'sustain_delete':
+        if (!existing || !clock.canDelete(stamp)) {
+          return rejected;
+        }
+        clock.recordDelete(kind, elementId, stamp);
+        applied = operation;
+        nextElements = elements.filter((e) => e.id !== elementId);
+        break;
+    }
+
+    const inverse = this.invertOperation(roomId, applied);
+    this.applyRegionUpdate(
+      roomId,
+      operation.regionId,
+      kind === 'note' ? { notes: nextElements as MidiNote[] } : { sustainEvents: nextElements as SustainEvent[] }
+    );
+    this.emitChange(roomId, { type: 'operation', operation: applied });
+
+    return {
+      applied: true,
+      kind,
+      elementId,
+      operation: applied,
+      inverse,
+      element: nextElements.find((e) => e.id === elementId) ?? null,
+      clock: clock.current,
+    };
+  }
+
+  /**
+   * Current merge clock of a MIDI region (0 before any element edit)
+   */
+  getMidiClock(roomId: string, regionId: string): number {
+    return this.midiClocks.get(roomId)?.get(regionId)?.current ?? 0;
   }
 
   /**
-   * Acquire a lock
+   * Merge clocks of every MIDI region with element edits, for late joiners
    */
-  acquireLock(roomId: string, elementId: string, lockInfo: LockInfo): boolean {
+  getMidiClocks(roomId: string): Record<string, number> {
+    const clocks: Record<string, number> = {};
+    this.midiClocks.get(roomId)?.forEach((clock, regionId) => {
+      clocks[regionId] = clock.current;
+    });
+    return clocks;
+  }
+
+  private getOrCreateMidiClock(roomId: string, regionId: string): MidiRegionClock {
+    let roomClocks = this.midiClocks.get(roomId);
+    if (!roomClocks) {
+      roomClocks = new Map();
+      this.midiClocks.set(roomId, roomClocks);
+    }
+
+    let clock = roomClocks.get(regionId);
+    if (!clock) {
+      clock = new MidiRegionClock();
+      roomClocks.set(regionId, clock);
+    }
+    return clock;
+  }
+
+  private getMidiRegion(roomId: string, regionId: string) {
+    const state = this.getState(roomId);
+    if (!state) {
+      throw new Error(`Room state not found for room: ${roomId}`);
+    }
+
+    const region = state.regions.find((r) => r.id === regionId);
+    if (!region || region.type !== 'midi') {
+      throw new Error(`MIDI region ${regionId} not found in room ${roomId}`);
+    }
+    return region;
+  }
+
+  /**
+   * Acquire a lock, or renew it when the user already holds it.
+   * Expired leases count as free.
+   */
+  acquireLock(roomId: string, elementId: string, lockInfo: Omit<LockInfo, 'expiresAt'>): boolean {
     const state = this.getState(roomId);
     if (!state) {
       return false;
     }
 
     // Check if already locked by someone else
-    const existingLock = state.locks.get(elementId);
+    const existingLock = this.isLocked(roomId, elementId);
     if (existingLock && existingLock.userId !== lockInfo.userId) {
       return false; // Lock conflict
     }
 
+    this.setLock(roomId, elementId, lockInfo);
+    this.leaveLockQueue(roomId, elementId, lockInfo.userId);
+    return true;
+  }
+
+  /**
+   * Take a lock regardless of who holds it (room owner override).
+   * Returns the lock that was replaced, if any.
+   */
+  stealLock(roomId: string, elementId: string, lockInfo: Omit<LockInfo, 'expiresAt'>): LockInfo | null {
+    const previous = this.isLocked(roomId, elementId);
+    this.setLock(roomId, elementId, lockInfo);
+    this.leaveLockQueue(roomId, elementId, lockInfo.userId);
+    return previous;
+  }
+
+  private setLock(roomId: string, elementId: string, lockInfo: Omit<LockInfo, 'expiresAt'>): void {
+    const state = this.getState(roomId);
+    if (!state) {
+      return;
+    }
+
     const newLocks = new Map(state.locks);
-    newLocks.set(elementId, lockInfo);
+    newLocks.set(elementId, { ...lockInfo, expiresAt: lockInfo.timestamp + this.lockLeaseMs });
 
     this.updateState(roomId, { locks: newLocks });
-    return true;
+  }
+
+  /**
+   * Extend the leases of a user's locks (all of them, or only the given elements).
+   * Returns the renewed locks with their new expiry.
+   */
+  renewLocks(roomId: string, userId: string, elementIds?: string[]): Array<{ elementId: string; expiresAt: number }> {
+    const state = this.getState(roomId);
+    if (!state) {
+      return [];
+    }
+
+    const now = Date.now();
+    const newLocks = new Map(state.locks);
+    const renewed: Array<{ elementId: string; expiresAt: number }> = [];
+    for (const [elementId, lock] of state.locks.entries()) {
+      if (lock.userId !== userId || lock.expiresAt <= now || (elementIds && !elementIds.includes(elementId))) {
+        continue;
+      }
+      const expiresAt = now + this.lockLeaseMs;
+      newLocks.set(elementId, { ...lock, expiresAt });
+      renewed.push({ elementId, expiresAt });
+    }
+
+    if (renewed.length > 0) {
+      this.updateState(roomId, { locks: newLocks });
+    }
+    return renewed;
+  }
+
+  /**
+   * Drop every lock whose lease has run out, across all rooms
+   */
+  expireLocks(now: number = Date.now()): Array<{ roomId: string; elementId: string; lock: LockInfo }> {
+    const expired: Array<{ roomId: string; elementId: string; lock: LockInfo }> = [];
+
+    for (const [roomId, state] of this.roomStates.entries()) {
+      const roomExpired = Array.from(state.locks.entries()).filter(([, lock]) => lock.expiresAt <= now);
+      if (roomExpired.length === 0) {
+        continue;
+      }
+
+      const newLocks = new Map(state.locks);
+      roomExpired.forEach(([elementId, lock]) => {
+        newLocks.delete(elementId);
+        expired.push({ roomId, elementId, lock });
+      });
+      this.updateState(roomId, { locks: newLocks });
+    }
+
+    return expired;
   }
 
   /**
@@ -290,7 +610,7 @@ export class ArrangeRoomStateService {
   }
 
   /**
-   * Release all locks for a user (e.g., when they leave)
+   * Release all locks for a user (e.g., when they leave) and drop them from lock queues
    */
   releaseUserLocks(roomId: string, userId: string): string[] {
     const state = this.getState(roomId);
@@ -307,10 +627,84 @@ export class ArrangeRoomStateService {
       }
     }
 
+    this.lockQueues.get(roomId)?.forEach((_waiters, elementId) => this.leaveLockQueue(roomId, elementId, userId));
+
     this.updateState(roomId, { locks: newLocks });
     return releasedElementIds;
   }
 
+  /**
+   * Wait for a lock held by someone else. Returns the 1-based queue position.
+   */
+  queueForLock(roomId: string, elementId: string, waiter: LockWaiter): number {
+    let roomQueues = this.lockQueues.get(roomId);
+    if (!roomQueues) {
+      roomQueues = new Map();
+      this.lockQueues.set(roomId, roomQueues);
+    }
+
+    const queue = roomQueues.get(elementId) ?? [];
+    const existingIndex = queue.findIndex((w) => w.userId === waiter.userId);
+    if (existingIndex !== -1) {
+      queue[existingIndex] = waiter;
+      return existingIndex + 1;
+    }
+
+    queue.push(waiter);
+    roomQueues.set(elementId, queue);
+    return queue.length;
+  }
+
+  leaveLockQueue(roomId: string, elementId: string, userId: string): boolean {
+    const roomQueues = this.lockQueues.get(roomId);
+    const queue = roomQueues?.get(elementId);
+    if (!roomQueues || !queue) {
+      return false;
+    }
+
+    const remaining = queue.filter((waiter) => waiter.userId !== userId);
+    if (remaining.length === queue.length) {
+      return false;
+    }
+
+    if (remaining.length > 0) {
+      roomQueues.set(elementId, remaining);
+    } else {
+      roomQueues.delete(elementId);
+      if (roomQueues.size === 0) {
+        this.lockQueues.delete(roomId);
+      }
+    }
+    return true;
+  }
+
+  getRoomIdsWithLockQueues(): string[] {
+    return Array.from(this.lockQueues.keys());
+  }
+
+  /**
+   * Hand free locks to the first user waiting for each of them.
+   * Returns the locks that were granted.
+   */
+  grantQueuedLocks(roomId: string): Array<{ elementId: string; lock: LockInfo }> {
+    const roomQueues = this.lockQueues.get(roomId);
+    if (!roomQueues) {
+      return [];
+    }
+
+    const granted: Array<{ elementId: string; lock: LockInfo }> = [];
+    for (const [elementId, queue] of Array.from(roomQueues.entries())) {
+      const next = queue[0];
+      if (!next || this.isLocked(roomId, elementId)) {
+        continue;
+      }
+      if (this.acquireLock(roomId, elementId, { ...next, timestamp: Date.now() })) {
+        granted.push({ elementId, lock: this.isLocked(roomId, elementId)! });
+      }
+    }
+    return granted;
+  }
+
   /**
    * Update selection state
    */
@@ -325,7 +719,12 @@ export class ArrangeRoomStateService {
    * Clear state for a room
    */
   clearState(roomId: string): void {
-    this.roomStates.delete(roomId);
+    const existed = this.roomStates.delete(roomId);
+    this.midiClocks.delete(roomId);
+    this.lockQueues.delete(roomId);
+    if (existed) {
+      this.emitChange(roomId, { type: 'cleared' });
+    }
   }
 
   setVoiceState(roomId: string, userId: string, isMuted: boolean): void {
@@ -395,7 +794,9 @@ export class ArrangeRoomStateService {
     if (!state) {
       return null;
     }
-    return state.locks.get(elementId) || null;
+    const lock = state.locks.get(elementId);
+    // An expired lease no longer blocks anyone, even before the expiry sweep removes it
+    return lock && lock.expiresAt > Date.now() ? lock : null;
   }
 
   /**
@@ -407,9 +808,11 @@ export class ArrangeRoomStateService {
       throw new Error(`Room state not found for room: ${roomId}`);
     }
 
-    return this.updateState(roomId, {
+    const updatedState = this.updateState(roomId, {
       markers: [...state.markers, marker].sort((a, b) => a.position - b.position),
     });
+    this.emitChange(roomId, { type: 'operation', operation: { type: 'marker_add', marker } });
+    return updatedState;
   }
 
   /**
@@ -421,11 +824,13 @@ export class ArrangeRoomStateService {
       throw new Error(`Room state not found for room: ${roomId}`);
     }
 
-    return this.updateState(roomId, {
+    const updatedState = this.updateState(roomId, {
       markers: state.markers
         .map((m) => (m.id === markerId ? { ...m, ...updates } : m))
         .sort((a, b) => a.position - b.position),
     });
+    this.emitChange(roomId, { type: 'operation', operation: { type: 'marker_update', markerId, updates } });
+    return updatedState;
   }
 
   /**
@@ -437,9 +842,11 @@ export class ArrangeRoomStateService {
       throw new Error(`Room state not found for room: ${roomId}`);
     }
 
-    return this.updateState(roomId, {
+    const updatedState = this.updateState(roomId, {
       markers: state.markers.filter((m) => m.id !== markerId),
     });
+    this.emitChange(roomId, { type: 'operation', operation: { type: 'marker_delete', markerId } });
+    return updatedState;
   }
 
   /**
@@ -460,22 +867,44 @@ export class ArrangeRoomStateService {
       throw new Error(`Room state not found for room: ${roomId}`);
     }
 
-    return this.updateState(roomId, {
+    this.midiClocks.delete(roomId);
+    const updatedState = this.updateState(roomId, {
       tracks: newState.tracks,
       regions: newState.regions,
       markers: newState.markers,
       bpm: newState.bpm,
       timeSignature: newState.timeSignature,
     });
+    this.emitChange(roomId, { type: 'replaced' });
+    return updatedState;
+  }
+
+  /**
+   * Replace the arrangement with a loaded project, keeping markers
+   */
+  loadProject(
+    roomId: string,
+    project: Pick<PersistedArrangeState, 'tracks' | 'regions' | 'bpm' | 'timeSignature' | 'synthStates' | 'effectChains'>
+  ): ArrangeRoomState {
+    this.midiClocks.delete(roomId);
+    const updatedState = this.updateState(roomId, {
+      ...project,
+      selectedTrackId: null,
+      selectedRegionIds: [],
+    });
+    this.emitChange(roomId, { type: 'replaced' });
+    return updatedState;
   }
 
   /**
    * Update room owner's scale
    */
   updateOwnerScale(roomId: string, rootNote: string, scale: 'major' | 'minor'): ArrangeRoomState {
-    return this.updateState(roomId, {
+    const updatedState = this.updateState(roomId, {
       ownerScale: { rootNote, scale },
     });
+    this.emitChange(roomId, { type: 'owner_scale', ownerScale: { rootNote, scale } });
+    return updatedState;
   }
 
   /**
@@ -493,6 +922,7 @@ export class ArrangeRoomStateService {
       lastUpdated: new Date(),
     };
     this.roomStates.set(roomId, updatedState);
+    this.emitChange(roomId, { type: 'owner_scale', ownerScale: null });
     return updatedState;
   }
 
@@ -505,12 +935,14 @@ export class ArrangeRoomStateService {
       throw new Error(`Room state not found for room: ${roomId}`);
     }
 
-    return this.updateState(roomId, {
+    const updatedState = this.updateState(roomId, {
       effectChains: {
         ...state.effectChains,
         [chainType]: effectChain,
       },
     });
+    this.emitChange(roomId, { type: 'effect_chain', chainType, effectChain });
+    return updatedState;
   }
 
   /**
@@ -523,9 +955,279 @@ export class ArrangeRoomStateService {
     }
 
     const { [chainType]: _removed, ...rest } = state.effectChains;
-    return this.updateState(roomId, {
+    const updatedState = this.updateState(roomId, {
       effectChains: rest,
     });
+    this.emitChange(roomId, { type: 'effect_chain', chainType, effectChain: null });
+    return updatedState;
   }
-}
 
+  /**
+   * The part of a room's state that is persisted across restarts
+   */
+  getPersistedState(roomId: string): PersistedArrangeState | undefined {
+    const state = this.getState(roomId);
+    if (!state) {
+      return undefined;
+    }
+
+    const persisted: PersistedArrangeState = {
+      tracks: state.tracks,
+      regions: state.regions,
+      bpm: state.bpm,
+      timeSignature: state.timeSignature,
+      synthStates: state.synthStates,
+      effectChains: state.effectChains,
+      markers: state.markers,
+    };
+    if (state.ownerScale) {
+      persisted.ownerScale = state.ownerScale;
+    }
+    return persisted;
+  }
+
+  /**
+   * Recreate a room's state from a persisted snapshot and the journal written after it.
+   * Nothing is reported to change listeners while restoring.
+   */
+  restoreState(roomId: string, snapshot: PersistedArrangeState, journal: ArrangeJournalChange[] = []): ArrangeRoomState {
+    this.restoring = true;
+    try {
+      this.roomStates.delete(roomId);
+      this.midiClocks.delete(roomId);
+      this.initializeState(roomId);
+      this.updateState(roomId, { ...snapshot, restoredAt: new Date() });
+      journal.forEach((change) => this.applyJournalChange(roomId, change));
+      return this.getState(roomId)!;
+    } finally {
+      this.restoring = false;
+    }
+  }
+
+  private applyJournalChange(roomId: string, change: ArrangeJournalChange): void {
+    switch (change.type) {
+      case 'operation':
+        this.applyOperation(roomId, change.operation);
+        return;
+      case 'synth_params':
+        this.updateSynthParams(roomId, change.trackId, change.params);
+        return;
+      case 'effect_chain':
+        if (change.effectChain) {
+          this.updateEffectChain(roomId, change.chainType, change.effectChain);
+        } else {
+          this.removeEffectChain(roomId, change.chainType);
+        }
+        return;
+      case 'owner_scale':
+        if (change.ownerScale) {
+          this.updateOwnerScale(roomId, change.ownerScale.rootNote, change.ownerScale.scale);
+        } else {
+          this.clearOwnerScale(roomId);
+        }
+        return;
+    }
+  }
+
+  /**
+   * Apply a replayable operation.
+   * Returns false without touching state when the target no longer exists (or already exists for adds).
+   */
+  applyOperation(roomId: string, operation: ArrangeOperation, userId: string = 'server'): boolean {
+    const state = this.getState(roomId);
+    if (!state) {
+      return false;
+    }
+
+    const hasTrack = (trackId: string) => state.tracks.some((t) => t.id === trackId);
+    const findRegion = (regionId: string) => state.regions.find((r) => r.id === regionId);
+    const hasMarker = (markerId: string) => state.markers.some((m) => m.id === markerId);
+
+    switch (operation.type) {
+      case 'track_add':
+        if (hasTrack(operation.track.id)) return false;
+        this.addTrack(roomId, operation.track);
+        return true;
+      case 'track_delete':
+        if (!hasTrack(operation.trackId)) return false;
+        this.removeTrack(roomId, operation.trackId);
+        return true;
+      case 'track_update':
+        if (!hasTrack(operation.trackId)) return false;
+        this.updateTrack(roomId, operation.trackId, operation.updates);
+        return true;
+      case 'track_instrument_change': {
+        if (!hasTrack(operation.trackId)) return false;
+        const updates: Partial<Track> = { instrumentId: operation.instrumentId };
+        if (operation.instrumentCategory !== undefined) {
+          updates.instrumentCategory = operation.instrumentCategory;
+        }
+        this.updateTrack(roomId, operation.trackId, updates);
+        return true;
+      }
+      case 'track_reorder':
+        this.reorderTracks(roomId, operation.trackIds);
+        return true;
+      case 'region_add':
+        if (findRegion(operation.region.id) || !hasTrack(operation.region.trackId)) return false;
+        this.addRegion(roomId, operation.region);
+        return true;
+      case 'region_update':
+        if (!findRegion(operation.regionId)) return false;
+        this.updateRegion(roomId, operation.regionId, operation.updates);
+        return true;
+      case 'region_delete':
+        if (!findRegion(operation.regionId)) return false;
+        this.removeRegion(roomId, operation.regionId);
+        return true;
+      case 'note_add':
+      case 'note_update':
+      case 'note_delete':
+      case 'sustain_add':
+      case 'sustain_update':
+      case 'sustain_delete':
+        if (findRegion(operation.regionId)?.type !== 'midi') return false;
+        return this.applyMidiOperation(roomId, operation, { userId }).applied;
+      case 'marker_add':
+        if (hasMarker(operation.marker.id)) return false;
+        this.addMarker(roomId, operation.marker);
+        return true;
+      case 'marker_update':
+        if (!hasMarker(operation.markerId)) return false;
+        this.updateMarker(roomId, operation.markerId, operation.updates);
+        return true;
+      case 'marker_delete':
+        if (!hasMarker(operation.markerId)) return false;
+        this.removeMarker(roomId, operation.markerId);
+        return true;
+      case 'effect_chain_update':
+        this.updateEffectChain(roomId, operation.chainType, operation.effectChain);
+        return true;
+      case 'bpm_change':
+        this.setBpm(roomId, operation.bpm);
+        return true;
+      case 'time_signature_change':
+        this.setTimeSignature(roomId, operation.timeSignature);
+        return true;
+    }
+  }
+
+  /**
+   * Compute the operations that revert `operation`, based on the current state.
+   * Must be called before the operation is applied.
+   */
+  invertOperation(roomId: string, operation: ArrangeOperation): ArrangeOperation[] {
+    const state = this.getState(roomId);
+    if (!state) {
+      return [];
+    }
+
+    switch (operation.type) {
+      case 'track_add':
+        return [{ type: 'track_delete', trackId: operation.track.id }];
+      case 'track_delete': {
+        const track = state.tracks.find((t) => t.id === operation.trackId);
+        if (!track) return [];
+
+        const regions = state.regions.filter((r) => r.trackId === track.id);
+        const chainType = `track:${track.id}`;
+        const effectChain = state.effectChains[chainType];
+        const inverse: ArrangeOperation[] = [
+          { type: 'track_add', track: { ...track, regionIds: [] } },
+          ...regions.map((region): ArrangeOperation => ({ type: 'region_add', region })),
+        ];
+        if (effectChain) {
+          inverse.push({ type: 'effect_chain_update', trackId: track.id, chainType, effectChain });
+        }
+        inverse.push({ type: 'track_reorder', trackIds: state.tracks.map((t) => t.id) });
+        return inverse;
+      }
+      case 'track_update': {
+        const track = state.tracks.find((t) => t.id === operation.trackId);
+        return track
+          ? [{ type: 'track_update', trackId: track.id, updates: pickPrevious(track, operation.updates) }]
+          : [];
+      }
+      case 'track_instrument_change': {
+        const track = state.tracks.find((t) => t.id === operation.trackId);
+        if (!track) return [];
+        if (track.instrumentId === undefined) {
+          const updates: Partial<Track> = { instrumentId: operation.instrumentId };
+          if (operation.instrumentCategory !== undefined) {
+            updates.instrumentCategory = operation.instrumentCategory;
+          }
+          return [{ type: 'track_update', trackId: track.id, updates: pickPrevious(track, updates) }];
+        }
+        const inverse: ArrangeOperation = { type: 'track_instrument_change', trackId: track.id, instrumentId: track.instrumentId };
+        if (track.instrumentCategory !== undefined) {
+          inverse.instrumentCategory = track.instrumentCategory;
+        }
+        return [inverse];
+      }
+      case 'track_reorder':
+        return [{ type: 'track_reorder', trackIds: state.tracks.map((t) => t.id) }];
+      case 'region_add':
+        return [{ type: 'region_delete', regionId: operation.region.id }];
+      case 'region_update': {
+        const region = state.regions.find((r) => r.id === operation.regionId);
+        return region
+          ? [{ type: 'region_update', regionId: region.id, updates: pickPrevious(region as Partial<Region>, operation.updates) }]
+          : [];
+      }
+      case 'region_delete': {
+        const region = state.regions.find((r) => r.id === operation.regionId);
+        return region ? [{ type: 'region_add', region }] : [];
+      }
+      case 'note_add':
+        return [{ type: 'note_delete', regionId: operation.regionId, noteId: operation.note.id }];
+      case 'note_update':
+      case 'note_delete': {
+        const region = state.regions.find((r) => r.id === operation.regionId);
+        const note = region?.type === 'midi' ? region.notes.find((n) => n.id === operation.noteId) : undefined;
+        if (!note) return [];
+        return operation.type === 'note_update'
+          ? [{ type: 'note_update', regionId: operation.regionId, noteId: note.id, updates: pickPrevious(note, operation.updates) }]
+          : [{ type: 'note_add', regionId: operation.regionId, note }];
+      }
+      case 'sustain_add':
+        return [{ type: 'sustain_delete', regionId: operation.regionId, sustainEventId: operation.sustainEvent.id }];
+      case 'sustain_update':
+      case 'sustain_delete': {
+        const region = state.regions.find((r) => r.id === operation.regionId);
+        const sustainEvent =
+          region?.type === 'midi' ? region.sustainEvents.find((e) => e.id === operation.sustainEventId) : undefined;
+        if (!sustainEvent) return [];
+        return operation.type === 'sustain_update'
+          ? [{
+              type: 'sustain_update',
+              regionId: operation.regionId,
+              sustainEventId: sustainEvent.id,
+              updates: pickPrevious(sustainEvent, operation.updates),
+            }]
+          : [{ type: 'sustain_add', regionId: operation.regionId, sustainEvent }];
+      }
+      case 'marker_add':
+        return [{ type: 'marker_delete', markerId: operation.marker.id }];
+      case 'marker_update': {
+        const marker = state.markers.find((m) => m.id === operation.markerId);
+        return marker
+          ? [{ type: 'marker_update', markerId: marker.id, updates: pickPrevious(marker, operation.updates) }]
+          : [];
+      }
+      case 'marker_delete': {
+        const marker = state.markers.find((m) => m.id === operation.markerId);
+        return marker ? [{ type: 'marker_add', marker }] : [];
+      }
+      case 'effect_chain_update': {
+        const effectChain = state.effectChains[operation.chainType];
+        return effectChain
+          ? [{ type: 'effect_chain_update', trackId: operation.trackId, chainType: operation.chainType, effectChain }]
+          : [];
+      }
+      case 'bpm_change':
+        return [{ type: 'bpm_change', bpm: state.bpm }];
+      case 'time_signature_change':
+        return [{ type: 'time_signature_change', timeSignature: state.timeSignature }];
+    }
+  }
+}
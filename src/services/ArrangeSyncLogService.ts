@@ -0,0 +1,107 @@
+import { v4 as uuidv4 } from 'uuid';
+import type { ArrangeRoomStateService } from './ArrangeRoomStateService';
+
+export interface ArrangeSyncEvent {
+  seq: number;
+  event: string;
+  payload: Record<string, unknown>;
+}
+
+interface RoomSyncLog {
+  // Changes every time the log is recreated (new room, server restart), so stale sequence numbers are detectable
+  epoch: string;
+  seq: number;
+  // Oldest sequence number a client can resume from; raised by full state replacements
+  floorSeq: number;
+  buffer: Array<ArrangeSyncEvent | undefined>;
+}
+
+const DEFAULT_BUFFER_SIZE = 1000;
+
+/**
+ * Numbers every broadcast arrange room change with a per-room sequence number and keeps
+ * the most recent ones in a ring buffer, so reconnecting clients can catch up on just
+ * the changes they missed instead of reloading the full state.
+ */
+export class ArrangeSyncLogService {
+  private roomLogs = new Map<string, RoomSyncLog>();
+
+  constructor(
+    arrangeRoomStateService: ArrangeRoomStateService,
+    private readonly bufferSize: number = DEFAULT_BUFFER_SIZE
+  ) {
+    arrangeRoomStateService.onStateChange((roomId, change) => {
+      if (change.type === 'replaced') {
+        this.reset(roomId);
+      } else if (change.type === 'cleared') {
+        this.clearRoom(roomId);
+      }
+    });
+  }
+
+  getPosition(roomId: string): { epoch: string; seq: number } {
+    const log = this.getOrCreateLog(roomId);
+    return { epoch: log.epoch, seq: log.seq };
+  }
+
+  /**
+   * Assign the next sequence number to a broadcast change and keep it for catch-up
+   */
+  record(roomId: string, event: string, payload: Record<string, unknown>): ArrangeSyncEvent {
+    const log = this.getOrCreateLog(roomId);
+    log.seq += 1;
+    // Copied because broadcast payloads often share objects with the live state
+    const entry: ArrangeSyncEvent = { seq: log.seq, event, payload: structuredClone(payload) };
+    log.buffer[log.seq % this.bufferSize] = entry;
+    return entry;
+  }
+
+  /**
+   * Start a new sequence segment after a full state replacement; earlier changes
+   * can no longer be replayed on top of the new state.
+   */
+  reset(roomId: string): number {
+    const log = this.getOrCreateLog(roomId);
+    log.seq += 1;
+    log.floorSeq = log.seq;
+    log.buffer = new Array(this.bufferSize);
+    return log.seq;
+  }
+
+  /**
+   * Changes made after `seq`, or null when the buffer no longer covers the gap
+   * (or the sequence number belongs to another epoch) and a full sync is needed
+   */
+  getEventsSince(roomId: string, seq: number, epoch?: string): ArrangeSyncEvent[] | null {
+    const log = this.roomLogs.get(roomId);
+    if (!log || (epoch !== undefined && epoch !== log.epoch)) {
+      return null;
+    }
+    if (seq > log.seq || seq < log.floorSeq || seq < log.seq - this.bufferSize) {
+      return null;
+    }
+
+    const events: ArrangeSyncEvent[] = [];
+    for (let next = seq + 1; next <= log.seq; next++) {
+      const entry = log.buffer[next % this.bufferSize];
+      if (!entry || entry.seq !== next) {
+        return null;
+      }
+      events.push(entry);
+    }
+    return events;
+  }
+
+  clearRoom(roomId: string): void {
+    this.roomLogs.delete(roomId);
+  }
+
+  private getOrCreateLog(roomId: string): RoomSyncLog {
+    let log = this.roomLogs.get(roomId);
+    if (!log) {
+      log = { epoch: uuidv4(), seq: 0, floorSeq: 0, buffer: new Array(this.bufferSize) };
+      this.roomLogs.set(roomId, log);
+    }
+    return log;
+  }
+}
@@ -0,0 +1,354 @@
+import ffmpeg from 'fluent-ffmpeg';
+import ffmpegInstaller from '@ffmpeg-installer/ffmpeg';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { config } from '../config/environment';
+import { BackblazeStorageAdapter } from './storage/BackblazeStorageAdapter';
+import { LocalStorageAdapter } from './storage/LocalStorageAdapter';
+import { loggingService } from './LoggingService';
+import { prisma } from '../domains/auth/infrastructure/db/prisma';
+import {
+  buildMasterPlaylist,
+  buildVodPlaylist,
+  getHlsContentType,
+  getPlaylistDuration,
+  getPlaylistFiles,
+  type BroadcastCodec,
+} from './HLSBroadcastProfiles';
+import type { FinishedBroadcast } from './broadcast/ArchiveBroadcastSink';
+import type { StorageAdapter } from './storage/StorageAdapter';
+import type { BroadcastProfileName } from '../types';
+
+ffmpeg.setFfmpegPath(ffmpegInstaller.path);
+
+export type BroadcastArchiveStatus = 'recording' | 'processing' | 'ready' | 'failed';
+
+export interface BroadcastArchiveSummary {
+  id: string;
+  userId: string;
+  roomId: string;
+  roomName: string;
+  profile: string;
+  status: BroadcastArchiveStatus;
+  durationSeconds: number | null;
+  sizeBytes: number | null;
+  startedAt: Date;
+  endedAt: Date | null;
+  playlistUrl: string | null;
+  audioUrl: string | null;
+}
+
+export interface CreateBroadcastArchiveOptions {
+  roomId: string;
+  roomName: string;
+  userId: string;
+  profileName: BroadcastProfileName;
+  includeAudioFile: boolean;
+  isPrivate: boolean;
+  isHidden: boolean;
+}
+
+const STORAGE_PREFIX = 'broadcast-archives';
+const PLAYLIST_NAME = 'playlist.m3u8';
+const ARCHIVE_FILE_PATTERN = /^(segment|part)_\d{5}\.(ts|m4s)$|^init(_\d+)?\.mp4$|^playlist\.m3u8$/;
+
+// Copying the stream needs no re-encode; AAC goes into M4A, Opus into Ogg
+const AUDIO_FILE_FORMATS: Record<BroadcastCodec, { extension: string; contentType: string; container: string }> = {
+  aac: { extension: 'm4a', contentType: 'audio/mp4', container: 'mp4' },
+  opus: { extension: 'ogg', contentType: 'audio/ogg', container: 'ogg' },
+};
+
+const archiveKey = (archiveId: string, ...parts: string[]): string => [STORAGE_PREFIX, archiveId, ...parts].join('/');
+
+// Archives of private or hidden rooms only show up in listings for the account that recorded them
+const listedTo = (viewerId?: string) =>
+  viewerId
+    ? { OR: [{ isPrivate: false, isHidden: false }, { userId: viewerId }] }
+    : { isPrivate: false, isHidden: false };
+
+/**
+ * Archives of perform room broadcasts. A stopped broadcast's renditions are stored via the
+ * StorageAdapter as VOD playlists with their segments, optionally remuxed to one audio file,
+ * and can be listed per room or per user and streamed back.
+ */
+export class BroadcastArchiveService {
+  private readonly storageAdapter: StorageAdapter;
+  // Archives are copied one at a time so several broadcasts ending together don't compete for disk and CPU
+  private finalizeQueue: Promise<void> = Promise.resolve();
+
+  constructor(storageAdapter?: StorageAdapter) {
+    if (storageAdapter) {
+      this.storageAdapter = storageAdapter;
+    } else if (config.storage.backblaze?.enabled) {
+      try {
+        this.storageAdapter = new BackblazeStorageAdapter();
+      } catch (error) {
+        console.error('Failed to initialize Backblaze storage for broadcast archives, falling back to local storage', error);
+        this.storageAdapter = new LocalStorageAdapter(path.join(process.cwd(), 'record-audio'));
+      }
+    } else {
+      this.storageAdapter = new LocalStorageAdapter(path.join(process.cwd(), 'record-audio'));
+    }
+  }
+
+  /**
+   * Record a broadcast that is about to start; returns the archive id
+   */
+  async createArchive(options: CreateBroadcastArchiveOptions): Promise<string> {
+    const archive = await prisma.broadcastArchive.create({
+      data: {
+        userId: options.userId,
+        roomId: options.roomId,
+        roomName: options.roomName,
+        profile: options.profileName,
+        status: 'recording',
+        includeAudioFile: options.includeAudioFile,
+        isPrivate: options.isPrivate,
+        isHidden: options.isHidden,
+      },
+    });
+    return archive.id;
+  }
+
+  async failArchive(archiveId: string): Promise<void> {
+    await prisma.broadcastArchive.update({
+      where: { id: archiveId },
+      data: { status: 'failed', endedAt: new Date() },
+    });
+  }
+
+  /**
+   * Store a finished broadcast. Resolves with the archive once it is ready, or null if it failed.
+   */
+  finalizeArchive(archiveId: string, broadcast: FinishedBroadcast): Promise<BroadcastArchiveSummary | null> {
+    const result = this.finalizeQueue.then(() => this.storeBroadcast(archiveId, broadcast));
+    this.finalizeQueue = result.then(() => undefined);
+    return result;
+  }
+
+  /**
+   * Ready archives of a room that `viewerId` may see listed
+   */
+  async listRoomArchives(roomId: string, viewerId?: string): Promise<BroadcastArchiveSummary[]> {
+    const archives = await prisma.broadcastArchive.findMany({
+      where: { roomId, status: 'ready', ...listedTo(viewerId) },
+      orderBy: { startedAt: 'desc' },
+    });
+    return archives.map((archive: any) => this.toSummary(archive));
+  }
+
+  /**
+   * Ready archives of a user's account that `viewerId` may see listed
+   */
+  async listUserArchives(userId: string, viewerId?: string): Promise<BroadcastArchiveSummary[]> {
+    const archives = await prisma.broadcastArchive.findMany({
+      where: { userId, status: 'ready', ...listedTo(viewerId) },
+      orderBy: { startedAt: 'desc' },
+    });
+    return archives.map((archive: any) => this.toSummary(archive));
+  }
+
+  async getArchive(archiveId: string): Promise<BroadcastArchiveSummary | null> {
+    const archive = await prisma.broadcastArchive.findUnique({ where: { id: archiveId } });
+    return archive ? this.toSummary(archive) : null;
+  }
+
+  /**
+   * Master playlist of a ready archive, listing its archived renditions
+   */
+  async getMasterPlaylist(archiveId: string): Promise<string | null> {
+    const archive = await prisma.broadcastArchive.findUnique({ where: { id: archiveId } });
+    if (!archive || archive.status !== 'ready') {
+      return null;
+    }
+    const buffer = await this.storageAdapter.getFile(archiveKey(archiveId, PLAYLIST_NAME));
+    return buffer ? buffer.toString('utf-8') : null;
+  }
+
+  /**
+   * A rendition's VOD playlist, init section or segment
+   */
+  async getRenditionFile(
+    archiveId: string,
+    renditionName: string,
+    fileName: string
+  ): Promise<{ buffer: Buffer; contentType: string } | null> {
+    const contentType = getHlsContentType(fileName);
+    if (!ARCHIVE_FILE_PATTERN.test(fileName) || !contentType) {
+      return null;
+    }
+
+    const archive = await prisma.broadcastArchive.findUnique({ where: { id: archiveId } });
+    const renditions: string[] = Array.isArray(archive?.renditions) ? archive.renditions : [];
+    if (!archive || archive.status !== 'ready' || !renditions.includes(renditionName)) {
+      return null;
+    }
+
+    const buffer = await this.storageAdapter.getFile(archiveKey(archiveId, renditionName, fileName));
+    return buffer ? { buffer, contentType } : null;
+  }
+
+  /**
+   * The archive remuxed to a single audio file, with its download name and content type
+   */
+  async getAudioFile(archiveId: string): Promise<{ buffer: Buffer; fileName: string; contentType: string } | null> {
+    const archive = await prisma.broadcastArchive.findUnique({ where: { id: archiveId } });
+    if (!archive || archive.status !== 'ready' || !archive.audioKey) {
+      return null;
+    }
+    const buffer = await this.storageAdapter.getFile(archive.audioKey);
+    if (!buffer) {
+      return null;
+    }
+    const extension = path.extname(archive.audioKey).slice(1);
+    const format = Object.values(AUDIO_FILE_FORMATS).find((candidate) => candidate.extension === extension);
+    const baseName = archive.roomName.replace(/[^\w\- ]+/g, '').trim().replace(/\s+/g, '_') || 'broadcast';
+    const date = new Date(archive.startedAt).toISOString().slice(0, 10);
+    return {
+      buffer,
+      fileName: `${baseName}_${date}.${extension}`,
+      contentType: format?.contentType ?? 'application/octet-stream',
+    };
+  }
+
+  getPlaylistUrl(archiveId: string): string {
+    return `/api/broadcasts/${archiveId}/${PLAYLIST_NAME}`;
+  }
+
+  private toSummary(archive: any): BroadcastArchiveSummary {
+    const ready = archive.status === 'ready';
+    return {
+      id: archive.id,
+      userId: archive.userId,
+      roomId: archive.roomId,
+      roomName: archive.roomName,
+      profile: archive.profile,
+      status: archive.status,
+      durationSeconds: archive.durationSeconds ?? null,
+      sizeBytes: archive.sizeBytes ?? null,
+      startedAt: archive.startedAt,
+      endedAt: archive.endedAt ?? null,
+      playlistUrl: ready ? this.getPlaylistUrl(archive.id) : null,
+      audioUrl: ready && archive.audioKey ? `/api/broadcasts/${archive.id}/audio` : null,
+    };
+  }
+
+  private async storeBroadcast(archiveId: string, broadcast: FinishedBroadcast): Promise<BroadcastArchiveSummary | null> {
+    const { profile } = broadcast;
+    const uploadedKeys: string[] = [];
+
+    try {
+      const archive = await prisma.broadcastArchive.update({
+        where: { id: archiveId },
+        data: { status: 'processing', endedAt: new Date(broadcast.endTime) },
+      });
+
+      let sizeBytes = 0;
+      let durationSeconds = 0;
+      const archivedRenditions: string[] = [];
+      // Highest bitrate rendition that was archived, for the audio file
+      let audioSource: { vodPath: string; fmp4: boolean } | null = null;
+
+      for (const [index, rendition] of profile.renditions.entries()) {
+        const renditionDir = broadcast.renditionDirs[index]!;
+        const ffmpegPlaylist = await fs.readFile(path.join(renditionDir, PLAYLIST_NAME), 'utf-8').catch(() => null);
+        const files = ffmpegPlaylist ? getPlaylistFiles(ffmpegPlaylist) : [];
+        if (!ffmpegPlaylist || !files.some((file) => !file.startsWith('init'))) {
+          continue;
+        }
+
+        const vodPlaylist = buildVodPlaylist(ffmpegPlaylist);
+        for (const file of files) {
+          const buffer = await fs.readFile(path.join(renditionDir, file));
+          const key = archiveKey(archiveId, rendition.name, file);
+          await this.storageAdapter.saveFile(key, buffer, getHlsContentType(file) ?? undefined);
+          uploadedKeys.push(key);
+          sizeBytes += buffer.length;
+        }
+        const playlistKey = archiveKey(archiveId, rendition.name, PLAYLIST_NAME);
+        await this.storageAdapter.saveFile(playlistKey, Buffer.from(vodPlaylist), getHlsContentType(PLAYLIST_NAME)!);
+        uploadedKeys.push(playlistKey);
+
+        // Kept next to the segments so FFmpeg can read it for the audio file
+        const vodPath = path.join(renditionDir, 'vod.m3u8');
+        await fs.writeFile(vodPath, vodPlaylist);
+        audioSource = { vodPath, fmp4: files.some((file) => file.endsWith('.m4s')) };
+        durationSeconds = Math.max(durationSeconds, getPlaylistDuration(ffmpegPlaylist));
+        archivedRenditions.push(rendition.name);
+      }
+
+      if (!archivedRenditions.length || !audioSource) {
+        throw new Error('Broadcast produced no segments');
+      }
+
+      const masterKey = archiveKey(archiveId, PLAYLIST_NAME);
+      const masterPlaylist = buildMasterPlaylist({
+        ...profile,
+        renditions: profile.renditions.filter((rendition) => archivedRenditions.includes(rendition.name)),
+      });
+      await this.storageAdapter.saveFile(masterKey, Buffer.from(masterPlaylist), getHlsContentType(PLAYLIST_NAME)!);
+      uploadedKeys.push(masterKey);
+
+      let audioKey: string | null = null;
+      if (archive.includeAudioFile) {
+        const format = AUDIO_FILE_FORMATS[profile.codec];
+        const outputPath = path.join(os.tmpdir(), `broadcast-archive-${archiveId}.${format.extension}`);
+        try {
+          await this.remuxToAudioFile(audioSource.vodPath, outputPath, format.container, audioSource.fmp4);
+          const buffer = await fs.readFile(outputPath);
+          audioKey = archiveKey(archiveId, `broadcast.${format.extension}`);
+          await this.storageAdapter.saveFile(audioKey, buffer, format.contentType);
+          uploadedKeys.push(audioKey);
+          sizeBytes += buffer.length;
+        } finally {
+          await fs.rm(outputPath, { force: true });
+        }
+      }
+
+      const updated = await prisma.broadcastArchive.update({
+        where: { id: archiveId },
+        data: {
+          status: 'ready',
+          renditions: archivedRenditions,
+          audioKey,
+          durationSeconds: Math.round(durationSeconds * 1000) / 1000,
+          sizeBytes,
+        },
+      });
+
+      loggingService.logInfo('Broadcast archived', {
+        archiveId,
+        roomId: broadcast.roomId,
+        profile: broadcast.profileName,
+        renditions: archivedRenditions,
+        durationSeconds,
+        sizeBytes,
+      });
+      return this.toSummary(updated);
+    } catch (error) {
+      loggingService.logError(error as Error, {
+        context: 'BroadcastArchiveService:finalizeArchive',
+        archiveId,
+        roomId: broadcast.roomId,
+      });
+      await Promise.all(uploadedKeys.map((key) => this.storageAdapter.deleteFile(key).catch(() => {})));
+      await this.failArchive(archiveId).catch(() => {});
+      return null;
+    }
+  }
+
+  private remuxToAudioFile(playlistPath: string, outputPath: string, container: string, fmp4: boolean): Promise<void> {
+    return new Promise((resolve, reject) => {
+      ffmpeg(playlistPath)
+        // MPEG-TS carries ADTS AAC, which MP4 needs converted
+        .outputOptions(['-c', 'copy', ...(fmp4 || container !== 'mp4' ? [] : ['-bsf:a', 'aac_adtstoasc'])])
+        .format(container)
+        .on('end', () => resolve())
+        .on('error', (error: Error) => reject(error))
+        .save(outputPath);
+    });
+  }
+}
+
+export const broadcastArchiveService = new BroadcastArchiveService();
@@ -0,0 +1,272 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { logger } from './LoggingService';
+import type { BroadcastProfileName } from '../types';
+import { DEFAULT_BROADCAST_PROFILE } from './HLSBroadcastProfiles';
+import type { BroadcastSink, BroadcastSinkHealth } from './broadcast/BroadcastSink';
+import { HLSBroadcastSink } from './broadcast/HLSBroadcastSink';
+
+export interface StartBroadcastOptions {
+  profileName?: BroadcastProfileName;
+  // Further outputs fed the same audio as the live HLS stream, e.g. archive and relay sinks
+  sinks?: BroadcastSink[];
+}
+
+export interface BroadcastHealth {
+  roomId: string;
+  profile: BroadcastProfileName;
+  isActive: boolean;
+  healthy: boolean;
+  startedAt: Date;
+  lastChunkAt: Date | null;
+  chunksReceived: number;
+  bytesReceived: number;
+  sinks: BroadcastSinkHealth[];
+}
+
+interface ActiveBroadcast {
+  roomId: string;
+  hls: HLSBroadcastSink;
+  sinks: BroadcastSink[];
+  isActive: boolean;
+  startTime: number;
+  lastChunkTime: number | null;
+  chunksReceived: number;
+  bytesReceived: number;
+}
+
+// A broadcast is unhealthy, and eventually stale, when the owner stops sending audio
+const UNHEALTHY_AFTER_MS = 10 * 1000;
+export const STALE_BROADCAST_MS = 30 * 1000;
+// Stopped broadcasts stay around this long for final segment fetches
+const STOPPED_RETENTION_MS = 30 * 1000;
+
+/**
+ * Broadcast pipeline for perform room audiences
+ *
+ * Flow:
+ * 1. Room owner starts broadcast
+ * 2. Audio chunks (WebM/Opus) are fanned out to every sink of the broadcast
+ * 3. The live HLS sink transcodes to one rendition per bitrate of the room's broadcast profile;
+ *    optional sinks archive the broadcast or relay the raw chunks
+ * 4. Audience fetches the master playlist, then a rendition's playlist and segments via HTTP
+ */
+export class BroadcastPipeline {
+  private broadcasts = new Map<string, ActiveBroadcast>();
+  // Stopped broadcasts whose sinks are still finishing; the room can start a new broadcast meanwhile
+  private stoppingBroadcasts = new Set<ActiveBroadcast>();
+  private baseOutputDir: string;
+
+  constructor() {
+    // Use temp directory for HLS output
+    this.baseOutputDir = path.join(os.tmpdir(), 'jam-band-hls');
+    fs.mkdirSync(this.baseOutputDir, { recursive: true });
+    logger.info(`HLS output directory: ${this.baseOutputDir}`);
+  }
+
+  /**
+   * Start a broadcast for a room: the live HLS sink plus any extra sinks
+   */
+  startBroadcast(roomId: string, options: StartBroadcastOptions = {}): boolean {
+    if (this.broadcasts.has(roomId)) {
+      logger.warn(`Broadcast already active for room ${roomId}`);
+      return false;
+    }
+
+    const profileName = options.profileName ?? DEFAULT_BROADCAST_PROFILE;
+    // Unique per broadcast, so a stopped broadcast's cleanup never removes its successor's output
+    const hls = new HLSBroadcastSink(roomId, profileName, path.join(this.baseOutputDir, `${roomId}-${Date.now()}`));
+    const sinks = [hls, ...(options.sinks ?? [])];
+
+    const started: BroadcastSink[] = [];
+    for (const sink of sinks) {
+      if (!sink.start()) {
+        logger.error(`Failed to start ${sink.name} sink for room ${roomId}`);
+        void Promise.all(started.map((startedSink) => startedSink.stop())).then(() => hls.cleanup());
+        return false;
+      }
+      started.push(sink);
+    }
+
+    this.broadcasts.set(roomId, {
+      roomId,
+      hls,
+      sinks,
+      isActive: true,
+      startTime: Date.now(),
+      lastChunkTime: null,
+      chunksReceived: 0,
+      bytesReceived: 0,
+    });
+    logger.info(`Broadcast started for room ${roomId}`, { profile: profileName, sinks: sinks.map((sink) => sink.name) });
+    return true;
+  }
+
+  /**
+   * Stop a broadcast. The room is free to start a new one right away; the stopped broadcast's
+   * HLS output is kept briefly for final segment fetches and until every sink has finished
+   * (e.g. archived the broadcast).
+   */
+  stopBroadcast(roomId: string): void {
+    const broadcast = this.broadcasts.get(roomId);
+    if (!broadcast || !broadcast.isActive) {
+      return;
+    }
+
+    logger.info(`Stopping broadcast for room ${roomId}`);
+    broadcast.isActive = false;
+    this.broadcasts.delete(roomId);
+    this.stoppingBroadcasts.add(broadcast);
+
+    const finished = Promise.all(
+      broadcast.sinks.map((sink) =>
+        sink.stop().catch((err) => {
+          logger.error(`Failed to stop ${sink.name} sink for room ${roomId}: ${err instanceof Error ? err.message : String(err)}`);
+        })
+      )
+    );
+
+    setTimeout(() => {
+      void finished.then(() => {
+        broadcast.hls.cleanup();
+        this.stoppingBroadcasts.delete(broadcast);
+      });
+    }, STOPPED_RETENTION_MS);
+
+    logger.info(`Broadcast stopped for room ${roomId}`);
+  }
+
+  /**
+   * Feed an audio chunk to every sink of the room's broadcast
+   */
+  writeAudioChunk(roomId: string, chunk: Buffer): boolean {
+    const broadcast = this.broadcasts.get(roomId);
+    if (!broadcast || !broadcast.isActive) {
+      return false;
+    }
+
+    broadcast.lastChunkTime = Date.now();
+    broadcast.chunksReceived += 1;
+    broadcast.bytesReceived += chunk.length;
+
+    // The live stream decides whether the chunk was taken; other sinks track their own drops
+    let written = false;
+    for (const sink of broadcast.sinks) {
+      const accepted = sink.write(chunk);
+      if (sink === broadcast.hls) {
+        written = accepted;
+      }
+    }
+    return written;
+  }
+
+  /**
+   * Get the master playlist listing the broadcast's renditions
+   */
+  getPlaylist(roomId: string): string | null {
+    return this.getServedBroadcast(roomId)?.hls.getPlaylist() ?? null;
+  }
+
+  /**
+   * Get a rendition's media playlist
+   */
+  getRenditionPlaylist(roomId: string, renditionName: string): string | null {
+    return this.getServedBroadcast(roomId)?.hls.getRenditionPlaylist(renditionName) ?? null;
+  }
+
+  /**
+   * Get a rendition's HLS segment, LL-HLS part or fMP4 init section
+   */
+  getSegment(roomId: string, renditionName: string, segmentName: string): Buffer | null {
+    return this.getServedBroadcast(roomId)?.hls.getSegment(renditionName, segmentName) ?? null;
+  }
+
+  /**
+   * Get the broadcast profile a room is streaming with
+   */
+  getProfileName(roomId: string): BroadcastProfileName | null {
+    return this.getServedBroadcast(roomId)?.hls.profileName ?? null;
+  }
+
+  /**
+   * Check if a broadcast is active
+   */
+  isActive(roomId: string): boolean {
+    return this.broadcasts.get(roomId)?.isActive ?? false;
+  }
+
+  /**
+   * Whether a room's active broadcast has had no audio for `thresholdMs`
+   */
+  isStale(roomId: string, thresholdMs: number = STALE_BROADCAST_MS): boolean {
+    const broadcast = this.broadcasts.get(roomId);
+    if (!broadcast?.isActive) {
+      return false;
+    }
+    return Date.now() - (broadcast.lastChunkTime ?? broadcast.startTime) > thresholdMs;
+  }
+
+  /**
+   * Get playlist URL for a room
+   */
+  getPlaylistUrl(roomId: string): string {
+    return `/api/broadcast/${roomId}/playlist.m3u8`;
+  }
+
+  /**
+   * Health of every broadcast, including stopped ones still finishing their sinks
+   */
+  getHealth(): BroadcastHealth[] {
+    const now = Date.now();
+    return [...this.broadcasts.values(), ...this.stoppingBroadcasts].map((broadcast) => {
+      const sinks = broadcast.sinks.map((sink) => sink.getHealth());
+      const receiving = now - (broadcast.lastChunkTime ?? broadcast.startTime) <= UNHEALTHY_AFTER_MS;
+      // Once stopped the live encoder has exited; only sinks still finishing (e.g. archives) matter
+      const healthy = broadcast.isActive
+        ? receiving && sinks.every((sink) => sink.healthy)
+        : sinks.every((sink) => sink.healthy || sink.sink === broadcast.hls.name);
+      return {
+        roomId: broadcast.roomId,
+        profile: broadcast.hls.profileName,
+        isActive: broadcast.isActive,
+        healthy,
+        startedAt: new Date(broadcast.startTime),
+        lastChunkAt: broadcast.lastChunkTime ? new Date(broadcast.lastChunkTime) : null,
+        chunksReceived: broadcast.chunksReceived,
+        bytesReceived: broadcast.bytesReceived,
+        sinks,
+      };
+    });
+  }
+
+  /**
+   * The room's live broadcast, or else its most recently stopped one still being kept
+   */
+  private getServedBroadcast(roomId: string): ActiveBroadcast | undefined {
+    const live = this.broadcasts.get(roomId);
+    if (live) {
+      return live;
+    }
+    let latest: ActiveBroadcast | undefined;
+    for (const broadcast of this.stoppingBroadcasts) {
+      if (broadcast.roomId === roomId && (!latest || broadcast.startTime > latest.startTime)) {
+        latest = broadcast;
+      }
+    }
+    return latest;
+  }
+
+  /**
+   * Stop all broadcasts (for graceful shutdown)
+   */
+  shutdown(): void {
+    logger.info('Shutting down broadcast pipeline');
+    for (const [roomId] of this.broadcasts) {
+      this.stopBroadcast(roomId);
+    }
+  }
+}
+
+// Singleton instance
+export const broadcastPipeline = new BroadcastPipeline();
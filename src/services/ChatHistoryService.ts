@@ -0,0 +1,202 @@
+import { config } from '../config/environment';
+import { loggingService } from './LoggingService';
+import type { ChatHistoryPage, ChatMessage, ChatMessageChanges, RequestChatHistoryData } from '../types';
+import type { ChatHistoryPersistence } from './persistence/ChatHistoryPersistence';
+
+export interface ChatHistorySettings {
+  historyLimit: number;
+  pageSize: number;
+  maxPageSize: number;
+}
+
+interface RoomChatHistory {
+  // Oldest first, at most historyLimit
+  messages: ChatMessage[];
+  persisted: boolean;
+  // Settles once it is known whether the room is persisted and its stored messages are loaded
+  ready: Promise<void>;
+}
+
+/**
+ * Bounded per-room chat history for late joiners, paging and moderation.
+ *
+ * Every room keeps its latest messages in memory. With persistence, rooms whose owner is a
+ * registered user (as of the room's first message or history request) also keep every message
+ * in storage, which is loaded on first use and serves pages older than the in-memory history.
+ */
+export class ChatHistoryService {
+  private rooms = new Map<string, RoomChatHistory>();
+
+  constructor(
+    private settings: ChatHistorySettings = config.chat,
+    private persistence: ChatHistoryPersistence | null = null
+  ) {}
+
+  async addMessage(roomId: string, ownerId: string, message: ChatMessage): Promise<void> {
+    const history = this.getRoomHistory(roomId, ownerId);
+    history.messages.push(message);
+    this.trim(history);
+
+    await history.ready;
+    if (history.persisted && this.persistence) {
+      try {
+        await this.persistence.saveMessage(roomId, message);
+      } catch (error) {
+        loggingService.logError(error as Error, { context: 'ChatHistoryService:addMessage', roomId });
+      }
+    }
+  }
+
+  /**
+   * The latest messages, or those sent before `before`, oldest first
+   */
+  async getHistory(roomId: string, ownerId: string, options: RequestChatHistoryData = {}): Promise<ChatHistoryPage> {
+    const limit = Math.min(options.limit ?? this.settings.pageSize, this.settings.maxPageSize);
+    const history = this.getRoomHistory(roomId, ownerId);
+    await history.ready;
+
+    const { before } = options;
+    const older = before !== undefined ? history.messages.filter((message) => message.timestamp < before) : history.messages;
+    const messages = older.slice(-limit);
+    if (older.length > limit || !history.persisted || !this.persistence) {
+      return { messages, hasMore: older.length > limit };
+    }
+
+    // Page past the in-memory history from storage, asking for one more to see if there are more
+    const remaining = limit - messages.length;
+    const cursor = messages[0]?.timestamp ?? before ?? null;
+    try {
+      const stored = await this.persistence.loadMessages(roomId, cursor, remaining + 1);
+      return {
+        messages: remaining > 0 ? [...stored.slice(-remaining), ...messages] : messages,
+        hasMore: stored.length > remaining,
+      };
+    } catch (error) {
+      loggingService.logError(error as Error, { context: 'ChatHistoryService:getHistory', roomId });
+      return { messages, hasMore: false };
+    }
+  }
+
+  async findMessage(roomId: string, ownerId: string, messageId: string): Promise<ChatMessage | null> {
+    const history = this.getRoomHistory(roomId, ownerId);
+    await history.ready;
+
+    const message = history.messages.find((candidate) => candidate.id === messageId);
+    if (message || !history.persisted || !this.persistence) {
+      return message ?? null;
+    }
+    try {
+      return await this.persistence.getMessage(roomId, messageId);
+    } catch (error) {
+      loggingService.logError(error as Error, { context: 'ChatHistoryService:findMessage', roomId, messageId });
+      return null;
+    }
+  }
+
+  /**
+   * Change a message (text on edit, reactions). `update` gets the current message and returns
+   * the changes, or null to leave it alone. Returns the updated message, or null when there is
+   * no such message or `update` declined.
+   */
+  async updateMessage(
+    roomId: string,
+    ownerId: string,
+    messageId: string,
+    update: (message: ChatMessage) => ChatMessageChanges | null
+  ): Promise<ChatMessage | null> {
+    const found = await this.findMessage(roomId, ownerId, messageId);
+    if (!found) {
+      return null;
+    }
+
+    // The in-memory copy may have changed while the message was looked up
+    const history = this.getRoomHistory(roomId, ownerId);
+    const index = history.messages.findIndex((candidate) => candidate.id === messageId);
+    const current = index !== -1 ? history.messages[index]! : found;
+    const changes = update(current);
+    if (!changes) {
+      return null;
+    }
+
+    const updated: ChatMessage = { ...current, ...changes };
+    if (index !== -1) {
+      history.messages[index] = updated;
+    }
+
+    if (history.persisted && this.persistence) {
+      try {
+        await this.persistence.updateMessage(roomId, messageId, changes);
+      } catch (error) {
+        loggingService.logError(error as Error, { context: 'ChatHistoryService:updateMessage', roomId, messageId });
+      }
+    }
+    return updated;
+  }
+
+  async deleteMessage(roomId: string, ownerId: string, messageId: string): Promise<boolean> {
+    const message = await this.findMessage(roomId, ownerId, messageId);
+    if (!message) {
+      return false;
+    }
+
+    const history = this.getRoomHistory(roomId, ownerId);
+    history.messages = history.messages.filter((candidate) => candidate.id !== messageId);
+
+    if (history.persisted && this.persistence) {
+      try {
+        await this.persistence.deleteMessage(roomId, messageId);
+      } catch (error) {
+        loggingService.logError(error as Error, { context: 'ChatHistoryService:deleteMessage', roomId, messageId });
+      }
+    }
+    return true;
+  }
+
+  /**
+   * Forget a closed room's in-memory history; stored messages are kept
+   */
+  clearRoom(roomId: string): void {
+    this.rooms.delete(roomId);
+  }
+
+  getRoomCount(): number {
+    return this.rooms.size;
+  }
+
+  private getRoomHistory(roomId: string, ownerId: string): RoomChatHistory {
+    let history = this.rooms.get(roomId);
+    if (!history) {
+      const created: RoomChatHistory = { messages: [], persisted: false, ready: Promise.resolve() };
+      created.ready = this.loadStoredHistory(roomId, ownerId, created);
+      this.rooms.set(roomId, created);
+      history = created;
+    }
+    return history;
+  }
+
+  private async loadStoredHistory(roomId: string, ownerId: string, history: RoomChatHistory): Promise<void> {
+    if (!this.persistence) {
+      return;
+    }
+
+    try {
+      history.persisted = await this.persistence.isOwnerPersisted(ownerId);
+      if (!history.persisted) {
+        return;
+      }
+      // Messages sent while loading come after the stored ones
+      const stored = await this.persistence.loadMessages(roomId, null, this.settings.historyLimit);
+      const recentIds = new Set(history.messages.map((message) => message.id));
+      history.messages = [...stored.filter((message) => !recentIds.has(message.id)), ...history.messages];
+      this.trim(history);
+    } catch (error) {
+      loggingService.logError(error as Error, { context: 'ChatHistoryService:loadStoredHistory', roomId });
+    }
+  }
+
+  private trim(history: RoomChatHistory): void {
+    if (history.messages.length > this.settings.historyLimit) {
+      history.messages.splice(0, history.messages.length - this.settings.historyLimit);
+    }
+  }
+}
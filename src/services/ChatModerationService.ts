@@ -0,0 +1,111 @@
+import { config } from '../config/environment';
+import { loggingService } from './LoggingService';
+import {
+  ChatModerationInput,
+  ChatModerationRule,
+  ChatWordlistMode,
+  DuplicateMessageFilter,
+  FloodFilter,
+  GuestLinkFilter,
+  WordlistFilter,
+} from '../domains/real-time-communication/domain/services/ChatModerationRules';
+
+export interface ChatModerationSettings {
+  wordlist: readonly string[];
+  wordlistMode: ChatWordlistMode;
+  maxDuplicates: number;
+  duplicateWindowMs: number;
+  floodMaxMessages: number;
+  floodWindowMs: number;
+  blockGuestLinks: boolean;
+}
+
+export type ChatModerationResult =
+  | { allowed: true; message: string }
+  | { allowed: false; rule: string; reason: string; mutedUntil?: number };
+
+/**
+ * Flood and duplicate checks come first so spam is counted even when another rule would also
+ * reject it
+ */
+export const createChatModerationRules = (settings: ChatModerationSettings): ChatModerationRule[] => [
+  new FloodFilter(settings.floodMaxMessages, settings.floodWindowMs),
+  new DuplicateMessageFilter(settings.duplicateWindowMs, settings.maxDuplicates),
+  ...(settings.blockGuestLinks ? [new GuestLinkFilter()] : []),
+  new WordlistFilter(settings.wordlist, settings.wordlistMode),
+];
+
+/**
+ * Chat moderation pipeline and owner-issued chat mutes.
+ *
+ * Messages from muted users are rejected; the rest run through the rules in order, each seeing
+ * the previous rule's masking. Violations go to the security log.
+ */
+export class ChatModerationService {
+  // roomId -> userId -> muted until (ms)
+  private mutes = new Map<string, Map<string, number>>();
+
+  constructor(private rules: ChatModerationRule[] = createChatModerationRules(config.chat.moderation)) {}
+
+  moderate(input: Omit<ChatModerationInput, 'now'>, now: number = Date.now()): ChatModerationResult {
+    const mutedUntil = this.getMutedUntil(input.roomId, input.userId, now);
+    if (mutedUntil !== null) {
+      loggingService.logChatModerationViolation(input.roomId, input.userId, 'mute', 'rejected');
+      return { allowed: false, rule: 'mute', reason: 'You are muted in this chat', mutedUntil };
+    }
+
+    let message = input.message;
+    for (const rule of this.rules) {
+      const verdict = rule.check({ ...input, message, now });
+      if (verdict.action === 'reject') {
+        loggingService.logChatModerationViolation(input.roomId, input.userId, rule.name, 'rejected');
+        return { allowed: false, rule: rule.name, reason: verdict.reason };
+      }
+      if (verdict.action === 'mask') {
+        loggingService.logChatModerationViolation(input.roomId, input.userId, rule.name, 'masked');
+        message = verdict.message;
+      }
+    }
+    return { allowed: true, message };
+  }
+
+  /**
+   * Mute a user's chat for `durationSec`, or lift the mute with 0. Returns when the mute ends,
+   * or null when lifted.
+   */
+  muteUser(roomId: string, userId: string, durationSec: number, now: number = Date.now()): number | null {
+    let roomMutes = this.mutes.get(roomId);
+    if (durationSec <= 0) {
+      roomMutes?.delete(userId);
+      return null;
+    }
+
+    if (!roomMutes) {
+      roomMutes = new Map();
+      this.mutes.set(roomId, roomMutes);
+    }
+    const mutedUntil = now + durationSec * 1000;
+    roomMutes.set(userId, mutedUntil);
+    return mutedUntil;
+  }
+
+  getMutedUntil(roomId: string, userId: string, now: number = Date.now()): number | null {
+    const roomMutes = this.mutes.get(roomId);
+    const mutedUntil = roomMutes?.get(userId);
+    if (mutedUntil === undefined) {
+      return null;
+    }
+    if (mutedUntil <= now) {
+      roomMutes!.delete(userId);
+      return null;
+    }
+    return mutedUntil;
+  }
+
+  clearRoom(roomId: string): void {
+    this.mutes.delete(roomId);
+    for (const rule of this.rules) {
+      rule.clearRoom?.(roomId);
+    }
+  }
+}
@@ -0,0 +1,220 @@
+import { getServerTime } from '../shared/utils/timing';
+
+/**
+ * One NTP-style exchange: the client sends at t0, the server receives at t1 and replies at t2,
+ * and the client receives the reply at t3. t0 and t3 are on the client's clock.
+ */
+export interface ClockSyncSample {
+  clientSendTime: number;
+  serverReceiveTime: number;
+  serverSendTime: number;
+  clientReceiveTime: number;
+  // Server clock minus client clock
+  offsetMs: number;
+  rttMs: number;
+}
+
+export interface ClockSyncEstimate {
+  // Add to a client clock reading to get server time
+  offsetMs: number;
+  // Lowest round trip among the samples
+  rttMs: number;
+  // How fast the offset changes: positive when the client clock runs slow
+  driftPpm: number;
+  samples: number;
+  // Server time the offset was estimated for
+  updatedAt: number;
+}
+
+export interface ClockSyncConfig {
+  // Samples kept per socket
+  maxSamples: number;
+  // Unanswered requests kept per socket
+  maxPendingRequests: number;
+  // Samples slower than this say nothing useful about the offset
+  maxRttMs: number;
+  // Offsets are averaged over this fraction of the samples with the lowest round trip
+  bestSampleFraction: number;
+  // Drift needs samples spread over at least this long
+  minDriftSpanMs: number;
+}
+
+const DEFAULT_CONFIG: ClockSyncConfig = {
+  maxSamples: 32,
+  maxPendingRequests: 8,
+  maxRttMs: 2000,
+  bestSampleFraction: 0.25,
+  minDriftSpanMs: 10_000,
+};
+
+interface PendingRequest {
+  clientSendTime: number;
+  serverReceiveTime: number;
+  serverSendTime: number;
+}
+
+interface SocketClock {
+  pending: Map<number, PendingRequest>;
+  // Samples with the server time they were taken at, oldest first
+  samples: Array<ClockSyncSample & { at: number }>;
+  estimate: ClockSyncEstimate | null;
+}
+
+/**
+ * Per-socket clock synchronization so clients can map the server clock onto their own.
+ *
+ * A client sends `clock_sync_request` with its send time and answers each response with its
+ * receive time in `clock_sync_report`. Every completed exchange is a sample; the offset is
+ * taken from the samples least delayed by the network (as NTP's clock filter does), and drift
+ * is the trend of the offsets over time.
+ */
+export class ClockSyncService {
+  private clocks = new Map<string, SocketClock>();
+  private config: ClockSyncConfig;
+
+  constructor(config: Partial<ClockSyncConfig> = {}, private now: () => number = getServerTime) {
+    this.config = { ...DEFAULT_CONFIG, ...config };
+  }
+
+  /**
+   * Server clock, as used in `clock_sync_response`, metronome ticks and relayed notes
+   */
+  getServerTime(): number {
+    return this.now();
+  }
+
+  /**
+   * Start an exchange. The returned times go back to the client in `clock_sync_response`.
+   */
+  handleRequest(
+    socketId: string,
+    seq: number,
+    clientSendTime: number
+  ): { seq: number; clientSendTime: number; serverReceiveTime: number; serverSendTime: number } {
+    const serverReceiveTime = this.now();
+    const clock = this.getClock(socketId);
+
+    clock.pending.delete(seq);
+    if (clock.pending.size >= this.config.maxPendingRequests) {
+      const oldest = clock.pending.keys().next().value;
+      if (oldest !== undefined) {
+        clock.pending.delete(oldest);
+      }
+    }
+
+    const serverSendTime = this.now();
+    clock.pending.set(seq, { clientSendTime, serverReceiveTime, serverSendTime });
+    return { seq, clientSendTime, serverReceiveTime, serverSendTime };
+  }
+
+  /**
+   * Complete an exchange with the client's receive time. Returns the updated estimate, or null
+   * when the report doesn't match a request or the sample is unusable.
+   */
+  handleReport(socketId: string, seq: number, clientReceiveTime: number): ClockSyncEstimate | null {
+    const clock = this.clocks.get(socketId);
+    const request = clock?.pending.get(seq);
+    if (!clock || !request) {
+      return null;
+    }
+    clock.pending.delete(seq);
+
+    const { clientSendTime, serverReceiveTime, serverSendTime } = request;
+    const rttMs = (clientReceiveTime - clientSendTime) - (serverSendTime - serverReceiveTime);
+    if (rttMs < 0 || rttMs > this.config.maxRttMs) {
+      return null;
+    }
+
+    const offsetMs = ((serverReceiveTime - clientSendTime) + (serverSendTime - clientReceiveTime)) / 2;
+    clock.samples.push({
+      clientSendTime,
+      serverReceiveTime,
+      serverSendTime,
+      clientReceiveTime,
+      offsetMs,
+      rttMs,
+      at: serverSendTime + rttMs / 2,
+    });
+    if (clock.samples.length > this.config.maxSamples) {
+      clock.samples.shift();
+    }
+
+    clock.estimate = this.estimate(clock.samples);
+    return clock.estimate;
+  }
+
+  getEstimate(socketId: string): ClockSyncEstimate | null {
+    return this.clocks.get(socketId)?.estimate ?? null;
+  }
+
+  /**
+   * Convert a reading of the socket's clock to server time, or null before the first sample
+   */
+  toServerTime(socketId: string, clientTime: number): number | null {
+    const estimate = this.getEstimate(socketId);
+    if (!estimate) {
+      return null;
+    }
+    const serverTime = clientTime + estimate.offsetMs;
+    return serverTime + (estimate.driftPpm / 1_000_000) * (serverTime - estimate.updatedAt);
+  }
+
+  removeSocket(socketId: string): void {
+    this.clocks.delete(socketId);
+  }
+
+  getSocketCount(): number {
+    return this.clocks.size;
+  }
+
+  private getClock(socketId: string): SocketClock {
+    let clock = this.clocks.get(socketId);
+    if (!clock) {
+      clock = { pending: new Map(), samples: [], estimate: null };
+      this.clocks.set(socketId, clock);
+    }
+    return clock;
+  }
+
+  private estimate(samples: Array<ClockSyncSample & { at: number }>): ClockSyncEstimate {
+    const driftPerMs = this.estimateDrift(samples);
+    const latest = samples[samples.length - 1]!;
+    const updatedAt = latest.at;
+
+    // Bring every sample's offset forward to now along the drift before averaging the best ones
+    const byRtt = [...samples].sort((a, b) => a.rttMs - b.rttMs);
+    const best = byRtt.slice(0, Math.max(1, Math.ceil(samples.length * this.config.bestSampleFraction)));
+    const offsetMs = best.reduce((sum, sample) => sum + sample.offsetMs + driftPerMs * (updatedAt - sample.at), 0) / best.length;
+
+    return {
+      offsetMs,
+      rttMs: byRtt[0]!.rttMs,
+      driftPpm: driftPerMs * 1_000_000,
+      samples: samples.length,
+      updatedAt,
+    };
+  }
+
+  /**
+   * Least-squares slope of offset over time, in ms per ms
+   */
+  private estimateDrift(samples: Array<ClockSyncSample & { at: number }>): number {
+    const first = samples[0]!;
+    const last = samples[samples.length - 1]!;
+    if (samples.length < 3 || last.at - first.at < this.config.minDriftSpanMs) {
+      return 0;
+    }
+
+    const meanAt = samples.reduce((sum, sample) => sum + sample.at, 0) / samples.length;
+    const meanOffset = samples.reduce((sum, sample) => sum + sample.offsetMs, 0) / samples.length;
+    let covariance = 0;
+    let variance = 0;
+    for (const sample of samples) {
+      covariance += (sample.at - meanAt) * (sample.offsetMs - meanOffset);
+      variance += (sample.at - meanAt) ** 2;
+    }
+    return variance > 0 ? covariance / variance : 0;
+  }
+}
+
+export const clockSyncService = new ClockSyncService();
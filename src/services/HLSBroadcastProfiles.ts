@@ -0,0 +1,287 @@
+import * as path from 'path';
+import type { BroadcastArchiveMode, BroadcastProfileName } from '../types';
+
+export type BroadcastCodec = 'aac' | 'opus';
+
+export interface BroadcastRendition {
+  // Also the rendition's URL path segment, e.g. /api/broadcast/:roomId/96k/playlist.m3u8
+  name: string;
+  bitrateKbps: number;
+}
+
+export interface BroadcastProfile {
+  codec: BroadcastCodec;
+  renditions: BroadcastRendition[];
+  segmentSeconds: number;
+  // Full segments kept in each media playlist
+  playlistSize: number;
+  // LL-HLS partial segment duration; regular HLS when unset
+  partSeconds?: number;
+}
+
+const ADAPTIVE_RENDITIONS: BroadcastRendition[] = [
+  { name: '48k', bitrateKbps: 48 },
+  { name: '96k', bitrateKbps: 96 },
+  { name: '160k', bitrateKbps: 160 },
+];
+
+export const BROADCAST_PROFILES: Record<BroadcastProfileName, BroadcastProfile> = {
+  standard: { codec: 'aac', renditions: ADAPTIVE_RENDITIONS, segmentSeconds: 2, playlistSize: 10 },
+  low_latency: { codec: 'aac', renditions: ADAPTIVE_RENDITIONS, segmentSeconds: 2, playlistSize: 6, partSeconds: 0.5 },
+  // Opus in fMP4 needs FFmpeg 4.3 or newer
+  opus: { codec: 'opus', renditions: ADAPTIVE_RENDITIONS, segmentSeconds: 2, playlistSize: 10 },
+};
+
+export const BROADCAST_PROFILE_NAMES = Object.keys(BROADCAST_PROFILES) as BroadcastProfileName[];
+export const DEFAULT_BROADCAST_PROFILE: BroadcastProfileName = 'standard';
+
+// 'hls' keeps the broadcast's renditions as a VOD playlist; 'hls_and_audio' also remuxes it to one audio file
+export const BROADCAST_ARCHIVE_MODES: BroadcastArchiveMode[] = ['off', 'hls', 'hls_and_audio'];
+
+const CODEC_SETTINGS: Record<BroadcastCodec, { encoder: string; codecs: string }> = {
+  aac: { encoder: 'aac', codecs: 'mp4a.40.2' },
+  opus: { encoder: 'libopus', codecs: 'opus' },
+};
+
+// Partial segments are always the last parts of the playlist, so only full segments this recent
+// keep their EXT-X-PART lines
+const SEGMENTS_WITH_PARTS = 2;
+
+export const usesFragmentedMp4 = (profile: BroadcastProfile): boolean =>
+  profile.codec === 'opus' || profile.partSeconds !== undefined;
+
+export const getPartsPerSegment = (profile: BroadcastProfile): number =>
+  profile.partSeconds ? Math.max(1, Math.round(profile.segmentSeconds / profile.partSeconds)) : 1;
+
+/**
+ * FFmpeg arguments that read WebM/Opus from stdin and write one HLS media playlist per
+ * rendition into `<outputDir>/<rendition index>/`. For LL-HLS profiles FFmpeg cuts
+ * part-sized fragments (part_*.m4s) that are grouped into full segments when served.
+ * Archive encoders keep every segment and list them all.
+ */
+export const buildFfmpegArgs = (profile: BroadcastProfile, outputDir: string, archive = false): string[] => {
+  const fmp4 = usesFragmentedMp4(profile);
+  const lowLatency = profile.partSeconds !== undefined;
+  const { encoder } = CODEC_SETTINGS[profile.codec];
+  const segmentPattern = lowLatency ? 'part_%05d.m4s' : fmp4 ? 'segment_%05d.m4s' : 'segment_%05d.ts';
+
+  return [
+    // Input: WebM/Opus from stdin
+    '-f', 'webm',
+    '-i', 'pipe:0',
+
+    // One encoded copy of the audio per rendition
+    ...profile.renditions.flatMap(() => ['-map', '0:a']),
+    ...profile.renditions.flatMap((rendition, index) => [
+      `-c:a:${index}`, encoder,
+      `-b:a:${index}`, `${rendition.bitrateKbps}k`,
+    ]),
+    '-ar', '48000',
+    '-ac', '2',
+    ...(profile.codec === 'opus' ? ['-strict', 'experimental'] : []),
+
+    // HLS options
+    '-f', 'hls',
+    '-hls_time', String(profile.partSeconds ?? profile.segmentSeconds),
+    '-hls_list_size', archive ? '0' : String((profile.playlistSize + 1) * getPartsPerSegment(profile)),
+    '-hls_flags', `${archive ? '' : 'delete_segments+'}append_list+omit_endlist+independent_segments`,
+    '-hls_segment_type', fmp4 ? 'fmp4' : 'mpegts',
+    ...(fmp4 ? ['-hls_fmp4_init_filename', 'init.mp4'] : []),
+    '-hls_segment_filename', path.join(outputDir, '%v', segmentPattern),
+    '-var_stream_map', profile.renditions.map((_, index) => `a:${index}`).join(' '),
+
+    // Output
+    path.join(outputDir, '%v', 'playlist.m3u8'),
+  ];
+};
+
+/**
+ * Master playlist listing every rendition, so players can switch bitrate with the connection
+ */
+export const buildMasterPlaylist = (profile: BroadcastProfile): string => {
+  const { codecs } = CODEC_SETTINGS[profile.codec];
+  const lines = ['#EXTM3U', `#EXT-X-VERSION:${usesFragmentedMp4(profile) ? 7 : 3}`, '#EXT-X-INDEPENDENT-SEGMENTS'];
+
+  for (const rendition of profile.renditions) {
+    // Allow for container overhead on top of the encoder bitrate
+    const bandwidth = Math.round(rendition.bitrateKbps * 1000 * 1.1);
+    lines.push(`#EXT-X-STREAM-INF:BANDWIDTH=${bandwidth},CODECS="${codecs}"`, `${rendition.name}/playlist.m3u8`);
+  }
+  return `${lines.join('\n')}\n`;
+};
+
+export const getHlsContentType = (fileName: string): string | null => {
+  if (fileName.endsWith('.m3u8')) {
+    return 'application/vnd.apple.mpegurl';
+  }
+  if (fileName.endsWith('.ts')) {
+    return 'video/mp2t';
+  }
+  return fileName.endsWith('.m4s') || fileName.endsWith('.mp4') ? 'audio/mp4' : null;
+};
+
+interface MediaPlaylist {
+  header: string[];
+  // Each segment's tags followed by its URI
+  segments: string[][];
+  trailer: string[];
+}
+
+const parseMediaPlaylist = (playlist: string): MediaPlaylist => {
+  const parsed: MediaPlaylist = { header: [], segments: [], trailer: [] };
+  let pending: string[] = [];
+
+  for (const rawLine of playlist.split('\n')) {
+    const line = rawLine.trim();
+    if (!line) {
+      continue;
+    }
+    if (!line.startsWith('#')) {
+      parsed.segments.push([...pending, line]);
+      pending = [];
+    } else if (line === '#EXT-X-ENDLIST') {
+      parsed.trailer.push(line);
+    } else if (parsed.segments.length || pending.length || line.startsWith('#EXTINF:') || line === '#EXT-X-DISCONTINUITY') {
+      pending.push(line);
+    } else {
+      parsed.header.push(line);
+    }
+  }
+  parsed.trailer.push(...pending);
+  return parsed;
+};
+
+const serializePlaylist = (lines: string[]): string => `${lines.join('\n')}\n`;
+
+/**
+ * Turn a finished broadcast's FFmpeg playlist into a VOD playlist
+ */
+export const buildVodPlaylist = (ffmpegPlaylist: string): string => {
+  const { header, segments } = parseMediaPlaylist(ffmpegPlaylist);
+  const lines = header.filter((line) => !line.startsWith('#EXT-X-PLAYLIST-TYPE:'));
+  lines.splice(1, 0, '#EXT-X-PLAYLIST-TYPE:VOD');
+  return serializePlaylist([...lines, ...segments.flat(), '#EXT-X-ENDLIST']);
+};
+
+/**
+ * Files a media playlist refers to: its init section (if any) and segments
+ */
+export const getPlaylistFiles = (playlist: string): string[] => {
+  const { header, segments } = parseMediaPlaylist(playlist);
+  const mapUri = header.map((line) => /^#EXT-X-MAP:.*URI="([^"]+)"/.exec(line)?.[1]).find(Boolean);
+  return [...(mapUri ? [mapUri] : []), ...segments.map((segment) => segment[segment.length - 1]!)];
+};
+
+export const getPlaylistDuration = (playlist: string): number =>
+  parseMediaPlaylist(playlist).segments.reduce((total, segment) => {
+    const extinf = segment.find((line) => line.startsWith('#EXTINF:'));
+    return total + (extinf ? parseFloat(extinf.slice('#EXTINF:'.length)) || 0 : 0);
+  }, 0);
+
+interface PlaylistPart {
+  seq: number;
+  duration: number;
+  uri: string;
+}
+
+const PART_NAME_PATTERN = /^part_(\d+)\.m4s$/;
+
+export const toSegmentName = (segmentIndex: number): string => `segment_${String(segmentIndex).padStart(5, '0')}.m4s`;
+
+/**
+ * Part sequence numbers making up a full LL-HLS segment served as `segmentName`, or null
+ * if the name isn't a grouped segment
+ */
+export const getSegmentPartSeqs = (profile: BroadcastProfile, segmentName: string): number[] | null => {
+  const match = /^segment_(\d+)\.m4s$/.exec(segmentName);
+  if (!match || profile.partSeconds === undefined) {
+    return null;
+  }
+  const partsPerSegment = getPartsPerSegment(profile);
+  const first = Number(match[1]) * partsPerSegment;
+  return Array.from({ length: partsPerSegment }, (_, offset) => first + offset);
+};
+
+export const toPartName = (seq: number): string => `part_${String(seq).padStart(5, '0')}.m4s`;
+
+/**
+ * Rewrite FFmpeg's playlist of part-sized fragments into an LL-HLS media playlist: every
+ * `partsPerSegment` parts form a full segment, recent parts are advertised as EXT-X-PART
+ * and the parts of the segment still being written trail the playlist. Clients poll for
+ * updates; blocking playlist reloads aren't supported.
+ */
+export const buildLowLatencyPlaylist = (profile: BroadcastProfile, ffmpegPlaylist: string): string | null => {
+  const partsPerSegment = getPartsPerSegment(profile);
+  const partSeconds = profile.partSeconds ?? profile.segmentSeconds;
+
+  let mapUri: string | null = null;
+  let pendingDuration: number | null = null;
+  const parts: PlaylistPart[] = [];
+
+  for (const rawLine of ffmpegPlaylist.split('\n')) {
+    const line = rawLine.trim();
+    if (line.startsWith('#EXT-X-MAP:')) {
+      mapUri = /URI="([^"]+)"/.exec(line)?.[1] ?? null;
+    } else if (line.startsWith('#EXTINF:')) {
+      pendingDuration = parseFloat(line.slice('#EXTINF:'.length));
+    } else if (line && !line.startsWith('#') && pendingDuration !== null) {
+      const match = PART_NAME_PATTERN.exec(line);
+      if (match) {
+        parts.push({ seq: Number(match[1]), duration: pendingDuration, uri: line });
+      }
+      pendingDuration = null;
+    }
+  }
+
+  // Skip parts of a segment whose beginning already rolled out of FFmpeg's playlist
+  const firstWhole = parts.findIndex((part) => part.seq % partsPerSegment === 0);
+  if (!mapUri || firstWhole === -1) {
+    return null;
+  }
+
+  const segments: PlaylistPart[][] = [];
+  for (const part of parts.slice(firstWhole)) {
+    const index = Math.floor(part.seq / partsPerSegment);
+    const current = segments[segments.length - 1];
+    if (current && Math.floor(current[0]!.seq / partsPerSegment) === index) {
+      current.push(part);
+    } else {
+      segments.push([part]);
+    }
+  }
+
+  const trailing = segments[segments.length - 1]!.length < partsPerSegment ? segments.pop()! : [];
+  const complete = segments.slice(-profile.playlistSize);
+  const firstSegmentIndex = complete.length
+    ? Math.floor(complete[0]![0]!.seq / partsPerSegment)
+    : Math.floor(trailing[0]!.seq / partsPerSegment);
+
+  const round = (value: number) => Math.round(value * 1000) / 1000;
+  const segmentDurations = complete.map((segment) => segment.reduce((total, part) => total + part.duration, 0));
+  const partTarget = round(Math.max(partSeconds, ...parts.map((part) => part.duration)));
+  const targetDuration = Math.max(Math.round(profile.segmentSeconds), ...segmentDurations.map(Math.round));
+
+  const partLine = (part: PlaylistPart) =>
+    `#EXT-X-PART:DURATION=${round(part.duration)},URI="${part.uri}",INDEPENDENT=YES`;
+
+  const lines = [
+    '#EXTM3U',
+    '#EXT-X-VERSION:9',
+    `#EXT-X-TARGETDURATION:${targetDuration}`,
+    `#EXT-X-PART-INF:PART-TARGET=${partTarget}`,
+    `#EXT-X-SERVER-CONTROL:PART-HOLD-BACK=${round(partTarget * 3)}`,
+    `#EXT-X-MEDIA-SEQUENCE:${firstSegmentIndex}`,
+    '#EXT-X-INDEPENDENT-SEGMENTS',
+    `#EXT-X-MAP:URI="${mapUri}"`,
+  ];
+
+  complete.forEach((segment, index) => {
+    if (index >= complete.length - SEGMENTS_WITH_PARTS) {
+      lines.push(...segment.map(partLine));
+    }
+    lines.push(`#EXTINF:${round(segmentDurations[index]!)},`, toSegmentName(Math.floor(segment[0]!.seq / partsPerSegment)));
+  });
+  lines.push(...trailing.map(partLine));
+
+  return `${lines.join('\n')}\n`;
+};
@@ -0,0 +1,67 @@
+import crypto from 'crypto';
+import { config } from '../config/environment';
+
+/**
+ * RTCIceServer as handed to browsers
+ */
+export interface IceServer {
+  urls: string[];
+  username?: string;
+  credential?: string;
+}
+
+export interface IceServerConfiguration {
+  iceServers: IceServer[];
+  // Seconds the TURN credential stays valid; null when no TURN server is configured
+  ttl: number | null;
+  expiresAt: string | null;
+}
+
+export interface IceServerSettings {
+  stunUrls: readonly string[];
+  turnUrls: readonly string[];
+  turnSecret?: string | undefined;
+  turnCredentialTtlSeconds: number;
+}
+
+/**
+ * Issues ICE server configurations for voice chat. TURN credentials follow coturn's REST API
+ * scheme: the username is `<expiry unix time>:<room>:<user>` and the password is the base64
+ * HMAC-SHA1 of the username under the secret shared with coturn, so the TURN server can check
+ * them without calling back here and they stop working on their own.
+ */
+export class IceServerService {
+  constructor(private settings: IceServerSettings = config.webrtc) {}
+
+  isTurnEnabled(): boolean {
+    return this.settings.turnUrls.length > 0 && !!this.settings.turnSecret;
+  }
+
+  getIceServers(userId: string, roomId: string, now: number = Date.now()): IceServerConfiguration {
+    const iceServers: IceServer[] = [];
+    if (this.settings.stunUrls.length > 0) {
+      iceServers.push({ urls: [...this.settings.stunUrls] });
+    }
+
+    if (!this.isTurnEnabled()) {
+      return { iceServers, ttl: null, expiresAt: null };
+    }
+
+    const ttl = this.settings.turnCredentialTtlSeconds;
+    const expiry = Math.floor(now / 1000) + ttl;
+    const username = `${expiry}:${roomId}:${userId}`;
+    iceServers.push({
+      urls: [...this.settings.turnUrls],
+      username,
+      credential: this.createCredential(username),
+    });
+
+    return { iceServers, ttl, expiresAt: new Date(expiry * 1000).toISOString() };
+  }
+
+  private createCredential(username: string): string {
+    return crypto.createHmac('sha1', this.settings.turnSecret!).update(username).digest('base64');
+  }
+}
+
+export const iceServerService = new IceServerService();
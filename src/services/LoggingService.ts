@@ -203,6 +203,16 @@ export class LoggingService {
     }, 'warn');
   }
 
+  // Chat moderation violation logging (masked or rejected messages)
+  logChatModerationViolation(roomId: string, userId: string, rule: string, action: 'masked' | 'rejected'): void {
+    this.logSecurityEvent('Chat Moderation Violation', {
+      roomId,
+      userId,
+      rule,
+      action,
+    }, action === 'rejected' ? 'warn' : 'info');
+  }
+
   // Performance monitoring
   logPerformanceMetric(metric: string, value: number, context: any = {}): void {
     logger.info('Performance Metric', {
@@ -1,11 +1,19 @@
 import { Server, Namespace } from 'socket.io';
 import { RoomService } from './RoomService';
-import { MetronomeTickData } from '../types';
-import { getHighResolutionTime } from '../shared/utils/timing';
+import { MetronomeTickData, MetronomeTransport, TempoRamp, TimeSignature } from '../types';
+import { getHighResolutionTime, getServerTime } from '../shared/utils/timing';
+
+interface ActiveTempoRamp extends TempoRamp {
+  totalBeats: number;
+  beatsDone: number;
+}
 
 /**
  * Room-specific metronome instance for namespace-isolated broadcasting
  * Requirements: 8.1, 8.2, 8.3
+ *
+ * Ticks are numbered by bar and beat from the transport start. Time signature changes and tempo
+ * ramps take effect on a downbeat, so clients that count bars from the ticks stay aligned.
  */
 export class RoomMetronome {
   private timeoutId: NodeJS.Timeout | null = null;
@@ -13,6 +21,14 @@ export class RoomMetronome {
   private pendingBpm: number | null = null;
   private tempoUpdateTimeout: NodeJS.Timeout | null = null;
   private onTempoApplied: ((bpm: number) => void) | null = null;
+  private onTimeSignatureApplied: ((timeSignature: TimeSignature) => void) | null = null;
+
+  // Position of the next tick; count-in bars are numbered up to 0
+  private bar = 1;
+  private beat = 1;
+  private pendingTimeSignature: TimeSignature | null = null;
+  private pendingRamp: TempoRamp | null = null;
+  private ramp: ActiveTempoRamp | null = null;
   
   // Self-correcting timer state
   private expectedNextTickTime: number = 0;
@@ -34,9 +50,10 @@ export class RoomMetronome {
    * Start the metronome for this specific room using self-correcting timer
    * This approach eliminates drift by calculating next tick time from the expected time
    * rather than the actual time, compensating for any delays in the event loop.
+   * Bar 1 starts after `countInBars` bars of count-in.
    * Requirements: 8.1, 8.2
    */
-  start(): void {
+  start(countInBars: number = 0): void {
     this.stop(); // Clear any existing timer
 
     const metronomeState = this.roomService.getMetronomeState(this.roomId);
@@ -51,7 +68,10 @@ export class RoomMetronome {
     this.maxDriftMs = 0;
     this.totalDriftMs = 0;
     this.driftSamples = 0;
+    this.bar = 1 - countInBars;
+    this.beat = 1;
     this.isRunning = true;
+    this.setTransport(countInBars > 0 ? 'count_in' : 'playing');
 
     const tick = () => {
       if (!this.isRunning) return;
@@ -63,7 +83,6 @@ export class RoomMetronome {
       }
 
       const now = getHighResolutionTime();
-      const currentIntervalMs = (60 / currentState.bpm) * 1000;
       
       // Calculate drift for monitoring
       const expectedTimeMs = (this.expectedNextTickTime - this.startTime) / 1_000_000;
@@ -95,21 +114,50 @@ export class RoomMetronome {
         // The next tick will use the new interval
       }
 
+      // Bar-level changes wait for a downbeat; ramps also wait for the count-in to finish
+      let timeSignature = currentState.timeSignature;
+      if (this.beat === 1) {
+        if (this.pendingTimeSignature) {
+          timeSignature = this.applyTimeSignature(this.pendingTimeSignature);
+          this.pendingTimeSignature = null;
+        }
+        if (this.pendingRamp && this.bar >= 1) {
+          this.ramp = { ...this.pendingRamp, totalBeats: this.pendingRamp.bars * timeSignature.beatsPerBar, beatsDone: 0 };
+          this.pendingRamp = null;
+        }
+      }
+
+      const bpm = this.ramp ? this.advanceRamp(this.ramp) : currentState.bpm;
+      const currentIntervalMs = (60 / bpm) * 1000;
       const tickTimestamp = Date.now();
       
       // Update the room's last tick timestamp
       const room = this.roomService.getRoom(this.roomId);
       if (room) {
         room.metronome.lastTickTimestamp = tickTimestamp;
+        room.metronome.transport = this.bar >= 1 ? 'playing' : 'count_in';
       }
 
       // Broadcast tick only to this room's namespace
       this.broadcastTick({
         timestamp: tickTimestamp,
-        bpm: currentState.bpm
+        serverTime: getServerTime(),
+        bpm,
+        bar: this.bar,
+        beat: this.beat,
+        beatsPerBar: timeSignature.beatsPerBar,
+        beatUnit: timeSignature.beatUnit,
+        isDownbeat: this.beat === 1,
+        countIn: this.bar < 1,
+        intervalMs: currentIntervalMs
       });
       
       this.tickCount++;
+      this.beat++;
+      if (this.beat > timeSignature.beatsPerBar) {
+        this.beat = 1;
+        this.bar++;
+      }
       
       // Calculate next expected tick time based on ideal timing, not actual
       // This is the key to self-correction - we always schedule from the expected time
@@ -143,6 +191,17 @@ export class RoomMetronome {
     }
     this.isRunning = false;
     this.pendingBpm = null;
+
+    // A ramp in progress stops where it is; a scheduled one waits for the next start
+    if (this.ramp) {
+      this.ramp = null;
+      this.setTempoRamp(this.pendingRamp);
+    }
+    if (this.pendingTimeSignature) {
+      this.applyTimeSignature(this.pendingTimeSignature);
+      this.pendingTimeSignature = null;
+    }
+    this.setTransport('stopped');
   }
 
   /**
@@ -151,6 +210,11 @@ export class RoomMetronome {
    * Requirements: 8.2
    */
   updateTempo(newBpm: number): void {
+    // A set tempo replaces any ramp
+    this.ramp = null;
+    this.pendingRamp = null;
+    this.setTempoRamp(null);
+
     // Store the pending BPM update - will be applied on next tick
     // This approach maintains timing consistency without needing to restart
     this.pendingBpm = newBpm;
@@ -159,6 +223,73 @@ export class RoomMetronome {
     this.roomService.updateMetronomeBPM(this.roomId, newBpm);
   }
 
+  /**
+   * Ramp the tempo linearly, beat by beat, over `bars` bars from the next downbeat of bar 1 or
+   * later. `toBpm` lands on the downbeat after the ramp, when onTempoApplied is called.
+   */
+  rampTempo(ramp: TempoRamp): void {
+    this.pendingBpm = null;
+    this.ramp = null;
+    this.pendingRamp = { ...ramp };
+    this.setTempoRamp(ramp);
+  }
+
+  /**
+   * Change the time signature at the next downbeat, or now while stopped
+   */
+  setTimeSignature(timeSignature: TimeSignature): void {
+    if (this.isRunning) {
+      this.pendingTimeSignature = { ...timeSignature };
+    } else {
+      this.applyTimeSignature(timeSignature);
+    }
+  }
+
+  /**
+   * Bar and beat of the next tick
+   */
+  getPosition(): { bar: number; beat: number } {
+    return { bar: this.bar, beat: this.beat };
+  }
+
+  private advanceRamp(ramp: ActiveTempoRamp): number {
+    const progress = Math.min(1, ramp.beatsDone / ramp.totalBeats);
+    const bpm = ramp.fromBpm + (ramp.toBpm - ramp.fromBpm) * progress;
+    ramp.beatsDone++;
+    this.roomService.updateMetronomeBPM(this.roomId, bpm);
+
+    if (ramp.beatsDone > ramp.totalBeats) {
+      this.ramp = null;
+      this.setTempoRamp(null);
+      if (this.onTempoApplied) {
+        this.onTempoApplied(bpm);
+      }
+    }
+    return bpm;
+  }
+
+  private applyTimeSignature(timeSignature: TimeSignature): TimeSignature {
+    this.roomService.updateMetronomeTimeSignature(this.roomId, timeSignature);
+    if (this.onTimeSignatureApplied) {
+      this.onTimeSignatureApplied(timeSignature);
+    }
+    return timeSignature;
+  }
+
+  private setTransport(transport: MetronomeTransport): void {
+    const room = this.roomService.getRoom(this.roomId);
+    if (room) {
+      room.metronome.transport = transport;
+    }
+  }
+
+  private setTempoRamp(ramp: TempoRamp | null): void {
+    const room = this.roomService.getRoom(this.roomId);
+    if (room) {
+      room.metronome.tempoRamp = ramp ? { ...ramp } : null;
+    }
+  }
+
   /**
    * Broadcast metronome tick to room namespace only
    * Requirements: 8.2, 8.3
@@ -181,6 +312,13 @@ export class RoomMetronome {
     this.onTempoApplied = callback;
   }
 
+  /**
+   * Set callback to be called when a time signature change takes effect
+   */
+  setOnTimeSignatureApplied(callback: (timeSignature: TimeSignature) => void): void {
+    this.onTimeSignatureApplied = callback;
+  }
+
   /**
    * Get room ID for this metronome instance
    */
@@ -234,13 +372,13 @@ export class MetronomeService {
   }
 
   /**
-   * Start metronome for a specific room
+   * Start metronome for a specific room, optionally after a count-in
    * Requirements: 8.1, 8.2
    */
-  startMetronome(roomId: string): void {
+  startMetronome(roomId: string, countInBars: number = 0): void {
     const roomMetronome = this.roomMetronomes.get(roomId);
     if (roomMetronome) {
-      roomMetronome.start();
+      roomMetronome.start(countInBars);
     }
   }
 
@@ -266,6 +404,26 @@ export class MetronomeService {
     }
   }
 
+  /**
+   * Schedule a tempo ramp for a specific room
+   */
+  rampMetronomeTempo(roomId: string, ramp: TempoRamp): void {
+    const roomMetronome = this.roomMetronomes.get(roomId);
+    if (roomMetronome) {
+      roomMetronome.rampTempo(ramp);
+    }
+  }
+
+  /**
+   * Change the time signature for a specific room at its next downbeat
+   */
+  setMetronomeTimeSignature(roomId: string, timeSignature: TimeSignature): void {
+    const roomMetronome = this.roomMetronomes.get(roomId);
+    if (roomMetronome) {
+      roomMetronome.setTimeSignature(timeSignature);
+    }
+  }
+
   /**
    * Clean up metronome instance when room becomes empty
    * Requirements: 8.5
@@ -0,0 +1,356 @@
+import ffmpeg from 'fluent-ffmpeg';
+import ffmpegInstaller from '@ffmpeg-installer/ffmpeg';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import { config } from '../config/environment';
+import { BackblazeStorageAdapter } from './storage/BackblazeStorageAdapter';
+import { LocalStorageAdapter } from './storage/LocalStorageAdapter';
+import { loggingService } from './LoggingService';
+import type { StorageAdapter } from './storage/StorageAdapter';
+import type { AudioRegion, Region, Track } from '../domains/arrange-room/domain/models/ArrangeRoomState';
+
+ffmpeg.setFfmpegPath(ffmpegInstaller.path);
+
+export type MixdownFormat = 'wav' | 'mp3' | 'opus';
+
+export const MIXDOWN_FORMATS: MixdownFormat[] = ['wav', 'mp3', 'opus'];
+
+export type MixdownJobStatus = 'queued' | 'rendering' | 'completed' | 'failed';
+
+export interface MixdownJob {
+  id: string;
+  // Owner of the job, e.g. `room:{roomId}` or `project:{userId}:{projectId}`
+  scope: string;
+  name: string;
+  format: MixdownFormat;
+  status: MixdownJobStatus;
+  createdAt: string;
+  completedAt?: string;
+  durationSeconds?: number;
+  sizeBytes?: number;
+  storageKey?: string;
+  // API route streaming the finished file, for storage clients can't fetch from directly
+  downloadPath: string;
+  error?: string;
+}
+
+export type MixdownJobStatusResponse = Omit<MixdownJob, 'storageKey' | 'downloadPath'> & { downloadUrl: string | null };
+
+export interface MixdownSource {
+  name: string;
+  bpm: number;
+  tracks: Track[];
+  regions: Region[];
+}
+
+/**
+ * One placement of an audio region on the timeline (a region plays once per loop iteration).
+ * Region positions, lengths, trims and fades are in beats; clip times are in seconds.
+ */
+export interface MixdownClip {
+  region: AudioRegion;
+  startSeconds: number;
+  offsetSeconds: number;
+  durationSeconds: number;
+  fadeInSeconds: number;
+  fadeOutSeconds: number;
+  leftGain: number;
+  rightGain: number;
+}
+
+const SAMPLE_RATE = 48000;
+// Finished jobs and their renders are dropped after a day
+const JOB_TTL_MS = 24 * 60 * 60 * 1000;
+
+const OUTPUT_FORMATS: Record<MixdownFormat, { extension: string; contentType: string; codec: string; container: string; bitrate?: string }> = {
+  wav: { extension: 'wav', contentType: 'audio/wav', codec: 'pcm_s16le', container: 'wav' },
+  mp3: { extension: 'mp3', contentType: 'audio/mpeg', codec: 'libmp3lame', container: 'mp3', bitrate: '320k' },
+  opus: { extension: 'ogg', contentType: 'audio/ogg', codec: 'libopus', container: 'ogg', bitrate: '192k' },
+};
+
+const round = (value: number): number => Math.round(value * 1_000_000) / 1_000_000;
+
+/**
+ * Lay out every audible audio region as clips: muted tracks are skipped, soloed tracks
+ * win when any track is soloed, and looped regions repeat `loopIterations` times.
+ */
+export const planMixdown = (source: MixdownSource): MixdownClip[] => {
+  const secondsPerBeat = 60 / Math.max(1, source.bpm);
+  const anySolo = source.tracks.some((track) => track.solo);
+  const audibleTracks = new Map(
+    source.tracks
+      .filter((track) => track.type === 'audio' && !track.mute && (!anySolo || track.solo))
+      .map((track) => [track.id, track])
+  );
+
+  const clips: MixdownClip[] = [];
+  for (const region of source.regions) {
+    const track = audibleTracks.get(region.trackId);
+    if (!track || region.type !== 'audio') continue;
+
+    const trimStart = Math.max(0, region.trimStart ?? 0);
+    const playable = region.originalLength !== undefined ? region.originalLength - trimStart : region.length;
+    const lengthBeats = Math.min(region.length, playable);
+    if (lengthBeats <= 0) continue;
+
+    // Simple balance law: the far side is attenuated, the near side stays at unity
+    const pan = Math.max(-1, Math.min(1, track.pan));
+    const gain = Math.max(0, track.volume) * Math.max(0, region.gain ?? 1);
+    const durationSeconds = round(lengthBeats * secondsPerBeat);
+    const fadeInSeconds = round(Math.min(durationSeconds, Math.max(0, region.fadeInDuration ?? 0) * secondsPerBeat));
+    const fadeOutSeconds = round(Math.min(durationSeconds, Math.max(0, region.fadeOutDuration ?? 0) * secondsPerBeat));
+
+    const iterations = region.loopEnabled ? Math.max(1, region.loopIterations) : 1;
+    for (let iteration = 0; iteration < iterations; iteration++) {
+      clips.push({
+        region,
+        startSeconds: round(Math.max(0, region.start + iteration * region.length) * secondsPerBeat),
+        offsetSeconds: round(trimStart * secondsPerBeat),
+        durationSeconds,
+        fadeInSeconds,
+        fadeOutSeconds,
+        leftGain: round(gain * Math.min(1, 1 - pan)),
+        rightGain: round(gain * Math.min(1, 1 + pan)),
+      });
+    }
+  }
+
+  return clips;
+};
+
+/**
+ * Build the ffmpeg filter graph that mixes clip `i` (read from input `i`) into `[mix]`.
+ * Every clip is padded to the full length so amix never renormalizes when a clip ends,
+ * and the mix is scaled back up because amix divides each input by the input count.
+ */
+export const buildMixdownFilterGraph = (clips: MixdownClip[]): { filters: string[]; totalSeconds: number } => {
+  const totalSeconds = Math.max(...clips.map((clip) => clip.startSeconds + clip.durationSeconds));
+
+  const filters = clips.map((clip, index) => {
+    const delayMs = Math.round(clip.startSeconds * 1000);
+    const chain = [
+      `atrim=start=${clip.offsetSeconds}:duration=${clip.durationSeconds}`,
+      'asetpts=PTS-STARTPTS',
+      `aformat=sample_fmts=fltp:sample_rates=${SAMPLE_RATE}:channel_layouts=stereo`,
+      `pan=stereo|c0=${clip.leftGain}*c0|c1=${clip.rightGain}*c1`,
+    ];
+    if (clip.fadeInSeconds > 0) {
+      chain.push(`afade=t=in:st=0:d=${clip.fadeInSeconds}`);
+    }
+    if (clip.fadeOutSeconds > 0) {
+      chain.push(`afade=t=out:st=${round(clip.durationSeconds - clip.fadeOutSeconds)}:d=${clip.fadeOutSeconds}`);
+    }
+    chain.push(`adelay=${delayMs}|${delayMs}`, 'apad', `atrim=end=${round(totalSeconds)}`);
+    return `[${index}:a]${chain.join(',')}[c${index}]`;
+  });
+
+  filters.push(
+    `${clips.map((_clip, index) => `[c${index}]`).join('')}amix=inputs=${clips.length}:duration=longest:dropout_transition=0,volume=${clips.length}[mix]`
+  );
+
+  return { filters, totalSeconds: round(totalSeconds) };
+};
+
+export interface StartMixdownOptions {
+  scope: string;
+  // API download route of the job's file
+  downloadPath: (jobId: string) => string;
+  source: MixdownSource;
+  format: MixdownFormat;
+  // Local file path of a region's audio, or null if it is unavailable
+  resolveAudioPath: (region: AudioRegion) => Promise<string | null> | string | null;
+  // Called once the render finishes, e.g. to remove temporary audio files
+  cleanup?: () => Promise<void>;
+}
+
+/**
+ * Offline stereo mixdown of arrange projects. Renders run one at a time in the
+ * background; finished files are stored via the StorageAdapter under mixdowns/.
+ */
+export class MixdownRenderService {
+  private readonly storageAdapter: StorageAdapter;
+  private readonly jobs = new Map<string, MixdownJob>();
+  private renderQueue: Promise<void> = Promise.resolve();
+
+  constructor(storageAdapter?: StorageAdapter) {
+    if (storageAdapter) {
+      this.storageAdapter = storageAdapter;
+    } else if (config.storage.backblaze?.enabled) {
+      try {
+        this.storageAdapter = new BackblazeStorageAdapter();
+      } catch (error) {
+        console.error('Failed to initialize Backblaze storage for mixdowns, falling back to local storage', error);
+        this.storageAdapter = new LocalStorageAdapter(path.join(process.cwd(), 'record-audio'));
+      }
+    } else {
+      this.storageAdapter = new LocalStorageAdapter(path.join(process.cwd(), 'record-audio'));
+    }
+  }
+
+  /**
+   * Queue a render and return the job immediately
+   */
+  startRender(options: StartMixdownOptions): MixdownJob {
+    this.pruneExpiredJobs();
+
+    const jobId = uuidv4();
+    const job: MixdownJob = {
+      id: jobId,
+      scope: options.scope,
+      downloadPath: options.downloadPath(jobId),
+      name: options.source.name,
+      format: options.format,
+      status: 'queued',
+      createdAt: new Date().toISOString(),
+    };
+    this.jobs.set(job.id, job);
+
+    this.renderQueue = this.renderQueue.then(() => this.runJob(job, options));
+    return { ...job };
+  }
+
+  /**
+   * Get a job, or null if it does not exist or belongs to another scope
+   */
+  getJob(jobId: string, scope: string): MixdownJob | null {
+    const job = this.jobs.get(jobId);
+    return job && job.scope === scope ? { ...job } : null;
+  }
+
+  /**
+   * Job status for API responses, with a download URL once the render is stored
+   */
+  async getJobStatus(jobId: string, scope: string): Promise<MixdownJobStatusResponse | null> {
+    const job = this.getJob(jobId, scope);
+    if (!job) {
+      return null;
+    }
+    const { storageKey, downloadPath, ...status } = job;
+    if (job.status !== 'completed' || !storageKey) {
+      return { ...status, downloadUrl: null };
+    }
+    // Local files have no URL clients can fetch, so they are streamed through the API
+    return {
+      ...status,
+      downloadUrl: this.storageAdapter instanceof LocalStorageAdapter ? downloadPath : await this.storageAdapter.getFileUrl(storageKey),
+    };
+  }
+
+  /**
+   * Load a finished render along with its download file name and content type
+   */
+  async getRenderedFile(job: MixdownJob): Promise<{ buffer: Buffer; fileName: string; contentType: string } | null> {
+    if (job.status !== 'completed' || !job.storageKey) {
+      return null;
+    }
+    const buffer = await this.storageAdapter.getFile(job.storageKey);
+    if (!buffer) {
+      return null;
+    }
+    const output = OUTPUT_FORMATS[job.format];
+    const baseName = job.name.replace(/[^\w\- ]+/g, '').trim().replace(/\s+/g, '_') || 'mixdown';
+    return { buffer, fileName: `${baseName}.${output.extension}`, contentType: output.contentType };
+  }
+
+  private async runJob(job: MixdownJob, options: StartMixdownOptions): Promise<void> {
+    const output = OUTPUT_FORMATS[job.format];
+    const outputPath = path.join(os.tmpdir(), `mixdown-${job.id}.${output.extension}`);
+    job.status = 'rendering';
+
+    // The job only reports a final status once temporary files are cleaned up
+    let result: Pick<MixdownJob, 'storageKey' | 'durationSeconds' | 'sizeBytes'> | null = null;
+    let failure: string | null = null;
+
+    try {
+      const clips = planMixdown(options.source);
+      const inputs: string[] = [];
+      const resolvedClips: MixdownClip[] = [];
+      for (const clip of clips) {
+        const audioPath = await options.resolveAudioPath(clip.region);
+        if (audioPath) {
+          inputs.push(audioPath);
+          resolvedClips.push(clip);
+        }
+      }
+
+      if (resolvedClips.length === 0) {
+        throw new Error('No audible audio regions to render');
+      }
+
+      const { filters, totalSeconds } = buildMixdownFilterGraph(resolvedClips);
+      await this.render(inputs, filters, output, outputPath);
+
+      const buffer = await fs.readFile(outputPath);
+      const storageKey = `mixdowns/${job.id}/${job.id}.${output.extension}`;
+      await this.storageAdapter.saveFile(storageKey, buffer, output.contentType);
+      result = { storageKey, durationSeconds: totalSeconds, sizeBytes: buffer.length };
+
+      loggingService.logInfo('Mixdown rendered', {
+        jobId: job.id,
+        scope: job.scope,
+        format: job.format,
+        clips: resolvedClips.length,
+        skippedClips: clips.length - resolvedClips.length,
+        durationSeconds: totalSeconds,
+        sizeBytes: buffer.length,
+      });
+    } catch (error) {
+      failure = error instanceof Error ? error.message : String(error);
+      loggingService.logError(error as Error, { context: 'MixdownRenderService', jobId: job.id, scope: job.scope });
+    } finally {
+      await fs.unlink(outputPath).catch(() => {});
+      await options.cleanup?.().catch(() => {});
+    }
+
+    if (result) {
+      Object.assign(job, result, { status: 'completed' });
+    } else {
+      job.status = 'failed';
+      job.error = failure ?? 'Mixdown failed';
+    }
+    job.completedAt = new Date().toISOString();
+  }
+
+  private render(
+    inputs: string[],
+    filters: string[],
+    output: (typeof OUTPUT_FORMATS)[MixdownFormat],
+    outputPath: string
+  ): Promise<void> {
+    return new Promise<void>((resolve, reject) => {
+      const command = ffmpeg();
+      inputs.forEach((input) => command.input(input));
+      command
+        .complexFilter(filters, 'mix')
+        .audioCodec(output.codec)
+        .audioFrequency(SAMPLE_RATE)
+        .audioChannels(2)
+        .format(output.container);
+      if (output.bitrate) {
+        command.audioBitrate(output.bitrate);
+      }
+      command
+        .on('end', () => resolve())
+        .on('error', (error: Error) => reject(error))
+        .save(outputPath);
+    });
+  }
+
+  private pruneExpiredJobs(): void {
+    const cutoff = Date.now() - JOB_TTL_MS;
+    for (const [jobId, job] of this.jobs) {
+      if (job.completedAt && Date.parse(job.completedAt) < cutoff) {
+        this.jobs.delete(jobId);
+        if (job.storageKey) {
+          this.storageAdapter.deleteFile(job.storageKey).catch((error) => {
+            loggingService.logError(error as Error, { context: 'MixdownRenderService:prune', jobId });
+          });
+        }
+      }
+    }
+  }
+}
+
+export const mixdownRenderService = new MixdownRenderService();
@@ -12,6 +12,8 @@ export interface GracePeriodEntry {
   timestamp: number;
   isIntendedLeave: boolean;
   userData: any;
+  // Overrides the default grace period (e.g. members of rooms restored after a restart)
+  gracePeriodMs?: number;
 }
 
 export class NamespaceGracePeriodManager {
@@ -36,7 +38,8 @@ export class NamespaceGracePeriodManager {
     roomId: string, 
     namespacePath: string, 
     userData: any, 
-    isIntendedLeave: boolean = false
+    isIntendedLeave: boolean = false,
+    gracePeriodMs?: number
   ): void {
     if (!this.roomGracePeriods.has(roomId)) {
       this.roomGracePeriods.set(roomId, new Map());
@@ -48,7 +51,8 @@ export class NamespaceGracePeriodManager {
       namespacePath,
       timestamp: Date.now(),
       isIntendedLeave,
-      userData
+      userData,
+      ...(gracePeriodMs !== undefined && { gracePeriodMs })
     };
 
     this.roomGracePeriods.get(roomId)!.set(userId, entry);
@@ -58,7 +62,7 @@ export class NamespaceGracePeriodManager {
       roomId,
       namespacePath,
       isIntendedLeave,
-      gracePeriodMs: this.GRACE_PERIOD_MS
+      gracePeriodMs: gracePeriodMs ?? this.GRACE_PERIOD_MS
     });
   }
 
@@ -78,7 +82,7 @@ export class NamespaceGracePeriodManager {
     }
 
     const now = Date.now();
-    if (now - entry.timestamp > this.GRACE_PERIOD_MS) {
+    if (now - entry.timestamp > this.getEntryGracePeriodMs(entry)) {
       // Grace period expired, remove entry
       roomGracePeriods.delete(userId);
       if (roomGracePeriods.size === 0) {
@@ -107,7 +111,7 @@ export class NamespaceGracePeriodManager {
 
     // Check if still valid
     const now = Date.now();
-    if (now - entry.timestamp > this.GRACE_PERIOD_MS) {
+    if (now - entry.timestamp > this.getEntryGracePeriodMs(entry)) {
       roomGracePeriods.delete(userId);
       if (roomGracePeriods.size === 0) {
         this.roomGracePeriods.delete(roomId);
@@ -158,7 +162,7 @@ export class NamespaceGracePeriodManager {
     const expiredUsers: string[] = [];
 
     for (const [userId, entry] of roomGracePeriods.entries()) {
-      if (now - entry.timestamp > this.GRACE_PERIOD_MS) {
+      if (now - entry.timestamp > this.getEntryGracePeriodMs(entry)) {
         expiredUsers.push(userId);
       } else {
         validEntries.push(entry);
@@ -201,7 +205,7 @@ export class NamespaceGracePeriodManager {
       const expiredUsers: string[] = [];
 
       for (const [userId, entry] of roomGracePeriods.entries()) {
-        if (now - entry.timestamp > this.GRACE_PERIOD_MS) {
+        if (now - entry.timestamp > this.getEntryGracePeriodMs(entry)) {
           expiredUsers.push(userId);
         }
       }
@@ -232,6 +236,10 @@ export class NamespaceGracePeriodManager {
     return roomsNeedingCleanup;
   }
 
+  private getEntryGracePeriodMs(entry: GracePeriodEntry): number {
+    return entry.gracePeriodMs ?? this.GRACE_PERIOD_MS;
+  }
+
   /**
    * Get grace period duration in milliseconds
    */
@@ -255,7 +263,7 @@ export class NamespaceGracePeriodManager {
       const entries: Array<{ userId: string; timeRemaining: number }> = [];
 
       for (const [userId, entry] of roomGracePeriods.entries()) {
-        const timeRemaining = Math.max(0, this.GRACE_PERIOD_MS - (now - entry.timestamp));
+        const timeRemaining = Math.max(0, this.getEntryGracePeriodMs(entry) - (now - entry.timestamp));
         if (timeRemaining > 0) {
           entries.push({ userId, timeRemaining });
           totalUsers++;
@@ -1,6 +1,7 @@
 import { loggingService } from './LoggingService';
 import { NamespaceManager } from './NamespaceManager';
 import { RoomSessionManager } from './RoomSessionManager';
+import type { BroadcastHealth } from './BroadcastPipeline';
 
 export interface RoomPerformanceMetrics {
   roomId: string;
@@ -59,6 +60,7 @@ export class PerformanceMonitoringService {
   private static instance: PerformanceMonitoringService;
   private roomMetrics = new Map<string, RoomPerformanceMetrics>();
   private connectionHealth = new Map<string, ConnectionHealthMetrics>();
+  private broadcastHealth = new Map<string, BroadcastHealth>();
   private systemMetrics: SystemPerformanceMetrics;
   private monitoringInterval: NodeJS.Timeout | null = null;
   private cleanupInterval: NodeJS.Timeout | null = null;
@@ -556,6 +558,33 @@ export class PerformanceMonitoringService {
     return new Map(this.connectionHealth);
   }
 
+  /**
+   * Record the latest health of every broadcast, replacing the previous report.
+   * Logs broadcasts that have just become unhealthy.
+   */
+  recordBroadcastHealth(reports: BroadcastHealth[]): void {
+    const previous = this.broadcastHealth;
+    this.broadcastHealth = new Map(reports.map((report) => [report.roomId, report]));
+
+    for (const report of reports) {
+      if (!report.healthy && previous.get(report.roomId)?.healthy !== false) {
+        loggingService.logInfo('Broadcast unhealthy', {
+          roomId: report.roomId,
+          isActive: report.isActive,
+          lastChunkAt: report.lastChunkAt,
+          unhealthySinks: report.sinks.filter((sink) => !sink.healthy).map((sink) => sink.sink),
+        });
+      }
+    }
+  }
+
+  /**
+   * Get the last reported health of every broadcast
+   */
+  getBroadcastHealth(): BroadcastHealth[] {
+    return Array.from(this.broadcastHealth.values());
+  }
+
   /**
    * Get performance summary
    * Requirements: 11.4
@@ -568,6 +597,7 @@ export class PerformanceMonitoringService {
     unhealthyConnections: number;
     topPerformingRooms: Array<{ roomId: string; messageCount: number }>;
     slowestRooms: Array<{ roomId: string; slowEventsCount: number }>;
+    broadcasts: { active: number; unhealthy: number };
   } {
     const healthyConnections = Array.from(this.connectionHealth.values())
       .filter(h => h.connectionState === 'connected' && h.errorCount < 3).length;
@@ -593,7 +623,11 @@ export class PerformanceMonitoringService {
       healthyConnections,
       unhealthyConnections,
       topPerformingRooms,
-      slowestRooms
+      slowestRooms,
+      broadcasts: {
+        active: this.getBroadcastHealth().filter((b) => b.isActive).length,
+        unhealthy: this.getBroadcastHealth().filter((b) => !b.healthy).length,
+      }
     };
   }
 
@@ -0,0 +1,320 @@
+import crypto from 'crypto';
+import path from 'path';
+import { config } from '../config/environment';
+import { BackblazeStorageAdapter } from './storage/BackblazeStorageAdapter';
+import { LocalStorageAdapter } from './storage/LocalStorageAdapter';
+import { loggingService } from './LoggingService';
+import type { StorageAdapter } from './storage/StorageAdapter';
+
+export interface ProjectRevisionSummary {
+  revision: number;
+  createdAt: string;
+  createdBy: string;
+  // Set when the revision was produced by restoring an older one
+  restoredFrom?: number;
+  audioFiles: string[];
+}
+
+interface RevisionManifest extends Omit<ProjectRevisionSummary, 'audioFiles'> {
+  audio: Record<string, string>; // fileName -> content hash
+}
+
+interface RevisionIndex {
+  revisions: RevisionManifest[];
+}
+
+export interface ProjectRevision {
+  summary: ProjectRevisionSummary;
+  projectJson: string;
+  audioFiles: Array<{ fileName: string; buffer: Buffer }>;
+}
+
+export interface CollectionDiff {
+  added: string[];
+  removed: string[];
+  changed: Array<{ id: string; fields: string[] }>;
+}
+
+export interface ProjectRevisionDiff {
+  tracks: CollectionDiff;
+  regions: CollectionDiff;
+  markers: CollectionDiff;
+}
+
+const isEqual = (a: unknown, b: unknown): boolean => {
+  if (a === b) return true;
+  if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) return false;
+  if (Array.isArray(a) !== Array.isArray(b)) return false;
+
+  const aKeys = Object.keys(a);
+  const bKeys = Object.keys(b);
+  return (
+    aKeys.length === bKeys.length &&
+    aKeys.every((key) => isEqual((a as Record<string, unknown>)[key], (b as Record<string, unknown>)[key]))
+  );
+};
+
+const diffCollection = (from: unknown, to: unknown): CollectionDiff => {
+  const toMap = (items: unknown) =>
+    new Map(
+      (Array.isArray(items) ? items : [])
+        .filter((item): item is Record<string, unknown> & { id: string } => typeof item?.id === 'string')
+        .map((item) => [item.id, item])
+    );
+  const fromItems = toMap(from);
+  const toItems = toMap(to);
+
+  const diff: CollectionDiff = { added: [], removed: [], changed: [] };
+  for (const [id, item] of toItems) {
+    const previous = fromItems.get(id);
+    if (!previous) {
+      diff.added.push(id);
+      continue;
+    }
+    const fields = [...new Set([...Object.keys(previous), ...Object.keys(item)])].filter(
+      (field) => !isEqual(previous[field], item[field])
+    );
+    if (fields.length > 0) {
+      diff.changed.push({ id, fields });
+    }
+  }
+  for (const id of fromItems.keys()) {
+    if (!toItems.has(id)) {
+      diff.removed.push(id);
+    }
+  }
+  return diff;
+};
+
+/**
+ * Compare the tracks, regions and markers of two serialized projects
+ */
+export const diffProjectData = (from: any, to: any): ProjectRevisionDiff => ({
+  tracks: diffCollection(from?.tracks, to?.tracks),
+  regions: diffCollection(from?.regions, to?.regions),
+  markers: diffCollection(from?.markers, to?.markers),
+});
+
+const toSummary = ({ audio, ...manifest }: RevisionManifest): ProjectRevisionSummary => ({
+  ...manifest,
+  audioFiles: Object.keys(audio),
+});
+
+/**
+ * Immutable, numbered revisions of saved projects.
+ * Stored under revisions/{userId}/{projectId}/ with audio deduplicated by content hash,
+ * separate from the working copy kept by ProjectStorageService.
+ */
+export class ProjectRevisionService {
+  private readonly storageAdapter: StorageAdapter;
+  // Serializes revision writes per project so numbers stay sequential
+  private readonly projectQueues = new Map<string, Promise<unknown>>();
+
+  constructor(storageAdapter?: StorageAdapter) {
+    if (storageAdapter) {
+      this.storageAdapter = storageAdapter;
+    } else if (config.storage.backblaze?.enabled) {
+      try {
+        this.storageAdapter = new BackblazeStorageAdapter();
+      } catch (error) {
+        console.error('Failed to initialize Backblaze storage for revisions, falling back to local storage', error);
+        this.storageAdapter = new LocalStorageAdapter(path.join(process.cwd(), 'record-audio'));
+      }
+    } else {
+      this.storageAdapter = new LocalStorageAdapter(path.join(process.cwd(), 'record-audio'));
+    }
+  }
+
+  private getRevisionsPrefix(userId: string, projectId: string): string {
+    return `revisions/${userId}/${projectId}`;
+  }
+
+  private async loadIndex(userId: string, projectId: string): Promise<RevisionIndex> {
+    const buffer = await this.storageAdapter.getFile(`${this.getRevisionsPrefix(userId, projectId)}/index.json`);
+    return buffer ? (JSON.parse(buffer.toString('utf-8')) as RevisionIndex) : { revisions: [] };
+  }
+
+  private async saveIndex(userId: string, projectId: string, index: RevisionIndex): Promise<void> {
+    await this.storageAdapter.saveFile(
+      `${this.getRevisionsPrefix(userId, projectId)}/index.json`,
+      Buffer.from(JSON.stringify(index, null, 2), 'utf-8'),
+      'application/json'
+    );
+  }
+
+  private runExclusive<T>(key: string, task: () => Promise<T>): Promise<T> {
+    const previous = this.projectQueues.get(key) ?? Promise.resolve();
+    const next = previous.catch(() => undefined).then(() => task());
+    const tail = next.catch(() => undefined);
+    this.projectQueues.set(key, tail);
+    void tail.then(() => {
+      if (this.projectQueues.get(key) === tail) {
+        this.projectQueues.delete(key);
+      }
+    });
+    return next;
+  }
+
+  /**
+   * Store a new revision and prune the oldest ones beyond `retention`
+   */
+  async createRevision(
+    userId: string,
+    projectId: string,
+    data: {
+      projectJson: string;
+      audioFiles?: Array<{ fileName: string; buffer: Buffer }>;
+      createdBy: string;
+      retention: number;
+      restoredFrom?: number;
+    }
+  ): Promise<ProjectRevisionSummary> {
+    return this.runExclusive(`${userId}/${projectId}`, async () => {
+      const prefix = this.getRevisionsPrefix(userId, projectId);
+      const index = await this.loadIndex(userId, projectId);
+      const revision = (index.revisions[index.revisions.length - 1]?.revision ?? 0) + 1;
+
+      const audio: Record<string, string> = {};
+      for (const audioFile of data.audioFiles ?? []) {
+        const hash = crypto.createHash('sha256').update(audioFile.buffer).digest('hex');
+        const blobKey = `${prefix}/blobs/${hash}`;
+        if (!(await this.storageAdapter.fileExists(blobKey))) {
+          await this.storageAdapter.saveFile(blobKey, audioFile.buffer, 'application/octet-stream');
+        }
+        audio[audioFile.fileName] = hash;
+      }
+
+      await this.storageAdapter.saveFile(
+        `${prefix}/${revision}/project.json`,
+        Buffer.from(data.projectJson, 'utf-8'),
+        'application/json'
+      );
+
+      const manifest: RevisionManifest = {
+        revision,
+        createdAt: new Date().toISOString(),
+        createdBy: data.createdBy,
+        audio,
+      };
+      if (data.restoredFrom !== undefined) {
+        manifest.restoredFrom = data.restoredFrom;
+      }
+
+      const retention = Math.max(1, data.retention);
+      const revisions = [...index.revisions, manifest];
+      const pruned = revisions.slice(0, Math.max(0, revisions.length - retention));
+      const kept = revisions.slice(pruned.length);
+      await this.saveIndex(userId, projectId, { revisions: kept });
+
+      if (pruned.length > 0) {
+        await this.deletePrunedRevisions(prefix, pruned, kept);
+      }
+
+      loggingService.logInfo('Project revision created', {
+        userId,
+        projectId,
+        revision,
+        audioFiles: Object.keys(audio).length,
+        prunedRevisions: pruned.map((r) => r.revision),
+      });
+
+      return toSummary(manifest);
+    });
+  }
+
+  /**
+   * List revisions, newest first
+   */
+  async listRevisions(userId: string, projectId: string): Promise<ProjectRevisionSummary[]> {
+    const index = await this.loadIndex(userId, projectId);
+    return index.revisions.map(toSummary).reverse();
+  }
+
+  /**
+   * Load a revision's project JSON and audio files, or null if it does not exist (or was pruned)
+   */
+  async getRevision(userId: string, projectId: string, revision: number): Promise<ProjectRevision | null> {
+    const index = await this.loadIndex(userId, projectId);
+    const manifest = index.revisions.find((r) => r.revision === revision);
+    if (!manifest) {
+      return null;
+    }
+
+    const prefix = this.getRevisionsPrefix(userId, projectId);
+    const projectJson = await this.storageAdapter.getFile(`${prefix}/${revision}/project.json`);
+    if (!projectJson) {
+      throw new Error(`Revision ${revision} of project ${projectId} is missing its project.json`);
+    }
+
+    const audioFiles: Array<{ fileName: string; buffer: Buffer }> = [];
+    for (const [fileName, hash] of Object.entries(manifest.audio)) {
+      const buffer = await this.storageAdapter.getFile(`${prefix}/blobs/${hash}`);
+      if (buffer) {
+        audioFiles.push({ fileName, buffer });
+      }
+    }
+
+    return { summary: toSummary(manifest), projectJson: projectJson.toString('utf-8'), audioFiles };
+  }
+
+  /**
+   * Diff the tracks, regions and markers of two revisions. Returns null if either does not exist.
+   */
+  async diffRevisions(userId: string, projectId: string, from: number, to: number): Promise<ProjectRevisionDiff | null> {
+    const prefix = this.getRevisionsPrefix(userId, projectId);
+    const index = await this.loadIndex(userId, projectId);
+    if (!index.revisions.some((r) => r.revision === from) || !index.revisions.some((r) => r.revision === to)) {
+      return null;
+    }
+
+    const [fromJson, toJson] = await Promise.all([
+      this.storageAdapter.getFile(`${prefix}/${from}/project.json`),
+      this.storageAdapter.getFile(`${prefix}/${to}/project.json`),
+    ]);
+    if (!fromJson || !toJson) {
+      return null;
+    }
+
+    return diffProjectData(JSON.parse(fromJson.toString('utf-8')), JSON.parse(toJson.toString('utf-8')));
+  }
+
+  /**
+   * Delete every revision of a project (used when the project itself is deleted)
+   */
+  async deleteRevisions(userId: string, projectId: string): Promise<void> {
+    const keys = await this.storageAdapter.listFiles(`${this.getRevisionsPrefix(userId, projectId)}/`);
+    const results = await Promise.allSettled(keys.map((key) => this.storageAdapter.deleteFile(key)));
+    const failures = results.filter((result) => result.status === 'rejected');
+    if (failures.length > 0) {
+      loggingService.logError(new Error(`Failed to delete ${failures.length} project revision file(s)`), {
+        context: 'ProjectRevisionService',
+        userId,
+        projectId,
+        totalFiles: keys.length,
+      });
+    }
+  }
+
+  private async deletePrunedRevisions(prefix: string, pruned: RevisionManifest[], kept: RevisionManifest[]): Promise<void> {
+    const referencedHashes = new Set(kept.flatMap((r) => Object.values(r.audio)));
+    const orphanedHashes = new Set(
+      pruned.flatMap((r) => Object.values(r.audio)).filter((hash) => !referencedHashes.has(hash))
+    );
+    const keys = [
+      ...pruned.map((r) => `${prefix}/${r.revision}/project.json`),
+      ...[...orphanedHashes].map((hash) => `${prefix}/blobs/${hash}`),
+    ];
+
+    // Pruning is best effort; the index no longer references these files
+    const results = await Promise.allSettled(keys.map((key) => this.storageAdapter.deleteFile(key)));
+    const failures = results.filter((result) => result.status === 'rejected');
+    if (failures.length > 0) {
+      loggingService.logError(new Error(`Failed to delete ${failures.length} pruned revision file(s)`), {
+        context: 'ProjectRevisionService',
+        prefix,
+      });
+    }
+  }
+}
+
+export const projectRevisionService = new ProjectRevisionService();
@@ -186,6 +186,22 @@ export class ProjectStorageService {
     }
   }
 
+  /**
+   * Copy a project's files (project.json and audio) into another user's project, e.g. when forking.
+   * Returns the copied files so the caller can record them as the first revision.
+   */
+  async copyProjectFiles(
+    from: { userId: string; projectId: string },
+    to: { userId: string; projectId: string }
+  ): Promise<{
+    projectJson: string;
+    audioFiles: Array<{ fileName: string; buffer: Buffer }>;
+  }> {
+    const files = await this.loadProjectFiles(from.userId, from.projectId);
+    await this.saveProjectFiles(to.userId, to.projectId, files);
+    return files;
+  }
+
   /**
    * Delete all old project files including all versions (used when updating/saving over existing project)
    * This deletes project.json and all audio files, including all versions in Backblaze
@@ -193,6 +209,7 @@ export class ProjectStorageService {
    * NOTE: For Backblaze buckets configured with "Keep only the last version" lifecycle setting,
    * this method is not necessary as old versions are automatically cleaned up when new files are uploaded.
    * This method is primarily useful for local storage or manual cleanup scenarios.
+   * Saved revisions live under a separate prefix (see ProjectRevisionService) and are not affected.
    */
   async deleteAllOldProjectFiles(userId: string, projectId: string): Promise<void> {
     if (this.storageAdapter) {
@@ -632,6 +649,18 @@ export class ProjectStorageService {
     });
   }
 
+  /**
+   * Put back a room project recovered from arrange room persistence
+   */
+  restoreRoomProject(roomId: string, project: {
+    projectData: any;
+    projectName: string;
+    uploadedBy: string;
+    uploadedAt: Date;
+  }): void {
+    this.roomProjects.set(roomId, project);
+  }
+
   /**
    * Get project from memory for a room (used by ProjectController)
    * This is for active room projects, not saved user projects
@@ -0,0 +1,124 @@
+import type { Socket } from 'socket.io';
+import type { KickRecord, RoomBan, RoomBanInfo } from '../types';
+
+// Kicks remembered per room, oldest dropped first
+const KICK_HISTORY_LIMIT = 100;
+
+export interface BanRequest {
+  userId: string;
+  username?: string;
+  ip?: string;
+  bannedBy: string;
+  reason?: string;
+  // Permanent when left out
+  durationSec?: number;
+}
+
+/**
+ * The address a socket connected from, as used for IP bans
+ */
+export const getSocketAddress = (socket: Socket): string | undefined => socket.handshake?.address || undefined;
+
+export const getBanMessage = (ban: RoomBan): string =>
+  ban.expiresAt === null
+    ? 'You are banned from this room'
+    : `You are banned from this room until ${new Date(ban.expiresAt).toISOString()}`;
+
+export const toRoomBanInfo = ({ ip, ...ban }: RoomBan): RoomBanInfo => ({ ...ban, ipBanned: ip !== undefined });
+
+/**
+ * Room bans and kick history. Bans are keyed by user id and can also cover the address the
+ * user connected from; they last for the room's lifetime unless they expire or are lifted.
+ */
+export class RoomBanService {
+  // roomId -> userId -> ban
+  private bans = new Map<string, Map<string, RoomBan>>();
+  private kicks = new Map<string, KickRecord[]>();
+
+  ban(roomId: string, request: BanRequest, now: number = Date.now()): RoomBan {
+    const { durationSec, ...details } = request;
+    const ban: RoomBan = {
+      ...details,
+      bannedAt: now,
+      expiresAt: durationSec !== undefined ? now + durationSec * 1000 : null,
+    };
+
+    let roomBans = this.bans.get(roomId);
+    if (!roomBans) {
+      roomBans = new Map();
+      this.bans.set(roomId, roomBans);
+    }
+    roomBans.set(ban.userId, ban);
+    return ban;
+  }
+
+  /**
+   * Lift a ban. Returns the lifted ban, or null when the user wasn't banned.
+   */
+  unban(roomId: string, userId: string, now: number = Date.now()): RoomBan | null {
+    const ban = this.getActiveBans(roomId, now).find((candidate) => candidate.userId === userId);
+    if (!ban) {
+      return null;
+    }
+    this.bans.get(roomId)?.delete(userId);
+    return ban;
+  }
+
+  /**
+   * The ban keeping this user, or anyone from this address, out of the room
+   */
+  findBan(roomId: string, userId: string, ip?: string, now: number = Date.now()): RoomBan | null {
+    return this.getActiveBans(roomId, now).find((ban) =>
+      ban.userId === userId || (ip !== undefined && ban.ip === ip)
+    ) ?? null;
+  }
+
+  getBans(roomId: string, now: number = Date.now()): RoomBan[] {
+    return this.getActiveBans(roomId, now);
+  }
+
+  /**
+   * Put back the bans of a room restored after a restart
+   */
+  restoreBans(roomId: string, bans: RoomBan[]): void {
+    this.bans.set(roomId, new Map(bans.map((ban) => [ban.userId, { ...ban }])));
+  }
+
+  recordKick(roomId: string, record: KickRecord): void {
+    const history = this.kicks.get(roomId) ?? [];
+    history.push(record);
+    if (history.length > KICK_HISTORY_LIMIT) {
+      history.splice(0, history.length - KICK_HISTORY_LIMIT);
+    }
+    this.kicks.set(roomId, history);
+  }
+
+  /**
+   * Kicks in the room, oldest first
+   */
+  getKickHistory(roomId: string): KickRecord[] {
+    return [...(this.kicks.get(roomId) ?? [])];
+  }
+
+  clearRoom(roomId: string): void {
+    this.bans.delete(roomId);
+    this.kicks.delete(roomId);
+  }
+
+  // Drops expired bans on the way
+  private getActiveBans(roomId: string, now: number): RoomBan[] {
+    const roomBans = this.bans.get(roomId);
+    if (!roomBans) {
+      return [];
+    }
+
+    for (const [userId, ban] of roomBans) {
+      if (ban.expiresAt !== null && ban.expiresAt <= now) {
+        roomBans.delete(userId);
+      }
+    }
+    return Array.from(roomBans.values());
+  }
+}
+
+export const roomBanService = new RoomBanService();
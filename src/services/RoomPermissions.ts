@@ -0,0 +1,67 @@
+import type { AssignableRoomRole, Room, RoomCapability, RoomPermissionMatrix, RoomRole } from '../types';
+
+export const ROOM_CAPABILITIES: RoomCapability[] = [
+  'approve',
+  'kick',
+  'ban',
+  'metronome',
+  'arrange_structure',
+  'broadcast',
+  'moderate_chat',
+];
+
+export const ASSIGNABLE_ROOM_ROLES: AssignableRoomRole[] = ['co_host', 'band_member'];
+
+// Band members keep the tempo and song structure controls they always had
+export const DEFAULT_ROOM_PERMISSIONS: RoomPermissionMatrix = {
+  co_host: ['approve', 'kick', 'ban', 'metronome', 'arrange_structure', 'moderate_chat'],
+  band_member: ['metronome', 'arrange_structure'],
+  audience: [],
+};
+
+/**
+ * Roles that play in the room, as opposed to listening
+ */
+export const isMusicianRole = (role: RoomRole | undefined): boolean =>
+  role === 'room_owner' || role === 'co_host' || role === 'band_member';
+
+export const getRoomPermissions = (room: Room): RoomPermissionMatrix => room.permissions ?? DEFAULT_ROOM_PERMISSIONS;
+
+/**
+ * Whether a user in the room may do something. The owner always may; everyone else goes by
+ * their role in the room's permission matrix.
+ */
+export const hasRoomCapability = (room: Room, userId: string, capability: RoomCapability): boolean => {
+  if (room.owner === userId) {
+    return true;
+  }
+
+  const role = room.users.get(userId)?.role;
+  if (!role || role === 'room_owner') {
+    return false;
+  }
+  return getRoomPermissions(room)[role].includes(capability);
+};
+
+/**
+ * Whether a user may kick, ban or mute the target. Only the owner can act on co-hosts, and
+ * nobody can act on the owner.
+ */
+export const canModerateMember = (room: Room, userId: string, targetUserId: string): boolean => {
+  if (targetUserId === room.owner) {
+    return false;
+  }
+  return room.owner === userId || room.users.get(targetUserId)?.role !== 'co_host';
+};
+
+/**
+ * The room's permission matrix with one role's capabilities replaced
+ */
+export const withRoleCapabilities = (
+  room: Room,
+  role: AssignableRoomRole,
+  capabilities: RoomCapability[]
+): RoomPermissionMatrix => ({
+  ...getRoomPermissions(room),
+  [role]: ROOM_CAPABILITIES.filter((capability) => capabilities.includes(capability)),
+});
@@ -1,10 +1,17 @@
 import { v4 as uuidv4 } from "uuid";
-import { Room, User, UserSession, EffectChainType, EffectChainState } from "../types";
+import { Room, User, UserSession, EffectChainType, EffectChainState, BroadcastProfileName, BroadcastArchiveMode, MetronomeState, TimeSignature, AssignableRoomRole, RoomPermissionMatrix } from "../types";
 import { CacheService } from "./CacheService";
 import { RoomSessionManager } from "./RoomSessionManager";
 import { namespaceGracePeriodManager } from "./NamespaceGracePeriodManager";
 import { METRONOME_CONSTANTS } from "../constants";
 import { loggingService } from "./LoggingService";
+import { isMusicianRole } from "./RoomPermissions";
+import type { PersistedRoomInfo } from "./persistence/ArrangeStatePersistence";
+
+const defaultTimeSignature = (): TimeSignature => ({
+  beatsPerBar: METRONOME_CONSTANTS.DEFAULT_BEATS_PER_BAR,
+  beatUnit: METRONOME_CONSTANTS.DEFAULT_BEAT_UNIT,
+});
 
 export class RoomService {
   private rooms = new Map<string, Room>();
@@ -14,6 +21,7 @@ export class RoomService {
   >();
   private readonly INTENTIONAL_LEAVE_EXPIRY_MS = 5 * 60 * 1000; // 5 minutes
   private cacheService = CacheService.getInstance();
+  private permissionListeners = new Set<(roomId: string) => void>();
   private roomSessionManager: RoomSessionManager;
   private readonly EFFECT_CHAIN_TYPES: EffectChainType[] = [
     'virtual_instrument',
@@ -76,6 +84,8 @@ export class RoomService {
       metronome: {
         bpm: METRONOME_CONSTANTS.DEFAULT_BPM,
         lastTickTimestamp: Date.now(),
+        timeSignature: defaultTimeSignature(),
+        transport: 'stopped',
       },
     };
 
@@ -103,6 +113,49 @@ export class RoomService {
     return { room, user, session };
   }
 
+  /**
+   * Recreate a persisted room after a restart. Its members have not reconnected yet, so
+   * they start out in the grace period and keep their roles when they rejoin.
+   */
+  restoreRoom(info: PersistedRoomInfo, gracePeriodMs?: number): Room {
+    const room: Room = {
+      id: info.id,
+      name: info.name,
+      ...(info.description && { description: info.description }),
+      roomType: "arrange",
+      owner: info.owner,
+      users: new Map(),
+      pendingMembers: new Map(),
+      isPrivate: info.isPrivate,
+      isHidden: info.isHidden,
+      createdAt: new Date(info.createdAt),
+      metronome: {
+        bpm: info.metronomeBpm,
+        lastTickTimestamp: Date.now(),
+        timeSignature: info.timeSignature ? { ...info.timeSignature } : defaultTimeSignature(),
+        transport: 'stopped',
+      },
+      ...(info.permissions && { permissions: info.permissions }),
+    };
+
+    this.rooms.set(room.id, room);
+    this.cacheService.cacheRoom(room.id, room);
+    this.cacheService.invalidateRoomCaches();
+
+    info.members.forEach((member) => {
+      namespaceGracePeriodManager.addToGracePeriod(
+        member.id,
+        room.id,
+        `/room/${room.id}`,
+        member,
+        false,
+        gracePeriodMs
+      );
+    });
+
+    return room;
+  }
+
   getRoom(roomId: string): Room | undefined {
     // Try cache first
     const cachedRoom = this.cacheService.getCachedRoom(roomId);
@@ -465,7 +518,7 @@ export class RoomService {
     if (!room) return true;
 
     const activeMusicians = Array.from(room.users.values()).filter(
-      (user) => user.role === "room_owner" || user.role === "band_member"
+      (user) => isMusicianRole(user.role)
     );
 
     if (activeMusicians.length > 0) {
@@ -486,8 +539,7 @@ export class RoomService {
         }
       }
 
-      const userRole = entry.userData?.role;
-      return userRole === "room_owner" || userRole === "band_member";
+      return isMusicianRole(entry.userData?.role);
     });
 
     return !hasGracePeriodMusician;
@@ -509,7 +561,7 @@ export class RoomService {
     }
 
     const candidates = Array.from(room.users.values()).filter(
-      (user) => user.role === "band_member" || user.role === "room_owner"
+      (user) => isMusicianRole(user.role)
     );
 
     if (candidates.length === 0) {
@@ -638,6 +690,17 @@ export class RoomService {
     return room ? Array.from(room.users.values()) : [];
   }
 
+  // Connected users plus those still within their grace period, i.e. everyone who can rejoin
+  getReconnectableUsers(roomId: string): User[] {
+    const users = new Map(this.getRoomUsers(roomId).map((user) => [user.id, user]));
+    namespaceGracePeriodManager.getRoomGracePeriodUsers(roomId).forEach((entry) => {
+      if (!entry.isIntendedLeave && entry.userData && !users.has(entry.userId)) {
+        users.set(entry.userId, entry.userData);
+      }
+    });
+    return Array.from(users.values());
+  }
+
   getPendingMembers(roomId: string): User[] {
     const room = this.rooms.get(roomId);
     return room ? Array.from(room.pendingMembers.values()) : [];
@@ -648,7 +711,7 @@ export class RoomService {
     if (!room) return [];
 
     return Array.from(room.users.values()).filter(
-      (u) => u.role === "band_member"
+      (u) => u.role === "band_member" || u.role === "co_host"
     );
   }
 
@@ -702,15 +765,28 @@ export class RoomService {
     return room;
   }
 
-  getMetronomeState(
-    roomId: string
-  ): { bpm: number; lastTickTimestamp: number } | null {
+  updateMetronomeTimeSignature(roomId: string, timeSignature: TimeSignature): Room | null {
+    const room = this.getRoom(roomId);
+    if (!room) return null;
+
+    room.metronome.timeSignature = { ...timeSignature };
+
+    // Update cache
+    this.cacheService.cacheRoom(roomId, room);
+
+    return room;
+  }
+
+  getMetronomeState(roomId: string): Required<MetronomeState> | null {
     const room = this.getRoom(roomId);
     if (!room) return null;
 
     return {
       bpm: room.metronome.bpm,
       lastTickTimestamp: room.metronome.lastTickTimestamp,
+      timeSignature: room.metronome.timeSignature ?? defaultTimeSignature(),
+      transport: room.metronome.transport ?? 'stopped',
+      tempoRamp: room.metronome.tempoRamp ?? null,
     };
   }
 
@@ -720,6 +796,8 @@ export class RoomService {
     description?: string;
     isPrivate?: boolean;
     isHidden?: boolean;
+    broadcastProfile?: BroadcastProfileName;
+    broadcastArchive?: BroadcastArchiveMode;
   }): boolean {
     const room = this.rooms.get(roomId);
     if (!room) return false;
@@ -729,6 +807,8 @@ export class RoomService {
     if (settings.description !== undefined) room.description = settings.description;
     if (settings.isPrivate !== undefined) room.isPrivate = settings.isPrivate;
     if (settings.isHidden !== undefined) room.isHidden = settings.isHidden;
+    if (settings.broadcastProfile !== undefined) room.broadcastProfile = settings.broadcastProfile;
+    if (settings.broadcastArchive !== undefined) room.broadcastArchive = settings.broadcastArchive;
 
     // Invalidate caches to ensure room list updates reflect the changes
     this.cacheService.invalidateRoom(roomId);
@@ -756,4 +836,43 @@ export class RoomService {
     const room = this.rooms.get(roomId);
     return room?.isBroadcasting ?? false;
   }
+
+  // Make a member a co-host or back into a band member
+  setUserRole(roomId: string, userId: string, role: AssignableRoomRole): User | undefined {
+    const room = this.rooms.get(roomId);
+    if (!room || userId === room.owner) return undefined;
+
+    const user = room.users.get(userId);
+    if (!user) return undefined;
+
+    user.role = role;
+    this.cacheService.invalidateRoom(roomId);
+    this.emitPermissionsChange(roomId);
+    return user;
+  }
+
+  updateRoomPermissions(roomId: string, permissions: RoomPermissionMatrix): boolean {
+    const room = this.rooms.get(roomId);
+    if (!room) return false;
+
+    room.permissions = permissions;
+    this.cacheService.invalidateRoom(roomId);
+    this.emitPermissionsChange(roomId);
+    return true;
+  }
+
+  /**
+   * Subscribe to changes of who may do what in a room: member roles and the permission matrix.
+   * Returns an unsubscribe function.
+   */
+  onPermissionsChange(listener: (roomId: string) => void): () => void {
+    this.permissionListeners.add(listener);
+    return () => {
+      this.permissionListeners.delete(listener);
+    };
+  }
+
+  private emitPermissionsChange(roomId: string): void {
+    this.permissionListeners.forEach((listener) => listener(roomId));
+  }
 }
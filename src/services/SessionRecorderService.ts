@@ -0,0 +1,237 @@
+import type { Room, User } from '../types';
+
+export type SessionRecordingEventType = 'note' | 'sustain' | 'instrument' | 'synth_params' | 'metronome';
+
+export interface SessionRecordingEvent {
+  // Milliseconds since the recording started
+  t: number;
+  type: SessionRecordingEventType;
+  // Not set for room-wide events (metronome)
+  userId?: string;
+  data: Record<string, unknown>;
+}
+
+export interface SessionRecordingPerformer {
+  userId: string;
+  username: string;
+}
+
+/**
+ * A recorded perform-room jam session. Stored as the projectData of a SavedProject
+ * with roomType 'perform'.
+ */
+export interface SessionRecording {
+  version: 1;
+  roomId: string;
+  roomName: string;
+  startedAt: string;
+  startedBy: string;
+  durationMs: number;
+  // Metronome tempo when the recording started
+  bpm: number;
+  // Set when the event or duration limit was reached before the recording was stopped
+  truncated: boolean;
+  performers: SessionRecordingPerformer[];
+  events: SessionRecordingEvent[];
+}
+
+export interface SessionRecordingStatus {
+  isRecording: boolean;
+  startedAt: string | null;
+  startedBy: string | null;
+  eventCount: number;
+}
+
+interface ActiveRecording {
+  recording: SessionRecording;
+  startedAtMs: number;
+  performers: Map<string, SessionRecordingPerformer>;
+}
+
+interface ActiveReplay {
+  timer: NodeJS.Timeout | null;
+  cancelled: boolean;
+}
+
+const MAX_EVENTS = 100_000;
+const MAX_DURATION_MS = 2 * 60 * 60 * 1000;
+
+/**
+ * Opt-in recorder for perform rooms: captures timestamped note, sustain, instrument,
+ * synth parameter and metronome events per user while the room owner has it running,
+ * and replays recordings on their original timeline.
+ */
+export class SessionRecorderService {
+  private recordings = new Map<string, ActiveRecording>();
+  private replays = new Map<string, ActiveReplay>();
+
+  constructor(
+    private readonly maxEvents: number = MAX_EVENTS,
+    private readonly maxDurationMs: number = MAX_DURATION_MS
+  ) {}
+
+  /**
+   * Start recording a room. Returns false if the room is already being recorded.
+   * Every user's current instrument and synth parameters are captured at t=0 so
+   * replays start with the right sounds.
+   */
+  start(room: Room, startedBy: string): boolean {
+    if (this.recordings.has(room.id)) {
+      return false;
+    }
+
+    const active: ActiveRecording = {
+      recording: {
+        version: 1,
+        roomId: room.id,
+        roomName: room.name,
+        startedAt: new Date().toISOString(),
+        startedBy,
+        durationMs: 0,
+        bpm: room.metronome.bpm,
+        truncated: false,
+        performers: [],
+        events: [],
+      },
+      startedAtMs: Date.now(),
+      performers: new Map(),
+    };
+    this.recordings.set(room.id, active);
+
+    for (const user of room.users.values()) {
+      if (user.currentInstrument) {
+        this.record(room.id, 'instrument', user, {
+          instrument: user.currentInstrument,
+          category: user.currentCategory || '',
+        });
+      }
+      if (user.synthParams) {
+        this.record(room.id, 'synth_params', user, { params: user.synthParams });
+      }
+    }
+    return true;
+  }
+
+  isRecording(roomId: string): boolean {
+    return this.recordings.has(roomId);
+  }
+
+  getStatus(roomId: string): SessionRecordingStatus {
+    const active = this.recordings.get(roomId);
+    return {
+      isRecording: !!active,
+      startedAt: active?.recording.startedAt ?? null,
+      startedBy: active?.recording.startedBy ?? null,
+      eventCount: active?.recording.events.length ?? 0,
+    };
+  }
+
+  /**
+   * Append an event to the room's recording; a no-op when the room isn't being recorded
+   */
+  record(
+    roomId: string,
+    type: SessionRecordingEventType,
+    user: Pick<User, 'id' | 'username'> | null,
+    data: Record<string, unknown>
+  ): void {
+    const active = this.recordings.get(roomId);
+    if (!active || active.recording.truncated) {
+      return;
+    }
+
+    const t = Date.now() - active.startedAtMs;
+    if (active.recording.events.length >= this.maxEvents || t > this.maxDurationMs) {
+      active.recording.truncated = true;
+      return;
+    }
+
+    const event: SessionRecordingEvent = { t, type, data: structuredClone(data) };
+    if (user) {
+      event.userId = user.id;
+      active.performers.set(user.id, { userId: user.id, username: user.username });
+    }
+    active.recording.events.push(event);
+  }
+
+  /**
+   * Stop recording and return the finished recording, or null if the room wasn't being recorded
+   */
+  stop(roomId: string): SessionRecording | null {
+    const active = this.recordings.get(roomId);
+    if (!active) {
+      return null;
+    }
+    this.recordings.delete(roomId);
+
+    const { recording } = active;
+    recording.durationMs = Math.min(Date.now() - active.startedAtMs, this.maxDurationMs);
+    recording.performers = [...active.performers.values()];
+    return recording;
+  }
+
+  /**
+   * Play a recording's events back on their original timeline. Replaces any replay
+   * already running in the room; `onFinished` is not called for stopped replays.
+   */
+  startReplay(
+    roomId: string,
+    recording: Pick<SessionRecording, 'events'>,
+    onEvent: (event: SessionRecordingEvent) => void,
+    onFinished: () => void
+  ): void {
+    this.stopReplay(roomId);
+
+    const events = [...recording.events].sort((a, b) => a.t - b.t);
+    const replay: ActiveReplay = { timer: null, cancelled: false };
+    const startedAtMs = Date.now();
+    let next = 0;
+
+    // One timer at a time instead of one per event, so long recordings don't flood the timer queue
+    const tick = () => {
+      replay.timer = null;
+      if (replay.cancelled) {
+        return;
+      }
+      const elapsed = Date.now() - startedAtMs;
+      while (next < events.length && events[next]!.t <= elapsed) {
+        onEvent(events[next]!);
+        next += 1;
+      }
+      if (next >= events.length) {
+        this.replays.delete(roomId);
+        onFinished();
+        return;
+      }
+      replay.timer = setTimeout(tick, events[next]!.t - elapsed);
+    };
+
+    this.replays.set(roomId, replay);
+    tick();
+  }
+
+  isReplaying(roomId: string): boolean {
+    return this.replays.has(roomId);
+  }
+
+  stopReplay(roomId: string): boolean {
+    const replay = this.replays.get(roomId);
+    if (!replay) {
+      return false;
+    }
+    replay.cancelled = true;
+    if (replay.timer) {
+      clearTimeout(replay.timer);
+    }
+    this.replays.delete(roomId);
+    return true;
+  }
+
+  /**
+   * Drop a deleted room's recording and replay
+   */
+  clearRoom(roomId: string): void {
+    this.recordings.delete(roomId);
+    this.stopReplay(roomId);
+  }
+}
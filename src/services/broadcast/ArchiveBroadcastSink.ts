@@ -0,0 +1,84 @@
+import * as os from 'os';
+import * as path from 'path';
+import { logger } from '../LoggingService';
+import type { BroadcastProfileName } from '../../types';
+import type { BroadcastProfile } from '../HLSBroadcastProfiles';
+import type { BroadcastSink, BroadcastSinkHealth } from './BroadcastSink';
+import { HLSBroadcastSink } from './HLSBroadcastSink';
+
+/**
+ * A stopped broadcast whose files are kept until the archive callback resolves
+ */
+export interface FinishedBroadcast {
+  roomId: string;
+  profileName: BroadcastProfileName;
+  profile: BroadcastProfile;
+  // Directory of each rendition, in profile.renditions order
+  renditionDirs: string[];
+  startTime: number;
+  endTime: number;
+}
+
+type ArchiveState = 'recording' | 'archiving' | 'archived' | 'failed';
+
+/**
+ * Records the broadcast as HLS renditions that keep every segment, and hands them
+ * to `onArchive` (e.g. BroadcastArchiveService) once the broadcast stops
+ */
+export class ArchiveBroadcastSink implements BroadcastSink {
+  readonly name = 'archive';
+  private readonly encoder: HLSBroadcastSink;
+  private startTime = 0;
+  private state: ArchiveState = 'recording';
+
+  constructor(
+    private readonly roomId: string,
+    profileName: BroadcastProfileName,
+    private readonly onArchive: (broadcast: FinishedBroadcast) => Promise<void>
+  ) {
+    const outputDir = path.join(os.tmpdir(), 'jam-band-hls-archive', `${roomId}-${Date.now()}`);
+    this.encoder = new HLSBroadcastSink(roomId, profileName, outputDir, { keepSegments: true });
+  }
+
+  start(): boolean {
+    this.startTime = Date.now();
+    return this.encoder.start();
+  }
+
+  write(chunk: Buffer): boolean {
+    return this.encoder.write(chunk);
+  }
+
+  async stop(): Promise<void> {
+    const endTime = Date.now();
+    await this.encoder.stop();
+
+    this.state = 'archiving';
+    try {
+      await this.onArchive({
+        roomId: this.roomId,
+        profileName: this.encoder.profileName,
+        profile: this.encoder.profile,
+        renditionDirs: this.encoder.getRenditionDirs(),
+        startTime: this.startTime,
+        endTime,
+      });
+      this.state = 'archived';
+    } catch (err) {
+      this.state = 'failed';
+      logger.error(`Failed to archive broadcast for room ${this.roomId}: ${err instanceof Error ? err.message : String(err)}`);
+    } finally {
+      this.encoder.cleanup();
+    }
+  }
+
+  getHealth(): BroadcastSinkHealth {
+    const encoder = this.encoder.getHealth();
+    return {
+      ...encoder,
+      sink: this.name,
+      healthy: this.state === 'recording' ? encoder.healthy : this.state !== 'failed',
+      details: { ...encoder.details, state: this.state },
+    };
+  }
+}
@@ -0,0 +1,23 @@
+export interface BroadcastSinkHealth {
+  sink: string;
+  healthy: boolean;
+  bytesWritten: number;
+  // Chunks the sink could not take, e.g. after its encoder exited
+  chunksDropped: number;
+  lastError: string | null;
+  details?: Record<string, unknown>;
+}
+
+/**
+ * One output of the broadcast pipeline. Every sink of a broadcast is fed the room
+ * owner's WebM/Opus audio chunks in order.
+ */
+export interface BroadcastSink {
+  readonly name: string;
+  start(): boolean;
+  // Returns false when the chunk was dropped
+  write(chunk: Buffer): boolean;
+  // Resolves once the sink has flushed its output (e.g. the archive is stored)
+  stop(): Promise<void>;
+  getHealth(): BroadcastSinkHealth;
+}
@@ -0,0 +1,265 @@
+import { spawn, ChildProcess } from 'child_process';
+import * as fs from 'fs';
+import * as path from 'path';
+import { logger } from '../LoggingService';
+import type { BroadcastProfileName } from '../../types';
+import {
+  BROADCAST_PROFILES,
+  buildFfmpegArgs,
+  buildLowLatencyPlaylist,
+  buildMasterPlaylist,
+  getSegmentPartSeqs,
+  toPartName,
+  type BroadcastProfile,
+} from '../HLSBroadcastProfiles';
+import type { BroadcastSink, BroadcastSinkHealth } from './BroadcastSink';
+
+// Get FFmpeg path from installer
+const ffmpegPath = require('@ffmpeg-installer/ffmpeg').path;
+
+export interface HLSBroadcastSinkOptions {
+  // Keep every segment and list them all instead of a live window (for archives)
+  keepSegments?: boolean;
+}
+
+/**
+ * Transcodes the broadcast to HLS with FFmpeg: one rendition per bitrate of the
+ * broadcast profile, written to `<outputDir>/<rendition index>/`
+ */
+export class HLSBroadcastSink implements BroadcastSink {
+  readonly name = 'hls';
+  readonly profile: BroadcastProfile;
+  private ffmpegProcess: ChildProcess | null = null;
+  private exited: Promise<void> = Promise.resolve();
+  private bytesWritten = 0;
+  private chunksDropped = 0;
+  private lastError: string | null = null;
+
+  constructor(
+    private readonly roomId: string,
+    readonly profileName: BroadcastProfileName,
+    readonly outputDir: string,
+    private readonly options: HLSBroadcastSinkOptions = {}
+  ) {
+    this.profile = BROADCAST_PROFILES[profileName];
+  }
+
+  start(): boolean {
+    // Clean up any old files
+    fs.rmSync(this.outputDir, { recursive: true, force: true });
+    this.profile.renditions.forEach((_, index) =>
+      fs.mkdirSync(path.join(this.outputDir, String(index)), { recursive: true })
+    );
+    const ffmpegArgs = buildFfmpegArgs(this.profile, this.outputDir, !!this.options.keepSegments);
+    const { roomId } = this;
+
+    logger.info(`Starting FFmpeg for room ${roomId}`, {
+      ffmpegPath,
+      outputDir: this.outputDir,
+      profile: this.profileName,
+      keepSegments: !!this.options.keepSegments,
+    });
+
+    try {
+      const ffmpegProcess = spawn(ffmpegPath, ffmpegArgs, {
+        stdio: ['pipe', 'pipe', 'pipe']
+      });
+      this.exited = new Promise<void>((resolve) => {
+        ffmpegProcess.once('close', () => resolve());
+        ffmpegProcess.once('error', () => resolve());
+      });
+
+      ffmpegProcess.stdout?.on('data', (data) => {
+        logger.debug(`FFmpeg stdout [${roomId}]: ${data.toString()}`);
+      });
+
+      ffmpegProcess.stderr?.on('data', (data) => {
+        const message = data.toString();
+        // FFmpeg outputs progress info to stderr, only log errors
+        if (message.includes('Error') || message.includes('error')) {
+          logger.error(`FFmpeg error [${roomId}]: ${message}`);
+          this.lastError = message.trim();
+        } else {
+          logger.debug(`FFmpeg [${roomId}]: ${message}`);
+        }
+      });
+
+      // Writes after FFmpeg exits fail with EPIPE; they are counted as dropped chunks
+      ffmpegProcess.stdin?.on('error', (err) => {
+        this.lastError = err.message;
+      });
+
+      ffmpegProcess.on('close', (code) => {
+        logger.info(`FFmpeg process closed for room ${roomId}`, { code });
+        this.ffmpegProcess = null;
+      });
+
+      ffmpegProcess.on('error', (err) => {
+        logger.error(`FFmpeg process error for room ${roomId}: ${err.message}`);
+        this.lastError = err.message;
+        this.ffmpegProcess = null;
+      });
+
+      this.ffmpegProcess = ffmpegProcess;
+      return true;
+    } catch (err) {
+      logger.error(`Failed to start FFmpeg for room ${roomId}: ${err instanceof Error ? err.message : String(err)}`);
+      return false;
+    }
+  }
+
+  /**
+   * Write audio chunk to FFmpeg stdin
+   */
+  write(chunk: Buffer): boolean {
+    const stdin = this.ffmpegProcess?.stdin;
+    if (!stdin || stdin.destroyed) {
+      this.chunksDropped += 1;
+      return false;
+    }
+
+    try {
+      const canWrite = stdin.write(chunk);
+      if (!canWrite) {
+        // Handle backpressure - wait for drain
+        stdin.once('drain', () => {
+          logger.debug(`FFmpeg stdin drained for room ${this.roomId}`);
+        });
+      }
+      this.bytesWritten += chunk.length;
+      return true;
+    } catch (err) {
+      logger.error(`Failed to write audio chunk for room ${this.roomId}: ${err instanceof Error ? err.message : String(err)}`);
+      this.lastError = err instanceof Error ? err.message : String(err);
+      this.chunksDropped += 1;
+      return false;
+    }
+  }
+
+  /**
+   * Ends FFmpeg's input and resolves once it has written its last segment and exited
+   */
+  stop(): Promise<void> {
+    const ffmpegProcess = this.ffmpegProcess;
+    if (ffmpegProcess) {
+      // Close FFmpeg stdin to signal end of input
+      ffmpegProcess.stdin?.end();
+      ffmpegProcess.kill('SIGTERM');
+
+      // Force kill after 5 seconds if still running
+      setTimeout(() => {
+        if (this.ffmpegProcess === ffmpegProcess && !ffmpegProcess.killed) {
+          ffmpegProcess.kill('SIGKILL');
+        }
+      }, 5000);
+    }
+    return this.exited;
+  }
+
+  isRunning(): boolean {
+    return this.ffmpegProcess !== null;
+  }
+
+  getHealth(): BroadcastSinkHealth {
+    return {
+      sink: this.name,
+      healthy: this.isRunning(),
+      bytesWritten: this.bytesWritten,
+      chunksDropped: this.chunksDropped,
+      lastError: this.lastError,
+      details: { profile: this.profileName },
+    };
+  }
+
+  /**
+   * Get the master playlist listing the renditions, once any rendition has something to play
+   */
+  getPlaylist(): string | null {
+    const ready = this.profile.renditions.some((rendition) => this.getRenditionPlaylist(rendition.name));
+    return ready ? buildMasterPlaylist(this.profile) : null;
+  }
+
+  /**
+   * Get a rendition's media playlist
+   */
+  getRenditionPlaylist(renditionName: string): string | null {
+    const renditionDir = this.getRenditionDir(renditionName);
+    if (!renditionDir) {
+      return null;
+    }
+
+    const playlistPath = path.join(renditionDir, 'playlist.m3u8');
+
+    try {
+      if (fs.existsSync(playlistPath)) {
+        const playlist = fs.readFileSync(playlistPath, 'utf-8');
+        return this.profile.partSeconds !== undefined ? buildLowLatencyPlaylist(this.profile, playlist) : playlist;
+      }
+    } catch (err) {
+      logger.error(`Failed to read playlist for room ${this.roomId}: ${err instanceof Error ? err.message : String(err)}`);
+    }
+
+    return null;
+  }
+
+  /**
+   * Get a rendition's HLS segment, LL-HLS part or fMP4 init section.
+   * LL-HLS full segments are assembled from their parts.
+   */
+  getSegment(renditionName: string, segmentName: string): Buffer | null {
+    const renditionDir = this.getRenditionDir(renditionName);
+    if (!renditionDir) {
+      return null;
+    }
+
+    // Validate segment name to prevent path traversal
+    if (!segmentName.match(/^(segment|part)_\d{5}\.(ts|m4s)$|^init(_\d+)?\.mp4$/)) {
+      logger.warn(`Invalid segment name requested: ${segmentName}`);
+      return null;
+    }
+
+    const fileNames = getSegmentPartSeqs(this.profile, segmentName)?.map(toPartName) ?? [segmentName];
+
+    try {
+      const buffers: Buffer[] = [];
+      for (const fileName of fileNames) {
+        const segmentPath = path.join(renditionDir, fileName);
+        if (!fs.existsSync(segmentPath)) {
+          return null;
+        }
+        buffers.push(fs.readFileSync(segmentPath));
+      }
+      return Buffer.concat(buffers);
+    } catch (err) {
+      logger.error(`Failed to read segment ${segmentName} for room ${this.roomId}: ${err instanceof Error ? err.message : String(err)}`);
+    }
+
+    return null;
+  }
+
+  /**
+   * Directory of each rendition, in profile.renditions order
+   */
+  getRenditionDirs(): string[] {
+    return this.profile.renditions.map((_, index) => path.join(this.outputDir, String(index)));
+  }
+
+  /**
+   * Remove the sink's output
+   */
+  cleanup(): void {
+    try {
+      fs.rmSync(this.outputDir, { recursive: true, force: true });
+    } catch (err) {
+      logger.error(`Failed to cleanup directory ${this.outputDir}: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  }
+
+  /**
+   * FFmpeg writes each rendition into a directory named after its index
+   */
+  private getRenditionDir(renditionName: string): string | null {
+    const index = this.profile.renditions.findIndex((rendition) => rendition.name === renditionName);
+    return index === -1 ? null : path.join(this.outputDir, String(index));
+  }
+}
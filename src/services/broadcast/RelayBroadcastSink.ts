@@ -0,0 +1,41 @@
+import type { StreamingStrategy } from '../../domains/real-time-communication/infrastructure/strategies/StreamingStrategy';
+import type { BroadcastSink, BroadcastSinkHealth } from './BroadcastSink';
+
+/**
+ * Forwards the broadcaster's WebM/Opus chunks untouched to the room's StreamingStrategy hub,
+ * for audiences that can't wait for HLS segments
+ */
+export class RelayBroadcastSink implements BroadcastSink {
+  readonly name = 'relay';
+
+  constructor(
+    private readonly streaming: StreamingStrategy,
+    private readonly broadcasterId: string
+  ) {}
+
+  start(): boolean {
+    return true;
+  }
+
+  write(chunk: Buffer): boolean {
+    this.streaming.publishChunk(chunk, this.broadcasterId);
+    return true;
+  }
+
+  async stop(): Promise<void> {
+    this.streaming.endStream();
+  }
+
+  getHealth(): BroadcastSinkHealth {
+    const stats = this.streaming.getStats();
+    return {
+      sink: this.name,
+      healthy: true,
+      bytesWritten: stats.bytesPublished,
+      // Chunks dropped from slow listeners' queues
+      chunksDropped: stats.chunksDropped,
+      lastError: null,
+      details: { listeners: stats.subscribers },
+    };
+  }
+}
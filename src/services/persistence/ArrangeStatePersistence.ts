@@ -0,0 +1,62 @@
+import type { RoomBan, RoomPermissionMatrix, TimeSignature, User } from '../../types';
+import type { PersistedArrangeState } from '../../domains/arrange-room/domain/models/ArrangeRoomState';
+import type { ArrangeJournalChange } from '../../domains/arrange-room/domain/models/ArrangeStateChange';
+
+export interface PersistedRoomInfo {
+  id: string;
+  name: string;
+  description?: string;
+  owner: string;
+  isPrivate: boolean;
+  isHidden: boolean;
+  createdAt: string;
+  metronomeBpm: number;
+  // Left out by snapshots taken before it was persisted; those rooms restore in 4/4
+  timeSignature?: TimeSignature;
+  // Bans still in force when the snapshot was taken
+  bans?: RoomBan[];
+  // Only set once the owner changed it from the defaults
+  permissions?: RoomPermissionMatrix;
+  // Users in the room when the snapshot was taken; restored into the reconnect grace period
+  members: User[];
+}
+
+export interface PersistedRoomProject {
+  projectData: any;
+  projectName: string;
+  uploadedBy: string;
+  uploadedAt: string;
+}
+
+/**
+ * Full state of an arrange room. `seq` is the last journal entry it includes.
+ */
+export interface ArrangeRoomSnapshot {
+  version: 1;
+  roomId: string;
+  seq: number;
+  savedAt: string;
+  room: PersistedRoomInfo;
+  state: PersistedArrangeState;
+  project?: PersistedRoomProject;
+}
+
+export interface ArrangeJournalEntry {
+  seq: number;
+  at: string;
+  change: ArrangeJournalChange;
+}
+
+export interface PersistedArrangeRoom {
+  snapshot: ArrangeRoomSnapshot;
+  // Entries written after the snapshot, in order
+  journal: ArrangeJournalEntry[];
+}
+
+export interface ArrangeStatePersistence {
+  loadRooms(): Promise<PersistedArrangeRoom[]>;
+  // Replaces the room's snapshot and discards journal entries it already includes
+  saveSnapshot(snapshot: ArrangeRoomSnapshot): Promise<void>;
+  appendJournal(roomId: string, entries: ArrangeJournalEntry[]): Promise<void>;
+  deleteRoom(roomId: string): Promise<void>;
+}
@@ -0,0 +1,12 @@
+import type { ChatMessage, ChatMessageChanges } from '../../types';
+
+export interface ChatHistoryPersistence {
+  // Whether chat in rooms owned by this user is kept
+  isOwnerPersisted(ownerId: string): Promise<boolean>;
+  saveMessage(roomId: string, message: ChatMessage): Promise<void>;
+  getMessage(roomId: string, messageId: string): Promise<ChatMessage | null>;
+  updateMessage(roomId: string, messageId: string, changes: ChatMessageChanges): Promise<void>;
+  deleteMessage(roomId: string, messageId: string): Promise<void>;
+  // The latest `limit` messages sent before `before` (or at all), oldest first
+  loadMessages(roomId: string, before: number | null, limit: number): Promise<ChatMessage[]>;
+}
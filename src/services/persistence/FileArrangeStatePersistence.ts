@@ -0,0 +1,120 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { loggingService } from '../LoggingService';
+import type {
+  ArrangeJournalEntry,
+  ArrangeRoomSnapshot,
+  ArrangeStatePersistence,
+  PersistedArrangeRoom,
+} from './ArrangeStatePersistence';
+
+const SNAPSHOT_FILE = 'snapshot.json';
+const JOURNAL_FILE = 'journal.jsonl';
+
+/**
+ * Stores each arrange room in {baseDir}/{roomId}/ as snapshot.json plus an
+ * append-only journal.jsonl of the changes made since that snapshot.
+ */
+export class FileArrangeStatePersistence implements ArrangeStatePersistence {
+  constructor(private readonly baseDir: string) {}
+
+  private getRoomDir(roomId: string): string {
+    if (!/^[\w-]+$/.test(roomId)) {
+      throw new Error(`Invalid room ID for persistence: ${roomId}`);
+    }
+    return path.join(this.baseDir, roomId);
+  }
+
+  async loadRooms(): Promise<PersistedArrangeRoom[]> {
+    let roomIds: string[];
+    try {
+      roomIds = (await fs.readdir(this.baseDir, { withFileTypes: true }))
+        .filter((entry) => entry.isDirectory())
+        .map((entry) => entry.name);
+    } catch (error: any) {
+      if (error?.code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+
+    const rooms: PersistedArrangeRoom[] = [];
+    for (const roomId of roomIds) {
+      try {
+        const room = await this.loadRoom(roomId);
+        if (room) {
+          rooms.push(room);
+        }
+      } catch (error) {
+        loggingService.logError(error as Error, { context: 'FileArrangeStatePersistence:loadRooms', roomId });
+      }
+    }
+    return rooms;
+  }
+
+  private async loadRoom(roomId: string): Promise<PersistedArrangeRoom | null> {
+    const roomDir = this.getRoomDir(roomId);
+
+    let snapshot: ArrangeRoomSnapshot;
+    try {
+      snapshot = JSON.parse(await fs.readFile(path.join(roomDir, SNAPSHOT_FILE), 'utf-8'));
+    } catch (error: any) {
+      // The journal cannot be replayed without the snapshot it builds on
+      if (error?.code === 'ENOENT') {
+        return null;
+      }
+      throw error;
+    }
+
+    let journalText = '';
+    try {
+      journalText = await fs.readFile(path.join(roomDir, JOURNAL_FILE), 'utf-8');
+    } catch (error: any) {
+      if (error?.code !== 'ENOENT') {
+        throw error;
+      }
+    }
+
+    const journal: ArrangeJournalEntry[] = [];
+    for (const line of journalText.split('\n')) {
+      if (!line.trim()) continue;
+      try {
+        const entry = JSON.parse(line) as ArrangeJournalEntry;
+        if (entry.seq > snapshot.seq) {
+          journal.push(entry);
+        }
+      } catch {
+        // A crash mid-append leaves a partial last line; everything before it is intact
+        loggingService.logInfo('Skipping unreadable arrange journal entry', { roomId });
+        break;
+      }
+    }
+
+    return { snapshot, journal };
+  }
+
+  async saveSnapshot(snapshot: ArrangeRoomSnapshot): Promise<void> {
+    const roomDir = this.getRoomDir(snapshot.roomId);
+    await fs.mkdir(roomDir, { recursive: true });
+
+    // Write then rename so a crash never leaves a half-written snapshot
+    const snapshotPath = path.join(roomDir, SNAPSHOT_FILE);
+    const tempPath = `${snapshotPath}.tmp`;
+    await fs.writeFile(tempPath, JSON.stringify(snapshot));
+    await fs.rename(tempPath, snapshotPath);
+    await fs.writeFile(path.join(roomDir, JOURNAL_FILE), '');
+  }
+
+  async appendJournal(roomId: string, entries: ArrangeJournalEntry[]): Promise<void> {
+    if (entries.length === 0) {
+      return;
+    }
+    const roomDir = this.getRoomDir(roomId);
+    await fs.mkdir(roomDir, { recursive: true });
+    await fs.appendFile(path.join(roomDir, JOURNAL_FILE), entries.map((entry) => `${JSON.stringify(entry)}\n`).join(''));
+  }
+
+  async deleteRoom(roomId: string): Promise<void> {
+    await fs.rm(this.getRoomDir(roomId), { recursive: true, force: true });
+  }
+}
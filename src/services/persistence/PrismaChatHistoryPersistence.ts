@@ -0,0 +1,92 @@
+import { prisma } from '../../domains/auth/infrastructure/db/prisma';
+import type { ChatMention, ChatMessage, ChatMessageChanges, ChatMusicalReference, ChatReaction } from '../../types';
+import type { ChatHistoryPersistence } from './ChatHistoryPersistence';
+
+interface ChatMessageRow {
+  id: string;
+  userId: string;
+  username: string;
+  message: string;
+  sentAt: Date;
+  editedAt: Date | null;
+  replyToId: string | null;
+  threadId: string | null;
+  mentions: unknown;
+  reactions: unknown;
+  reference: unknown;
+}
+
+const toChatMessage = (row: ChatMessageRow): ChatMessage => ({
+  id: row.id,
+  userId: row.userId,
+  username: row.username,
+  message: row.message,
+  timestamp: row.sentAt.getTime(),
+  ...(row.editedAt && { editedAt: row.editedAt.getTime() }),
+  ...(row.replyToId && { replyTo: row.replyToId }),
+  ...(row.threadId && { threadId: row.threadId }),
+  ...(Array.isArray(row.mentions) && { mentions: row.mentions as ChatMention[] }),
+  ...(Array.isArray(row.reactions) && { reactions: row.reactions as ChatReaction[] }),
+  ...(row.reference !== null && typeof row.reference === 'object' && { reference: row.reference as ChatMusicalReference }),
+});
+
+/**
+ * Keeps room chat in the room_chat_messages table, for rooms owned by registered users
+ */
+export class PrismaChatHistoryPersistence implements ChatHistoryPersistence {
+  async isOwnerPersisted(ownerId: string): Promise<boolean> {
+    const owner = await prisma.user.findUnique({
+      where: { id: ownerId },
+      select: { userType: true },
+    });
+    return !!owner && owner.userType !== 'GUEST';
+  }
+
+  async saveMessage(roomId: string, message: ChatMessage): Promise<void> {
+    await prisma.roomChatMessage.create({
+      data: {
+        id: message.id,
+        roomId,
+        userId: message.userId,
+        username: message.username,
+        message: message.message,
+        sentAt: new Date(message.timestamp),
+        replyToId: message.replyTo ?? null,
+        threadId: message.threadId ?? null,
+        ...(message.mentions && { mentions: message.mentions }),
+        ...(message.reactions && { reactions: message.reactions }),
+        ...(message.reference && { reference: message.reference }),
+      },
+    });
+  }
+
+  async getMessage(roomId: string, messageId: string): Promise<ChatMessage | null> {
+    const row = await prisma.roomChatMessage.findFirst({ where: { id: messageId, roomId } });
+    return row ? toChatMessage(row) : null;
+  }
+
+  async updateMessage(roomId: string, messageId: string, changes: ChatMessageChanges): Promise<void> {
+    await prisma.roomChatMessage.updateMany({
+      where: { id: messageId, roomId },
+      data: {
+        ...(changes.message !== undefined && { message: changes.message }),
+        ...(changes.editedAt !== undefined && { editedAt: new Date(changes.editedAt) }),
+        ...(changes.mentions && { mentions: changes.mentions }),
+        ...(changes.reactions && { reactions: changes.reactions }),
+      },
+    });
+  }
+
+  async deleteMessage(roomId: string, messageId: string): Promise<void> {
+    await prisma.roomChatMessage.deleteMany({ where: { id: messageId, roomId } });
+  }
+
+  async loadMessages(roomId: string, before: number | null, limit: number): Promise<ChatMessage[]> {
+    const rows: ChatMessageRow[] = await prisma.roomChatMessage.findMany({
+      where: { roomId, ...(before !== null && { sentAt: { lt: new Date(before) } }) },
+      orderBy: { sentAt: 'desc' },
+      take: limit,
+    });
+    return rows.reverse().map(toChatMessage);
+  }
+}
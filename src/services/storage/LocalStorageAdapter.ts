@@ -0,0 +1,91 @@
+import fs from 'fs/promises';
+import type { Dirent } from 'fs';
+import path from 'path';
+import { pathToFileURL } from 'url';
+import { loggingService } from '../LoggingService';
+import type { StorageAdapter } from './StorageAdapter';
+
+/**
+ * Filesystem-backed storage adapter. Keys are `/`-separated paths below the base directory.
+ */
+export class LocalStorageAdapter implements StorageAdapter {
+  constructor(private readonly basePath: string) {}
+
+  private resolveKey(key: string): string {
+    const filePath = path.resolve(this.basePath, ...key.split('/'));
+    if (!filePath.startsWith(path.resolve(this.basePath) + path.sep)) {
+      throw new Error(`Invalid storage key: ${key}`);
+    }
+    return filePath;
+  }
+
+  async saveFile(key: string, buffer: Buffer, _contentType?: string): Promise<string> {
+    const filePath = this.resolveKey(key);
+    try {
+      await fs.mkdir(path.dirname(filePath), { recursive: true });
+      await fs.writeFile(filePath, buffer);
+      return key;
+    } catch (error) {
+      loggingService.logError(
+        error instanceof Error ? error : new Error('Failed to save file to local storage'),
+        { context: 'LocalStorageAdapter', key },
+      );
+      throw error;
+    }
+  }
+
+  async getFile(key: string): Promise<Buffer | null> {
+    try {
+      return await fs.readFile(this.resolveKey(key));
+    } catch (error: any) {
+      if (error?.code === 'ENOENT') {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  async deleteFile(key: string): Promise<void> {
+    await fs.rm(this.resolveKey(key), { force: true });
+  }
+
+  async fileExists(key: string): Promise<boolean> {
+    try {
+      await fs.access(this.resolveKey(key));
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  async getFileUrl(key: string): Promise<string> {
+    return pathToFileURL(this.resolveKey(key)).href;
+  }
+
+  async listFiles(prefix: string): Promise<string[]> {
+    // List everything below the deepest directory in the prefix, then filter by the full prefix
+    const directoryKey = prefix.slice(0, prefix.lastIndexOf('/') + 1);
+    const root = directoryKey ? this.resolveKey(directoryKey.replace(/\/$/, '')) : path.resolve(this.basePath);
+
+    const keys: string[] = [];
+    const walk = async (directory: string, keyPrefix: string): Promise<void> => {
+      let entries: Dirent[];
+      try {
+        entries = await fs.readdir(directory, { withFileTypes: true });
+      } catch {
+        return;
+      }
+      for (const entry of entries) {
+        const key = `${keyPrefix}${entry.name}`;
+        if (entry.isDirectory()) {
+          await walk(path.join(directory, entry.name), `${key}/`);
+        } else if (key.startsWith(prefix)) {
+          keys.push(key);
+        }
+      }
+    };
+
+    await walk(root, directoryKey);
+    return keys;
+  }
+}
@@ -14,6 +14,14 @@ export function getHighResolutionTime(): number {
   return Number(process.hrtime.bigint());
 }
 
+/**
+ * Server wall-clock time in milliseconds since the epoch, with sub-millisecond precision.
+ * Monotonic within a process, so clients can align their clocks to it.
+ */
+export function getServerTime(): number {
+  return performance.timeOrigin + performance.now();
+}
+
 /**
  * Calculate processing time in milliseconds from start time
  */
@@ -0,0 +1,133 @@
+import {
+  RTCPeerConnection,
+  RTCRtpCodecParameters,
+  MediaStreamTrack,
+  RtpHeader,
+  RtpPacket,
+  type RTCIceCandidate
+} from 'werift';
+import type {
+  SFUIceCandidate,
+  SFUSessionDescription,
+  SFUSignal,
+  SFUSlot
+} from '../domains/real-time-communication/infrastructure/strategies/SFUStrategy';
+
+// Opus at 48kHz in 20ms frames
+const OPUS_FRAME_SAMPLES = 960;
+
+/**
+ * Headless WebRTC voice client for exercising SFU signaling without a browser.
+ * It answers the server's offer, publishes synthetic Opus RTP on the upstream m-line
+ * and records what arrives on each forwarding slot.
+ */
+export class HeadlessVoicePeer {
+  readonly pc: RTCPeerConnection;
+  // Payloads received per publisher, as named by the server's slot assignments
+  readonly received = new Map<string, Buffer[]>();
+  private readonly microphone = new MediaStreamTrack({ kind: 'audio' });
+  private slots: SFUSlot[] = [];
+  private sequenceNumber = 0;
+  private pendingCandidates: SFUIceCandidate[] = [];
+  private iceCandidateCallbacks: Array<(candidate: SFUIceCandidate) => void> = [];
+
+  constructor(readonly userId: string) {
+    this.pc = new RTCPeerConnection({
+      codecs: {
+        audio: [new RTCRtpCodecParameters({ mimeType: 'audio/opus', clockRate: 48000, channels: 2 })]
+      },
+      iceUseIpv6: false
+    });
+
+    this.pc.onIceCandidate.subscribe((candidate?: RTCIceCandidate) => {
+      if (!candidate) {
+        return;
+      }
+      const { candidate: line, sdpMid, sdpMLineIndex } = candidate.toJSON();
+      this.iceCandidateCallbacks.forEach((callback) =>
+        callback({ candidate: line, sdpMid: sdpMid ?? null, sdpMLineIndex: sdpMLineIndex ?? null })
+      );
+    });
+
+    this.pc.onTransceiverAdded.subscribe((transceiver) => {
+      transceiver.onTrack.subscribe((track) => {
+        track.onReceiveRtp.subscribe((rtp) => {
+          const publisher = this.slots.find((slot) => slot.mid === transceiver.mid)?.userId;
+          if (!publisher) {
+            return;
+          }
+          const payloads = this.received.get(publisher) ?? [];
+          payloads.push(rtp.payload);
+          this.received.set(publisher, payloads);
+        });
+      });
+    });
+  }
+
+  onIceCandidate(callback: (candidate: SFUIceCandidate) => void): void {
+    this.iceCandidateCallbacks.push(callback);
+  }
+
+  /**
+   * Handle a server signal. Offers are answered, publishing the microphone on the upstream m-line.
+   */
+  async handleSignal(signal: SFUSignal): Promise<SFUSessionDescription | null> {
+    switch (signal.type) {
+      case 'offer': {
+        this.slots = signal.slots;
+        await this.pc.setRemoteDescription(signal.description);
+        for (const candidate of this.pendingCandidates.splice(0)) {
+          await this.pc.addIceCandidate(candidate);
+        }
+        const upstream = this.pc.getTransceivers().find((transceiver) => transceiver.mid === signal.upstreamMid);
+        if (upstream) {
+          upstream.setDirection('sendonly');
+          await upstream.sender.replaceTrack(this.microphone);
+        }
+        const answer = await this.pc.createAnswer();
+        await this.pc.setLocalDescription(answer);
+        return { type: 'answer', sdp: this.pc.localDescription!.sdp };
+      }
+      case 'ice_candidate':
+        if (this.pc.remoteDescription) {
+          await this.pc.addIceCandidate(signal.candidate);
+        } else {
+          this.pendingCandidates.push(signal.candidate);
+        }
+        return null;
+      case 'slots':
+        this.slots = signal.slots;
+        return null;
+    }
+  }
+
+  /**
+   * Publish one Opus frame with the given payload
+   */
+  sendAudio(payload: Buffer): void {
+    this.sequenceNumber = (this.sequenceNumber + 1) & 0xffff;
+    const header = new RtpHeader({
+      sequenceNumber: this.sequenceNumber,
+      timestamp: (this.sequenceNumber * OPUS_FRAME_SAMPLES) >>> 0,
+      payloadType: 96,
+      marker: false
+    });
+    this.microphone.writeRtp(new RtpPacket(header, payload));
+  }
+
+  getSlots(): SFUSlot[] {
+    return this.slots;
+  }
+
+  async waitForConnected(timeoutMs = 10000): Promise<void> {
+    if (this.pc.connectionState === 'connected') {
+      return;
+    }
+    await this.pc.connectionStateChange.watch((state) => state === 'connected', timeoutMs);
+  }
+
+  async close(): Promise<void> {
+    this.microphone.stop();
+    await this.pc.close();
+  }
+}
@@ -3,6 +3,7 @@ export { ParallelTestHarness, TestResult, TestComparison } from './ParallelTestH
 export { MockSocket, MockBroadcastOperator, MockSocketFactory } from './MockSocket';
 export { TestEnvironment, TestEnvironmentConfig } from './TestEnvironment';
 export { HTTPSTestEnvironment, HTTPSTestConfig } from './HTTPSTestEnvironment';
+export { HeadlessVoicePeer } from './HeadlessVoicePeer';
 
 // Performance Monitoring
 export { 
@@ -29,10 +29,27 @@ export interface UpdateEffectsChainData {
   chains: Record<EffectChainType, EffectChainState>;
 }
 
+// Co-hosts play like band members and help the owner run the room, see services/RoomPermissions
+export type RoomRole = 'room_owner' | 'co_host' | 'band_member' | 'audience';
+// Roles the owner can hand out to members
+export type AssignableRoomRole = 'co_host' | 'band_member';
+
+export type RoomCapability =
+  | 'approve'
+  | 'kick'
+  | 'ban'
+  | 'metronome'
+  | 'arrange_structure'
+  | 'broadcast'
+  | 'moderate_chat';
+
+// What each role may do in a room. The owner can do everything, so isn't listed.
+export type RoomPermissionMatrix = Record<Exclude<RoomRole, 'room_owner'>, RoomCapability[]>;
+
 export interface User {
   id: string;
   username: string;
-  role: 'room_owner' | 'band_member' | 'audience';
+  role: RoomRole;
   currentInstrument?: string;
   currentCategory?: string;
   synthParams?: Record<string, any>;
@@ -41,6 +58,10 @@ export interface User {
   effectChains?: Record<EffectChainType, EffectChainState>;
 }
 
+// Audience HLS broadcast presets, see services/HLSBroadcastProfiles
+export type BroadcastProfileName = 'standard' | 'low_latency' | 'opus';
+export type BroadcastArchiveMode = 'off' | 'hls' | 'hls_and_audio';
+
 export interface Room {
   id: string;
   name: string;
@@ -59,6 +80,11 @@ export interface Room {
   };
   // Audience broadcast state
   isBroadcasting?: boolean;
+  // Applied when the next broadcast starts
+  broadcastProfile?: BroadcastProfileName;
+  broadcastArchive?: BroadcastArchiveMode;
+  // Set once the owner changes the default permissions
+  permissions?: RoomPermissionMatrix;
 }
 
 export interface UserSession {
@@ -99,6 +125,8 @@ export interface PlayNoteData {
   eventType: 'note_on' | 'note_off' | 'sustain_on' | 'sustain_off';
   isKeyHeld?: boolean;
   sampleNotes?: string[];
+  // Sender's clock when played, mapped to server time with clock sync
+  sentAt?: number;
 }
 
 export interface ChangeInstrumentData {
@@ -114,6 +142,52 @@ export interface TransferOwnershipData {
   newOwnerId: string;
 }
 
+export interface RoomBan {
+  userId: string;
+  username?: string;
+  // Also blocks joins from this address, so a guest can't come back under a new id
+  ip?: string;
+  bannedBy: string;
+  reason?: string;
+  bannedAt: number;
+  // null for permanent bans
+  expiresAt: number | null;
+}
+
+// What owners see: addresses stay on the server
+export type RoomBanInfo = Omit<RoomBan, 'ip'> & { ipBanned: boolean };
+
+export interface KickRecord {
+  userId: string;
+  username: string;
+  kickedBy: string;
+  reason?: string;
+  kickedAt: number;
+  banned: boolean;
+}
+
+export interface BanUserData {
+  userId: string;
+  // Permanent when left out
+  durationSec?: number;
+  reason?: string;
+  banIp?: boolean;
+}
+
+export interface UnbanUserData {
+  userId: string;
+}
+
+export interface SetMemberRoleData {
+  userId: string;
+  role: AssignableRoomRole;
+}
+
+export interface UpdateRoomPermissionsData {
+  role: AssignableRoomRole;
+  capabilities: RoomCapability[];
+}
+
 export interface RoomListResponse {
   id: string;
   name: string;
@@ -167,6 +241,27 @@ export interface RequestVoiceParticipantsData {
   roomId: string;
 }
 
+// SFU voice signaling (rooms past the mesh limit)
+export interface SfuConnectData {
+  roomId: string;
+}
+
+export interface SfuAnswerData {
+  roomId: string;
+  answer: { type: 'answer'; sdp: string };
+}
+
+export interface SfuIceCandidateData {
+  roomId: string;
+  candidate: { candidate: string; sdpMid?: string | null; sdpMLineIndex?: number | null };
+}
+
+export interface SfuSubscribeData {
+  roomId: string;
+  // Publishers to hear; null hears everyone, up to the connection's slot count
+  userIds: string[] | null;
+}
+
 export interface VoiceParticipantInfo {
   userId: string;
   username: string;
@@ -178,6 +273,34 @@ export interface VoiceParticipantInfo {
 // Chat Message Types
 export interface ChatMessageData {
   message: string;
+  // Id of the message this replies to
+  replyTo?: string;
+  reference?: ChatMusicalReferenceData;
+}
+
+// A point on the timeline a message refers to: an arrange marker or region, or a bar
+export type ChatMusicalReferenceData =
+  | { type: 'marker'; markerId: string }
+  | { type: 'region'; regionId: string }
+  | { type: 'bar'; bar: number; beat?: number };
+
+export type ChatMusicalReference = ChatMusicalReferenceData & {
+  // Where the timeline jumps to, in beats (quarter notes)
+  position: number;
+  // Marker description or region name when the message was sent
+  label?: string;
+  trackId?: string;
+};
+
+export interface ChatMention {
+  userId: string;
+  username: string;
+}
+
+export interface ChatReaction {
+  emoji: string;
+  // In the order they reacted
+  userIds: string[];
 }
 
 export interface ChatMessage {
@@ -186,21 +309,123 @@ export interface ChatMessage {
   username: string;
   message: string;
   timestamp: number;
+  // Set once the author edits the message
+  editedAt?: number;
+  mentions?: ChatMention[];
+  // Parent message, and the first message of the thread
+  replyTo?: string;
+  threadId?: string;
+  reference?: ChatMusicalReference;
+  // One entry per emoji, in the order they were first used
+  reactions?: ChatReaction[];
+}
+
+export type ChatMessageChanges = Partial<Pick<ChatMessage, 'message' | 'editedAt' | 'mentions' | 'reactions'>>;
+
+export interface ReactChatMessageData {
+  messageId: string;
+  emoji: string;
+  // Take the reaction back instead
+  remove?: boolean;
+}
+
+export interface MuteUserChatData {
+  userId: string;
+  // 0 lifts the mute
+  durationSec: number;
+}
+
+export interface RequestChatHistoryData {
+  // Only messages sent before this timestamp
+  before?: number;
+  limit?: number;
+}
+
+export interface ChatHistoryPage {
+  // Oldest first
+  messages: ChatMessage[];
+  hasMore: boolean;
+}
+
+export interface DeleteChatMessageData {
+  messageId: string;
+}
+
+export interface EditChatMessageData {
+  messageId: string;
+  message: string;
 }
 
 // Metronome Types
+export interface TimeSignature {
+  // Ticks per bar; BPM counts these beats
+  beatsPerBar: number;
+  // Note value of a beat (4 = quarter, 8 = eighth)
+  beatUnit: number;
+}
+
+export type MetronomeTransport = 'stopped' | 'count_in' | 'playing';
+
+export interface TempoRamp {
+  fromBpm: number;
+  toBpm: number;
+  bars: number;
+}
+
 export interface MetronomeState {
   bpm: number;
   lastTickTimestamp: number;
+  // 4/4 when not set
+  timeSignature?: TimeSignature;
+  transport?: MetronomeTransport;
+  // Scheduled or in progress
+  tempoRamp?: TempoRamp | null;
 }
 
 export interface UpdateMetronomeData {
   bpm: number;
 }
 
+export interface StartMetronomeData {
+  // Bars counted in before bar 1 (room owner only)
+  countInBars?: number;
+}
+
+export interface RampMetronomeTempoData {
+  // Defaults to the current tempo
+  fromBpm?: number;
+  toBpm: number;
+  bars: number;
+}
+
+export type SetTimeSignatureData = TimeSignature;
+
 export interface MetronomeTickData {
   timestamp: number;
+  // Server clock (see clock sync) when the tick was sent
+  serverTime: number;
   bpm: number;
+  // Bars count from 1 at transport start; count-in bars come before, numbered up to 0
+  bar: number;
+  // 1-based beat within the bar
+  beat: number;
+  beatsPerBar: number;
+  beatUnit: number;
+  isDownbeat: boolean;
+  countIn: boolean;
+  // Until the next tick, which differs from 60000 / bpm only while a tempo ramp is running
+  intervalMs: number;
+}
+
+// Clock sync exchange; client times are on the client's clock
+export interface ClockSyncRequestData {
+  seq: number;
+  clientSendTime: number;
+}
+
+export interface ClockSyncReportData {
+  seq: number;
+  clientReceiveTime: number;
 }
 
 // Approval Namespace Types
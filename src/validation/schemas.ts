@@ -1,5 +1,7 @@
 import Joi from 'joi';
 import { METRONOME_CONSTANTS } from '../constants';
+import { BROADCAST_ARCHIVE_MODES, BROADCAST_PROFILE_NAMES } from '../services/HLSBroadcastProfiles';
+import { ASSIGNABLE_ROOM_ROLES, ROOM_CAPABILITIES } from '../services/RoomPermissions';
 
 // Room creation validation
 export const createRoomSchema = Joi.object({
@@ -24,6 +26,44 @@ export const joinRoomSchema = Joi.object({
 export const chatMessageSchema = Joi.object({
   message: Joi.string().min(1).max(500).required(),
   roomId: Joi.string().uuid().required(),
+  replyTo: Joi.string().uuid().optional(),
+  reference: Joi.alternatives().try(
+    Joi.object({ type: Joi.string().valid('marker').required(), markerId: Joi.string().max(100).required() }),
+    Joi.object({ type: Joi.string().valid('region').required(), regionId: Joi.string().max(100).required() }),
+    Joi.object({
+      type: Joi.string().valid('bar').required(),
+      bar: Joi.number().integer().min(1).max(10000).required(),
+      beat: Joi.number().integer().min(1).max(32).optional(),
+    }),
+  ).optional(),
+});
+
+export const requestChatHistorySchema = Joi.object({
+  before: Joi.number().integer().min(0).optional(),
+  limit: Joi.number().integer().min(1).max(100).optional(),
+});
+
+export const deleteChatMessageSchema = Joi.object({
+  messageId: Joi.string().uuid().required(),
+});
+
+export const editChatMessageSchema = Joi.object({
+  messageId: Joi.string().uuid().required(),
+  message: Joi.string().min(1).max(500).required(),
+});
+
+export const reactChatMessageSchema = Joi.object({
+  messageId: Joi.string().uuid().required(),
+  // An emoji, including skin tones, flags, keycaps and ZWJ sequences, but not bare digits
+  emoji: Joi.string().max(32)
+    .pattern(/^(?=.*[\p{Extended_Pictographic}\p{Regional_Indicator}\u20e3])(?:\p{Extended_Pictographic}|\p{Emoji_Component}|\u200d|\ufe0f)+$/u)
+    .required(),
+  remove: Joi.boolean().optional(),
+});
+
+export const muteUserChatSchema = Joi.object({
+  userId: Joi.string().min(1).max(100).required(),
+  durationSec: Joi.number().integer().min(0).max(86400).required(),
 });
 
 // Musical validation schemas removed for performance and flexibility
@@ -40,6 +80,28 @@ export const memberActionSchema = Joi.object({
   userId: Joi.string().min(1).max(100).required(),
 });
 
+// Room bans (permanent without durationSec, at most 30 days otherwise)
+export const banUserSchema = Joi.object({
+  userId: Joi.string().min(1).max(100).required(),
+  durationSec: Joi.number().integer().min(60).max(30 * 24 * 3600).optional(),
+  reason: Joi.string().max(200).optional(),
+  banIp: Joi.boolean().optional(),
+});
+
+export const unbanUserSchema = Joi.object({
+  userId: Joi.string().min(1).max(100).required(),
+});
+
+export const setMemberRoleSchema = Joi.object({
+  userId: Joi.string().min(1).max(100).required(),
+  role: Joi.string().valid(...ASSIGNABLE_ROOM_ROLES).required(),
+});
+
+export const updateRoomPermissionsSchema = Joi.object({
+  role: Joi.string().valid(...ASSIGNABLE_ROOM_ROLES).required(),
+  capabilities: Joi.array().items(Joi.string().valid(...ROOM_CAPABILITIES)).unique().required(),
+});
+
 // WebRTC validation schemas
 export const voiceOfferSchema = Joi.object({
   targetUserId: Joi.string().min(1).max(100).required(),
@@ -80,11 +142,64 @@ export const requestVoiceParticipantsSchema = Joi.object({
   roomId: Joi.string().uuid().required(),
 });
 
+// SFU voice signaling schemas
+export const sfuConnectSchema = Joi.object({
+  roomId: Joi.string().uuid().required(),
+});
+
+export const sfuAnswerSchema = Joi.object({
+  roomId: Joi.string().uuid().required(),
+  answer: Joi.object({
+    type: Joi.string().valid('answer').required(),
+    sdp: Joi.string().max(100000).required(),
+  }).required(),
+});
+
+export const sfuIceCandidateSchema = Joi.object({
+  roomId: Joi.string().uuid().required(),
+  candidate: Joi.object({
+    candidate: Joi.string().allow('').max(1000).required(),
+    sdpMid: Joi.string().allow(null).max(50),
+    sdpMLineIndex: Joi.number().integer().min(0).allow(null),
+  }).unknown(true).required(), // RTCIceCandidateInit
+});
+
+export const sfuSubscribeSchema = Joi.object({
+  roomId: Joi.string().uuid().required(),
+  userIds: Joi.array().items(Joi.string().min(1).max(100)).max(50).allow(null).required(),
+});
+
+// Clock sync schemas (times are the client's clock, in ms)
+export const clockSyncRequestSchema = Joi.object({
+  seq: Joi.number().integer().min(0).max(Number.MAX_SAFE_INTEGER).required(),
+  clientSendTime: Joi.number().min(0).required(),
+});
+
+export const clockSyncReportSchema = Joi.object({
+  seq: Joi.number().integer().min(0).max(Number.MAX_SAFE_INTEGER).required(),
+  clientReceiveTime: Joi.number().min(0).required(),
+});
+
 // Metronome validation schemas
 export const updateMetronomeSchema = Joi.object({
   bpm: Joi.number().min(METRONOME_CONSTANTS.MIN_BPM).max(METRONOME_CONSTANTS.MAX_BPM).required(),
 });
 
+export const startMetronomeSchema = Joi.object({
+  countInBars: Joi.number().integer().min(0).max(METRONOME_CONSTANTS.MAX_COUNT_IN_BARS).optional(),
+});
+
+export const rampMetronomeTempoSchema = Joi.object({
+  fromBpm: Joi.number().min(METRONOME_CONSTANTS.MIN_BPM).max(METRONOME_CONSTANTS.MAX_BPM).optional(),
+  toBpm: Joi.number().min(METRONOME_CONSTANTS.MIN_BPM).max(METRONOME_CONSTANTS.MAX_BPM).required(),
+  bars: Joi.number().integer().min(1).max(METRONOME_CONSTANTS.MAX_RAMP_BARS).required(),
+});
+
+export const setTimeSignatureSchema = Joi.object({
+  beatsPerBar: Joi.number().integer().min(1).max(METRONOME_CONSTANTS.MAX_BEATS_PER_BAR).required(),
+  beatUnit: Joi.number().valid(...METRONOME_CONSTANTS.BEAT_UNITS).required(),
+});
+
 // Generic validation function with better error handling
 export const validateData = <T>(schema: Joi.ObjectSchema, data: any): { error?: string; value?: T } => {
   try {
@@ -134,6 +249,8 @@ export const updateRoomSettingsSchema = Joi.object({
   description: Joi.string().max(500).optional().allow(''),
   isPrivate: Joi.boolean().optional(),
   isHidden: Joi.boolean().optional(),
+  broadcastProfile: Joi.string().valid(...BROADCAST_PROFILE_NAMES).optional(),
+  broadcastArchive: Joi.string().valid(...BROADCAST_ARCHIVE_MODES).optional(),
   updatedBy: Joi.string().min(1).max(100).required(),
 });
 
@@ -142,6 +259,12 @@ export const arrangeRequestStateSchema = Joi.object({
   roomId: Joi.string().uuid().required(),
 });
 
+export const arrangeSyncSinceSchema = Joi.object({
+  roomId: Joi.string().uuid().required(),
+  seq: Joi.number().integer().min(0).required(),
+  syncEpoch: Joi.string().max(100).optional(),
+});
+
 export const arrangeTrackAddSchema = Joi.object({
   roomId: Joi.string().uuid().required(),
   track: Joi.object({
@@ -294,6 +417,7 @@ export const arrangeNoteAddSchema = Joi.object({
     start: Joi.number().required(), // Allow negative values for notes outside region bounds
     duration: Joi.number().min(0.25).required(),
   }).required(),
+  clock: Joi.number().integer().min(0).optional(), // Last region clock the sender had seen
 });
 
 export const arrangeNoteUpdateSchema = Joi.object({
@@ -306,12 +430,43 @@ export const arrangeNoteUpdateSchema = Joi.object({
     start: Joi.number().optional(), // Allow negative values for notes outside region bounds
     duration: Joi.number().min(0.25).optional(),
   }).min(1).required(),
+  clock: Joi.number().integer().min(0).optional(),
 });
 
 export const arrangeNoteDeleteSchema = Joi.object({
   roomId: Joi.string().uuid().required(),
   regionId: Joi.string().required(),
   noteId: Joi.string().required(),
+  clock: Joi.number().integer().min(0).optional(),
+});
+
+export const arrangeSustainAddSchema = Joi.object({
+  roomId: Joi.string().uuid().required(),
+  regionId: Joi.string().required(),
+  sustainEvent: Joi.object({
+    id: Joi.string().required(),
+    start: Joi.number().required(), // Allow negative values for events outside region bounds
+    end: Joi.number().required(),
+  }).required(),
+  clock: Joi.number().integer().min(0).optional(),
+});
+
+export const arrangeSustainUpdateSchema = Joi.object({
+  roomId: Joi.string().uuid().required(),
+  regionId: Joi.string().required(),
+  sustainEventId: Joi.string().required(),
+  updates: Joi.object({
+    start: Joi.number().optional(),
+    end: Joi.number().optional(),
+  }).min(1).required(),
+  clock: Joi.number().integer().min(0).optional(),
+});
+
+export const arrangeSustainDeleteSchema = Joi.object({
+  roomId: Joi.string().uuid().required(),
+  regionId: Joi.string().required(),
+  sustainEventId: Joi.string().required(),
+  clock: Joi.number().integer().min(0).optional(),
 });
 
 export const arrangeEffectChainUpdateSchema = Joi.object({
@@ -357,7 +512,46 @@ export const arrangeLockReleaseSchema = Joi.object({
   elementId: Joi.string().required(),
 }); 
 
+export const arrangeLockHeartbeatSchema = Joi.object({
+  roomId: Joi.string().uuid().required(),
+  elementIds: Joi.array().items(Joi.string()).max(500).optional(), // Defaults to every lock the sender holds
+});
+
+export const arrangeLockStealSchema = Joi.object({
+  roomId: Joi.string().uuid().required(),
+  elementId: Joi.string().required(),
+  type: Joi.string().valid('region', 'track', 'track_property', 'note', 'sustain', 'control').required(),
+});
+
+export const arrangeLockQueueSchema = Joi.object({
+  roomId: Joi.string().uuid().required(),
+  elementId: Joi.string().required(),
+  type: Joi.string().valid('region', 'track', 'track_property', 'note', 'sustain', 'control').required(),
+});
+
+export const arrangeLockQueueLeaveSchema = Joi.object({
+  roomId: Joi.string().uuid().required(),
+  elementId: Joi.string().required(),
+});
+
 export const arrangeVoiceStateSchema = Joi.object({
   roomId: Joi.string().uuid().required(),
   isMuted: Joi.boolean().required(),
-});
\ No newline at end of file
+});
+
+export const arrangeUndoSchema = Joi.object({
+  roomId: Joi.string().uuid().required(),
+});
+
+export const arrangeRedoSchema = Joi.object({
+  roomId: Joi.string().uuid().required(),
+});
+
+// Perform room session recording schemas
+export const stopSessionRecordingSchema = Joi.object({
+  name: Joi.string().trim().max(100).allow('').optional(),
+});
+
+export const startSessionReplaySchema = Joi.object({
+  projectId: Joi.string().min(1).max(100).required(),
+});
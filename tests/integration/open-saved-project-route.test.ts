@@ -0,0 +1,169 @@
+/**
+ * Integration Tests for opening a saved project in a live arrange room
+ * Tests POST /api/projects/:id/open with the database, authentication and project
+ * storage replaced by test doubles and real room and arrange state services
+ */
+import express, { type Express, type NextFunction, type Response } from 'express';
+import request from 'supertest';
+import type { AuthRequest } from '../../src/domains/auth/infrastructure/middleware/authMiddleware';
+
+jest.mock('../../src/domains/auth/infrastructure/db/prisma', () => ({
+  prisma: {
+    savedProject: { findFirst: jest.fn() },
+  },
+}));
+
+// Signed in as the user named in the x-test-user header
+jest.mock('../../src/domains/auth/infrastructure/middleware/authMiddleware', () => ({
+  authenticateToken: (req: AuthRequest, res: Response, next: NextFunction) => {
+    const userId = req.headers['x-test-user'];
+    if (typeof userId !== 'string') {
+      res.status(401).json({ error: 'Access token required' });
+      return;
+    }
+    req.user = { id: userId, email: null, username: userId, userType: 'REGISTERED' };
+    next();
+  },
+}));
+
+jest.mock('../../src/services/ProjectStorageService', () => ({
+  projectStorageService: {
+    loadProjectFiles: jest.fn(),
+    saveProject: jest.fn(),
+    getProject: jest.fn(),
+  },
+}));
+
+import { prisma } from '../../src/domains/auth/infrastructure/db/prisma';
+import { authenticateToken } from '../../src/domains/auth/infrastructure/middleware/authMiddleware';
+import { projectStorageService } from '../../src/services/ProjectStorageService';
+import { ArrangeRoomStateService } from '../../src/services/ArrangeRoomStateService';
+import { RoomService } from '../../src/services/RoomService';
+import { RoomSessionManager } from '../../src/services/RoomSessionManager';
+import type { AudioRegionStorageService } from '../../src/services/AudioRegionStorageService';
+import type { RoomLifecycleHandler } from '../../src/domains/room-management/infrastructure/handlers/RoomLifecycleHandler';
+import { ProjectController } from '../../src/domains/arrange-room/infrastructure/controllers/ProjectController';
+
+const db = prisma as any;
+const storage = projectStorageService as jest.Mocked<typeof projectStorageService>;
+
+const savedProject = (overrides: Record<string, unknown> = {}) => ({
+  id: 'project-1',
+  userId: 'owner-1',
+  name: 'Demo Song',
+  roomType: 'arrange',
+  ...overrides,
+});
+
+const projectJson = JSON.stringify({
+  project: { bpm: 98 },
+  tracks: [{ id: 'track-1', name: 'Vocals', type: 'audio' }],
+  regions: [{ id: 'region-1', trackId: 'track-1', type: 'audio', start: 0, length: 4 }],
+});
+
+describe('POST /api/projects/:id/open', () => {
+  let app: Express;
+  let roomService: RoomService;
+  let stateService: ArrangeRoomStateService;
+  let audioStorage: { saveRegionAudio: jest.Mock; getRegionPlaybackPath: jest.Mock };
+  let createAndAnnounceRoom: jest.Mock;
+  const openedRoomIds: string[] = [];
+
+  beforeEach(() => {
+    roomService = new RoomService(new RoomSessionManager());
+    stateService = new ArrangeRoomStateService();
+    audioStorage = {
+      saveRegionAudio: jest.fn().mockResolvedValue({ filePath: '/tmp/region-1.opus', sizeBytes: 5 }),
+      getRegionPlaybackPath: jest.fn((roomId: string, regionId: string) => `/api/rooms/${roomId}/audio/regions/${regionId}`),
+    };
+    createAndAnnounceRoom = jest.fn(async (options) => {
+      const { room, user } = roomService.createRoom(
+        options.name,
+        options.username,
+        options.userId,
+        options.isPrivate,
+        options.isHidden,
+        undefined,
+        options.roomType
+      );
+      openedRoomIds.push(room.id);
+      return { room, user };
+    });
+
+    const controller = new ProjectController(
+      audioStorage as unknown as AudioRegionStorageService,
+      stateService,
+      undefined,
+      { createAndAnnounceRoom } as unknown as RoomLifecycleHandler
+    );
+    app = express();
+    app.use(express.json());
+    app.post('/api/projects/:id/open', authenticateToken as any, (req, res) =>
+      controller.openSavedProject(req as AuthRequest, res)
+    );
+  });
+
+  afterEach(() => {
+    openedRoomIds.splice(0).forEach((roomId) => roomService.deleteRoom(roomId));
+  });
+
+  it('requires signing in', async () => {
+    const response = await request(app).post('/api/projects/project-1/open');
+
+    expect(response.status).toBe(401);
+    expect(createAndAnnounceRoom).not.toHaveBeenCalled();
+  });
+
+  it("returns 404 for a missing project or someone else's", async () => {
+    db.savedProject.findFirst.mockResolvedValue(null);
+
+    const response = await request(app).post('/api/projects/project-1/open').set('x-test-user', 'intruder');
+
+    expect(response.status).toBe(404);
+    expect(db.savedProject.findFirst).toHaveBeenCalledWith({ where: { id: 'project-1', userId: 'intruder' } });
+    expect(storage.loadProjectFiles).not.toHaveBeenCalled();
+    expect(createAndAnnounceRoom).not.toHaveBeenCalled();
+  });
+
+  it('refuses to open a project that is not an arrange project', async () => {
+    db.savedProject.findFirst.mockResolvedValue(savedProject({ roomType: 'perform' }));
+
+    const response = await request(app).post('/api/projects/project-1/open').set('x-test-user', 'owner-1');
+
+    expect(response.status).toBe(400);
+    expect(response.body.message).toMatch(/Only arrange projects/);
+    expect(createAndAnnounceRoom).not.toHaveBeenCalled();
+  });
+
+  it('opens the project in a new arrange room with its audio registered', async () => {
+    db.savedProject.findFirst.mockResolvedValue(savedProject());
+    storage.loadProjectFiles.mockResolvedValue({
+      projectJson,
+      audioFiles: [{ fileName: 'region-1.webm', buffer: Buffer.from('audio') }],
+    });
+
+    const response = await request(app)
+      .post('/api/projects/project-1/open')
+      .set('x-test-user', 'owner-1')
+      .send({ name: 'Rehearsal', isPrivate: true });
+
+    expect(response.status).toBe(201);
+    const { roomId } = response.body;
+    expect(response.body).toMatchObject({ success: true, projectName: 'Demo Song', audioFilesCount: 1 });
+    expect(response.body.room).toMatchObject({ id: roomId, name: 'Rehearsal', roomType: 'arrange', isPrivate: true });
+    expect(response.body.room.users).toEqual([expect.objectContaining({ id: 'owner-1', role: 'room_owner' })]);
+
+    expect(audioStorage.saveRegionAudio).toHaveBeenCalledWith(
+      expect.objectContaining({ roomId, regionId: 'region-1', originalName: 'region-1.webm' })
+    );
+    const state = stateService.getState(roomId);
+    expect(state?.tracks.map((track) => track.id)).toEqual(['track-1']);
+    expect(state?.bpm).toBe(98);
+    expect(state?.regions[0]).toMatchObject({
+      id: 'region-1',
+      audioFileId: 'region-1',
+      audioUrl: `/api/rooms/${roomId}/audio/regions/region-1`,
+    });
+    expect(storage.saveProject).toHaveBeenCalledWith(roomId, expect.any(Object), 'owner-1');
+  });
+});
@@ -0,0 +1,281 @@
+/**
+ * Integration Tests for the project share and fork routes
+ * Tests share link creation and revocation, public shared downloads and forking
+ * with the database, authentication and project storage replaced by test doubles
+ */
+import express, { type Express, type NextFunction, type Response } from 'express';
+import request from 'supertest';
+import type { AuthRequest } from '../../src/domains/auth/infrastructure/middleware/authMiddleware';
+
+jest.mock('../../src/domains/auth/infrastructure/db/prisma', () => ({
+  prisma: {
+    user: { findUnique: jest.fn() },
+    savedProject: { findFirst: jest.fn(), count: jest.fn(), create: jest.fn(), delete: jest.fn() },
+    projectShare: { findUnique: jest.fn(), findFirst: jest.fn(), create: jest.fn(), update: jest.fn(), updateMany: jest.fn() },
+  },
+}));
+
+// Signed in as the user named in the x-test-user header
+jest.mock('../../src/domains/auth/infrastructure/middleware/authMiddleware', () => ({
+  authenticateToken: (req: AuthRequest, res: Response, next: NextFunction) => {
+    const userId = req.headers['x-test-user'];
+    if (typeof userId !== 'string') {
+      res.status(401).json({ error: 'Access token required' });
+      return;
+    }
+    req.user = { id: userId, email: null, username: userId, userType: 'REGISTERED' };
+    next();
+  },
+}));
+
+jest.mock('../../src/services/ProjectStorageService', () => ({
+  projectStorageService: {
+    loadProjectFiles: jest.fn(),
+    copyProjectFiles: jest.fn(),
+    deleteProjectFiles: jest.fn(),
+  },
+}));
+
+jest.mock('../../src/services/ProjectRevisionService', () => ({
+  projectRevisionService: { createRevision: jest.fn() },
+}));
+
+import { prisma } from '../../src/domains/auth/infrastructure/db/prisma';
+import { projectStorageService } from '../../src/services/ProjectStorageService';
+import { projectRevisionService } from '../../src/services/ProjectRevisionService';
+import projectsRoutes from '../../src/routes/projects';
+
+const db = prisma as any;
+const storage = projectStorageService as jest.Mocked<typeof projectStorageService>;
+const revisions = projectRevisionService as jest.Mocked<typeof projectRevisionService>;
+
+const sourceProject = {
+  id: 'project-1',
+  userId: 'owner-1',
+  name: 'Demo Song',
+  roomType: 'arrange',
+  projectData: { version: 1 },
+  metadata: { bpm: 120 },
+  createdAt: new Date('2026-10-01T00:00:00Z'),
+  updatedAt: new Date('2026-10-02T00:00:00Z'),
+};
+
+const createShare = (overrides: Record<string, unknown> = {}) => ({
+  id: 'share-1',
+  projectId: sourceProject.id,
+  token: 'token-1',
+  createdAt: new Date('2026-10-03T00:00:00Z'),
+  revokedAt: null,
+  viewCount: 0,
+  forkCount: 0,
+  project: sourceProject,
+  ...overrides,
+});
+
+const projectFiles = {
+  projectJson: JSON.stringify({ tracks: [] }),
+  audioFiles: [{ fileName: 'region-1.webm', buffer: Buffer.from('audio') }],
+};
+
+describe('Project share routes', () => {
+  let app: Express;
+
+  beforeEach(() => {
+    app = express();
+    app.use(express.json());
+    app.use('/api/projects', projectsRoutes);
+
+    db.projectShare.update.mockResolvedValue({});
+    db.user.findUnique.mockResolvedValue({ userType: 'REGISTERED' });
+  });
+
+  describe('POST /api/projects/:id/share', () => {
+    it('creates a share link for the owner', async () => {
+      db.savedProject.findFirst.mockResolvedValue(sourceProject);
+      db.projectShare.findFirst.mockResolvedValue(null);
+      db.projectShare.create.mockImplementation(({ data }: any) => Promise.resolve(createShare({ token: data.token })));
+
+      const response = await request(app).post('/api/projects/project-1/share').set('x-test-user', 'owner-1');
+
+      expect(response.status).toBe(201);
+      expect(response.body.share).toMatchObject({ active: true, viewCount: 0, forkCount: 0 });
+      expect(response.body.share.token).toEqual(expect.any(String));
+      expect(db.savedProject.findFirst).toHaveBeenCalledWith({ where: { id: 'project-1', userId: 'owner-1' } });
+    });
+
+    it('returns the active share link instead of creating another', async () => {
+      db.savedProject.findFirst.mockResolvedValue(sourceProject);
+      db.projectShare.findFirst.mockResolvedValue(createShare({ viewCount: 4 }));
+
+      const response = await request(app).post('/api/projects/project-1/share').set('x-test-user', 'owner-1');
+
+      expect(response.status).toBe(200);
+      expect(response.body.share).toMatchObject({ token: 'token-1', viewCount: 4 });
+      expect(db.projectShare.create).not.toHaveBeenCalled();
+    });
+
+    it("does not share someone else's project", async () => {
+      db.savedProject.findFirst.mockResolvedValue(null);
+
+      const response = await request(app).post('/api/projects/project-1/share').set('x-test-user', 'intruder');
+
+      expect(response.status).toBe(404);
+      expect(db.projectShare.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('DELETE /api/projects/:id/share', () => {
+    it('revokes the active share link', async () => {
+      db.savedProject.findFirst.mockResolvedValue(sourceProject);
+      db.projectShare.updateMany.mockResolvedValue({ count: 1 });
+
+      const response = await request(app).delete('/api/projects/project-1/share').set('x-test-user', 'owner-1');
+
+      expect(response.status).toBe(200);
+      expect(db.projectShare.updateMany).toHaveBeenCalledWith({
+        where: { projectId: 'project-1', revokedAt: null },
+        data: { revokedAt: expect.any(Date) },
+      });
+    });
+
+    it('reports a project that is not shared', async () => {
+      db.savedProject.findFirst.mockResolvedValue(sourceProject);
+      db.projectShare.updateMany.mockResolvedValue({ count: 0 });
+
+      const response = await request(app).delete('/api/projects/project-1/share').set('x-test-user', 'owner-1');
+
+      expect(response.status).toBe(404);
+    });
+  });
+
+  describe('GET /api/projects/shared/:token', () => {
+    it('serves the shared project with its audio without signing in', async () => {
+      db.projectShare.findUnique.mockResolvedValue(createShare());
+      storage.loadProjectFiles.mockResolvedValue(projectFiles);
+
+      const response = await request(app).get('/api/projects/shared/token-1');
+
+      expect(response.status).toBe(200);
+      expect(response.body.project).toMatchObject({ name: 'Demo Song', roomType: 'arrange' });
+      expect(response.body.projectData).toEqual({ tracks: [] });
+      expect(response.body.audioFiles).toEqual([
+        { fileName: 'region-1.webm', data: Buffer.from('audio').toString('base64') },
+      ]);
+      expect(storage.loadProjectFiles).toHaveBeenCalledWith('owner-1', 'project-1');
+      expect(db.projectShare.update).toHaveBeenCalledWith({
+        where: { id: 'share-1' },
+        data: { viewCount: { increment: 1 } },
+      });
+    });
+
+    it('treats a revoked share link as not found', async () => {
+      db.projectShare.findUnique.mockResolvedValue(createShare({ revokedAt: new Date() }));
+
+      const response = await request(app).get('/api/projects/shared/token-1');
+
+      expect(response.status).toBe(404);
+      expect(storage.loadProjectFiles).not.toHaveBeenCalled();
+      expect(db.projectShare.update).not.toHaveBeenCalled();
+    });
+
+    it('returns 404 for an unknown token', async () => {
+      db.projectShare.findUnique.mockResolvedValue(null);
+
+      const response = await request(app).get('/api/projects/shared/unknown');
+
+      expect(response.status).toBe(404);
+    });
+
+    it('is rate limited', async () => {
+      const response = await request(app).get('/api/projects/shared/unknown');
+
+      expect(response.headers['ratelimit-limit']).toBe('30');
+    });
+  });
+
+  describe('POST /api/projects/shared/:token/fork', () => {
+    it('requires signing in', async () => {
+      const response = await request(app).post('/api/projects/shared/token-1/fork');
+
+      expect(response.status).toBe(401);
+      expect(db.projectShare.findUnique).not.toHaveBeenCalled();
+    });
+
+    it('copies the project and its audio into the user library', async () => {
+      db.projectShare.findUnique.mockResolvedValue(createShare());
+      db.savedProject.count.mockResolvedValue(0);
+      db.savedProject.create.mockImplementation(({ data }: any) =>
+        Promise.resolve({ id: 'project-2', ...data, createdAt: new Date(), updatedAt: new Date() })
+      );
+      storage.copyProjectFiles.mockResolvedValue(projectFiles);
+      revisions.createRevision.mockResolvedValue({ revision: 1 } as any);
+
+      const response = await request(app)
+        .post('/api/projects/shared/token-1/fork')
+        .set('x-test-user', 'forker-1')
+        .send({ name: 'My Remix' });
+
+      expect(response.status).toBe(201);
+      expect(response.body.project).toMatchObject({
+        id: 'project-2',
+        name: 'My Remix',
+        metadata: { bpm: 120, forkedFrom: { projectId: 'project-1', shareId: 'share-1' } },
+      });
+      expect(storage.copyProjectFiles).toHaveBeenCalledWith(
+        { userId: 'owner-1', projectId: 'project-1' },
+        { userId: 'forker-1', projectId: 'project-2' }
+      );
+      expect(db.projectShare.update).toHaveBeenCalledWith({
+        where: { id: 'share-1' },
+        data: { forkCount: { increment: 1 } },
+      });
+    });
+
+    it('does not fork a revoked share link', async () => {
+      db.projectShare.findUnique.mockResolvedValue(createShare({ revokedAt: new Date() }));
+
+      const response = await request(app).post('/api/projects/shared/token-1/fork').set('x-test-user', 'forker-1');
+
+      expect(response.status).toBe(404);
+      expect(db.savedProject.create).not.toHaveBeenCalled();
+    });
+
+    it('does not let guests fork', async () => {
+      db.projectShare.findUnique.mockResolvedValue(createShare());
+      db.user.findUnique.mockResolvedValue({ userType: 'GUEST' });
+      db.savedProject.count.mockResolvedValue(0);
+
+      const response = await request(app).post('/api/projects/shared/token-1/fork').set('x-test-user', 'guest-1');
+
+      expect(response.status).toBe(403);
+      expect(response.body.message).toMatch(/Guests cannot save projects/);
+      expect(db.savedProject.create).not.toHaveBeenCalled();
+    });
+
+    it('enforces the project limit', async () => {
+      db.projectShare.findUnique.mockResolvedValue(createShare());
+      db.savedProject.count.mockResolvedValue(2);
+
+      const response = await request(app).post('/api/projects/shared/token-1/fork').set('x-test-user', 'forker-1');
+
+      expect(response.status).toBe(403);
+      expect(response.body.error).toBe('Project limit reached');
+      expect(db.savedProject.create).not.toHaveBeenCalled();
+    });
+
+    it('removes the fork when its files cannot be copied', async () => {
+      db.projectShare.findUnique.mockResolvedValue(createShare());
+      db.savedProject.count.mockResolvedValue(0);
+      db.savedProject.create.mockResolvedValue({ ...sourceProject, id: 'project-2', userId: 'forker-1' });
+      db.savedProject.delete.mockResolvedValue({});
+      storage.copyProjectFiles.mockRejectedValue(new Error('storage unavailable'));
+      storage.deleteProjectFiles.mockResolvedValue(undefined);
+
+      const response = await request(app).post('/api/projects/shared/token-1/fork').set('x-test-user', 'forker-1');
+
+      expect(response.status).toBe(500);
+      expect(db.savedProject.delete).toHaveBeenCalledWith({ where: { id: 'project-2' } });
+      expect(db.projectShare.update).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,143 @@
+/**
+ * Unit Tests for ArrangeRoomHandler
+ * Tests region audio cleanup as undo history is dropped and song structure permissions, with
+ * sockets and audio storage replaced by test doubles and real room, state and history services
+ */
+import type { Namespace, Socket } from 'socket.io';
+import { ArrangeRoomHandler } from '../../../src/domains/arrange-room/infrastructure/handlers/ArrangeRoomHandler';
+import { ArrangeHistoryService } from '../../../src/services/ArrangeHistoryService';
+import { ArrangeRoomStateService } from '../../../src/services/ArrangeRoomStateService';
+import { RoomService } from '../../../src/services/RoomService';
+import { RoomSessionManager } from '../../../src/services/RoomSessionManager';
+import { DEFAULT_ROOM_PERMISSIONS } from '../../../src/services/RoomPermissions';
+import type { AudioRegionStorageService } from '../../../src/services/AudioRegionStorageService';
+import { createTestAudioRegion, createTestTrack } from '../../fixtures/arrangeRoomTestData';
+
+describe('ArrangeRoomHandler - Unit Tests', () => {
+  let roomService: RoomService;
+  let roomSessionManager: RoomSessionManager;
+  let stateService: ArrangeRoomStateService;
+  let historyService: ArrangeHistoryService;
+  let handler: ArrangeRoomHandler;
+  let audioStorage: { deleteRegionAudio: jest.Mock; extractRegionIdFromPlaybackPath: jest.Mock };
+  let roomId: string;
+  const emit = jest.fn();
+  const namespace = { to: () => ({ emit }) } as unknown as Namespace;
+
+  const connect = (userId: string): Socket => {
+    const socket = { id: `socket-${userId}`, emit: jest.fn(), to: () => ({ emit }) } as unknown as Socket;
+    roomSessionManager.setRoomSession(roomId, socket.id, { roomId, userId });
+    return socket;
+  };
+
+  beforeEach(() => {
+    roomSessionManager = new RoomSessionManager();
+    roomService = new RoomService(roomSessionManager);
+    stateService = new ArrangeRoomStateService();
+    historyService = new ArrangeHistoryService(stateService);
+    audioStorage = {
+      deleteRegionAudio: jest.fn().mockResolvedValue(undefined),
+      extractRegionIdFromPlaybackPath: jest.fn().mockReturnValue(null),
+    };
+    handler = new ArrangeRoomHandler(
+      stateService,
+      roomSessionManager,
+      roomService,
+      audioStorage as unknown as AudioRegionStorageService,
+      historyService
+    );
+
+    const { room } = roomService.createRoom('Song', 'owner', 'owner-1', false, false, undefined, 'arrange');
+    roomId = room.id;
+    stateService.initializeState(roomId);
+    stateService.addTrack(roomId, createTestTrack({ id: 'track-1' }));
+  });
+
+  afterEach(() => {
+    roomService.deleteRoom(roomId);
+  });
+
+  const fullState = (overrides: Record<string, unknown> = {}) => {
+    const state = stateService.getState(roomId)!;
+    return {
+      tracks: state.tracks,
+      regions: state.regions,
+      markers: state.markers,
+      bpm: state.bpm,
+      timeSignature: state.timeSignature,
+      ...overrides,
+    };
+  };
+
+  describe('Region audio cleanup', () => {
+    it('keeps the audio of a deleted region that a full state update brings back', () => {
+      const socket = connect('owner-1');
+      const region = createTestAudioRegion({ id: 'region-1' });
+      stateService.addRegion(roomId, region);
+      handler.handleRegionDelete(socket, namespace, { roomId, regionId: 'region-1' });
+
+      // The client undid the delete by sending its whole state, which drops the server history
+      handler.handleFullStateUpdate(socket, namespace, { roomId, state: fullState({ regions: [region] }) });
+
+      expect(stateService.getState(roomId)?.regions.map((r) => r.id)).toEqual(['region-1']);
+      expect(audioStorage.deleteRegionAudio).not.toHaveBeenCalled();
+    });
+
+    it('deletes the audio of an undone recording once it can no longer be redone', () => {
+      const socket = connect('owner-1');
+      handler.handleRegionAdd(socket, namespace, { roomId, region: createTestAudioRegion({ id: 'take-1' }) });
+      handler.handleUndo(socket, namespace, { roomId });
+      expect(audioStorage.deleteRegionAudio).not.toHaveBeenCalled();
+
+      handler.handleTrackAdd(socket, namespace, { roomId, track: createTestTrack({ id: 'track-2' }) });
+
+      expect(audioStorage.deleteRegionAudio).toHaveBeenCalledWith(roomId, 'take-1');
+    });
+  });
+
+  describe('Song structure permissions', () => {
+    let socket: Socket;
+
+    const revokeStructure = () =>
+      roomService.updateRoomPermissions(roomId, { ...DEFAULT_ROOM_PERMISSIONS, band_member: ['metronome'] });
+
+    beforeEach(() => {
+      roomService.addUserToRoom(roomId, { id: 'member-1', username: 'member', role: 'band_member', isReady: true });
+      socket = connect('member-1');
+    });
+
+    it('rejects a full state update that changes the tempo without the capability', () => {
+      revokeStructure();
+
+      handler.handleFullStateUpdate(socket, namespace, { roomId, state: fullState({ bpm: 150, tracks: [] }) });
+
+      expect(stateService.getState(roomId)?.bpm).toBe(120);
+      expect(stateService.getState(roomId)?.tracks).toHaveLength(1);
+      expect(socket.emit).toHaveBeenCalledWith('error', {
+        message: 'You do not have permission to change the song structure',
+      });
+    });
+
+    it('accepts a full state update that leaves the song structure alone', () => {
+      revokeStructure();
+
+      handler.handleFullStateUpdate(socket, namespace, { roomId, state: fullState({ tracks: [] }) });
+
+      expect(stateService.getState(roomId)?.tracks).toEqual([]);
+      expect(socket.emit).not.toHaveBeenCalledWith('error', expect.anything());
+    });
+
+    it('keeps a tempo change on the undo stack once the capability is revoked', () => {
+      handler.handleBpmChange(socket, namespace, { roomId, bpm: 150 });
+      revokeStructure();
+
+      handler.handleUndo(socket, namespace, { roomId });
+
+      expect(stateService.getState(roomId)?.bpm).toBe(150);
+      expect(historyService.getSummary(roomId, 'member-1').canUndo).toBe(true);
+      expect(socket.emit).toHaveBeenCalledWith('error', {
+        message: 'You do not have permission to change the song structure',
+      });
+    });
+  });
+});
@@ -0,0 +1,160 @@
+/**
+ * Unit Tests for ArrangeHistoryService
+ * Tests per-user undo/redo stacks and inverse operations computed by ArrangeRoomStateService
+ */
+import { ArrangeHistoryService } from '../../../src/services/ArrangeHistoryService';
+import { ArrangeRoomStateService } from '../../../src/services/ArrangeRoomStateService';
+import type { ArrangeOperation } from '../../../src/domains/arrange-room/domain/models/ArrangeOperation';
+import { createTestTrack, createTestMidiRegion, createTestMidiNote } from '../../fixtures/arrangeRoomTestData';
+
+describe('ArrangeHistoryService - Unit Tests', () => {
+  const roomId = 'room-1';
+  let stateService: ArrangeRoomStateService;
+  let historyService: ArrangeHistoryService;
+
+  beforeEach(() => {
+    stateService = new ArrangeRoomStateService();
+    historyService = new ArrangeHistoryService(stateService, 3);
+  });
+
+  const step = (label: string) => ({
+    label,
+    redo: [{ type: 'bpm_change', bpm: 140 }] as ArrangeOperation[],
+    undo: [{ type: 'bpm_change', bpm: 120 }] as ArrangeOperation[],
+  });
+
+  it('should keep separate stacks per user', () => {
+    historyService.record(roomId, 'user-1', step('Change BPM'));
+
+    expect(historyService.getSummary(roomId, 'user-1')).toEqual({
+      canUndo: true,
+      canRedo: false,
+      undoLabel: 'Change BPM',
+      redoLabel: null,
+    });
+    expect(historyService.getSummary(roomId, 'user-2').canUndo).toBe(false);
+  });
+
+  it('should move entries between undo and redo stacks', () => {
+    const entry = historyService.record(roomId, 'user-1', step('Change BPM'));
+
+    expect(historyService.peekUndo(roomId, 'user-1')).toBe(entry);
+    historyService.commitUndo(roomId, 'user-1');
+    expect(historyService.peekUndo(roomId, 'user-1')).toBeUndefined();
+    expect(historyService.peekRedo(roomId, 'user-1')).toBe(entry);
+
+    historyService.commitRedo(roomId, 'user-1');
+    expect(historyService.peekUndo(roomId, 'user-1')).toBe(entry);
+    expect(historyService.peekRedo(roomId, 'user-1')).toBeUndefined();
+  });
+
+  it('should discard the redo stack when a new step is recorded', () => {
+    const onDiscard = jest.fn();
+    historyService.record(roomId, 'user-1', { ...step('First'), onDiscard });
+    historyService.commitUndo(roomId, 'user-1');
+    historyService.record(roomId, 'user-1', step('Second'));
+
+    expect(historyService.getSummary(roomId, 'user-1').canRedo).toBe(false);
+    expect(onDiscard).toHaveBeenCalledTimes(1);
+  });
+
+  it('should discard the oldest entries beyond the max depth', () => {
+    const onDiscard = jest.fn();
+    historyService.record(roomId, 'user-1', { ...step('Oldest'), onDiscard });
+    historyService.record(roomId, 'user-1', step('Second'));
+    historyService.record(roomId, 'user-1', step('Third'));
+    expect(onDiscard).not.toHaveBeenCalled();
+
+    historyService.record(roomId, 'user-1', step('Fourth'));
+    expect(onDiscard).toHaveBeenCalledTimes(1);
+  });
+
+  it('should drop all history for a room', () => {
+    historyService.record(roomId, 'user-1', step('Change BPM'));
+    historyService.clearRoom(roomId);
+
+    expect(historyService.getSummary(roomId, 'user-1').canUndo).toBe(false);
+  });
+
+  it('should discard undo and redo entries when a room is cleared', () => {
+    const onDiscard = jest.fn();
+    const onUndoneDiscard = jest.fn();
+    historyService.record(roomId, 'user-1', { ...step('Delete region'), onDiscard });
+    historyService.record(roomId, 'user-2', { ...step('Delete other region'), onDiscard });
+    historyService.record(roomId, 'user-2', { ...step('Undone'), onDiscard: onUndoneDiscard });
+    historyService.commitUndo(roomId, 'user-2');
+
+    historyService.clearRoom(roomId);
+
+    expect(onDiscard).toHaveBeenCalledTimes(2);
+    expect(onUndoneDiscard).toHaveBeenCalledTimes(1);
+  });
+
+  it('should drop the room history when its state is replaced or cleared', () => {
+    stateService.initializeState(roomId);
+    historyService.record(roomId, 'user-1', step('Change BPM'));
+
+    stateService.setFullState(roomId, { tracks: [], regions: [], markers: [], bpm: 100, timeSignature: { numerator: 4, denominator: 4 } });
+    expect(historyService.getSummary(roomId, 'user-1').canUndo).toBe(false);
+
+    historyService.record(roomId, 'user-1', step('Change BPM'));
+    stateService.clearState(roomId);
+    expect(historyService.getSummary(roomId, 'user-1').canUndo).toBe(false);
+  });
+});
+
+describe('ArrangeRoomStateService - Operation inversion', () => {
+  const roomId = 'room-1';
+  let stateService: ArrangeRoomStateService;
+
+  const applyWithInverse = (operation: ArrangeOperation): ArrangeOperation[] => {
+    const inverse = stateService.invertOperation(roomId, operation);
+    stateService.applyOperation(roomId, operation);
+    return inverse;
+  };
+
+  beforeEach(() => {
+    stateService = new ArrangeRoomStateService();
+    stateService.initializeState(roomId);
+    stateService.addTrack(roomId, createTestTrack({ id: 'track-1' }));
+    stateService.addTrack(roomId, createTestTrack({ id: 'track-2' }));
+    stateService.addRegion(roomId, createTestMidiRegion({ id: 'region-1', trackId: 'track-1', notes: [createTestMidiNote()] }));
+  });
+
+  it('should restore a deleted track with its regions and position', () => {
+    const inverse = applyWithInverse({ type: 'track_delete', trackId: 'track-1' });
+    expect(stateService.getState(roomId)?.regions).toHaveLength(0);
+
+    inverse.forEach((operation) => stateService.applyOperation(roomId, operation));
+
+    const state = stateService.getState(roomId)!;
+    expect(state.tracks.map((t) => t.id)).toEqual(['track-1', 'track-2']);
+    expect(state.tracks[0]?.regionIds).toEqual(['region-1']);
+    expect(state.regions[0]?.id).toBe('region-1');
+  });
+
+  it('should revert region updates to their previous values', () => {
+    const inverse = applyWithInverse({ type: 'region_update', regionId: 'region-1', updates: { start: 8, trackId: 'track-2' } });
+
+    inverse.forEach((operation) => stateService.applyOperation(roomId, operation));
+
+    const state = stateService.getState(roomId)!;
+    expect(state.regions[0]).toMatchObject({ start: 0, trackId: 'track-1' });
+    expect(state.tracks.find((t) => t.id === 'track-1')?.regionIds).toEqual(['region-1']);
+  });
+
+  it('should restore deleted notes', () => {
+    const inverse = applyWithInverse({ type: 'note_delete', regionId: 'region-1', noteId: 'note-1' });
+    expect(inverse).toEqual([{ type: 'note_add', regionId: 'region-1', note: createTestMidiNote() }]);
+
+    inverse.forEach((operation) => stateService.applyOperation(roomId, operation));
+
+    const region = stateService.getState(roomId)!.regions[0];
+    expect(region?.type === 'midi' && region.notes).toHaveLength(1);
+  });
+
+  it('should skip operations whose target no longer exists', () => {
+    expect(stateService.applyOperation(roomId, { type: 'region_delete', regionId: 'missing' })).toBe(false);
+    expect(stateService.invertOperation(roomId, { type: 'marker_delete', markerId: 'missing' })).toEqual([]);
+  });
+});
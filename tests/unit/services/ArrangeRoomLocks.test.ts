@@ -0,0 +1,66 @@
+/**
+ * Unit Tests for arrange room lock leasing in ArrangeRoomStateService
+ * Tests lease expiry, heartbeats, owner takeover and lock queues
+ */
+import { ArrangeRoomStateService } from '../../../src/services/ArrangeRoomStateService';
+
+describe('ArrangeRoomStateService locks - Unit Tests', () => {
+  const roomId = 'room-1';
+  const lease = 1000;
+  let service: ArrangeRoomStateService;
+  let now: number;
+
+  const lockFor = (userId: string) => ({ userId, username: userId, type: 'region' as const, timestamp: now });
+
+  beforeEach(() => {
+    now = 1_000_000;
+    jest.spyOn(Date, 'now').mockImplementation(() => now);
+    service = new ArrangeRoomStateService(lease);
+    service.initializeState(roomId);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should let a lease lapse unless it is renewed by a heartbeat', () => {
+    service.acquireLock(roomId, 'region-1', lockFor('user-1'));
+    service.acquireLock(roomId, 'region-2', lockFor('user-1'));
+    expect(service.isLocked(roomId, 'region-1')?.expiresAt).toBe(now + lease);
+
+    now += 800;
+    expect(service.renewLocks(roomId, 'user-1', ['region-1'])).toEqual([{ elementId: 'region-1', expiresAt: now + lease }]);
+
+    now += 400;
+    expect(service.isLocked(roomId, 'region-1')?.userId).toBe('user-1');
+    expect(service.isLocked(roomId, 'region-2')).toBeNull();
+    expect(service.acquireLock(roomId, 'region-2', lockFor('user-2'))).toBe(true);
+
+    now += lease;
+    expect(service.expireLocks().map(({ elementId }) => elementId)).toEqual(['region-1', 'region-2']);
+    expect(service.getState(roomId)?.locks.size).toBe(0);
+  });
+
+  it('should let the caller take over a lock held by someone else', () => {
+    service.acquireLock(roomId, 'region-1', lockFor('user-1'));
+
+    expect(service.stealLock(roomId, 'region-1', lockFor('owner'))?.userId).toBe('user-1');
+    expect(service.isLocked(roomId, 'region-1')?.userId).toBe('owner');
+  });
+
+  it('should grant a freed lock to the first user in its queue', () => {
+    service.acquireLock(roomId, 'region-1', lockFor('user-1'));
+    expect(service.queueForLock(roomId, 'region-1', lockFor('user-2'))).toBe(1);
+    expect(service.queueForLock(roomId, 'region-1', lockFor('user-3'))).toBe(2);
+    expect(service.grantQueuedLocks(roomId)).toEqual([]);
+
+    service.releaseLock(roomId, 'region-1', 'user-1');
+    expect(service.grantQueuedLocks(roomId).map(({ lock }) => lock.userId)).toEqual(['user-2']);
+
+    // Leaving the room drops the user's place in every queue
+    service.releaseUserLocks(roomId, 'user-3');
+    service.releaseLock(roomId, 'region-1', 'user-2');
+    expect(service.grantQueuedLocks(roomId)).toEqual([]);
+    expect(service.getRoomIdsWithLockQueues()).toEqual([]);
+  });
+});
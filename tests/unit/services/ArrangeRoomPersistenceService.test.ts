@@ -0,0 +1,178 @@
+/**
+ * Unit Tests for ArrangeRoomPersistenceService
+ * Tests journaling, snapshot compaction and restoring arrange rooms after a simulated restart
+ */
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { ArrangeRoomPersistenceService } from '../../../src/services/ArrangeRoomPersistenceService';
+import { ArrangeRoomStateService } from '../../../src/services/ArrangeRoomStateService';
+import { RoomBanService } from '../../../src/services/RoomBanService';
+import { RoomService } from '../../../src/services/RoomService';
+import { RoomSessionManager } from '../../../src/services/RoomSessionManager';
+import { DEFAULT_ROOM_PERMISSIONS } from '../../../src/services/RoomPermissions';
+import { FileArrangeStatePersistence } from '../../../src/services/persistence/FileArrangeStatePersistence';
+import { createTestTrack } from '../../fixtures/arrangeRoomTestData';
+
+const options = { snapshotIntervalMs: 60000, snapshotEveryChanges: 3, restoreGracePeriodMs: 600000 };
+
+describe('ArrangeRoomPersistenceService - Unit Tests', () => {
+  let baseDir: string;
+
+  beforeEach(async () => {
+    baseDir = await fs.mkdtemp(path.join(os.tmpdir(), 'arrange-state-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(baseDir, { recursive: true, force: true });
+  });
+
+  const startServer = () => {
+    const roomService = new RoomService(new RoomSessionManager());
+    const stateService = new ArrangeRoomStateService();
+    const persistence = new FileArrangeStatePersistence(baseDir);
+    const roomBans = new RoomBanService();
+    const service = new ArrangeRoomPersistenceService(roomService, stateService, persistence, options, roomBans);
+    return { roomService, stateService, persistence, roomBans, service };
+  };
+
+  const createArrangeRoom = (server: ReturnType<typeof startServer>) => {
+    const { room } = server.roomService.createRoom('Song', 'owner', 'owner-1', false, false, undefined, 'arrange');
+    server.stateService.initializeState(room.id);
+    return room.id;
+  };
+
+  // Let setImmediate-batched journal appends run, then wait for the writes
+  const settle = async (service: ArrangeRoomPersistenceService) => {
+    await new Promise((resolve) => setImmediate(resolve));
+    await service.flush();
+  };
+
+  const restart = (server: ReturnType<typeof startServer>, roomId: string) => {
+    server.service.stop();
+    // Drop the in-memory room the way a process exit would
+    server.roomService.deleteRoom(roomId);
+    return startServer();
+  };
+
+  it('should replay journaled changes on top of the last snapshot after a restart', async () => {
+    const server = startServer();
+    server.service.start();
+    const roomId = createArrangeRoom(server);
+    await settle(server.service);
+
+    server.stateService.addTrack(roomId, createTestTrack({ id: 'track-1' }));
+    server.stateService.setBpm(roomId, 96);
+    await new Promise((resolve) => setImmediate(resolve));
+    // Wait for the append without taking a snapshot
+    await new Promise((resolve) => setTimeout(resolve, 20));
+
+    const [persisted] = await server.persistence.loadRooms();
+    expect(persisted?.snapshot.state.tracks).toEqual([]);
+    expect(persisted?.journal.map((entry) => entry.change.type)).toEqual(['operation', 'operation']);
+
+    const restarted = restart(server, roomId);
+    const restoredRooms = await restarted.service.restoreRooms();
+
+    expect(restoredRooms.map((room) => room.id)).toEqual([roomId]);
+    const state = restarted.stateService.getState(roomId);
+    expect(state?.tracks.map((track) => track.id)).toEqual(['track-1']);
+    expect(state?.bpm).toBe(96);
+    expect(state?.restoredAt).toBeInstanceOf(Date);
+
+    // Members come back through the grace period and keep their roles
+    expect(restarted.roomService.isUserInGracePeriod('owner-1', roomId)).toBe(true);
+    expect(restarted.roomService.getGracePeriodUserData('owner-1', roomId)?.role).toBe('room_owner');
+    await restarted.service.flush();
+    restarted.roomService.deleteRoom(roomId);
+  });
+
+  it('should fold the journal into a snapshot once enough changes accumulate', async () => {
+    const server = startServer();
+    server.service.start();
+    const roomId = createArrangeRoom(server);
+
+    ['a', 'b', 'c'].forEach((id) => server.stateService.addTrack(roomId, createTestTrack({ id })));
+    await settle(server.service);
+
+    const [persisted] = await server.persistence.loadRooms();
+    expect(persisted?.snapshot.state.tracks.map((track) => track.id)).toEqual(['a', 'b', 'c']);
+    expect(persisted?.journal).toEqual([]);
+    server.service.stop();
+    server.roomService.deleteRoom(roomId);
+  });
+
+  it('should restore the metronome time signature after a restart', async () => {
+    const server = startServer();
+    server.service.start();
+    const roomId = createArrangeRoom(server);
+    await settle(server.service);
+
+    // Not an arrange state change, so only the room settings tell the snapshot is out of date
+    server.roomService.updateMetronomeTimeSignature(roomId, { beatsPerBar: 7, beatUnit: 8 });
+    await settle(server.service);
+
+    const restarted = restart(server, roomId);
+    await restarted.service.restoreRooms();
+
+    expect(restarted.roomService.getRoom(roomId)?.metronome.timeSignature).toEqual({ beatsPerBar: 7, beatUnit: 8 });
+    await restarted.service.flush();
+    restarted.roomService.deleteRoom(roomId);
+  });
+
+  it('should keep room bans in force after a restart', async () => {
+    const server = startServer();
+    server.service.start();
+    const roomId = createArrangeRoom(server);
+    await settle(server.service);
+
+    server.roomBans.ban(roomId, { userId: 'troll', ip: '10.0.0.9', bannedBy: 'owner-1', reason: 'spam' });
+    server.roomBans.ban(roomId, { userId: 'brief', bannedBy: 'owner-1', durationSec: 3600 });
+    await settle(server.service);
+
+    const restarted = restart(server, roomId);
+    await restarted.service.restoreRooms();
+
+    expect(restarted.roomBans.findBan(roomId, 'guest-2', '10.0.0.9')?.userId).toBe('troll');
+    expect(restarted.roomBans.getBans(roomId).map((ban) => ban.userId).sort()).toEqual(['brief', 'troll']);
+    await restarted.service.flush();
+    restarted.roomService.deleteRoom(roomId);
+  });
+
+  it('should snapshot a changed permission matrix right away and restore it after a restart', async () => {
+    const server = startServer();
+    server.service.start();
+    const roomId = createArrangeRoom(server);
+    await settle(server.service);
+
+    const permissions = { ...DEFAULT_ROOM_PERMISSIONS, co_host: ['approve' as const], band_member: [] };
+    server.roomService.updateRoomPermissions(roomId, permissions);
+    // Give the queued snapshot time to land, without the flush a graceful shutdown would do
+    await new Promise((resolve) => setTimeout(resolve, 20));
+
+    const [persisted] = await server.persistence.loadRooms();
+    expect(persisted?.snapshot.room.permissions).toEqual(permissions);
+
+    const restarted = restart(server, roomId);
+    await restarted.service.restoreRooms();
+
+    expect(restarted.roomService.getRoom(roomId)?.permissions).toEqual(permissions);
+    await restarted.service.flush();
+    restarted.roomService.deleteRoom(roomId);
+  });
+
+  it('should delete the persisted room when its state is cleared', async () => {
+    const server = startServer();
+    server.service.start();
+    const roomId = createArrangeRoom(server);
+    await settle(server.service);
+    expect(await server.persistence.loadRooms()).toHaveLength(1);
+
+    server.roomService.deleteRoom(roomId);
+    server.stateService.clearState(roomId);
+    await settle(server.service);
+
+    expect(await server.persistence.loadRooms()).toEqual([]);
+    server.service.stop();
+  });
+});
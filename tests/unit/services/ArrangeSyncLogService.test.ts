@@ -0,0 +1,60 @@
+/**
+ * Unit Tests for ArrangeSyncLogService
+ * Tests sequence numbering, catch-up from the ring buffer and full-sync fallbacks
+ */
+import { ArrangeSyncLogService } from '../../../src/services/ArrangeSyncLogService';
+import { ArrangeRoomStateService } from '../../../src/services/ArrangeRoomStateService';
+import { createTestTrack } from '../../fixtures/arrangeRoomTestData';
+
+describe('ArrangeSyncLogService - Unit Tests', () => {
+  const roomId = 'room-1';
+  let stateService: ArrangeRoomStateService;
+  let syncLog: ArrangeSyncLogService;
+
+  beforeEach(() => {
+    stateService = new ArrangeRoomStateService();
+    syncLog = new ArrangeSyncLogService(stateService, 3);
+    stateService.initializeState(roomId);
+  });
+
+  it('should return only the changes made after a sequence number', () => {
+    const { seq } = syncLog.getPosition(roomId);
+    syncLog.record(roomId, 'arrange:bpm_changed', { bpm: 100 });
+    syncLog.record(roomId, 'arrange:bpm_changed', { bpm: 110 });
+
+    expect(syncLog.getEventsSince(roomId, seq)?.map((event) => [event.seq, event.payload.bpm])).toEqual([
+      [seq + 1, 100],
+      [seq + 2, 110],
+    ]);
+    expect(syncLog.getEventsSince(roomId, seq + 2)).toEqual([]);
+  });
+
+  it('should copy payloads so later state mutations do not leak into buffered changes', () => {
+    const track = createTestTrack({ id: 'track-1', name: 'Bass' });
+    const { seq } = syncLog.getPosition(roomId);
+    syncLog.record(roomId, 'arrange:track_added', { track });
+    track.name = 'Lead';
+
+    expect(syncLog.getEventsSince(roomId, seq)?.[0]?.payload).toEqual({ track: { ...track, name: 'Bass' } });
+  });
+
+  it('should require a full sync once the buffer no longer covers the gap', () => {
+    const { seq } = syncLog.getPosition(roomId);
+    [1, 2, 3, 4].forEach((bpm) => syncLog.record(roomId, 'arrange:bpm_changed', { bpm }));
+
+    expect(syncLog.getEventsSince(roomId, seq)).toBeNull();
+    expect(syncLog.getEventsSince(roomId, seq + 1)).toHaveLength(3);
+  });
+
+  it('should require a full sync after a full state replacement, an unknown epoch or a future sequence number', () => {
+    const { epoch, seq } = syncLog.getPosition(roomId);
+    syncLog.record(roomId, 'arrange:bpm_changed', { bpm: 100 });
+
+    expect(syncLog.getEventsSince(roomId, seq, 'other-epoch')).toBeNull();
+    expect(syncLog.getEventsSince(roomId, seq + 5, epoch)).toBeNull();
+
+    stateService.setFullState(roomId, { tracks: [], regions: [], markers: [], bpm: 90, timeSignature: { numerator: 4, denominator: 4 } });
+    expect(syncLog.getEventsSince(roomId, seq + 1, epoch)).toBeNull();
+    expect(syncLog.getEventsSince(roomId, syncLog.getPosition(roomId).seq, epoch)).toEqual([]);
+  });
+});
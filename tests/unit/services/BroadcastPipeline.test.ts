@@ -0,0 +1,83 @@
+/**
+ * Unit Tests for BroadcastPipeline
+ * Tests that a stopped broadcast frees the room right away while its sinks finish in the background
+ */
+import type { BroadcastSink, BroadcastSinkHealth } from '../../../src/services/broadcast/BroadcastSink';
+
+jest.mock('../../../src/services/broadcast/HLSBroadcastSink', () => ({
+  HLSBroadcastSink: class {
+    readonly name = 'hls';
+    constructor(
+      readonly roomId: string,
+      readonly profileName: string,
+      readonly outputDir: string
+    ) {}
+    start = () => true;
+    write = () => true;
+    stop = () => Promise.resolve();
+    cleanup = jest.fn();
+    getPlaylist = () => `#EXTM3U ${this.outputDir}`;
+    getHealth = (): BroadcastSinkHealth => ({
+      sink: 'hls',
+      healthy: true,
+      bytesWritten: 0,
+      chunksDropped: 0,
+      lastError: null,
+    });
+  },
+}));
+
+import { BroadcastPipeline } from '../../../src/services/BroadcastPipeline';
+
+// An archive sink whose stop (remux and upload) only finishes when the test says so
+const createSlowSink = (): { sink: BroadcastSink; finish: () => void } => {
+  let finish = () => {};
+  const stopped = new Promise<void>((resolve) => {
+    finish = resolve;
+  });
+  return {
+    sink: {
+      name: 'archive',
+      start: () => true,
+      write: () => true,
+      stop: () => stopped,
+      getHealth: () => ({ sink: 'archive', healthy: true, bytesWritten: 0, chunksDropped: 0, lastError: null }),
+    },
+    finish: () => finish(),
+  };
+};
+
+describe('BroadcastPipeline', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('lets a room start a new broadcast while the stopped one is still archiving', async () => {
+    const pipeline = new BroadcastPipeline();
+    const archive = createSlowSink();
+
+    expect(pipeline.startBroadcast('room-1', { sinks: [archive.sink] })).toBe(true);
+    const firstPlaylist = pipeline.getPlaylist('room-1');
+    pipeline.stopBroadcast('room-1');
+
+    expect(pipeline.isActive('room-1')).toBe(false);
+    // Final segment fetches still reach the stopped broadcast
+    expect(pipeline.getPlaylist('room-1')).toBe(firstPlaylist);
+
+    jest.advanceTimersByTime(1);
+    expect(pipeline.startBroadcast('room-1')).toBe(true);
+    expect(pipeline.isActive('room-1')).toBe(true);
+    expect(pipeline.getPlaylist('room-1')).not.toBe(firstPlaylist);
+    expect(pipeline.getHealth().map((health) => health.isActive)).toEqual([true, false]);
+
+    archive.finish();
+    await jest.advanceTimersByTimeAsync(30 * 1000);
+
+    expect(pipeline.getHealth().map((health) => health.isActive)).toEqual([true]);
+    expect(pipeline.isActive('room-1')).toBe(true);
+  });
+});
@@ -0,0 +1,111 @@
+/**
+ * Unit Tests for ChatHistoryService
+ * Tests the bounded in-memory history, paging, edits and deletes, and paging past memory
+ * into storage for rooms owned by registered users
+ */
+import { ChatHistoryService } from '../../../src/services/ChatHistoryService';
+import type { ChatHistoryPersistence } from '../../../src/services/persistence/ChatHistoryPersistence';
+import type { ChatMessage, ChatMessageChanges } from '../../../src/types';
+
+const SETTINGS = { historyLimit: 5, pageSize: 3, maxPageSize: 10 };
+
+const message = (n: number, userId = 'user-1'): ChatMessage => ({
+  id: `message-${n}`,
+  userId,
+  username: userId,
+  message: `Message ${n}`,
+  timestamp: 1000 + n,
+});
+
+// Stores messages in memory; only rooms owned by 'owner-registered' are kept
+class MemoryChatHistoryPersistence implements ChatHistoryPersistence {
+  messages: Array<ChatMessage & { roomId: string }> = [];
+
+  async isOwnerPersisted(ownerId: string): Promise<boolean> {
+    return ownerId === 'owner-registered';
+  }
+
+  async saveMessage(roomId: string, chatMessage: ChatMessage): Promise<void> {
+    this.messages.push({ ...chatMessage, roomId });
+  }
+
+  async getMessage(roomId: string, messageId: string): Promise<ChatMessage | null> {
+    return this.messages.find((stored) => stored.roomId === roomId && stored.id === messageId) ?? null;
+  }
+
+  async updateMessage(roomId: string, messageId: string, changes: ChatMessageChanges): Promise<void> {
+    const stored = this.messages.find((candidate) => candidate.roomId === roomId && candidate.id === messageId);
+    if (stored) {
+      Object.assign(stored, changes);
+    }
+  }
+
+  async deleteMessage(roomId: string, messageId: string): Promise<void> {
+    this.messages = this.messages.filter((stored) => !(stored.roomId === roomId && stored.id === messageId));
+  }
+
+  async loadMessages(roomId: string, before: number | null, limit: number): Promise<ChatMessage[]> {
+    return this.messages
+      .filter((stored) => stored.roomId === roomId && (before === null || stored.timestamp < before))
+      .slice(-limit)
+      .map(({ roomId: _roomId, ...stored }) => stored);
+  }
+}
+
+const ids = (messages: ChatMessage[]) => messages.map((chatMessage) => chatMessage.id);
+
+describe('ChatHistoryService', () => {
+  it('keeps the latest messages per room and pages back through them', async () => {
+    const service = new ChatHistoryService(SETTINGS);
+    for (let n = 1; n <= 7; n += 1) {
+      await service.addMessage('room-1', 'owner-guest', message(n));
+    }
+
+    const latest = await service.getHistory('room-1', 'owner-guest');
+    expect(ids(latest.messages)).toEqual(['message-5', 'message-6', 'message-7']);
+    expect(latest.hasMore).toBe(true);
+
+    // Only the last 5 are kept
+    const older = await service.getHistory('room-1', 'owner-guest', { before: 1005 });
+    expect(ids(older.messages)).toEqual(['message-3', 'message-4']);
+    expect(older.hasMore).toBe(false);
+  });
+
+  it('edits and deletes messages', async () => {
+    const service = new ChatHistoryService(SETTINGS);
+    await service.addMessage('room-1', 'owner-guest', message(1));
+    await service.addMessage('room-1', 'owner-guest', message(2));
+
+    const edited = await service.updateMessage('room-1', 'owner-guest', 'message-1', () => ({ message: 'Fixed', editedAt: 5000 }));
+    expect(edited).toMatchObject({ id: 'message-1', message: 'Fixed', editedAt: 5000, timestamp: 1001 });
+    expect(await service.updateMessage('room-1', 'owner-guest', 'message-1', () => null)).toBeNull();
+    expect(await service.deleteMessage('room-1', 'owner-guest', 'message-2')).toBe(true);
+    expect(await service.deleteMessage('room-1', 'owner-guest', 'message-2')).toBe(false);
+
+    const { messages } = await service.getHistory('room-1', 'owner-guest');
+    expect(messages).toEqual([{ ...message(1), message: 'Fixed', editedAt: 5000 }]);
+  });
+
+  it('stores chat of registered owners\' rooms and pages past the in-memory history', async () => {
+    const persistence = new MemoryChatHistoryPersistence();
+    const service = new ChatHistoryService(SETTINGS, persistence);
+    for (let n = 1; n <= 8; n += 1) {
+      await service.addMessage('room-1', 'owner-registered', message(n));
+    }
+    await service.addMessage('room-2', 'owner-guest', message(1));
+
+    expect(persistence.messages.map((stored) => stored.roomId)).toEqual(Array(8).fill('room-1'));
+
+    const page = await service.getHistory('room-1', 'owner-registered', { before: 1005, limit: 4 });
+    expect(ids(page.messages)).toEqual(['message-1', 'message-2', 'message-3', 'message-4']);
+    expect(page.hasMore).toBe(false);
+
+    // A restarted server loads the stored history and can still moderate older messages
+    const restarted = new ChatHistoryService(SETTINGS, persistence);
+    expect(ids((await restarted.getHistory('room-1', 'owner-registered')).messages)).toEqual([
+      'message-6', 'message-7', 'message-8',
+    ]);
+    expect(await restarted.deleteMessage('room-1', 'owner-registered', 'message-1')).toBe(true);
+    expect(await persistence.getMessage('room-1', 'message-1')).toBeNull();
+  });
+});
@@ -0,0 +1,73 @@
+/**
+ * Unit Tests for chat message enrichment
+ * Tests @mention matching, musical reference resolution and reaction aggregation
+ */
+import {
+  MAX_REACTION_EMOJIS,
+  applyReaction,
+  findMentions,
+  resolveMusicalReference,
+} from '../../../src/domains/real-time-communication/domain/services/ChatMessageEnrichment';
+import { ArrangeRoomStateService } from '../../../src/services/ArrangeRoomStateService';
+import { createTestMidiRegion, createTestTrack } from '../../fixtures/arrangeRoomTestData';
+
+const members = [
+  { id: 'user-1', username: 'Sam' },
+  { id: 'user-2', username: 'Sam Lee' },
+  { id: 'user-3', username: 'drummer' },
+];
+
+describe('ChatMessageEnrichment', () => {
+  it('matches mentions against room members, preferring the longest username', () => {
+    expect(findMentions('@sam lee take the bridge, @Drummer count us in, then @sam', members)).toEqual([
+      { userId: 'user-2', username: 'Sam Lee' },
+      { userId: 'user-3', username: 'drummer' },
+      { userId: 'user-1', username: 'Sam' },
+    ]);
+    expect(findMentions('mail sam@Sam.com or ask @samantha or @Drummers', members)).toEqual([]);
+    expect(findMentions('@Sam! @sam?', members)).toEqual([{ userId: 'user-1', username: 'Sam' }]);
+  });
+
+  it('resolves markers, regions and bars to timeline positions', () => {
+    const stateService = new ArrangeRoomStateService();
+    stateService.initializeState('room-1');
+    stateService.addTrack('room-1', createTestTrack({ id: 'track-1' }));
+    stateService.addRegion('room-1', createTestMidiRegion({ id: 'region-1', trackId: 'track-1', name: 'Verse riff', start: 16 }));
+    stateService.addMarker('room-1', { id: 'marker-1', position: 32, description: 'Chorus' });
+    stateService.setTimeSignature('room-1', { numerator: 6, denominator: 8 });
+    const arrangeState = stateService.getState('room-1');
+    const fourFour = { beatsPerBar: 4, beatUnit: 4 };
+
+    expect(resolveMusicalReference({ type: 'marker', markerId: 'marker-1' }, arrangeState, fourFour))
+      .toEqual({ type: 'marker', markerId: 'marker-1', position: 32, label: 'Chorus' });
+    expect(resolveMusicalReference({ type: 'region', regionId: 'region-1' }, arrangeState, fourFour))
+      .toEqual({ type: 'region', regionId: 'region-1', position: 16, label: 'Verse riff', trackId: 'track-1' });
+    expect(resolveMusicalReference({ type: 'marker', markerId: 'missing' }, arrangeState, fourFour)).toBeNull();
+
+    // 6/8 in the arrangement: bar 3 beat 4 is 15 eighths in, 7.5 quarter notes
+    expect(resolveMusicalReference({ type: 'bar', bar: 3, beat: 4 }, arrangeState, fourFour)?.position).toBe(7.5);
+    // Perform rooms use the metronome's time signature
+    expect(resolveMusicalReference({ type: 'bar', bar: 3 }, undefined, fourFour))
+      .toEqual({ type: 'bar', bar: 3, beat: 1, position: 8 });
+    expect(resolveMusicalReference({ type: 'bar', bar: 3, beat: 5 }, undefined, fourFour)).toBeNull();
+    expect(resolveMusicalReference({ type: 'region', regionId: 'region-1' }, undefined, fourFour)).toBeNull();
+  });
+
+  it('aggregates reactions per emoji and caps the number of different emojis', () => {
+    let reactions = applyReaction([], '👍', 'user-1', false)!;
+    reactions = applyReaction(reactions, '👍', 'user-2', false)!;
+    reactions = applyReaction(reactions, '👍', 'user-2', false)!;
+    reactions = applyReaction(reactions, '🔥', 'user-1', false)!;
+    expect(reactions).toEqual([
+      { emoji: '👍', userIds: ['user-1', 'user-2'] },
+      { emoji: '🔥', userIds: ['user-1'] },
+    ]);
+
+    reactions = applyReaction(reactions, '🔥', 'user-1', true)!;
+    expect(reactions).toEqual([{ emoji: '👍', userIds: ['user-1', 'user-2'] }]);
+
+    const full = Array.from({ length: MAX_REACTION_EMOJIS }, (_, index) => ({ emoji: `emoji-${index}`, userIds: ['user-1'] }));
+    expect(applyReaction(full, '🎸', 'user-2', false)).toBeNull();
+    expect(applyReaction(full, 'emoji-0', 'user-2', false)?.[0]?.userIds).toEqual(['user-1', 'user-2']);
+  });
+});
@@ -0,0 +1,79 @@
+/**
+ * Unit Tests for ChatModerationService
+ * Tests the wordlist, flood, duplicate and guest link rules, and timed chat mutes
+ */
+import { ChatModerationService, createChatModerationRules } from '../../../src/services/ChatModerationService';
+
+const SETTINGS = {
+  wordlist: ['darn', 'heck no'],
+  wordlistMode: 'mask' as const,
+  maxDuplicates: 2,
+  duplicateWindowMs: 30000,
+  floodMaxMessages: 4,
+  floodWindowMs: 10000,
+  blockGuestLinks: true,
+};
+
+const input = (message: string, overrides: { userId?: string; isGuest?: boolean; isEdit?: boolean } = {}) => ({
+  roomId: 'room-1',
+  userId: 'user-1',
+  isGuest: false,
+  isEdit: false,
+  message,
+  ...overrides,
+});
+
+describe('ChatModerationService', () => {
+  it('masks or rejects blocked words as whole words', () => {
+    const masking = new ChatModerationService(createChatModerationRules(SETTINGS));
+    expect(masking.moderate(input('Darn, HECK NO to that darnedest solo'), 0))
+      .toEqual({ allowed: true, message: '****, ******* to that darnedest solo' });
+
+    const rejecting = new ChatModerationService(createChatModerationRules({ ...SETTINGS, wordlistMode: 'reject' }));
+    expect(rejecting.moderate(input('oh darn'), 0)).toMatchObject({ allowed: false, rule: 'wordlist' });
+    expect(rejecting.moderate(input('nice take'), 0)).toEqual({ allowed: true, message: 'nice take' });
+  });
+
+  it('rejects repeated messages and floods per user within their windows', () => {
+    const service = new ChatModerationService(createChatModerationRules(SETTINGS));
+
+    expect(service.moderate(input('again'), 0).allowed).toBe(true);
+    expect(service.moderate(input('  AGAIN '), 1000).allowed).toBe(true);
+    expect(service.moderate(input('again'), 2000)).toMatchObject({ allowed: false, rule: 'duplicate' });
+    // Other users and edits aren't affected
+    expect(service.moderate(input('again', { userId: 'user-2' }), 2000).allowed).toBe(true);
+    expect(service.moderate(input('again', { isEdit: true }), 2000).allowed).toBe(true);
+
+    expect(service.moderate(input('one more'), 3000).allowed).toBe(true);
+    expect(service.moderate(input('too many'), 4000)).toMatchObject({ allowed: false, rule: 'flood' });
+    expect(service.moderate(input('calmer now'), 10500).allowed).toBe(true);
+  });
+
+  it('blocks links from guests only', () => {
+    const service = new ChatModerationService(createChatModerationRules(SETTINGS));
+
+    for (const link of ['see https://example.test/x', 'www.spam.test', 'join spam.gg now']) {
+      expect(service.moderate(input(link, { isGuest: true }), 0)).toMatchObject({ allowed: false, rule: 'guest_links' });
+    }
+    expect(service.moderate(input('tempo is 120bpm... nice.', { isGuest: true }), 0).allowed).toBe(true);
+    expect(service.moderate(input('see https://example.test/x', { userId: 'user-2' }), 0).allowed).toBe(true);
+  });
+
+  it('rejects messages from muted users until the mute ends or is lifted', () => {
+    const service = new ChatModerationService(createChatModerationRules(SETTINGS));
+
+    expect(service.muteUser('room-1', 'user-1', 60, 0)).toBe(60000);
+    expect(service.moderate(input('let me talk'), 30000)).toEqual({
+      allowed: false,
+      rule: 'mute',
+      reason: 'You are muted in this chat',
+      mutedUntil: 60000,
+    });
+    expect(service.moderate(input('let me talk', { userId: 'user-2' }), 30000).allowed).toBe(true);
+    expect(service.moderate(input('let me talk'), 60000).allowed).toBe(true);
+
+    service.muteUser('room-1', 'user-1', 60, 70000);
+    expect(service.muteUser('room-1', 'user-1', 0, 80000)).toBeNull();
+    expect(service.getMutedUntil('room-1', 'user-1', 80000)).toBeNull();
+  });
+});
@@ -0,0 +1,87 @@
+/**
+ * Unit Tests for ClockSyncService
+ * Tests offset/RTT estimation from NTP-style exchanges, filtering of delayed samples,
+ * drift tracking and unmatched reports
+ */
+import { ClockSyncService } from '../../../src/services/ClockSyncService';
+
+// A client whose clock reads `offset` ms behind the server and gains `driftPpm`
+const createClient = (offset: number, driftPpm = 0) => ({
+  clientTime: (serverTime: number) => serverTime - offset + (serverTime * driftPpm) / 1_000_000,
+});
+
+describe('ClockSyncService', () => {
+  let serverTime: number;
+  let service: ClockSyncService;
+
+  beforeEach(() => {
+    serverTime = 1_000_000;
+    service = new ClockSyncService({}, () => serverTime);
+  });
+
+  // One exchange with the given one-way delays
+  const exchange = (client: ReturnType<typeof createClient>, seq: number, upMs: number, downMs: number) => {
+    const clientSendTime = client.clientTime(serverTime);
+    serverTime += upMs;
+    const response = service.handleRequest('socket-1', seq, clientSendTime);
+    serverTime += downMs;
+    return { response, estimate: service.handleReport('socket-1', seq, client.clientTime(serverTime)) };
+  };
+
+  it('estimates the offset and round trip of a symmetric path', () => {
+    const client = createClient(250);
+
+    const { response, estimate } = exchange(client, 1, 20, 20);
+
+    expect(response).toEqual({
+      seq: 1,
+      clientSendTime: 1_000_000 - 250,
+      serverReceiveTime: 1_000_020,
+      serverSendTime: 1_000_020,
+    });
+    expect(estimate).toMatchObject({ offsetMs: 250, rttMs: 40, driftPpm: 0, samples: 1 });
+    expect(service.toServerTime('socket-1', 2_000_000)).toBe(2_000_250);
+  });
+
+  it('prefers the samples least delayed by the network', () => {
+    const client = createClient(250);
+
+    exchange(client, 1, 10, 10);
+    exchange(client, 2, 10, 10);
+    // Queued on the way back: the offset from these samples is 90ms too low
+    for (let seq = 3; seq <= 8; seq += 1) {
+      exchange(client, seq, 10, 190);
+    }
+
+    const estimate = service.getEstimate('socket-1');
+    expect(estimate?.offsetMs).toBeCloseTo(250, 5);
+    expect(estimate?.rttMs).toBe(20);
+    expect(estimate?.samples).toBe(8);
+  });
+
+  it('tracks drift once samples span long enough', () => {
+    const client = createClient(250, 100);
+
+    for (let seq = 1; seq <= 12; seq += 1) {
+      exchange(client, seq, 15, 15);
+      serverTime += 2000;
+    }
+
+    const estimate = service.getEstimate('socket-1')!;
+    expect(estimate.driftPpm).toBeCloseTo(-100, 0);
+    // Converting a client reading taken later still lands on the server clock
+    const later = serverTime + 60_000;
+    expect(service.toServerTime('socket-1', client.clientTime(later))).toBeCloseTo(later, 0);
+  });
+
+  it('ignores reports without a matching request and forgets removed sockets', () => {
+    expect(service.handleReport('socket-1', 1, 1000)).toBeNull();
+
+    exchange(createClient(0), 1, 5, 5);
+    expect(service.handleReport('socket-1', 1, 1000)).toBeNull();
+
+    service.removeSocket('socket-1');
+    expect(service.getEstimate('socket-1')).toBeNull();
+    expect(service.getSocketCount()).toBe(0);
+  });
+});
@@ -0,0 +1,118 @@
+/**
+ * Unit Tests for HLSBroadcastProfiles
+ * Tests FFmpeg arguments, master playlists, LL-HLS playlist rewriting and archive playlists for broadcast profiles
+ */
+import * as path from 'path';
+import {
+  BROADCAST_PROFILES,
+  buildFfmpegArgs,
+  buildLowLatencyPlaylist,
+  buildMasterPlaylist,
+  buildVodPlaylist,
+  getPlaylistDuration,
+  getPlaylistFiles,
+  getSegmentPartSeqs,
+} from '../../../src/services/HLSBroadcastProfiles';
+
+const argValue = (args: string[], flag: string) => args[args.indexOf(flag) + 1];
+
+// Playlist FFmpeg keeps for an archived broadcast: every segment since the start
+const archivedPlaylist = (segments: number) =>
+  [
+    '#EXTM3U',
+    '#EXT-X-VERSION:6',
+    '#EXT-X-TARGETDURATION:2',
+    '#EXT-X-MEDIA-SEQUENCE:0',
+    '#EXT-X-DISCONTINUITY',
+    ...Array.from({ length: segments }, (_, seq) => [
+      '#EXTINF:2.005333,',
+      `segment_${String(seq).padStart(5, '0')}.ts`,
+    ]).flat(),
+  ].join('\n') + '\n';
+
+describe('HLSBroadcastProfiles - Unit Tests', () => {
+  it('should encode one MPEG-TS rendition per bitrate for the standard profile', () => {
+    const args = buildFfmpegArgs(BROADCAST_PROFILES.standard, '/tmp/hls/room');
+
+    expect(args.filter((arg) => arg === '0:a')).toHaveLength(3);
+    expect(['-b:a:0', '-b:a:1', '-b:a:2'].map((flag) => argValue(args, flag))).toEqual(['48k', '96k', '160k']);
+    expect(argValue(args, '-c:a:2')).toBe('aac');
+    expect(argValue(args, '-hls_segment_type')).toBe('mpegts');
+    expect(argValue(args, '-var_stream_map')).toBe('a:0 a:1 a:2');
+    expect(argValue(args, '-hls_segment_filename')).toBe(path.join('/tmp/hls/room', '%v', 'segment_%05d.ts'));
+    expect(args[args.length - 1]).toBe(path.join('/tmp/hls/room', '%v', 'playlist.m3u8'));
+  });
+
+  it('should cut part-sized fMP4 fragments for the low latency profile', () => {
+    const args = buildFfmpegArgs(BROADCAST_PROFILES.low_latency, '/tmp/hls/room');
+
+    expect(argValue(args, '-hls_time')).toBe('0.5');
+    expect(argValue(args, '-hls_segment_type')).toBe('fmp4');
+    // Enough parts for the advertised segments plus the one being written
+    expect(argValue(args, '-hls_list_size')).toBe('28');
+    expect(argValue(args, '-hls_segment_filename')).toBe(path.join('/tmp/hls/room', '%v', 'part_%05d.m4s'));
+  });
+
+  it('should list every rendition in the master playlist', () => {
+    const playlist = buildMasterPlaylist(BROADCAST_PROFILES.standard);
+
+    expect(playlist.split('\n').filter((line) => line && !line.startsWith('#'))).toEqual([
+      '48k/playlist.m3u8',
+      '96k/playlist.m3u8',
+      '160k/playlist.m3u8',
+    ]);
+    expect(playlist).toContain('#EXT-X-STREAM-INF:BANDWIDTH=52800,CODECS="mp4a.40.2"');
+  });
+
+  it('should group FFmpeg parts into LL-HLS segments with trailing partial segments', () => {
+    const profile = BROADCAST_PROFILES.low_latency;
+    // Parts 2-3 belong to a segment that already started rolling out of FFmpeg's playlist
+    const parts = [2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12, 13, 14];
+    const ffmpegPlaylist = [
+      '#EXTM3U',
+      '#EXT-X-VERSION:7',
+      '#EXT-X-TARGETDURATION:1',
+      '#EXT-X-MAP:URI="init.mp4"',
+      ...parts.flatMap((seq) => ['#EXTINF:0.500000,', `part_${String(seq).padStart(5, '0')}.m4s`]),
+    ].join('\n');
+
+    const lines = buildLowLatencyPlaylist(profile, ffmpegPlaylist)!.trim().split('\n');
+
+    expect(lines).toContain('#EXT-X-MEDIA-SEQUENCE:1');
+    expect(lines).toContain('#EXT-X-PART-INF:PART-TARGET=0.5');
+    expect(lines).toContain('#EXT-X-MAP:URI="init.mp4"');
+    expect(lines.filter((line) => line.startsWith('segment_'))).toEqual([
+      'segment_00001.m4s',
+      'segment_00002.m4s',
+    ]);
+    expect(lines.filter((line) => line.startsWith('#EXTINF'))).toEqual(['#EXTINF:2,', '#EXTINF:2,']);
+    // Parts of the two latest segments, then the segment still being written
+    expect(lines.filter((line) => line.startsWith('#EXT-X-PART:'))).toHaveLength(8 + 3);
+    expect(lines[lines.length - 1]).toBe('#EXT-X-PART:DURATION=0.5,URI="part_00014.m4s",INDEPENDENT=YES');
+  });
+
+  it('should map a grouped segment name to its parts', () => {
+    expect(getSegmentPartSeqs(BROADCAST_PROFILES.low_latency, 'segment_00003.m4s')).toEqual([12, 13, 14, 15]);
+    expect(getSegmentPartSeqs(BROADCAST_PROFILES.standard, 'segment_00003.ts')).toBeNull();
+  });
+
+  it('should keep every segment when archiving', () => {
+    const args = buildFfmpegArgs(BROADCAST_PROFILES.standard, '/tmp/hls/room', true);
+
+    expect(argValue(args, '-hls_list_size')).toBe('0');
+    expect(argValue(args, '-hls_flags')).not.toContain('delete_segments');
+  });
+
+  it('should finalize an archived broadcast as a VOD playlist', () => {
+    const playlist = archivedPlaylist(3);
+    const lines = buildVodPlaylist(playlist).trim().split('\n');
+
+    expect(lines.slice(0, 2)).toEqual(['#EXTM3U', '#EXT-X-PLAYLIST-TYPE:VOD']);
+    expect(lines[lines.length - 1]).toBe('#EXT-X-ENDLIST');
+    expect(getPlaylistFiles(playlist)).toEqual(['segment_00000.ts', 'segment_00001.ts', 'segment_00002.ts']);
+    expect(getPlaylistDuration(playlist)).toBeCloseTo(6.016, 3);
+
+    const fmp4 = playlist.replace('#EXT-X-DISCONTINUITY', '#EXT-X-MAP:URI="init_0.mp4"\n#EXT-X-DISCONTINUITY');
+    expect(getPlaylistFiles(fmp4)[0]).toBe('init_0.mp4');
+  });
+});
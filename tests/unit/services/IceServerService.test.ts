@@ -0,0 +1,62 @@
+/**
+ * Unit Tests for IceServerService
+ * Tests coturn REST API credentials (expiry-prefixed usernames, HMAC-SHA1 passwords) and
+ * leaving TURN out when it isn't configured
+ */
+import { IceServerService } from '../../../src/services/IceServerService';
+
+const STUN_URLS = ['stun:stun.example.com:3478'];
+const TURN_URLS = ['turn:turn.example.com:3478?transport=udp', 'turns:turn.example.com:5349'];
+const NOW = 1760000000 * 1000;
+
+describe('IceServerService', () => {
+  it('issues TURN credentials scoped to the user and room that expire after the TTL', () => {
+    const service = new IceServerService({
+      stunUrls: STUN_URLS,
+      turnUrls: TURN_URLS,
+      turnSecret: 'north-secret',
+      turnCredentialTtlSeconds: 600,
+    });
+
+    expect(service.getIceServers('user-1', 'room-1', NOW)).toEqual({
+      iceServers: [
+        { urls: STUN_URLS },
+        {
+          urls: TURN_URLS,
+          username: '1760000600:room-1:user-1',
+          credential: 'GtoPZnHhf9ewWVhZ8Nv9gffleKc=',
+        },
+      ],
+      ttl: 600,
+      expiresAt: '2025-10-09T09:03:20.000Z',
+    });
+  });
+
+  it('gives different users in a room different credentials', () => {
+    const service = new IceServerService({
+      stunUrls: STUN_URLS,
+      turnUrls: TURN_URLS,
+      turnSecret: 'north-secret',
+      turnCredentialTtlSeconds: 600,
+    });
+
+    const first = service.getIceServers('user-1', 'room-1', NOW).iceServers[1];
+    const second = service.getIceServers('user-2', 'room-1', NOW).iceServers[1];
+    expect(second?.credential).not.toEqual(first?.credential);
+  });
+
+  it('only returns STUN servers without a TURN secret', () => {
+    const service = new IceServerService({
+      stunUrls: STUN_URLS,
+      turnUrls: TURN_URLS,
+      turnCredentialTtlSeconds: 600,
+    });
+
+    expect(service.isTurnEnabled()).toBe(false);
+    expect(service.getIceServers('user-1', 'room-1', NOW)).toEqual({
+      iceServers: [{ urls: STUN_URLS }],
+      ttl: null,
+      expiresAt: null,
+    });
+  });
+});
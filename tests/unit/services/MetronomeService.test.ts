@@ -0,0 +1,103 @@
+/**
+ * Unit Tests for RoomMetronome
+ * Tests bar/beat numbering, count-in, tempo ramps, time signature changes on downbeats
+ * and transport state
+ */
+import type { Namespace } from 'socket.io';
+import { RoomMetronome } from '../../../src/services/MetronomeService';
+import { RoomService } from '../../../src/services/RoomService';
+import { RoomSessionManager } from '../../../src/services/RoomSessionManager';
+import { MetronomeTickData } from '../../../src/types';
+
+describe('RoomMetronome', () => {
+  let roomService: RoomService;
+  let namespace: { emit: jest.Mock };
+  let roomId: string;
+  let metronome: RoomMetronome;
+
+  const ticks = (): MetronomeTickData[] =>
+    namespace.emit.mock.calls.filter(([event]) => event === 'metronome_tick').map(([, data]) => data);
+
+  const position = (tick: MetronomeTickData) => [tick.bar, tick.beat];
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    roomService = new RoomService({ setRoomSession: jest.fn() } as unknown as RoomSessionManager);
+    roomId = roomService.createRoom('Metronome Room', 'owner', 'owner-1').room.id;
+    roomService.updateMetronomeBPM(roomId, 120);
+    namespace = { emit: jest.fn() };
+    metronome = new RoomMetronome(roomId, namespace as unknown as Namespace, roomService);
+  });
+
+  afterEach(() => {
+    metronome.cleanup();
+    jest.useRealTimers();
+  });
+
+  it('numbers ticks by bar and beat in the room\'s time signature', () => {
+    metronome.setTimeSignature({ beatsPerBar: 3, beatUnit: 4 });
+    metronome.start();
+    jest.advanceTimersByTime(2000);
+
+    expect(ticks().map(position)).toEqual([[1, 1], [1, 2], [1, 3], [2, 1], [2, 2]]);
+    expect(ticks()[3]).toMatchObject({
+      bpm: 120,
+      beatsPerBar: 3,
+      beatUnit: 4,
+      isDownbeat: true,
+      countIn: false,
+      intervalMs: 500,
+    });
+    expect(roomService.getMetronomeState(roomId)?.transport).toBe('playing');
+  });
+
+  it('counts in before bar 1', () => {
+    metronome.start(1);
+    expect(roomService.getMetronomeState(roomId)?.transport).toBe('count_in');
+    jest.advanceTimersByTime(2000);
+
+    expect(ticks().map(position)).toEqual([[0, 1], [0, 2], [0, 3], [0, 4], [1, 1]]);
+    expect(ticks().map((tick) => tick.countIn)).toEqual([true, true, true, true, false]);
+    expect(roomService.getMetronomeState(roomId)?.transport).toBe('playing');
+  });
+
+  it('ramps the tempo beat by beat and lands on the target at the downbeat after the ramp', () => {
+    const onTempoApplied = jest.fn();
+    metronome.setOnTempoApplied(onTempoApplied);
+    metronome.start(1);
+    metronome.rampTempo({ fromBpm: 120, toBpm: 180, bars: 1 });
+    expect(roomService.getMetronomeState(roomId)?.tempoRamp).toEqual({ fromBpm: 120, toBpm: 180, bars: 1 });
+
+    // The ramp waits out the count-in: 4 beats at 500ms, then 500 + 444 + 400 + 364ms
+    jest.advanceTimersByTime(2000 + 500 + 60_000 / 135 + 60_000 / 150 + 60_000 / 165);
+
+    expect(ticks().slice(4).map((tick) => tick.bpm)).toEqual([120, 135, 150, 165, 180]);
+    expect(ticks()[8]).toMatchObject({ bar: 2, beat: 1 });
+    expect(onTempoApplied).toHaveBeenCalledWith(180);
+    expect(roomService.getMetronomeState(roomId)).toMatchObject({ bpm: 180, tempoRamp: null });
+  });
+
+  it('changes the time signature on the next downbeat', () => {
+    metronome.start();
+    jest.advanceTimersByTime(500);
+    metronome.setTimeSignature({ beatsPerBar: 6, beatUnit: 8 });
+    jest.advanceTimersByTime(1500);
+
+    expect(ticks().map((tick) => [tick.bar, tick.beat, tick.beatsPerBar])).toEqual([
+      [1, 1, 4], [1, 2, 4], [1, 3, 4], [1, 4, 4], [2, 1, 6],
+    ]);
+    expect(roomService.getMetronomeState(roomId)?.timeSignature).toEqual({ beatsPerBar: 6, beatUnit: 8 });
+  });
+
+  it('stops the transport and starts again from bar 1', () => {
+    metronome.start();
+    jest.advanceTimersByTime(1000);
+    metronome.stop();
+    expect(roomService.getMetronomeState(roomId)?.transport).toBe('stopped');
+    jest.advanceTimersByTime(2000);
+    expect(ticks()).toHaveLength(3);
+
+    metronome.start();
+    expect(position(ticks()[3]!)).toEqual([1, 1]);
+  });
+});
@@ -0,0 +1,133 @@
+/**
+ * Unit Tests for concurrent MIDI note editing
+ * Tests per-element merging of notes and sustain events in ArrangeRoomStateService
+ */
+import { ArrangeRoomStateService } from '../../../src/services/ArrangeRoomStateService';
+import type { MidiRegion } from '../../../src/domains/arrange-room/domain/models/ArrangeRoomState';
+import { createTestTrack, createTestMidiRegion, createTestMidiNote } from '../../fixtures/arrangeRoomTestData';
+
+describe('ArrangeRoomStateService - MIDI element merging', () => {
+  const roomId = 'room-1';
+  const regionId = 'region-1';
+  let stateService: ArrangeRoomStateService;
+
+  const getRegion = (): MidiRegion => stateService.getState(roomId)!.regions[0] as MidiRegion;
+
+  beforeEach(() => {
+    stateService = new ArrangeRoomStateService();
+    stateService.initializeState(roomId);
+    stateService.addTrack(roomId, createTestTrack({ id: 'track-1' }));
+    stateService.addRegion(roomId, createTestMidiRegion({ id: regionId, notes: [createTestMidiNote()] }));
+  });
+
+  it('should merge concurrent edits to different fields of the same note', () => {
+    const pitch = stateService.applyMidiOperation(
+      roomId,
+      { type: 'note_update', regionId, noteId: 'note-1', updates: { pitch: 64 } },
+      { userId: 'user-a', clock: 0 }
+    );
+    const velocity = stateService.applyMidiOperation(
+      roomId,
+      { type: 'note_update', regionId, noteId: 'note-1', updates: { velocity: 80 } },
+      { userId: 'user-b', clock: 0 }
+    );
+
+    expect(pitch.applied).toBe(true);
+    expect(velocity.applied).toBe(true);
+    expect(getRegion().notes[0]).toMatchObject({ pitch: 64, velocity: 80 });
+  });
+
+  it('should resolve concurrent writes to the same field regardless of arrival order', () => {
+    const runInOrder = (users: string[]) => {
+      const service = new ArrangeRoomStateService();
+      service.initializeState(roomId);
+      service.addTrack(roomId, createTestTrack({ id: 'track-1' }));
+      service.addRegion(roomId, createTestMidiRegion({ id: regionId, notes: [createTestMidiNote()] }));
+      users.forEach((userId) => {
+        service.applyMidiOperation(
+          roomId,
+          { type: 'note_update', regionId, noteId: 'note-1', updates: { pitch: userId === 'user-a' ? 62 : 67 } },
+          { userId, clock: 0 }
+        );
+      });
+      return (service.getState(roomId)!.regions[0] as MidiRegion).notes[0]?.pitch;
+    };
+
+    expect(runInOrder(['user-a', 'user-b'])).toBe(67);
+    expect(runInOrder(['user-b', 'user-a'])).toBe(67);
+  });
+
+  it('should narrow an update to the fields it won', () => {
+    stateService.applyMidiOperation(
+      roomId,
+      { type: 'note_update', regionId, noteId: 'note-1', updates: { pitch: 67 } },
+      { userId: 'user-b', clock: 0 }
+    );
+    const result = stateService.applyMidiOperation(
+      roomId,
+      { type: 'note_update', regionId, noteId: 'note-1', updates: { pitch: 62, start: 2 } },
+      { userId: 'user-a', clock: 0 }
+    );
+
+    expect(result.operation).toEqual({ type: 'note_update', regionId, noteId: 'note-1', updates: { start: 2 } });
+    expect(result.inverse).toEqual([{ type: 'note_update', regionId, noteId: 'note-1', updates: { start: 0 } }]);
+    expect(getRegion().notes[0]).toMatchObject({ pitch: 67, start: 2 });
+  });
+
+  it('should let a delete win over a concurrent update', () => {
+    stateService.applyMidiOperation(roomId, { type: 'note_delete', regionId, noteId: 'note-1' }, { userId: 'user-a', clock: 0 });
+    const update = stateService.applyMidiOperation(
+      roomId,
+      { type: 'note_update', regionId, noteId: 'note-1', updates: { pitch: 64 } },
+      { userId: 'user-b', clock: 0 }
+    );
+
+    expect(update.applied).toBe(false);
+    expect(update.element).toBeNull();
+    expect(getRegion().notes).toHaveLength(0);
+  });
+
+  it('should not resurrect a deleted note from a stale add, but allow undo to restore it', () => {
+    const deleted = stateService.applyMidiOperation(roomId, { type: 'note_delete', regionId, noteId: 'note-1' }, { userId: 'user-b' });
+
+    const staleAdd = stateService.applyMidiOperation(
+      roomId,
+      { type: 'note_add', regionId, note: createTestMidiNote() },
+      { userId: 'user-a', clock: 0 }
+    );
+    expect(staleAdd.applied).toBe(false);
+
+    deleted.inverse.forEach((operation) => stateService.applyOperation(roomId, operation, 'user-b'));
+    expect(getRegion().notes).toHaveLength(1);
+  });
+
+  it('should merge sustain events the same way as notes', () => {
+    stateService.applyMidiOperation(
+      roomId,
+      { type: 'sustain_add', regionId, sustainEvent: { id: 'sustain-1', start: 0, end: 2 } },
+      { userId: 'user-a' }
+    );
+    stateService.applyMidiOperation(
+      roomId,
+      { type: 'sustain_update', regionId, sustainEventId: 'sustain-1', updates: { end: 4 } },
+      { userId: 'user-b' }
+    );
+
+    expect(getRegion().sustainEvents).toEqual([{ id: 'sustain-1', start: 0, end: 4 }]);
+    expect(stateService.getMidiClock(roomId, regionId)).toBe(2);
+  });
+
+  it('should reject element edits made before the region content was replaced', () => {
+    stateService.applyMidiOperation(roomId, { type: 'note_update', regionId, noteId: 'note-1', updates: { pitch: 61 } }, { userId: 'user-a' });
+    stateService.updateRegion(roomId, regionId, { notes: [createTestMidiNote({ pitch: 48 })] });
+
+    const inFlight = stateService.applyMidiOperation(
+      roomId,
+      { type: 'note_update', regionId, noteId: 'note-1', updates: { velocity: 20 } },
+      { userId: 'user-b', clock: 1 }
+    );
+
+    expect(inFlight.applied).toBe(false);
+    expect(getRegion().notes[0]).toMatchObject({ pitch: 48, velocity: 100 });
+  });
+});
@@ -0,0 +1,185 @@
+/**
+ * Unit Tests for MixdownRenderService
+ * Tests clip layout (mute/solo, loops, trims, gain, pan, fades), the filter graph and job status
+ */
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import {
+  MixdownRenderService,
+  buildMixdownFilterGraph,
+  planMixdown,
+  type MixdownSource,
+} from '../../../src/services/MixdownRenderService';
+import type { AudioRegion, Track } from '../../../src/domains/arrange-room/domain/models/ArrangeRoomState';
+import { LocalStorageAdapter } from '../../../src/services/storage/LocalStorageAdapter';
+import type { StorageAdapter } from '../../../src/services/storage/StorageAdapter';
+
+const createTrack = (id: string, overrides: Partial<Track> = {}): Track => ({
+  id,
+  name: id,
+  type: 'audio',
+  volume: 1,
+  pan: 0,
+  mute: false,
+  solo: false,
+  color: '#fff',
+  regionIds: [],
+  ...overrides,
+});
+
+const createRegion = (id: string, trackId: string, overrides: Partial<AudioRegion> = {}): AudioRegion => ({
+  id,
+  trackId,
+  name: id,
+  type: 'audio',
+  start: 0,
+  length: 4,
+  loopEnabled: false,
+  loopIterations: 1,
+  ...overrides,
+});
+
+// 120 bpm: one beat is half a second
+const createSource = (overrides: Partial<MixdownSource> = {}): MixdownSource => ({
+  name: 'Song',
+  bpm: 120,
+  tracks: [createTrack('vocals')],
+  regions: [createRegion('region-1', 'vocals')],
+  ...overrides,
+});
+
+describe('MixdownRenderService - Unit Tests', () => {
+  describe('planMixdown', () => {
+    it('should skip muted tracks and only play soloed tracks when any track is soloed', () => {
+      const tracks = [createTrack('a'), createTrack('b', { mute: true }), createTrack('c', { solo: true })];
+      const regions = [createRegion('ra', 'a'), createRegion('rb', 'b'), createRegion('rc', 'c')];
+
+      expect(planMixdown(createSource({ tracks, regions })).map((clip) => clip.region.id)).toEqual(['rc']);
+      expect(
+        planMixdown(createSource({ tracks: tracks.map((t) => ({ ...t, solo: false })), regions })).map(
+          (clip) => clip.region.id
+        )
+      ).toEqual(['ra', 'rc']);
+    });
+
+    it('should repeat looped regions and apply trim, originalLength and fades in seconds', () => {
+      const clips = planMixdown(
+        createSource({
+          regions: [
+            createRegion('region-1', 'vocals', {
+              start: 2,
+              length: 4,
+              loopEnabled: true,
+              loopIterations: 3,
+              trimStart: 1,
+              originalLength: 4,
+              fadeInDuration: 1,
+              fadeOutDuration: 0.5,
+            }),
+          ],
+        })
+      );
+
+      expect(clips.map((clip) => clip.startSeconds)).toEqual([1, 3, 5]);
+      expect(clips[0]).toMatchObject({
+        offsetSeconds: 0.5,
+        durationSeconds: 1.5,
+        fadeInSeconds: 0.5,
+        fadeOutSeconds: 0.25,
+      });
+    });
+
+    it('should combine track volume, region gain and pan into channel gains', () => {
+      const [clip] = planMixdown(
+        createSource({
+          tracks: [createTrack('vocals', { volume: 0.8, pan: 0.5 })],
+          regions: [createRegion('region-1', 'vocals', { gain: 0.5 })],
+        })
+      );
+
+      expect(clip).toMatchObject({ leftGain: 0.2, rightGain: 0.4 });
+    });
+
+    it('should ignore MIDI tracks', () => {
+      const source = createSource({ tracks: [createTrack('keys', { type: 'midi' })] });
+      expect(planMixdown({ ...source, regions: [createRegion('region-1', 'keys')] })).toEqual([]);
+    });
+  });
+
+  describe('buildMixdownFilterGraph', () => {
+    it('should delay each clip to its position and pad all clips to the full length', () => {
+      const clips = planMixdown(
+        createSource({
+          regions: [createRegion('region-1', 'vocals'), createRegion('region-2', 'vocals', { start: 8 })],
+        })
+      );
+
+      const { filters, totalSeconds } = buildMixdownFilterGraph(clips);
+      expect(totalSeconds).toBe(6);
+      expect(filters[1]).toContain('adelay=4000|4000,apad,atrim=end=6');
+      expect(filters[2]).toBe('[c0][c1]amix=inputs=2:duration=longest:dropout_transition=0,volume=2[mix]');
+    });
+  });
+
+  describe('jobs', () => {
+    const storage: StorageAdapter = {
+      saveFile: async (key) => key,
+      getFile: async () => null,
+      deleteFile: async () => {},
+      fileExists: async () => false,
+      getFileUrl: async (key) => `memory://${key}`,
+      listFiles: async () => [],
+    };
+
+    it('should fail a render with no audible audio and scope job lookups', async () => {
+      const service = new MixdownRenderService(storage);
+      const cleanup = jest.fn(async () => {});
+      const job = service.startRender({
+        scope: 'room:room-1',
+        downloadPath: (jobId) => `/api/rooms/room-1/mixdowns/${jobId}/download`,
+        format: 'wav',
+        source: createSource({ tracks: [createTrack('vocals', { mute: true })] }),
+        resolveAudioPath: () => null,
+        cleanup,
+      });
+
+      expect(job.status).toBe('queued');
+      expect(service.getJob(job.id, 'room:room-2')).toBeNull();
+
+      for (let i = 0; i < 50 && service.getJob(job.id, 'room:room-1')?.status !== 'failed'; i++) {
+        await new Promise((resolve) => setTimeout(resolve, 10));
+      }
+
+      const status = await service.getJobStatus(job.id, 'room:room-1');
+      expect(status).toMatchObject({ status: 'failed', error: 'No audible audio regions to render', downloadUrl: null });
+      expect(cleanup).toHaveBeenCalled();
+    });
+
+    it('should link local renders to the API download route', async () => {
+      const basePath = await fs.mkdtemp(path.join(os.tmpdir(), 'mixdown-test-'));
+      const service = new MixdownRenderService(new LocalStorageAdapter(basePath));
+      // Stand in for ffmpeg
+      jest.spyOn(service as any, 'render').mockImplementation((...args: unknown[]) => fs.writeFile(args[3] as string, 'RIFF'));
+
+      try {
+        const job = service.startRender({
+          scope: 'room:room-1',
+          downloadPath: (jobId) => `/api/rooms/room-1/mixdowns/${jobId}/download`,
+          format: 'wav',
+          source: createSource(),
+          resolveAudioPath: () => '/audio/region-1.wav',
+        });
+
+        for (let i = 0; i < 50 && service.getJob(job.id, 'room:room-1')?.status !== 'completed'; i++) {
+          await new Promise((resolve) => setTimeout(resolve, 10));
+        }
+
+        const status = await service.getJobStatus(job.id, 'room:room-1');
+        expect(status).toMatchObject({ status: 'completed', downloadUrl: `/api/rooms/room-1/mixdowns/${job.id}/download` });
+      } finally {
+        await fs.rm(basePath, { recursive: true, force: true });
+      }
+    });
+  });
+});
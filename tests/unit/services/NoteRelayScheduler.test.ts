@@ -0,0 +1,175 @@
+/**
+ * Unit Tests for NoteRelayScheduler
+ * Tests immediate relay, playout delay rounded to the metronome grid, per-member latency
+ * compensation, late and dropped accounting, jitter and cancelling a sender's pending notes
+ */
+import type { Namespace, Socket } from 'socket.io';
+import { NoteRelayScheduler } from '../../../src/domains/audio-processing/infrastructure/scheduling/NoteRelayScheduler';
+import { ClockSyncService } from '../../../src/services/ClockSyncService';
+
+interface FakeSocket {
+  id: string;
+  connected: boolean;
+  data: { userId: string };
+  emit: jest.Mock;
+  broadcast: { emit: jest.Mock };
+}
+
+const createSocket = (id: string): FakeSocket => ({
+  id,
+  connected: true,
+  data: { userId: `user-${id}` },
+  emit: jest.fn(),
+  broadcast: { emit: jest.fn() },
+});
+
+const note = (notes: string[], eventType = 'note_on') => ({ notes, eventType });
+
+describe('NoteRelayScheduler', () => {
+  let now: number;
+  let clockSync: ClockSyncService;
+  let sender: FakeSocket;
+  let near: FakeSocket;
+  let far: FakeSocket;
+  let namespace: Namespace;
+
+  const advance = (ms: number) => {
+    now += ms;
+    jest.advanceTimersByTime(ms);
+  };
+
+  // Complete one clock sync exchange with a zero offset and the given round trip
+  const sync = (socket: FakeSocket, rttMs: number) => {
+    const { seq } = clockSync.handleRequest(socket.id, 1, now - rttMs / 2);
+    clockSync.handleReport(socket.id, seq, now + rttMs / 2);
+  };
+
+  const createScheduler = (playoutDelayMs: number, bpm: number | null = 120) =>
+    new NoteRelayScheduler('room-1', () => bpm, {
+      playoutDelayMs,
+      gridDivision: 4,
+      maxLateMs: 150,
+      safetyMarginMs: 5,
+      maxQueuedEvents: 100,
+    }, clockSync);
+
+  const relay = (scheduler: NoteRelayScheduler, data: Record<string, unknown>, options = {}) =>
+    scheduler.relay(sender as unknown as Socket, namespace, 'user-sender', 'note_played', data, options);
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    now = 1_000_000;
+    clockSync = new ClockSyncService({}, () => now);
+    sender = createSocket('sender');
+    near = createSocket('near');
+    far = createSocket('far');
+    namespace = { sockets: new Map([[sender.id, sender], [near.id, near], [far.id, far]]) } as unknown as Namespace;
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('broadcasts immediately without a playout delay', () => {
+    const scheduler = createScheduler(0);
+    sync(sender, 0);
+
+    relay(scheduler, note(['C4']), { sentAt: now - 30 });
+
+    expect(sender.broadcast.emit).toHaveBeenCalledWith('note_played', {
+      notes: ['C4'],
+      eventType: 'note_on',
+      senderTime: now - 30,
+      serverTime: now,
+    });
+    expect(scheduler.getReceiverStats()).toMatchObject({
+      near: { userId: 'user-near', delivered: 1 },
+      far: { userId: 'user-far', delivered: 1 },
+    });
+  });
+
+  it('rounds the playout delay up to the metronome grid', () => {
+    // Sixteenths at 120 BPM are 125ms
+    expect(createScheduler(100).getPlayoutDelayMs()).toBe(125);
+    expect(createScheduler(125).getPlayoutDelayMs()).toBe(125);
+    expect(createScheduler(130).getPlayoutDelayMs()).toBe(250);
+    expect(createScheduler(100, null).getPlayoutDelayMs()).toBe(100);
+  });
+
+  it('sends each member a note its one-way latency ahead of the play time', () => {
+    const scheduler = createScheduler(100);
+    sync(near, 20);
+    sync(far, 80);
+    const playAt = now + 125;
+
+    relay(scheduler, note(['C4']));
+
+    // The far member (40ms away) is sent the note 45ms before it plays, the near one 15ms before
+    advance(79);
+    expect(far.emit).not.toHaveBeenCalled();
+    advance(1);
+    expect(far.emit).toHaveBeenCalledWith('note_played', {
+      notes: ['C4'],
+      eventType: 'note_on',
+      playAt,
+      serverTime: playAt - 45,
+    });
+    expect(near.emit).not.toHaveBeenCalled();
+    advance(30);
+    expect(near.emit).toHaveBeenCalledWith('note_played', expect.objectContaining({ playAt, serverTime: playAt - 15 }));
+    expect(sender.emit).not.toHaveBeenCalled();
+  });
+
+  it('delivers every note of a burst, in order', () => {
+    const scheduler = createScheduler(100);
+
+    for (let i = 0; i < 10; i += 1) {
+      relay(scheduler, note([`C${i}`]));
+      advance(2);
+    }
+    advance(200);
+
+    expect(near.emit.mock.calls.map(([, data]) => data.notes[0])).toEqual(
+      Array.from({ length: 10 }, (_, i) => `C${i}`)
+    );
+    expect(scheduler.getQueuedCount()).toBe(0);
+  });
+
+  it('counts late arrivals and drops note-ons that would arrive far too late', () => {
+    const scheduler = createScheduler(100);
+    sync(near, 300); // 150ms away: 25ms late
+    sync(far, 600); // 300ms away: 175ms late
+
+    relay(scheduler, note(['C4']), { droppable: true });
+    relay(scheduler, note(['C4'], 'note_off'));
+
+    expect(near.emit).toHaveBeenCalledTimes(2);
+    expect(far.emit).toHaveBeenCalledTimes(1);
+    expect(far.emit).toHaveBeenCalledWith('note_played', expect.objectContaining({ eventType: 'note_off' }));
+    expect(scheduler.getReceiverStats()).toMatchObject({
+      near: { delivered: 2, late: 2, dropped: 0, oneWayMs: 150 },
+      far: { delivered: 1, late: 1, dropped: 1, oneWayMs: 300 },
+    });
+  });
+
+  it('tracks jitter in the sender-to-member transit time', () => {
+    const scheduler = createScheduler(0);
+    sync(sender, 0);
+
+    relay(scheduler, note(['C4']), { sentAt: now - 20 });
+    relay(scheduler, note(['D4']), { sentAt: now - 36 });
+
+    expect(scheduler.getReceiverStats().near?.jitterMs).toBe(1);
+  });
+
+  it('cancels a sender\'s pending notes', () => {
+    const scheduler = createScheduler(100);
+
+    relay(scheduler, note(['C4']));
+    scheduler.cancelPending('user-sender');
+    advance(200);
+
+    expect(near.emit).not.toHaveBeenCalled();
+    expect(scheduler.getQueuedCount()).toBe(0);
+  });
+});
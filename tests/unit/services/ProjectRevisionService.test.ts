@@ -0,0 +1,122 @@
+/**
+ * Unit Tests for ProjectRevisionService
+ * Tests numbered revisions, retention pruning with audio deduplication, and revision diffs
+ */
+import { ProjectRevisionService, diffProjectData } from '../../../src/services/ProjectRevisionService';
+import type { StorageAdapter } from '../../../src/services/storage/StorageAdapter';
+
+class InMemoryStorageAdapter implements StorageAdapter {
+  readonly files = new Map<string, Buffer>();
+
+  async saveFile(key: string, buffer: Buffer): Promise<string> {
+    this.files.set(key, buffer);
+    return key;
+  }
+
+  async getFile(key: string): Promise<Buffer | null> {
+    return this.files.get(key) ?? null;
+  }
+
+  async deleteFile(key: string): Promise<void> {
+    this.files.delete(key);
+  }
+
+  async fileExists(key: string): Promise<boolean> {
+    return this.files.has(key);
+  }
+
+  async getFileUrl(key: string): Promise<string> {
+    return `memory://${key}`;
+  }
+
+  async listFiles(prefix: string): Promise<string[]> {
+    return [...this.files.keys()].filter((key) => key.startsWith(prefix));
+  }
+}
+
+describe('ProjectRevisionService - Unit Tests', () => {
+  const userId = 'user-1';
+  const projectId = 'project-1';
+  let storage: InMemoryStorageAdapter;
+  let revisionService: ProjectRevisionService;
+
+  const save = (projectData: unknown, audio: string[] = [], retention = 10) =>
+    revisionService.createRevision(userId, projectId, {
+      projectJson: JSON.stringify(projectData),
+      audioFiles: audio.map((content, i) => ({ fileName: `region-${i}.webm`, buffer: Buffer.from(content) })),
+      createdBy: userId,
+      retention,
+    });
+
+  beforeEach(() => {
+    storage = new InMemoryStorageAdapter();
+    revisionService = new ProjectRevisionService(storage);
+  });
+
+  it('should number revisions sequentially and list newest first', async () => {
+    await Promise.all([save({ tracks: [] }), save({ tracks: [] }), save({ tracks: [] })]);
+
+    const revisions = await revisionService.listRevisions(userId, projectId);
+    expect(revisions.map((r) => r.revision)).toEqual([3, 2, 1]);
+  });
+
+  it('should return the project data and audio stored with a revision', async () => {
+    await save({ tracks: [{ id: 'track-1' }] }, ['first take']);
+    await save({ tracks: [] }, ['second take']);
+
+    const revision = await revisionService.getRevision(userId, projectId, 1);
+    expect(JSON.parse(revision!.projectJson)).toEqual({ tracks: [{ id: 'track-1' }] });
+    expect(revision!.audioFiles.map((f) => f.buffer.toString())).toEqual(['first take']);
+    expect(await revisionService.getRevision(userId, projectId, 5)).toBeNull();
+  });
+
+  it('should store identical audio once across revisions', async () => {
+    await save({}, ['same take']);
+    await save({}, ['same take']);
+
+    const blobs = await storage.listFiles(`revisions/${userId}/${projectId}/blobs/`);
+    expect(blobs).toHaveLength(1);
+  });
+
+  it('should prune the oldest revisions and their unreferenced audio', async () => {
+    await save({}, ['old take'], 2);
+    await save({}, ['shared take'], 2);
+    await save({}, ['shared take'], 2);
+
+    const revisions = await revisionService.listRevisions(userId, projectId);
+    expect(revisions.map((r) => r.revision)).toEqual([3, 2]);
+    expect(await storage.listFiles(`revisions/${userId}/${projectId}/1/`)).toEqual([]);
+    expect(await storage.listFiles(`revisions/${userId}/${projectId}/blobs/`)).toHaveLength(1);
+  });
+
+  it('should delete every revision of a project', async () => {
+    await save({}, ['take']);
+    await revisionService.deleteRevisions(userId, projectId);
+
+    expect(storage.files.size).toBe(0);
+  });
+});
+
+describe('diffProjectData', () => {
+  it('should report added, removed and changed items by id', () => {
+    const diff = diffProjectData(
+      {
+        tracks: [{ id: 'track-1', name: 'Bass', volume: 1 }, { id: 'track-2', name: 'Drums' }],
+        regions: [{ id: 'region-1', start: 0, notes: [{ id: 'note-1', pitch: 60 }] }],
+      },
+      {
+        tracks: [{ id: 'track-1', name: 'Bass', volume: 0.5 }, { id: 'track-3', name: 'Keys' }],
+        regions: [{ id: 'region-1', start: 0, notes: [{ id: 'note-1', pitch: 62 }] }],
+        markers: [{ id: 'marker-1', position: 4 }],
+      }
+    );
+
+    expect(diff.tracks).toEqual({
+      added: ['track-3'],
+      removed: ['track-2'],
+      changed: [{ id: 'track-1', fields: ['volume'] }],
+    });
+    expect(diff.regions.changed).toEqual([{ id: 'region-1', fields: ['notes'] }]);
+    expect(diff.markers.added).toEqual(['marker-1']);
+  });
+});
@@ -0,0 +1,176 @@
+/**
+ * Unit Tests for RelayBroadcastSink and the StreamingStrategy relay hub
+ * Tests init segment replay for late joiners, per-listener backpressure with drop-oldest
+ * queues, the end notice and health reporting
+ */
+import type { Socket } from 'socket.io';
+import { RelayBroadcastSink } from '../../../src/services/broadcast/RelayBroadcastSink';
+import {
+  StreamingStrategy,
+  findWebmClusterStart,
+} from '../../../src/domains/real-time-communication/infrastructure/strategies/StreamingStrategy';
+import { UserRole } from '../../../src/domains/real-time-communication/domain/models/Connection';
+
+const CLUSTER = [0x1f, 0x43, 0xb6, 0x75];
+// EBML header and tracks, then the start of the first cluster
+const HEADER = [0x1a, 0x45, 0xdf, 0xa3, 0x01, 0x02];
+const firstChunk = Buffer.from([...HEADER, ...CLUSTER, 0x10]);
+const media = (byte: number) => Buffer.from([byte, byte]);
+const clusterChunk = (byte: number) => Buffer.from([byte, ...CLUSTER, byte]);
+
+interface FakeSocket {
+  socket: Socket;
+  events: Array<{ event: string; data: any }>;
+  // Acknowledge the oldest unacknowledged chunk
+  ack: () => void;
+  disconnect: () => void;
+}
+
+const createSocket = (autoAck = true): FakeSocket => {
+  const events: Array<{ event: string; data: any }> = [];
+  const pendingAcks: Array<(err: Error | null) => void> = [];
+  const disconnectHandlers: Array<() => void> = [];
+  const socket = {
+    emit: (event: string, data: any) => {
+      events.push({ event, data });
+      return true;
+    },
+    timeout: () => ({
+      emit: (event: string, data: any, ack: (err: Error | null) => void) => {
+        events.push({ event, data });
+        if (autoAck) {
+          ack(null);
+        } else {
+          pendingAcks.push(ack);
+        }
+        return true;
+      },
+    }),
+    once: (event: string, handler: () => void) => {
+      if (event === 'disconnect') {
+        disconnectHandlers.push(handler);
+      }
+    },
+  } as unknown as Socket;
+  return {
+    socket,
+    events,
+    ack: () => pendingAcks.shift()?.(null),
+    disconnect: () => disconnectHandlers.forEach((handler) => handler()),
+  };
+};
+
+const chunkSeqs = (events: FakeSocket['events']) =>
+  events.filter(({ event }) => event === 'broadcast_relay_chunk').map(({ data }) => data.seq);
+
+describe('findWebmClusterStart', () => {
+  it('finds the first cluster element', () => {
+    expect(findWebmClusterStart(firstChunk)).toBe(HEADER.length);
+    expect(findWebmClusterStart(media(1))).toBe(-1);
+  });
+});
+
+describe('RelayBroadcastSink', () => {
+  let relay: StreamingStrategy;
+  let sink: RelayBroadcastSink;
+
+  beforeEach(() => {
+    relay = new StreamingStrategy('room-1', {
+      maxInFlightChunks: 2,
+      maxQueuedChunks: 3,
+      ackTimeoutMs: 1000,
+      maxInitSegmentBytes: 1024,
+    });
+    sink = new RelayBroadcastSink(relay, 'owner-1');
+  });
+
+  it('sends the init segment, then media, to listeners present when the broadcast starts', async () => {
+    const listener = createSocket();
+    await relay.connect('audience-1', UserRole.AUDIENCE, listener.socket);
+
+    sink.write(firstChunk);
+    sink.write(media(2));
+
+    expect(listener.events.map(({ event }) => event)).toEqual([
+      'broadcast_relay_init',
+      'broadcast_relay_chunk',
+      'broadcast_relay_chunk',
+    ]);
+    expect(listener.events[0]!.data.chunk).toEqual(Buffer.from(HEADER));
+    expect(listener.events[1]!.data).toEqual({ seq: 0, chunk: Buffer.from([...CLUSTER, 0x10]) });
+    expect(listener.events[2]!.data).toEqual({ seq: 1, chunk: media(2) });
+  });
+
+  it('replays the init segment to late joiners and starts them at the next cluster', async () => {
+    sink.write(firstChunk);
+    sink.write(media(2));
+
+    const lateJoiner = createSocket();
+    await relay.connect('audience-2', UserRole.AUDIENCE, lateJoiner.socket);
+    sink.write(media(3));
+    sink.write(clusterChunk(4));
+    sink.write(media(5));
+
+    expect(lateJoiner.events[0]).toEqual({ event: 'broadcast_relay_init', data: { chunk: Buffer.from(HEADER) } });
+    expect(lateJoiner.events.slice(1).map(({ data }) => data)).toEqual([
+      { seq: 3, chunk: Buffer.from([...CLUSTER, 4]) },
+      { seq: 4, chunk: media(5) },
+    ]);
+  });
+
+  it('drops the oldest queued chunks of a listener that stops acknowledging', async () => {
+    const slow = createSocket(false);
+    const fast = createSocket();
+    await relay.connect('audience-slow', UserRole.AUDIENCE, slow.socket);
+    await relay.connect('audience-fast', UserRole.AUDIENCE, fast.socket);
+
+    sink.write(firstChunk);
+    for (let byte = 1; byte <= 6; byte += 1) {
+      sink.write(media(byte));
+    }
+
+    // Two chunks in flight, three queued: seqs 2 and 3 were dropped for the newest ones
+    expect(chunkSeqs(slow.events)).toEqual([0, 1]);
+    expect(chunkSeqs(fast.events)).toEqual([0, 1, 2, 3, 4, 5, 6]);
+
+    slow.ack();
+    slow.ack();
+    expect(chunkSeqs(slow.events)).toEqual([0, 1, 4, 5]);
+
+    expect(sink.getHealth()).toEqual({
+      sink: 'relay',
+      healthy: true,
+      bytesWritten: firstChunk.length + 12,
+      chunksDropped: 2,
+      lastError: null,
+      details: { listeners: 2 },
+    });
+  });
+
+  it('tells listeners the broadcast ended after their queued chunks', async () => {
+    const slow = createSocket(false);
+    await relay.connect('audience-1', UserRole.AUDIENCE, slow.socket);
+
+    sink.write(firstChunk);
+    sink.write(media(2));
+    sink.write(media(3));
+    await sink.stop();
+
+    expect(slow.events.map(({ event }) => event)).not.toContain('broadcast_relay_ended');
+
+    slow.ack();
+    slow.ack();
+    slow.ack();
+    expect(slow.events[slow.events.length - 1]).toEqual({ event: 'broadcast_relay_ended', data: { seq: 3 } });
+  });
+
+  it('unsubscribes listeners whose socket disconnects', async () => {
+    const listener = createSocket();
+    await relay.connect('audience-1', UserRole.AUDIENCE, listener.socket);
+
+    listener.disconnect();
+    await Promise.resolve();
+
+    expect(relay.getSubscriberCount()).toBe(0);
+  });
+});
@@ -0,0 +1,51 @@
+/**
+ * Unit Tests for RoomBanService
+ * Tests temporary and permanent bans by user id and address, unbanning and kick history
+ */
+import { RoomBanService, getBanMessage, toRoomBanInfo } from '../../../src/services/RoomBanService';
+
+describe('RoomBanService', () => {
+  it('keeps banned users out by id or address until the ban expires or is lifted', () => {
+    const service = new RoomBanService();
+    service.ban('room-1', { userId: 'user-1', username: 'Spammer', ip: '10.0.0.1', bannedBy: 'owner' }, 0);
+    service.ban('room-1', { userId: 'user-2', bannedBy: 'owner', durationSec: 600, reason: 'Cool off' }, 0);
+
+    expect(service.findBan('room-1', 'user-1', undefined, 1000)).toMatchObject({ userId: 'user-1', expiresAt: null });
+    // A new guest id from the same address is still banned
+    expect(service.findBan('room-1', 'guest-new', '10.0.0.1', 1000)?.userId).toBe('user-1');
+    expect(service.findBan('room-1', 'guest-new', '10.0.0.2', 1000)).toBeNull();
+    expect(service.findBan('room-2', 'user-1', '10.0.0.1', 1000)).toBeNull();
+
+    expect(service.findBan('room-1', 'user-2', undefined, 599999)?.expiresAt).toBe(600000);
+    expect(service.findBan('room-1', 'user-2', undefined, 600000)).toBeNull();
+    expect(service.getBans('room-1', 600000).map((ban) => ban.userId)).toEqual(['user-1']);
+
+    expect(service.unban('room-1', 'user-1', 700000)?.userId).toBe('user-1');
+    expect(service.unban('room-1', 'user-1', 700000)).toBeNull();
+    expect(service.findBan('room-1', 'guest-new', '10.0.0.1', 700000)).toBeNull();
+  });
+
+  it('describes bans without exposing addresses', () => {
+    const service = new RoomBanService();
+    const permanent = service.ban('room-1', { userId: 'user-1', ip: '10.0.0.1', bannedBy: 'owner' }, 0);
+    const temporary = service.ban('room-1', { userId: 'user-2', bannedBy: 'owner', durationSec: 60 }, 0);
+
+    expect(getBanMessage(permanent)).toBe('You are banned from this room');
+    expect(getBanMessage(temporary)).toBe('You are banned from this room until 1970-01-01T00:01:00.000Z');
+    expect(toRoomBanInfo(permanent)).toEqual({ userId: 'user-1', bannedBy: 'owner', bannedAt: 0, expiresAt: null, ipBanned: true });
+  });
+
+  it('keeps the latest kicks per room', () => {
+    const service = new RoomBanService();
+    for (let n = 1; n <= 105; n += 1) {
+      service.recordKick('room-1', { userId: `user-${n}`, username: `User ${n}`, kickedBy: 'owner', kickedAt: n, banned: false });
+    }
+
+    const history = service.getKickHistory('room-1');
+    expect(history).toHaveLength(100);
+    expect(history[0]?.userId).toBe('user-6');
+
+    service.clearRoom('room-1');
+    expect(service.getKickHistory('room-1')).toEqual([]);
+  });
+});
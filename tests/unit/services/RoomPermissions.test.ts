@@ -0,0 +1,66 @@
+/**
+ * Unit Tests for RoomPermissions
+ * Tests the default permission matrix, per-room overrides and who may act on whom
+ */
+import { canModerateMember, hasRoomCapability, withRoleCapabilities } from '../../../src/services/RoomPermissions';
+import type { Room, RoomRole } from '../../../src/types';
+
+const member = (id: string, role: RoomRole) => [id, { id, username: id, role, isReady: true }] as const;
+
+const createRoom = (): Room => ({
+  id: 'room-1',
+  name: 'Room',
+  roomType: 'perform',
+  owner: 'owner',
+  users: new Map([
+    member('owner', 'room_owner'),
+    member('cohost', 'co_host'),
+    member('player', 'band_member'),
+    member('listener', 'audience'),
+  ]),
+  pendingMembers: new Map(),
+  isPrivate: false,
+  isHidden: false,
+  createdAt: new Date(0),
+  metronome: { bpm: 120, lastTickTimestamp: 0 },
+});
+
+describe('RoomPermissions', () => {
+  it('grants capabilities by role, with everything for the owner', () => {
+    const room = createRoom();
+
+    expect(hasRoomCapability(room, 'owner', 'broadcast')).toBe(true);
+    expect(hasRoomCapability(room, 'cohost', 'approve')).toBe(true);
+    expect(hasRoomCapability(room, 'cohost', 'kick')).toBe(true);
+    expect(hasRoomCapability(room, 'cohost', 'broadcast')).toBe(false);
+    expect(hasRoomCapability(room, 'player', 'metronome')).toBe(true);
+    expect(hasRoomCapability(room, 'player', 'arrange_structure')).toBe(true);
+    expect(hasRoomCapability(room, 'player', 'kick')).toBe(false);
+    expect(hasRoomCapability(room, 'listener', 'metronome')).toBe(false);
+    expect(hasRoomCapability(room, 'stranger', 'metronome')).toBe(false);
+  });
+
+  it('applies the room permission matrix once a role is changed', () => {
+    const room = createRoom();
+    room.permissions = withRoleCapabilities(room, 'co_host', ['broadcast', 'approve', 'approve']);
+
+    expect(room.permissions.co_host).toEqual(['approve', 'broadcast']);
+    expect(hasRoomCapability(room, 'cohost', 'broadcast')).toBe(true);
+    expect(hasRoomCapability(room, 'cohost', 'kick')).toBe(false);
+    expect(hasRoomCapability(room, 'player', 'metronome')).toBe(true);
+
+    room.permissions = withRoleCapabilities(room, 'band_member', []);
+    expect(hasRoomCapability(room, 'player', 'metronome')).toBe(false);
+    expect(hasRoomCapability(room, 'owner', 'metronome')).toBe(true);
+  });
+
+  it('leaves co-hosts to the owner and the owner to nobody', () => {
+    const room = createRoom();
+
+    expect(canModerateMember(room, 'cohost', 'player')).toBe(true);
+    expect(canModerateMember(room, 'cohost', 'cohost')).toBe(false);
+    expect(canModerateMember(room, 'owner', 'cohost')).toBe(true);
+    expect(canModerateMember(room, 'cohost', 'owner')).toBe(false);
+    expect(canModerateMember(room, 'owner', 'owner')).toBe(false);
+  });
+});
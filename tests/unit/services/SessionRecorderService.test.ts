@@ -0,0 +1,149 @@
+/**
+ * Unit Tests for SessionRecorderService and SessionRecordingArrangement
+ * Tests capturing perform room events, replaying them on their timeline and converting them to tracks
+ */
+import { SessionRecorderService, type SessionRecordingEvent } from '../../../src/services/SessionRecorderService';
+import { RoomService } from '../../../src/services/RoomService';
+import { RoomSessionManager } from '../../../src/services/RoomSessionManager';
+import {
+  convertSessionRecordingToArrangement,
+  noteNameToPitch,
+} from '../../../src/domains/arrange-room/domain/services/SessionRecordingArrangement';
+
+describe('SessionRecorderService - Unit Tests', () => {
+  let now: number;
+  let recorder: SessionRecorderService;
+  let roomService: RoomService;
+  let roomId: string;
+
+  const alice = { id: 'alice', username: 'Alice' };
+  const bob = { id: 'bob', username: 'Bob' };
+
+  beforeEach(() => {
+    now = 1_000_000;
+    jest.spyOn(Date, 'now').mockImplementation(() => now);
+    recorder = new SessionRecorderService(5, 60_000);
+    roomService = new RoomService(new RoomSessionManager());
+    roomId = roomService.createRoom('Jam', 'Alice', 'alice', false, false).room.id;
+    roomService.updateUserInstrument(roomId, 'alice', 'grand_piano', 'melodic');
+  });
+
+  afterEach(() => {
+    roomService.deleteRoom(roomId);
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  it('should record timestamped events per user only while recording', () => {
+    recorder.record(roomId, 'note', alice, { notes: ['C4'], eventType: 'note_on' });
+    expect(recorder.start(roomService.getRoom(roomId)!, 'alice')).toBe(true);
+    expect(recorder.start(roomService.getRoom(roomId)!, 'alice')).toBe(false);
+
+    now += 250;
+    recorder.record(roomId, 'note', bob, { notes: ['E4'], eventType: 'note_on' });
+    now += 250;
+    recorder.record(roomId, 'metronome', null, { bpm: 100 });
+
+    const recording = recorder.stop(roomId);
+    expect(recording?.durationMs).toBe(500);
+    expect(recording?.events.map(({ t, type, userId }) => [t, type, userId])).toEqual([
+      // Current instruments are captured when the recording starts
+      [0, 'instrument', 'alice'],
+      [250, 'note', 'bob'],
+      [500, 'metronome', undefined],
+    ]);
+    expect(recording?.performers).toEqual([
+      { userId: 'alice', username: 'Alice' },
+      { userId: 'bob', username: 'Bob' },
+    ]);
+    expect(recorder.isRecording(roomId)).toBe(false);
+  });
+
+  it('should stop capturing and flag the recording once the event limit is reached', () => {
+    recorder.start(roomService.getRoom(roomId)!, 'alice');
+    for (let i = 0; i < 10; i++) {
+      recorder.record(roomId, 'note', alice, { notes: ['C4'], eventType: i % 2 ? 'note_off' : 'note_on' });
+    }
+
+    const recording = recorder.stop(roomId);
+    expect(recording?.events).toHaveLength(5);
+    expect(recording?.truncated).toBe(true);
+  });
+
+  it('should replay events on their original timeline until stopped', () => {
+    jest.useFakeTimers({ now });
+    jest.spyOn(Date, 'now').mockImplementation(() => jest.now());
+    const events: SessionRecordingEvent[] = [
+      { t: 0, type: 'note', userId: 'alice', data: { notes: ['C4'] } },
+      { t: 100, type: 'note', userId: 'alice', data: { notes: ['D4'] } },
+      { t: 300, type: 'note', userId: 'alice', data: { notes: ['E4'] } },
+    ];
+    const played: unknown[] = [];
+    const onFinished = jest.fn();
+
+    recorder.startReplay(roomId, { events }, (event) => played.push(event.data.notes), onFinished);
+    expect(played).toEqual([['C4']]);
+
+    jest.advanceTimersByTime(150);
+    expect(played).toEqual([['C4'], ['D4']]);
+    expect(recorder.stopReplay(roomId)).toBe(true);
+
+    jest.advanceTimersByTime(500);
+    expect(played).toHaveLength(2);
+    expect(onFinished).not.toHaveBeenCalled();
+
+    recorder.startReplay(roomId, { events }, () => {}, onFinished);
+    jest.advanceTimersByTime(300);
+    expect(onFinished).toHaveBeenCalledTimes(1);
+    expect(recorder.isReplaying(roomId)).toBe(false);
+  });
+});
+
+describe('SessionRecordingArrangement - Unit Tests', () => {
+  it('should parse scientific pitch names', () => {
+    expect(noteNameToPitch('C4')).toBe(60);
+    expect(noteNameToPitch('F#3')).toBe(54);
+    expect(noteNameToPitch('Bb-1')).toBe(10);
+    expect(noteNameToPitch('kick')).toBeNull();
+  });
+
+  it('should convert each performer into a MIDI track with notes and sustain in beats', () => {
+    // At 120 BPM one beat is 500ms
+    const arrangement = convertSessionRecordingToArrangement({
+      bpm: 120,
+      durationMs: 2500,
+      performers: [
+        { userId: 'alice', username: 'Alice' },
+        { userId: 'bob', username: 'Bob' },
+        { userId: 'carol', username: 'Carol' },
+      ],
+      events: [
+        { t: 0, type: 'instrument', userId: 'alice', data: { instrument: 'grand_piano', category: 'melodic' } },
+        { t: 0, type: 'synth_params', userId: 'bob', data: { params: { cutoff: 0.5 } } },
+        { t: 0, type: 'note', userId: 'alice', data: { notes: ['C4', 'E4'], velocity: 0.5, eventType: 'note_on' } },
+        { t: 500, type: 'sustain', userId: 'alice', data: { eventType: 'sustain_on' } },
+        { t: 1000, type: 'note', userId: 'alice', data: { notes: ['C4'], eventType: 'note_off' } },
+        { t: 1500, type: 'sustain', userId: 'alice', data: { eventType: 'sustain_off' } },
+        { t: 1000, type: 'note', userId: 'bob', data: { notes: ['A2'], velocity: 1, eventType: 'note_on' } },
+        { t: 1000, type: 'metronome', data: { bpm: 90 } },
+        // Carol never played a note, so she gets no track
+        { t: 1200, type: 'instrument', userId: 'carol', data: { instrument: 'bass', category: 'melodic' } },
+      ],
+    });
+
+    expect(arrangement.tracks.map((track) => [track.name, track.instrumentId])).toEqual([
+      ['Alice', 'grand_piano'],
+      ['Bob', undefined],
+    ]);
+    const [aliceRegion, bobRegion] = arrangement.regions;
+    expect(aliceRegion?.length).toBe(8);
+    expect(aliceRegion?.notes.map(({ pitch, velocity, start, duration }) => [pitch, velocity, start, duration])).toEqual([
+      [60, 64, 0, 2],
+      // Still held when the recording stopped
+      [64, 64, 0, 5],
+    ]);
+    expect(aliceRegion?.sustainEvents.map(({ start, end }) => [start, end])).toEqual([[1, 3]]);
+    expect(bobRegion?.notes.map(({ pitch, velocity, start }) => [pitch, velocity, start])).toEqual([[45, 127, 2]]);
+    expect(arrangement.synthStates[arrangement.tracks[1]!.id]).toEqual({ cutoff: 0.5 });
+  });
+});
@@ -0,0 +1,162 @@
+/**
+ * Unit Tests for StandardMidiFile
+ * Tests SMF export of arrangements and the round trip back into tracks and regions
+ */
+import {
+  decodeMidiToArrangement,
+  encodeArrangementToMidi,
+  MidiFileFormatError,
+  type MidiArrangement,
+} from '../../../src/domains/arrange-room/domain/services/StandardMidiFile';
+import type { MidiRegion, Track } from '../../../src/domains/arrange-room/domain/models/ArrangeRoomState';
+
+const createTrack = (id: string, overrides: Partial<Track> = {}): Track => ({
+  id,
+  name: id,
+  type: 'midi',
+  volume: 1,
+  pan: 0,
+  mute: false,
+  solo: false,
+  color: '#fff',
+  regionIds: [],
+  ...overrides,
+});
+
+const createRegion = (id: string, trackId: string, overrides: Partial<MidiRegion> = {}): MidiRegion => ({
+  id,
+  trackId,
+  name: id,
+  type: 'midi',
+  start: 4,
+  length: 4,
+  loopEnabled: false,
+  loopIterations: 1,
+  notes: [],
+  sustainEvents: [],
+  ...overrides,
+});
+
+const createArrangement = (overrides: Partial<MidiArrangement> = {}): MidiArrangement => ({
+  name: 'Song',
+  tracks: [createTrack('keys', { name: 'Keys' })],
+  regions: [
+    createRegion('region-1', 'keys', {
+      notes: [
+        { id: 'n1', pitch: 60, velocity: 100, start: 0, duration: 1 },
+        { id: 'n2', pitch: 64, velocity: 90, start: 1.5, duration: 0.5 },
+      ],
+      sustainEvents: [{ id: 's1', start: 0, end: 2 }],
+    }),
+  ],
+  bpm: 96,
+  timeSignature: { numerator: 3, denominator: 4 },
+  markers: [{ id: 'm1', position: 6, description: 'Chorus' }],
+  ...overrides,
+});
+
+// A format 0 file with a single track holding the given events (delta time included) and end of track
+const createMidiFile = (events: number[]): Buffer => {
+  const track = [...events, 0x00, 0xff, 0x2f, 0x00];
+  const header = Buffer.from([0x4d, 0x54, 0x68, 0x64, 0, 0, 0, 6, 0, 0, 0, 1, 0x01, 0xe0]);
+  const trackHeader = Buffer.from([0x4d, 0x54, 0x72, 0x6b, 0, 0, 0, track.length]);
+  return Buffer.concat([header, trackHeader, Buffer.from(track)]);
+};
+
+describe('StandardMidiFile - Unit Tests', () => {
+  it('should write a Type-1 file with a conductor track', () => {
+    const midi = encodeArrangementToMidi(createArrangement());
+
+    expect(midi.toString('ascii', 0, 4)).toBe('MThd');
+    expect(midi.readUInt16BE(8)).toBe(1);
+    expect(midi.readUInt16BE(10)).toBe(2);
+  });
+
+  it('should round trip notes, sustain, tempo, time signature and markers', () => {
+    const imported = decodeMidiToArrangement(encodeArrangementToMidi(createArrangement()));
+
+    expect(imported.bpm).toBe(96);
+    expect(imported.timeSignature).toEqual({ numerator: 3, denominator: 4 });
+    expect(imported.markers.map(({ position, description }) => ({ position, description }))).toEqual([
+      { position: 6, description: 'Chorus' },
+    ]);
+
+    expect(imported.tracks).toHaveLength(1);
+    expect(imported.tracks[0]!.name).toBe('Keys');
+    expect(imported.tracks[0]!.regionIds).toEqual([imported.regions[0]!.id]);
+
+    // Regions are aligned to 3/4 bars, so the notes at beat 4 land one beat into a region at beat 3
+    const region = imported.regions[0]!;
+    expect(region.start).toBe(3);
+    expect(region.notes.map(({ pitch, velocity, start, duration }) => ({ pitch, velocity, start, duration }))).toEqual([
+      { pitch: 60, velocity: 100, start: 1, duration: 1 },
+      { pitch: 64, velocity: 90, start: 2.5, duration: 0.5 },
+    ]);
+    expect(region.sustainEvents.map(({ start, end }) => ({ start, end }))).toEqual([{ start: 1, end: 3 }]);
+  });
+
+  it('should repeat looped regions and clip notes to the region bounds', () => {
+    const arrangement = createArrangement({
+      timeSignature: { numerator: 4, denominator: 4 },
+      regions: [
+        createRegion('region-1', 'keys', {
+          start: 0,
+          length: 2,
+          loopEnabled: true,
+          loopIterations: 2,
+          notes: [{ id: 'n1', pitch: 60, velocity: 100, start: 1, duration: 4 }],
+        }),
+      ],
+    });
+
+    const { regions } = decodeMidiToArrangement(encodeArrangementToMidi(arrangement));
+    expect(regions[0]!.notes.map(({ start, duration }) => ({ start, duration }))).toEqual([
+      { start: 1, duration: 1 },
+      { start: 3, duration: 1 },
+    ]);
+  });
+
+  it('should export drum tracks on channel 10 and import them as drums', () => {
+    const arrangement = createArrangement({
+      tracks: [createTrack('drums', { instrumentCategory: 'drum_beat' })],
+      regions: [
+        createRegion('region-1', 'drums', {
+          notes: [{ id: 'n1', pitch: 36, velocity: 127, start: 0, duration: 0.25 }],
+        }),
+      ],
+    });
+
+    const { tracks } = decodeMidiToArrangement(encodeArrangementToMidi(arrangement));
+    expect(tracks[0]!.instrumentCategory).toBe('drums');
+  });
+
+  it('should reject data that is not a Standard MIDI File', () => {
+    expect(() => decodeMidiToArrangement(Buffer.from('not a midi file'))).toThrow(MidiFileFormatError);
+  });
+
+  it('should reject a tempo of zero microseconds per beat', () => {
+    expect(() => decodeMidiToArrangement(createMidiFile([0x00, 0xff, 0x51, 0x03, 0x00, 0x00, 0x00]))).toThrow(
+      MidiFileFormatError
+    );
+  });
+
+  it('should reject a time signature with zero beats per bar', () => {
+    expect(() => decodeMidiToArrangement(createMidiFile([0x00, 0xff, 0x58, 0x04, 0x00, 0x02, 24, 8]))).toThrow(
+      MidiFileFormatError
+    );
+  });
+
+  it('should clamp tempo and time signature to the ranges the room accepts', () => {
+    const imported = decodeMidiToArrangement(
+      createMidiFile([
+        // One microsecond per beat, 99/2^200
+        ...[0x00, 0xff, 0x51, 0x03, 0x00, 0x00, 0x01],
+        ...[0x00, 0xff, 0x58, 0x04, 99, 200, 24, 8],
+      ])
+    );
+
+    expect(imported.bpm).toBe(300);
+    expect(imported.timeSignature).toEqual({ numerator: 32, denominator: 16 });
+    expect(decodeMidiToArrangement(createMidiFile([0x00, 0xff, 0x51, 0x03, 0xff, 0xff, 0xff])).bpm).toBe(40);
+  });
+});